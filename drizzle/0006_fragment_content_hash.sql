@@ -0,0 +1,12 @@
+ALTER TABLE "source_fragments"
+ADD COLUMN IF NOT EXISTS "content_hash" text;
+
+UPDATE "source_fragments"
+SET "content_hash" = encode(sha256(convert_to("content", 'UTF8')), 'hex')
+WHERE "content_hash" IS NULL;
+
+ALTER TABLE "source_fragments"
+ALTER COLUMN "content_hash" SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS "source_fragments_source_content_hash_idx"
+ON "source_fragments" ("source_id", "content_hash");
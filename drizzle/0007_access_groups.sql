@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "access_groups" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text NOT NULL DEFAULT '',
+	"categories" text[] NOT NULL DEFAULT '{}'::text[],
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	"updated_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "access_groups_name_idx" ON "access_groups" ("name");
+
+CREATE TABLE IF NOT EXISTS "user_access_groups" (
+	"user_id" uuid NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"group_id" uuid NOT NULL REFERENCES "access_groups"("id") ON DELETE CASCADE,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	PRIMARY KEY ("user_id", "group_id")
+);
+
+CREATE INDEX IF NOT EXISTS "user_access_groups_group_id_idx" ON "user_access_groups" ("group_id");
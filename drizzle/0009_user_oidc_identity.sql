@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "oidc_issuer" text;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "oidc_subject" text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "users_oidc_identity_idx" ON "users" ("oidc_issuer", "oidc_subject") WHERE "oidc_subject" IS NOT NULL;
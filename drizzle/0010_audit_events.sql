@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action" text NOT NULL,
+	"outcome" text NOT NULL DEFAULT 'success',
+	"actor_user_id" uuid REFERENCES "users"("id") ON DELETE SET NULL,
+	"actor_email" text,
+	"ip" text,
+	"target_type" text NOT NULL,
+	"target_id" text,
+	"summary" jsonb NOT NULL DEFAULT '{}'::jsonb,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "audit_events_created_at_idx" ON "audit_events" ("created_at");
+CREATE INDEX IF NOT EXISTS "audit_events_action_created_at_idx" ON "audit_events" ("action", "created_at");
+CREATE INDEX IF NOT EXISTS "audit_events_actor_user_id_idx" ON "audit_events" ("actor_user_id");
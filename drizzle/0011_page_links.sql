@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "page_links" (
+	"source_id" uuid NOT NULL REFERENCES "sources"("id") ON DELETE CASCADE,
+	"target_slug" text NOT NULL,
+	"kind" text NOT NULL,
+	"link_text" text NOT NULL,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	PRIMARY KEY ("source_id", "target_slug")
+);
+
+CREATE INDEX IF NOT EXISTS "page_links_target_slug_idx" ON "page_links" ("target_slug");
@@ -0,0 +1,2 @@
+ALTER TABLE "source_fragments"
+ADD COLUMN IF NOT EXISTS "search_tokenizer" text;
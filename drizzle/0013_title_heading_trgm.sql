@@ -0,0 +1,3 @@
+CREATE INDEX IF NOT EXISTS "sources_title_trgm_idx" ON "sources" USING gin ("title" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "source_fragments_heading_trgm_idx" ON "source_fragments" USING gin ("heading" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS "source_fragments_metadata_trgm_idx" ON "source_fragments" USING gin (("metadata"::text) gin_trgm_ops);
@@ -40,6 +40,16 @@ describe("readAppEnv", () => {
 		expect(env.openAiAgenticSearchMaxToolCalls).toBe(10);
 		expect(env.openAiAgenticSearchMaxFetchCalls).toBe(3);
 		expect(env.openAiAgenticSearchMaxContextChars).toBe(50000);
+		expect(env.openAiAgenticSearchMaxHistoryTokens).toBe(8000);
+		expect(env.chunkingStrategyByCategory).toEqual({});
+		expect(env.hybridSearchParamsByCategory).toEqual({});
+		expect(env.graphExpansion).toEqual({ seedCount: 3, charBudget: 2000 });
+		expect(env.freshness).toEqual({
+			halfLifeDays: 180,
+			minWeight: 0.5,
+			staleAfterDays: 365,
+		});
+		expect(env.searchTokenizer).toBe("tinysegmenter");
 	});
 
 	it("parses API secrets and keeps non-secret settings in shared defaults", () => {
@@ -145,4 +155,31 @@ describe("readAppEnv", () => {
 		expect(env.braveSearchApiKey).toBeUndefined();
 		expect(env.openAiBaseUrl).toBeUndefined();
 	});
+
+	it("reads OIDC client settings from env and the rest from app defaults", () => {
+		expect(readAppEnv({}).oidc).toBeNull();
+
+		const env = readAppEnv({
+			APP_URL: "https://rag.example.com",
+			OIDC_ISSUER: "https://login.example.com/realms/corp/",
+			OIDC_CLIENT_ID: "regular-rag",
+			OIDC_CLIENT_SECRET: " secret ",
+			// シークレット以外の設定は環境変数からは読まない
+			OIDC_AUTO_PROVISION: "false",
+		});
+		expect(env.oidc).toEqual({
+			issuer: "https://login.example.com/realms/corp",
+			clientId: "regular-rag",
+			clientSecret: "secret",
+			redirectUri: "https://rag.example.com/api/auth/oidc/callback",
+			scopes: APP_CONFIG_DEFAULTS.oidcScopes,
+			roleClaim: APP_CONFIG_DEFAULTS.oidcRoleClaim,
+			adminClaimValues: APP_CONFIG_DEFAULTS.oidcAdminClaimValues,
+			autoProvision: APP_CONFIG_DEFAULTS.oidcAutoProvision,
+			displayName: APP_CONFIG_DEFAULTS.oidcDisplayName,
+		});
+		expect(() =>
+			readAppEnv({ OIDC_ISSUER: "https://login.example.com" }),
+		).toThrow("OIDC_ISSUER requires OIDC_CLIENT_ID.");
+	});
 });
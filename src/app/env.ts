@@ -2,6 +2,10 @@ import path from "node:path";
 import { z } from "zod";
 import { APP_CONFIG_DEFAULTS } from "../config/appDefaults";
 import { AGENTIC_SEARCH_DEFAULTS } from "../modules/agentic-search/constants";
+import type { OidcConfig } from "../modules/auth/types";
+import type { FreshnessParams } from "../modules/rag/freshness";
+import type { HybridSearchOverrides } from "../modules/rag/hybrid-params";
+import type { SearchTokenizerName } from "../modules/sources/search/tokenizer";
 
 const optionalTrimmedString = z.preprocess((value) => {
 	if (typeof value !== "string") return value;
@@ -67,6 +71,10 @@ const EnvSchema = z.object({
 	AZURE_OPENAI_API_KEY: optionalTrimmedString,
 	AZURE_OPENAI_DEPLOYMENT: optionalTrimmedString,
 	AZURE_OPENAI_EMBEDDINGS_DEPLOYMENT: optionalTrimmedString,
+	OIDC_ISSUER: optionalUrl,
+	OIDC_CLIENT_ID: optionalTrimmedString,
+	OIDC_CLIENT_SECRET: optionalTrimmedString,
+	OIDC_REDIRECT_URI: optionalUrl,
 	JWT_SECRET: z.preprocess((value) => {
 		if (typeof value !== "string") return value;
 		const trimmed = value.trim();
@@ -98,6 +106,7 @@ export type AppEnv = {
 	openAiAgenticSearchMaxToolCalls: number;
 	openAiAgenticSearchMaxFetchCalls: number;
 	openAiAgenticSearchMaxContextChars: number;
+	openAiAgenticSearchMaxHistoryTokens: number;
 	azureOpenAiEndpoint?: string;
 	azureOpenAiApiKey?: string;
 	azureOpenAiDeployment: string;
@@ -112,6 +121,12 @@ export type AppEnv = {
 	secureCookie: boolean;
 	cookieSameSite: "lax" | "strict" | "none";
 	securityHeadersMode: "auto" | "http" | "https";
+	chunkingStrategyByCategory: Record<string, string>;
+	hybridSearchParamsByCategory: Record<string, HybridSearchOverrides>;
+	graphExpansion: { seedCount: number; charBudget: number };
+	freshness: FreshnessParams;
+	searchTokenizer: SearchTokenizerName;
+	oidc: OidcConfig | null;
 };
 
 function normalizeOpenAiBaseUrl(baseUrl?: string): string | undefined {
@@ -172,6 +187,30 @@ function parseCorsOrigins(value?: string): string[] | undefined {
 	return origins?.length ? origins : undefined;
 }
 
+function readOidcConfig(
+	parsed: z.infer<typeof EnvSchema>,
+	appUrl: string,
+): OidcConfig | null {
+	if (!parsed.OIDC_ISSUER) return null;
+	if (!parsed.OIDC_CLIENT_ID) {
+		throw new Error("OIDC_ISSUER requires OIDC_CLIENT_ID.");
+	}
+	const scopes = APP_CONFIG_DEFAULTS.oidcScopes;
+	return {
+		issuer: parsed.OIDC_ISSUER.replace(/\/+$/, ""),
+		clientId: parsed.OIDC_CLIENT_ID,
+		clientSecret: parsed.OIDC_CLIENT_SECRET,
+		redirectUri:
+			parsed.OIDC_REDIRECT_URI ??
+			new URL("/api/auth/oidc/callback", appUrl).toString(),
+		scopes: scopes.includes("openid") ? [...scopes] : ["openid", ...scopes],
+		roleClaim: APP_CONFIG_DEFAULTS.oidcRoleClaim,
+		adminClaimValues: [...APP_CONFIG_DEFAULTS.oidcAdminClaimValues],
+		autoProvision: APP_CONFIG_DEFAULTS.oidcAutoProvision,
+		displayName: APP_CONFIG_DEFAULTS.oidcDisplayName,
+	};
+}
+
 export function readAppEnv(env: NodeJS.ProcessEnv = process.env): AppEnv {
 	const parsed = EnvSchema.parse(env);
 	const appUrl = parsed.APP_URL ?? APP_CONFIG_DEFAULTS.appUrl;
@@ -245,6 +284,8 @@ export function readAppEnv(env: NodeJS.ProcessEnv = process.env): AppEnv {
 		openAiAgenticSearchMaxToolCalls: AGENTIC_SEARCH_DEFAULTS.maxToolCalls,
 		openAiAgenticSearchMaxFetchCalls: AGENTIC_SEARCH_DEFAULTS.maxFetchCalls,
 		openAiAgenticSearchMaxContextChars: AGENTIC_SEARCH_DEFAULTS.maxContextChars,
+		openAiAgenticSearchMaxHistoryTokens:
+			AGENTIC_SEARCH_DEFAULTS.maxHistoryTokens,
 		azureOpenAiEndpoint: parsed.AZURE_OPENAI_ENDPOINT,
 		azureOpenAiApiKey: parsed.AZURE_OPENAI_API_KEY,
 		azureOpenAiDeployment,
@@ -261,5 +302,12 @@ export function readAppEnv(env: NodeJS.ProcessEnv = process.env): AppEnv {
 		secureCookie,
 		cookieSameSite,
 		securityHeadersMode: parsed.SECURITY_HEADERS_MODE,
+		chunkingStrategyByCategory: APP_CONFIG_DEFAULTS.chunkingStrategyByCategory,
+		hybridSearchParamsByCategory:
+			APP_CONFIG_DEFAULTS.hybridSearchParamsByCategory,
+		graphExpansion: APP_CONFIG_DEFAULTS.graphExpansion,
+		freshness: APP_CONFIG_DEFAULTS.freshness,
+		searchTokenizer: APP_CONFIG_DEFAULTS.searchTokenizer,
+		oidc: readOidcConfig(parsed, appUrl),
 	};
 }
@@ -2,40 +2,59 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { serveStatic } from "@hono/node-server/serve-static";
 import { csrf } from "hono/csrf";
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { HTTPException } from "hono/http-exception";
 import { secureHeaders } from "hono/secure-headers";
 import type { DbConnection } from "../db";
 import { createDbConnection } from "../db";
+import { AccessControlService } from "../modules/access/access-control.service";
+import type { AccessScope } from "../modules/access/access-scope";
+import { QueryPlanner } from "../modules/rag/query-planner";
 import { SourceRetriever } from "../modules/rag/retriever";
+import { AgenticConversationRepository } from "../modules/agentic-search/agentic-conversation.repository";
 import { AgenticSearchService } from "../modules/agentic-search/agentic-search.service";
+import type { AgenticConversationTurn } from "../modules/agentic-search/history";
 import { OpenAiResponsesAdapter } from "../modules/agentic-search/llm/openai-responses-adapter";
-import { AgenticSearchRunner } from "../modules/agentic-search/runner";
+import {
+	type AgenticSearchRunHooks,
+	AgenticSearchRunner,
+} from "../modules/agentic-search/runner";
 import { AgenticToolRegistry } from "../modules/agentic-search/tools/registry";
 import type { AgenticSearchResult } from "../modules/agentic-search/types";
+import { AuditService } from "../modules/audit/audit.service";
+import { ApiTokenService } from "../modules/auth/api-token.service";
 import { AuthService } from "../modules/auth/auth.service";
 import { HttpError } from "../modules/auth/errors";
+import { OidcService } from "../modules/auth/oidc.service";
+import type { ApiTokenScope } from "../modules/auth/types";
 import { SearchEvidenceCollector } from "../modules/rag/search-evidence";
 import { SettingsRepository } from "../modules/settings/settings.repository";
+import type { MetadataFilter } from "../modules/sources/search/metadata-filter";
+import { createSearchTokenizer } from "../modules/sources/search/tokenizer";
 import { SourceRepository } from "../modules/sources/source.repository";
 import {
 	createWikiBlobSyncer,
 	type WikiBlobSyncer,
 } from "../modules/sources/wiki/blob-sync";
 import { readPage } from "../modules/sources/wiki/content-repo";
+import { attachAccessScope } from "../middleware/access-scope";
 import { requireAdmin, requireAuth } from "../middleware/auth";
 import { rateLimiter } from "../middleware/rate-limiter";
 import { createAzureOpenAiProviderFromAppEnv } from "../providers/azureOpenAiProviderFactory";
+import { LlmReranker } from "../providers/LlmReranker";
 import type {
 	EmbeddingProvider,
 	LlmProvider,
 	WebSearchProvider,
 } from "../providers/types";
 import { createConfiguredWebSearchProvider } from "../providers/webSearchProviderFactory";
+import { createAdminAuditRoute } from "../routes/admin-audit.route";
+import { createAdminGroupsRoute } from "../routes/admin-groups.route";
 import { createAdminUsersRoute } from "../routes/admin-users.route";
 import { createAgenticSearchRoute } from "../routes/agentic-search.route";
+import { createApiTokensRoute } from "../routes/api-tokens.route";
 import { createArtifactsRoute } from "../routes/artifacts.route";
 import { createAuthRoute } from "../routes/auth.route";
 import { createChatRoute } from "../routes/chat.route";
@@ -56,19 +75,33 @@ type AppRuntime = {
 	sourceRepository: SourceRepository;
 	retriever: SourceRetriever;
 	evidenceCollector: SearchEvidenceCollector;
+	queryPlanner: QueryPlanner;
 	authService: AuthService;
+	apiTokens: ApiTokenService;
+	oidc: OidcService | null;
+	accessControl: AccessControlService;
+	audit: AuditService;
 	settingsRepository: SettingsRepository;
 	wikiBlobSyncer: WikiBlobSyncer | null;
 	agenticSearchService: {
-		run(input: {
-			query: string;
-			userId: string;
-			topK: number;
-			category?: string;
-		}): Promise<AgenticSearchResult>;
+		run(
+			input: {
+				query: string;
+				userId: string;
+				conversationId?: string;
+				history?: AgenticConversationTurn[];
+				topK: number;
+				category?: string;
+				access?: AccessScope;
+				filter?: MetadataFilter;
+			},
+			hooks?: AgenticSearchRunHooks,
+		): Promise<AgenticSearchResult>;
 	};
 };
 
+const SEARCH_VECTOR_REBUILD_BATCH_SIZE = 200;
+
 function createAgenticLogger(debug: boolean) {
 	return (params: {
 		level: "info" | "debug" | "warn" | "error";
@@ -132,7 +165,12 @@ function isRuntimeShape(value: unknown): value is AppRuntime {
 		Boolean(obj.sourceRepository) &&
 		Boolean(obj.retriever) &&
 		Boolean(obj.evidenceCollector) &&
+		Boolean(obj.queryPlanner) &&
 		Boolean(obj.authService) &&
+		Boolean(obj.apiTokens) &&
+		Object.hasOwn(obj, "oidc") &&
+		Boolean(obj.accessControl) &&
+		Boolean(obj.audit) &&
 		Boolean(obj.settingsRepository) &&
 		Object.hasOwn(obj, "wikiBlobSyncer") &&
 		typeof settingsRepo?.getSystemContextForUser === "function" &&
@@ -165,14 +203,56 @@ async function createRuntime(): Promise<AppRuntime> {
 		);
 	}
 
-	const sourceRepository = new SourceRepository(dbConnection.db, provider);
-	const retriever = new SourceRetriever(sourceRepository, provider);
+	const sourceRepository = new SourceRepository(dbConnection.db, provider, {
+		chunkingStrategyByCategory: env.chunkingStrategyByCategory,
+		searchTokenizer: createSearchTokenizer(env.searchTokenizer),
+	});
+	// トークナイザーを切り替えたあとの古い search_vector は、起動時に裏で作り直す
+	void sourceRepository
+		.rebuildSearchVectors({
+			batchSize: SEARCH_VECTOR_REBUILD_BATCH_SIZE,
+			staleOnly: true,
+		})
+		.then((rebuilt) => {
+			if (rebuilt > 0) {
+				console.log(
+					`[search] rebuilt stale search vectors ${JSON.stringify({ rebuilt })}`,
+				);
+			}
+		})
+		.catch((error: unknown) => {
+			console.error(
+				`[search] search vector rebuild failed ${JSON.stringify({
+					message: error instanceof Error ? error.message : String(error),
+				})}`,
+			);
+		});
+	const retriever = new SourceRetriever(
+		sourceRepository,
+		provider,
+		new LlmReranker(provider),
+		{
+			hybridParamsByCategory: env.hybridSearchParamsByCategory,
+			graphExpansion: env.graphExpansion,
+			freshness: env.freshness,
+		},
+	);
 	const configuredWebSearch = createConfiguredWebSearchProvider(env);
+	const queryPlanner = new QueryPlanner(provider);
 	const evidenceCollector = new SearchEvidenceCollector({
 		retriever,
 		webSearchProvider: configuredWebSearch.provider,
+		queryPlanner,
 	});
 	const authService = new AuthService(dbConnection.db, env);
+	const apiTokens = new ApiTokenService(dbConnection.db);
+	const oidc = env.oidc
+		? new OidcService({ config: env.oidc, authService })
+		: null;
+	const accessControl = new AccessControlService(dbConnection.db);
+	const audit = new AuditService(dbConnection.db, {
+		trustProxy: env.trustProxy,
+	});
 	const settingsRepository = new SettingsRepository(dbConnection.db);
 
 	const agenticLogger = createAgenticLogger(env.openAiAgenticSearchDebug);
@@ -225,12 +305,16 @@ async function createRuntime(): Promise<AppRuntime> {
 						maxToolCalls: env.openAiAgenticSearchMaxToolCalls,
 						maxFetchCalls: env.openAiAgenticSearchMaxFetchCalls,
 						maxContextChars: env.openAiAgenticSearchMaxContextChars,
+						maxHistoryTokens: env.openAiAgenticSearchMaxHistoryTokens,
 					},
 					debug: env.openAiAgenticSearchDebug,
 					log: agenticLogger,
 				});
 				return new AgenticSearchService({
 					settingsRepository,
+					conversationRepository: new AgenticConversationRepository(
+						dbConnection.db,
+					),
 					runner,
 					debug: env.openAiAgenticSearchDebug,
 					log: agenticLogger,
@@ -249,7 +333,12 @@ async function createRuntime(): Promise<AppRuntime> {
 		sourceRepository,
 		retriever,
 		evidenceCollector,
+		queryPlanner,
 		authService,
+		apiTokens,
+		oidc,
+		accessControl,
+		audit,
 		settingsRepository,
 		wikiBlobSyncer,
 		agenticSearchService,
@@ -307,6 +396,10 @@ const secureHeaderOptions = useHttpsSecurityHeaders
 			strictTransportSecurity: false,
 		};
 
+/** Wiki API は参照を search、作成・更新・削除を wiki:write のスコープで許可する */
+const wikiApiTokenScope = (c: Context): ApiTokenScope =>
+	c.req.method === "GET" || c.req.method === "HEAD" ? "search" : "wiki:write";
+
 app.use("*", logger());
 app.use("*", secureHeaders(secureHeaderOptions));
 app.use(
@@ -338,6 +431,14 @@ app.use(
 		trustProxy: runtime.env.trustProxy,
 	}),
 );
+app.use(
+	"/api/auth/oidc/*",
+	rateLimiter({
+		windowMs: 60 * 1000,
+		limit: 20,
+		trustProxy: runtime.env.trustProxy,
+	}),
+);
 app.use(
 	"/api/auth/refresh",
 	rateLimiter({
@@ -417,6 +518,8 @@ app.route(
 	createAuthRoute({
 		authService: runtime.authService,
 		env: runtime.env,
+		oidc: runtime.oidc,
+		audit: runtime.audit,
 	}),
 );
 app.use(
@@ -438,6 +541,10 @@ app.use(
 	requireAuth({
 		env: runtime.env,
 		authService: runtime.authService,
+		apiTokens: {
+			service: runtime.apiTokens,
+			requiredScope: wikiApiTokenScope,
+		},
 	}),
 );
 app.use(
@@ -445,6 +552,10 @@ app.use(
 	requireAuth({
 		env: runtime.env,
 		authService: runtime.authService,
+		apiTokens: {
+			service: runtime.apiTokens,
+			requiredScope: () => "search",
+		},
 	}),
 );
 app.use(
@@ -452,6 +563,10 @@ app.use(
 	requireAuth({
 		env: runtime.env,
 		authService: runtime.authService,
+		apiTokens: {
+			service: runtime.apiTokens,
+			requiredScope: () => "search",
+		},
 	}),
 );
 app.use(
@@ -459,6 +574,10 @@ app.use(
 	requireAuth({
 		env: runtime.env,
 		authService: runtime.authService,
+		apiTokens: {
+			service: runtime.apiTokens,
+			requiredScope: () => "search",
+		},
 	}),
 );
 app.use(
@@ -466,6 +585,10 @@ app.use(
 	requireAuth({
 		env: runtime.env,
 		authService: runtime.authService,
+		apiTokens: {
+			service: runtime.apiTokens,
+			requiredScope: () => "search",
+		},
 	}),
 );
 app.use(
@@ -473,6 +596,10 @@ app.use(
 	requireAuth({
 		env: runtime.env,
 		authService: runtime.authService,
+		apiTokens: {
+			service: runtime.apiTokens,
+			requiredScope: () => "chat",
+		},
 	}),
 );
 app.use(
@@ -480,6 +607,10 @@ app.use(
 	requireAuth({
 		env: runtime.env,
 		authService: runtime.authService,
+		apiTokens: {
+			service: runtime.apiTokens,
+			requiredScope: () => "chat",
+		},
 	}),
 );
 app.use(
@@ -504,10 +635,39 @@ app.use(
 	}),
 );
 app.use("/api/admin/*", requireAdmin());
+for (const scopedPath of [
+	"/api/sources/*",
+	"/api/search",
+	"/api/search/*",
+	"/api/agentic-search",
+	"/api/agentic-search/*",
+	"/api/chat",
+	"/api/chat/*",
+]) {
+	app.use(
+		scopedPath,
+		attachAccessScope({ accessControl: runtime.accessControl }),
+	);
+}
 app.route(
 	"/api/admin",
 	createAdminUsersRoute({
 		authService: runtime.authService,
+		apiTokens: runtime.apiTokens,
+		audit: runtime.audit,
+	}),
+);
+app.route(
+	"/api/admin",
+	createAdminGroupsRoute({
+		accessControl: runtime.accessControl,
+		audit: runtime.audit,
+	}),
+);
+app.route(
+	"/api/admin",
+	createAdminAuditRoute({
+		audit: runtime.audit,
 	}),
 );
 app.route(
@@ -516,6 +676,7 @@ app.route(
 		contentRoot: runtime.env.contentRoot,
 		sourceRepository: runtime.sourceRepository,
 		wikiBlobSyncer: runtime.wikiBlobSyncer,
+		audit: runtime.audit,
 	}),
 );
 app.route(
@@ -525,6 +686,14 @@ app.route(
 		webSearchProvider: runtime.webSearchProvider,
 		webSearchProviderName: runtime.webSearchProviderName,
 		webSearchUnavailableMessage: runtime.webSearchUnavailableMessage,
+		queryPlanner: runtime.queryPlanner,
+		sourceRepository: runtime.sourceRepository,
+	}),
+);
+app.route(
+	"/api/settings/api-tokens",
+	createApiTokensRoute({
+		apiTokens: runtime.apiTokens,
 	}),
 );
 app.route(
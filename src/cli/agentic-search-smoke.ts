@@ -324,6 +324,7 @@ async function runAgenticCheck(
 				maxToolCalls: env.openAiAgenticSearchMaxToolCalls,
 				maxFetchCalls: env.openAiAgenticSearchMaxFetchCalls,
 				maxContextChars: env.openAiAgenticSearchMaxContextChars,
+				maxHistoryTokens: env.openAiAgenticSearchMaxHistoryTokens,
 			},
 			debug: env.openAiAgenticSearchDebug,
 		});
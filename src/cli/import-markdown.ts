@@ -1,5 +1,6 @@
 import { connectDb, createDbConnection } from "../db";
 import { importMarkdownDirectory } from "../modules/sources/markdown-importer.service";
+import { createSearchTokenizer } from "../modules/sources/search/tokenizer";
 import { SourceRepository } from "../modules/sources/source.repository";
 import {
 	ensureContentRoot,
@@ -42,6 +43,10 @@ async function main() {
 		const sourceRepository = new SourceRepository(
 			dbConnection.db,
 			embeddingProvider,
+			{
+				chunkingStrategyByCategory: env.chunkingStrategyByCategory,
+				searchTokenizer: createSearchTokenizer(env.searchTokenizer),
+			},
 		);
 		const result = await importMarkdownDirectory({
 			contentRoot: env.contentRoot,
@@ -12,6 +12,7 @@ import {
 	ensureContentRoot,
 	ensureGitRepo,
 } from "../modules/sources/wiki/content-repo";
+import { createSearchTokenizer } from "../modules/sources/search/tokenizer";
 import { createWikiBlobSyncer } from "../modules/sources/wiki/blob-sync";
 import { createAzureOpenAiProviderFromAppEnv } from "../providers/azureOpenAiProviderFactory";
 import type { EmbeddingProvider } from "../providers/types";
@@ -23,6 +24,7 @@ type CliOptions = {
 	batchSize: number;
 	maxFragments: number;
 	sleepMs: number;
+	rebuildSearchVectors: boolean;
 };
 
 type EmbedPhaseSummary = {
@@ -101,8 +103,13 @@ function parseCliOptions(argv: string[]): CliOptions {
 	let batchSize = DEFAULT_BATCH_SIZE;
 	let maxFragments = 0;
 	let sleepMs = 0;
+	let rebuildSearchVectors = false;
 
 	for (const arg of argv) {
+		if (arg === "--rebuild-search-vectors") {
+			rebuildSearchVectors = true;
+			continue;
+		}
 		if (arg.startsWith("--phase=")) {
 			const value = arg.slice("--phase=".length).trim();
 			if (value !== "fts" && value !== "embed" && value !== "all") {
@@ -140,6 +147,7 @@ function parseCliOptions(argv: string[]): CliOptions {
 		batchSize,
 		maxFragments,
 		sleepMs,
+		rebuildSearchVectors,
 	};
 }
 
@@ -188,6 +196,11 @@ function onMarkdownProgress(event: MarkdownImportProgressEvent): void {
 				`fts skipped empty (${event.index}/${event.total}) ${event.path}`,
 			);
 			return;
+		case "file_skipped_redirect":
+			logProgress(
+				`fts skipped redirect (${event.index}/${event.total}) ${event.path} -> ${event.redirectTo}`,
+			);
+			return;
 		case "cleanup_started":
 			logProgress(`fts cleanup start: keepUris=${event.keepUris}`);
 			return;
@@ -370,7 +383,10 @@ async function main() {
 		provider = new UnconfiguredEmbeddingProvider(providerError);
 	}
 
-	const sourceRepository = new SourceRepository(dbConnection.db, provider);
+	const sourceRepository = new SourceRepository(dbConnection.db, provider, {
+		chunkingStrategyByCategory: env.chunkingStrategyByCategory,
+		searchTokenizer: createSearchTokenizer(env.searchTokenizer),
+	});
 
 	try {
 		logProgress("db connect start");
@@ -396,6 +412,21 @@ async function main() {
 					})
 				: null;
 
+		let searchVectorsRebuilt: number | null = null;
+		if (options.phase === "fts" || options.phase === "all") {
+			// 指定がなければ、別のトークナイザーで作られた search_vector だけを作り直す
+			logProgress("search vector rebuild start");
+			searchVectorsRebuilt = await sourceRepository.rebuildSearchVectors({
+				batchSize: options.batchSize,
+				staleOnly: !options.rebuildSearchVectors,
+				onProgress: (rebuilt) =>
+					logProgress(`search vector rebuild progress: rebuilt=${rebuilt}`),
+			});
+			logProgress(
+				`search vector rebuild done: rebuilt=${searchVectorsRebuilt}`,
+			);
+		}
+
 		let embedResult: EmbedPhaseSummary | null = null;
 		if (options.phase === "embed" || options.phase === "all") {
 			if (providerError) {
@@ -424,6 +455,7 @@ async function main() {
 						sleepMs: options.sleepMs,
 					},
 					fts: ftsResult,
+					searchVectorsRebuilt,
 					embedding: embedResult,
 				},
 				null,
@@ -20,4 +20,32 @@ export const APP_CONFIG_DEFAULTS = {
 	trustProxy: true,
 	cookieSameSite: "lax",
 	openAiApiVersion: undefined as string | undefined,
+	/** OIDC の認可リクエストで要求するスコープ (openid は常に含める) */
+	oidcScopes: ["openid", "email", "profile"] as string[],
+	/** OIDC のロール判定に使うクレーム名 */
+	oidcRoleClaim: "groups",
+	/** このクレーム値を持つ利用者を admin にする。空ならロールを同期しない */
+	oidcAdminClaimValues: [] as string[],
+	/** 初回の SSO ログインでユーザーを自動作成するか */
+	oidcAutoProvision: true,
+	/** ログイン画面の SSO ボタンに出す名前 */
+	oidcDisplayName: "SSO",
+	/** カテゴリ名 → 分割方式 (heading / paragraph / faq / fixed-window) */
+	chunkingStrategyByCategory: {} as Record<string, string>,
+	/** 全文検索のトークナイザー (tinysegmenter: 同梱の日本語分かち書き / bigram) */
+	searchTokenizer: "tinysegmenter" as "tinysegmenter" | "bigram",
+	/** カテゴリ名 → ハイブリッド検索パラメータ (rrfK / vectorWeight / textWeight / fetchMultiplier) */
+	hybridSearchParamsByCategory: {} as Record<
+		string,
+		{
+			rrfK?: number;
+			vectorWeight?: number;
+			textWeight?: number;
+			fetchMultiplier?: number;
+		}
+	>,
+	/** 検索結果のページからリンクをたどる上位件数と、追加する断片の合計文字数の上限 */
+	graphExpansion: { seedCount: 3, charBudget: 2000 },
+	/** 更新日による重みの半減期・下限と、stale とみなすまでの日数 */
+	freshness: { halfLifeDays: 180, minWeight: 0.5, staleAfterDays: 365 },
 } as const;
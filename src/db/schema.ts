@@ -6,6 +6,7 @@ import {
 	integer,
 	jsonb,
 	pgTable,
+	primaryKey,
 	real,
 	text,
 	timestamp,
@@ -133,6 +134,10 @@ export const sources = pgTable(
 			"gin",
 			sql`${table.body} gin_trgm_ops`,
 		),
+		titleTrgmIdx: index("sources_title_trgm_idx").using(
+			"gin",
+			sql`${table.title} gin_trgm_ops`,
+		),
 	}),
 );
 
@@ -146,8 +151,11 @@ export const sourceFragments = pgTable(
 		locator: text("locator").notNull(),
 		heading: text("heading"),
 		content: text("content").notNull(),
+		contentHash: text("content_hash").notNull(),
 		embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }),
 		searchVector: tsvector("search_vector"),
+		/** search_vector を作ったトークナイザー。現在の設定と違えば作り直す */
+		searchTokenizer: text("search_tokenizer"),
 		metadata: jsonb("metadata").default({}).notNull(),
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.defaultNow()
@@ -159,6 +167,10 @@ export const sourceFragments = pgTable(
 			table.sourceId,
 			table.locator,
 		),
+		sourceContentHashIdx: index("source_fragments_source_content_hash_idx").on(
+			table.sourceId,
+			table.contentHash,
+		),
 		searchVectorIdx: index("source_fragments_search_vector_idx").using(
 			"gin",
 			sql`${table.searchVector}`,
@@ -167,6 +179,14 @@ export const sourceFragments = pgTable(
 			"gin",
 			sql`${table.content} gin_trgm_ops`,
 		),
+		headingTrgmIdx: index("source_fragments_heading_trgm_idx").using(
+			"gin",
+			sql`${table.heading} gin_trgm_ops`,
+		),
+		metadataTrgmIdx: index("source_fragments_metadata_trgm_idx").using(
+			"gin",
+			sql`(${table.metadata}::text) gin_trgm_ops`,
+		),
 		embeddingHnswIdx: index("source_fragments_embedding_hnsw_idx").using(
 			"hnsw",
 			sql`${table.embedding} vector_cosine_ops`,
@@ -174,6 +194,25 @@ export const sourceFragments = pgTable(
 	}),
 );
 
+export const pageLinks = pgTable(
+	"page_links",
+	{
+		sourceId: uuid("source_id")
+			.notNull()
+			.references(() => sources.id, { onDelete: "cascade" }),
+		targetSlug: text("target_slug").notNull(),
+		kind: text("kind").notNull(),
+		linkText: text("link_text").notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.sourceId, table.targetSlug] }),
+		targetSlugIdx: index("page_links_target_slug_idx").on(table.targetSlug),
+	}),
+);
+
 export const conversations = pgTable(
 	"conversations",
 	{
@@ -282,6 +321,8 @@ export const users = pgTable(
 		role: text("role").notNull().default("member"),
 		isActive: boolean("is_active").notNull().default(true),
 		lastLoginAt: timestamp("last_login_at", { withTimezone: true }),
+		oidcIssuer: text("oidc_issuer"),
+		oidcSubject: text("oidc_subject"),
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.defaultNow()
 			.notNull(),
@@ -291,11 +332,76 @@ export const users = pgTable(
 	},
 	(table) => ({
 		emailIdx: uniqueIndex("users_email_idx").on(table.email),
+		oidcIdentityIdx: uniqueIndex("users_oidc_identity_idx")
+			.on(table.oidcIssuer, table.oidcSubject)
+			.where(sql`${table.oidcSubject} is not null`),
 		roleIdx: index("users_role_idx").on(table.role),
 		isActiveIdx: index("users_is_active_idx").on(table.isActive),
 	}),
 );
 
+export const apiTokens = pgTable(
+	"api_tokens",
+	{
+		id: uuid("id").defaultRandom().primaryKey(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		name: text("name").notNull(),
+		tokenHash: text("token_hash").notNull().unique(),
+		tokenPrefix: text("token_prefix").notNull(),
+		scopes: text("scopes").array().default(sql`'{}'::text[]`).notNull(),
+		expiresAt: timestamp("expires_at", { withTimezone: true }),
+		lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+		revokedAt: timestamp("revoked_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => ({
+		tokenHashIdx: uniqueIndex("api_tokens_token_hash_idx").on(table.tokenHash),
+		userIdIdx: index("api_tokens_user_id_idx").on(table.userId),
+	}),
+);
+
+export const accessGroups = pgTable(
+	"access_groups",
+	{
+		id: uuid("id").defaultRandom().primaryKey(),
+		name: text("name").notNull().unique(),
+		description: text("description").default("").notNull(),
+		categories: text("categories").array().default(sql`'{}'::text[]`).notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.defaultNow()
+			.notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => ({
+		nameIdx: uniqueIndex("access_groups_name_idx").on(table.name),
+	}),
+);
+
+export const userAccessGroups = pgTable(
+	"user_access_groups",
+	{
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		groupId: uuid("group_id")
+			.notNull()
+			.references(() => accessGroups.id, { onDelete: "cascade" }),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => ({
+		pk: primaryKey({ columns: [table.userId, table.groupId] }),
+		groupIdIdx: index("user_access_groups_group_id_idx").on(table.groupId),
+	}),
+);
+
 export const refreshTokens = pgTable(
 	"refresh_tokens",
 	{
@@ -326,3 +432,36 @@ export const userSettings = pgTable("user_settings", {
 		.defaultNow()
 		.notNull(),
 });
+
+export const auditEvents = pgTable(
+	"audit_events",
+	{
+		id: uuid("id").defaultRandom().primaryKey(),
+		action: text("action").notNull(),
+		outcome: text("outcome").default("success").notNull(),
+		actorUserId: uuid("actor_user_id").references(() => users.id, {
+			onDelete: "set null",
+		}),
+		actorEmail: text("actor_email"),
+		ip: text("ip"),
+		targetType: text("target_type").notNull(),
+		targetId: text("target_id"),
+		summary: jsonb("summary")
+			.$type<Record<string, unknown>>()
+			.default(sql`'{}'::jsonb`)
+			.notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => ({
+		createdAtIdx: index("audit_events_created_at_idx").on(table.createdAt),
+		actionCreatedAtIdx: index("audit_events_action_created_at_idx").on(
+			table.action,
+			table.createdAt,
+		),
+		actorUserIdIdx: index("audit_events_actor_user_id_idx").on(
+			table.actorUserId,
+		),
+	}),
+);
@@ -0,0 +1,15 @@
+import { createMiddleware } from "hono/factory";
+import type { AccessControlService } from "../modules/access/access-control.service";
+import { getAuthContextUser } from "../modules/auth/context";
+
+type AccessScopeMiddlewareDeps = {
+	accessControl: AccessControlService;
+};
+
+/** requireAuth の後に置き、認証済み利用者の閲覧範囲をリクエストに設定する */
+export const attachAccessScope = (deps: AccessScopeMiddlewareDeps) =>
+	createMiddleware(async (c, next) => {
+		const user = getAuthContextUser(c);
+		c.set("accessScope", await deps.accessControl.resolveScope(user));
+		await next();
+	});
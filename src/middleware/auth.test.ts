@@ -0,0 +1,126 @@
+import { Hono } from "hono";
+import { describe, expect, it, vi } from "vitest";
+import type { AppEnv } from "../app/env";
+import type { ApiTokenService } from "../modules/auth/api-token.service";
+import type { AuthService } from "../modules/auth/auth.service";
+import { HttpError } from "../modules/auth/errors";
+import { requireAuth } from "./auth";
+
+const activeUser = {
+	id: "user-1",
+	email: "member@example.com",
+	role: "member" as const,
+	isActive: true,
+};
+
+const buildApp = (options: {
+	scopes?: string[] | null;
+	user?: typeof activeUser | null;
+	withApiTokens?: boolean;
+}) => {
+	const authenticate = vi.fn(async () =>
+		options.scopes === null
+			? null
+			: {
+					tokenId: "token-1",
+					userId: "user-1",
+					scopes: options.scopes ?? ["search"],
+				},
+	);
+	const findUserById = vi.fn(async () =>
+		options.user === undefined ? activeUser : options.user,
+	);
+	const app = new Hono();
+	app.use(
+		"/api/*",
+		requireAuth({
+			env: { jwtSecret: "test-secret" } as AppEnv,
+			authService: { findUserById } as unknown as AuthService,
+			apiTokens:
+				options.withApiTokens === false
+					? undefined
+					: {
+							service: { authenticate } as unknown as ApiTokenService,
+							requiredScope: (c) =>
+								c.req.method === "GET" ? "search" : "wiki:write",
+						},
+		}),
+	);
+	app.get("/api/resource", (c) => c.json({ authUser: c.get("authUser") }));
+	app.post("/api/resource", (c) => c.json({ ok: true }));
+	app.onError((error, c) =>
+		error instanceof HttpError
+			? c.json({ message: error.message }, error.status as 401 | 403)
+			: c.json({ message: "unexpected" }, 500),
+	);
+	return { app, authenticate };
+};
+
+const withToken = (method = "GET") => ({
+	method,
+	headers: { Authorization: "Bearer rrag_example-token" },
+});
+
+describe("requireAuth with API tokens", () => {
+	it("authenticates a token that has the required scope", async () => {
+		const { app, authenticate } = buildApp({ scopes: ["search"] });
+
+		const response = await app.request(
+			"http://localhost/api/resource",
+			withToken(),
+		);
+
+		expect(response.status).toBe(200);
+		expect(authenticate).toHaveBeenCalledWith("rrag_example-token");
+		expect(await response.json()).toEqual({
+			authUser: {
+				userId: "user-1",
+				email: "member@example.com",
+				role: "member",
+			},
+		});
+	});
+
+	it("rejects a token without the scope required by the request", async () => {
+		const { app } = buildApp({ scopes: ["search"] });
+
+		const response = await app.request(
+			"http://localhost/api/resource",
+			withToken("POST"),
+		);
+
+		expect(response.status).toBe(403);
+		expect(await response.json()).toEqual({
+			message: 'API token does not have the "wiki:write" scope.',
+		});
+	});
+
+	it("rejects revoked tokens and tokens of disabled users", async () => {
+		const revoked = buildApp({ scopes: null });
+		const disabled = buildApp({ user: { ...activeUser, isActive: false } });
+
+		const revokedResponse = await revoked.app.request(
+			"http://localhost/api/resource",
+			withToken(),
+		);
+		const disabledResponse = await disabled.app.request(
+			"http://localhost/api/resource",
+			withToken(),
+		);
+
+		expect(revokedResponse.status).toBe(401);
+		expect(disabledResponse.status).toBe(401);
+	});
+
+	it("does not accept API tokens on routes that did not opt in", async () => {
+		const { app, authenticate } = buildApp({ withApiTokens: false });
+
+		const response = await app.request(
+			"http://localhost/api/resource",
+			withToken(),
+		);
+
+		expect(response.status).toBe(401);
+		expect(authenticate).not.toHaveBeenCalled();
+	});
+});
@@ -1,14 +1,25 @@
+import type { Context } from "hono";
 import { getCookie } from "hono/cookie";
 import { createMiddleware } from "hono/factory";
 import type { AppEnv } from "../app/env";
+import {
+	type ApiTokenService,
+	isApiToken,
+} from "../modules/auth/api-token.service";
 import { ACCESS_TOKEN_COOKIE_NAME } from "../modules/auth/auth-cookies";
 import { verifyAccessToken } from "../modules/auth/token.service";
 import { HttpError } from "../modules/auth/errors";
 import type { AuthService } from "../modules/auth/auth.service";
+import type { ApiTokenScope } from "../modules/auth/types";
 
 type AuthMiddlewareDeps = {
 	env: AppEnv;
 	authService: AuthService;
+	/** 指定した経路では個人用 API トークンも受け付け、リクエストに必要なスコープを確認する */
+	apiTokens?: {
+		service: ApiTokenService;
+		requiredScope: (c: Context) => ApiTokenScope;
+	};
 };
 
 const unauthorized = new HttpError(401, "Unauthorized");
@@ -33,6 +44,32 @@ export const requireAuth = (deps: AuthMiddlewareDeps) =>
 			throw unauthorized;
 		}
 
+		if (deps.apiTokens && isApiToken(token)) {
+			const authenticated = await deps.apiTokens.service.authenticate(token);
+			if (!authenticated) {
+				throw unauthorized;
+			}
+			const requiredScope = deps.apiTokens.requiredScope(c);
+			if (!authenticated.scopes.includes(requiredScope)) {
+				throw new HttpError(
+					403,
+					`API token does not have the "${requiredScope}" scope.`,
+				);
+			}
+			const user = await deps.authService.findUserById(authenticated.userId);
+			if (!user || !user.isActive) {
+				throw unauthorized;
+			}
+			c.set("authUser", {
+				userId: user.id,
+				email: user.email,
+				role: user.role,
+				displayName: user.displayName,
+			});
+			await next();
+			return;
+		}
+
 		const payload = await verifyAccessToken(token, deps.env).catch(() => {
 			throw unauthorized;
 		});
@@ -45,6 +82,7 @@ export const requireAuth = (deps: AuthMiddlewareDeps) =>
 			userId: user.id,
 			email: user.email,
 			role: user.role,
+			displayName: user.displayName,
 		});
 		await next();
 	});
@@ -0,0 +1,32 @@
+import type { Context } from "hono";
+
+const readDirectRemoteIp = (c: Context): string | null => {
+	const env = c as {
+		env?: { incoming?: { socket?: { remoteAddress?: string } } };
+	};
+	const remoteAddress = env.env?.incoming?.socket?.remoteAddress;
+	if (typeof remoteAddress === "string" && remoteAddress.length > 0) {
+		return remoteAddress;
+	}
+	return null;
+};
+
+/** trustProxy のときだけプロキシのヘッダーを信頼してクライアント IP を求める */
+export const readClientIp = (
+	c: Context,
+	options: { trustProxy?: boolean },
+): string | null => {
+	if (!options.trustProxy) {
+		return readDirectRemoteIp(c);
+	}
+	const cfConnectingIp = c.req.header("cf-connecting-ip");
+	if (cfConnectingIp) return cfConnectingIp.trim();
+	const forwarded = c.req.header("x-forwarded-for");
+	if (forwarded) {
+		const first = forwarded.split(",")[0]?.trim();
+		if (first) return first;
+	}
+	const realIp = c.req.header("x-real-ip");
+	if (realIp) return realIp.trim();
+	return readDirectRemoteIp(c);
+};
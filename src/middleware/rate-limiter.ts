@@ -1,4 +1,5 @@
 import type { Context } from "hono";
+import { readClientIp } from "./client-ip";
 
 type RateLimiterOptions = {
 	windowMs: number;
@@ -23,38 +24,11 @@ export const rateLimiter = (options: RateLimiterOptions) => {
 		5 * 60 * 1000,
 	).unref?.();
 
-	const readDirectRemoteIp = (c: Context): string | null => {
-		const env = c as {
-			env?: { incoming?: { socket?: { remoteAddress?: string } } };
-		};
-		const remoteAddress = env.env?.incoming?.socket?.remoteAddress;
-		if (typeof remoteAddress === "string" && remoteAddress.length > 0) {
-			return remoteAddress;
-		}
-		return null;
-	};
-
-	const readClientIp = (c: Context): string | null => {
-		if (!options.trustProxy) {
-			return readDirectRemoteIp(c);
-		}
-		const cfConnectingIp = c.req.header("cf-connecting-ip");
-		if (cfConnectingIp) return cfConnectingIp.trim();
-		const forwarded = c.req.header("x-forwarded-for");
-		if (forwarded) {
-			const first = forwarded.split(",")[0]?.trim();
-			if (first) return first;
-		}
-		const realIp = c.req.header("x-real-ip");
-		if (realIp) return realIp.trim();
-		return readDirectRemoteIp(c);
-	};
-
 	const keyFromContext = (c: Context): string => {
 		if (options.keyGenerator) {
 			return options.keyGenerator(c);
 		}
-		const ip = readClientIp(c);
+		const ip = readClientIp(c, options);
 		if (ip) return `ip:${ip}`;
 		return "global";
 	};
@@ -0,0 +1,185 @@
+import { asc, eq, inArray } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import type * as schema from "../../db/schema";
+import { accessGroups, userAccessGroups, users } from "../../db/schema";
+import { HttpError } from "../auth/errors";
+import type { UserRole } from "../auth/types";
+import { type AccessScope, UNRESTRICTED_ACCESS_SCOPE } from "./access-scope";
+
+export type AccessGroup = {
+	id: string;
+	name: string;
+	description: string;
+	categories: string[];
+	memberIds: string[];
+	createdAt: Date;
+	updatedAt: Date;
+};
+
+type AccessGroupInput = {
+	name: string;
+	description?: string;
+	categories: string[];
+};
+
+const normalizeCategories = (categories: string[]): string[] =>
+	[
+		...new Set(categories.map((category) => category.trim()).filter(Boolean)),
+	].sort((a, b) => a.localeCompare(b));
+
+export class AccessControlService {
+	constructor(private readonly db: NodePgDatabase<typeof schema>) {}
+
+	/**
+	 * 利用者の所属グループから閲覧範囲を求める。管理者は常に制限なし。
+	 */
+	async resolveScope(user: {
+		userId: string;
+		role: UserRole;
+	}): Promise<AccessScope> {
+		if (user.role === "admin") return UNRESTRICTED_ACCESS_SCOPE;
+		const [memberships, allGroups] = await Promise.all([
+			this.db
+				.select({
+					name: accessGroups.name,
+					categories: accessGroups.categories,
+				})
+				.from(userAccessGroups)
+				.innerJoin(accessGroups, eq(accessGroups.id, userAccessGroups.groupId))
+				.where(eq(userAccessGroups.userId, user.userId)),
+			this.db
+				.select({ categories: accessGroups.categories })
+				.from(accessGroups),
+		]);
+		const allowed = new Set(memberships.flatMap((group) => group.categories));
+		const restricted = new Set(allGroups.flatMap((group) => group.categories));
+		return {
+			unrestricted: false,
+			groups: memberships.map((group) => group.name).sort(),
+			deniedCategories: [...restricted]
+				.filter((category) => !allowed.has(category))
+				.sort(),
+		};
+	}
+
+	async listGroups(): Promise<AccessGroup[]> {
+		const [groups, members] = await Promise.all([
+			this.db.select().from(accessGroups).orderBy(asc(accessGroups.name)),
+			this.db
+				.select({
+					groupId: userAccessGroups.groupId,
+					userId: userAccessGroups.userId,
+				})
+				.from(userAccessGroups),
+		]);
+		return groups.map((group) => ({
+			...group,
+			memberIds: members
+				.filter((member) => member.groupId === group.id)
+				.map((member) => member.userId),
+		}));
+	}
+
+	private async findGroup(groupId: string): Promise<AccessGroup> {
+		const [group, members] = await Promise.all([
+			this.db.query.accessGroups.findFirst({
+				where: eq(accessGroups.id, groupId),
+			}),
+			this.db
+				.select({ userId: userAccessGroups.userId })
+				.from(userAccessGroups)
+				.where(eq(userAccessGroups.groupId, groupId)),
+		]);
+		if (!group) {
+			throw new HttpError(404, "Group not found.");
+		}
+		return { ...group, memberIds: members.map((member) => member.userId) };
+	}
+
+	private async assertNameAvailable(
+		name: string,
+		excludeGroupId?: string,
+	): Promise<void> {
+		const existing = await this.db.query.accessGroups.findFirst({
+			where: eq(accessGroups.name, name),
+			columns: { id: true },
+		});
+		if (existing && existing.id !== excludeGroupId) {
+			throw new HttpError(409, "Group name already in use.");
+		}
+	}
+
+	async createGroup(input: AccessGroupInput): Promise<AccessGroup> {
+		await this.assertNameAvailable(input.name);
+		const [created] = await this.db
+			.insert(accessGroups)
+			.values({
+				name: input.name,
+				description: input.description ?? "",
+				categories: normalizeCategories(input.categories),
+			})
+			.returning();
+		return { ...created, memberIds: [] };
+	}
+
+	async updateGroup(
+		groupId: string,
+		input: Partial<AccessGroupInput>,
+	): Promise<AccessGroup> {
+		const target = await this.findGroup(groupId);
+		if (input.name && input.name !== target.name) {
+			await this.assertNameAvailable(input.name, groupId);
+		}
+		await this.db
+			.update(accessGroups)
+			.set({
+				name: input.name ?? target.name,
+				description: input.description ?? target.description,
+				categories: input.categories
+					? normalizeCategories(input.categories)
+					: target.categories,
+				updatedAt: new Date(),
+			})
+			.where(eq(accessGroups.id, groupId));
+		return this.findGroup(groupId);
+	}
+
+	async deleteGroup(groupId: string): Promise<void> {
+		const deleted = await this.db
+			.delete(accessGroups)
+			.where(eq(accessGroups.id, groupId))
+			.returning({ id: accessGroups.id });
+		if (deleted.length === 0) {
+			throw new HttpError(404, "Group not found.");
+		}
+	}
+
+	/** グループの所属者を指定した利用者だけに置き換える */
+	async setGroupMembers(
+		groupId: string,
+		userIds: string[],
+	): Promise<AccessGroup> {
+		await this.findGroup(groupId);
+		const uniqueUserIds = [...new Set(userIds)];
+		if (uniqueUserIds.length > 0) {
+			const existingUsers = await this.db
+				.select({ id: users.id })
+				.from(users)
+				.where(inArray(users.id, uniqueUserIds));
+			if (existingUsers.length !== uniqueUserIds.length) {
+				throw new HttpError(404, "User not found.");
+			}
+		}
+		await this.db.transaction(async (tx) => {
+			await tx
+				.delete(userAccessGroups)
+				.where(eq(userAccessGroups.groupId, groupId));
+			if (uniqueUserIds.length > 0) {
+				await tx
+					.insert(userAccessGroups)
+					.values(uniqueUserIds.map((userId) => ({ userId, groupId })));
+			}
+		});
+		return this.findGroup(groupId);
+	}
+}
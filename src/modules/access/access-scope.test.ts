@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+	type AccessScope,
+	canAccessSource,
+	readPageVisibility,
+	UNRESTRICTED_ACCESS_SCOPE,
+} from "./access-scope";
+
+const member: AccessScope = {
+	unrestricted: false,
+	groups: ["security"],
+	deniedCategories: ["hr"],
+};
+
+describe("readPageVisibility", () => {
+	it("accepts a single group name or a list of names", () => {
+		expect(readPageVisibility({ visibility: "hr" })).toEqual(["hr"]);
+		expect(readPageVisibility({ visibility: ["hr", 1, "security"] })).toEqual([
+			"hr",
+			"security",
+		]);
+		expect(readPageVisibility({ visibility: true })).toEqual([]);
+		expect(readPageVisibility(null)).toEqual([]);
+	});
+});
+
+describe("canAccessSource", () => {
+	it("hides categories assigned only to other groups", () => {
+		expect(canAccessSource(member, { category: "hr", metadata: {} })).toBe(
+			false,
+		);
+		expect(canAccessSource(member, { category: "tech", metadata: {} })).toBe(
+			true,
+		);
+	});
+
+	it("requires one of the page visibility groups", () => {
+		expect(
+			canAccessSource(member, {
+				category: "tech",
+				metadata: { visibility: ["security", "sre"] },
+			}),
+		).toBe(true);
+		expect(
+			canAccessSource(member, {
+				category: "tech",
+				metadata: { visibility: "sre" },
+			}),
+		).toBe(false);
+		expect(
+			canAccessSource(member, {
+				category: "tech",
+				metadata: { visibility: [] },
+			}),
+		).toBe(true);
+	});
+
+	it("allows everything for unrestricted or missing scopes", () => {
+		const source = { category: "hr", metadata: { visibility: "hr" } };
+		expect(canAccessSource(UNRESTRICTED_ACCESS_SCOPE, source)).toBe(true);
+		expect(canAccessSource(undefined, source)).toBe(true);
+	});
+});
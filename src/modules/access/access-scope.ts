@@ -0,0 +1,59 @@
+/**
+ * 検索・ページ参照に適用する利用者ごとの閲覧範囲。
+ * いずれかのグループに割り当てられたカテゴリは、そのグループの所属者だけが参照できる。
+ * どのグループにも割り当てられていないカテゴリは認証済みの全員に公開される。
+ */
+export type AccessScope = {
+	/** 管理者はすべてのカテゴリ・ページを参照できる */
+	unrestricted: boolean;
+	/** 所属グループ名 (ページ frontmatter の `visibility` と照合する) */
+	groups: string[];
+	/** 他のグループに割り当てられていて、この利用者は参照できないカテゴリ */
+	deniedCategories: string[];
+};
+
+export const UNRESTRICTED_ACCESS_SCOPE: AccessScope = {
+	unrestricted: true,
+	groups: [],
+	deniedCategories: [],
+};
+
+/**
+ * frontmatter の `visibility` (グループ名 1 つ、またはその配列) を読む。
+ * 空や不正な値は制限なしとして扱う。
+ */
+export function readPageVisibility(metadata: unknown): string[] {
+	if (!metadata || typeof metadata !== "object") return [];
+	const visibility = (metadata as Record<string, unknown>).visibility;
+	if (typeof visibility === "string") return [visibility];
+	if (Array.isArray(visibility)) {
+		return visibility.filter(
+			(value): value is string => typeof value === "string",
+		);
+	}
+	return [];
+}
+
+export function canAccessCategory(
+	scope: AccessScope | undefined,
+	category: string,
+): boolean {
+	if (!scope || scope.unrestricted) return true;
+	return !scope.deniedCategories.includes(category);
+}
+
+/** SourceRepository の検索条件と同じ規則で 1 件のページ・ソースを判定する */
+export function canAccessSource(
+	scope: AccessScope | undefined,
+	source: { category: string | null; metadata: unknown },
+): boolean {
+	if (!scope || scope.unrestricted) return true;
+	if (source.category && !canAccessCategory(scope, source.category)) {
+		return false;
+	}
+	const visibility = readPageVisibility(source.metadata);
+	return (
+		visibility.length === 0 ||
+		visibility.some((group) => scope.groups.includes(group))
+	);
+}
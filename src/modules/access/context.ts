@@ -0,0 +1,16 @@
+import type { Context } from "hono";
+import type { AccessScope } from "./access-scope";
+
+/**
+ * attachAccessScope で設定した閲覧範囲を返す。
+ * 設定されていない場合は制限なしとして扱わず、ミドルウェアの付け忘れとしてエラーにする。
+ */
+export function getAccessScope(c: Context): AccessScope {
+	const scope = c.get("accessScope");
+	if (!scope) {
+		throw new Error(
+			`Access scope is not attached for ${c.req.method} ${c.req.path}.`,
+		);
+	}
+	return scope;
+}
@@ -0,0 +1,156 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import type * as schema from "../../db/schema";
+import { conversations, messages, retrievalLogs } from "../../db/schema";
+import { conversationTitleFromQuery } from "../chat/chat.service";
+import type { AgenticConversationTurn } from "./history";
+import type { AgenticSearchResult } from "./types";
+
+export const AGENTIC_CONVERSATION_MODE = "agentic";
+
+export type AgenticConversationState = {
+	id: string;
+	previousResponseId: string | null;
+	turns: AgenticConversationTurn[];
+};
+
+export type SaveAgenticRunInput = {
+	conversationId?: string;
+	userId: string;
+	query: string;
+	category?: string;
+	topK: number;
+	result: AgenticSearchResult;
+};
+
+function readResponseId(metadata: unknown): string | null {
+	if (!metadata || typeof metadata !== "object") return null;
+	const value = (metadata as Record<string, unknown>).responseId;
+	return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/** Agentic Search の実行結果を conversations / messages / retrieval_logs に保存する */
+export class AgenticConversationRepository {
+	constructor(private readonly db: NodePgDatabase<typeof schema>) {}
+
+	async findForUser(
+		conversationId: string,
+		userId: string,
+	): Promise<AgenticConversationState | null> {
+		const conversation = await this.db.query.conversations.findFirst({
+			where: and(
+				eq(conversations.id, conversationId),
+				eq(conversations.userId, userId),
+			),
+			columns: { id: true },
+		});
+		if (!conversation) return null;
+
+		const rows = await this.db
+			.select({
+				role: messages.role,
+				content: messages.content,
+				metadata: messages.metadata,
+			})
+			.from(messages)
+			.where(
+				and(
+					eq(messages.conversationId, conversationId),
+					inArray(messages.role, ["user", "assistant"]),
+				),
+			)
+			.orderBy(asc(messages.createdAt));
+		const lastAssistant = [...rows]
+			.reverse()
+			.find((row) => row.role === "assistant");
+		return {
+			id: conversation.id,
+			previousResponseId: readResponseId(lastAssistant?.metadata),
+			turns: rows.map((row) => ({
+				role: row.role === "assistant" ? "assistant" : "user",
+				content: row.content,
+			})),
+		};
+	}
+
+	async saveRun(
+		input: SaveAgenticRunInput,
+	): Promise<{ conversationId: string; messageId: string }> {
+		const { result } = input;
+		const retrieved = result.retrieved ?? [];
+		const webResults = result.webResults ?? [];
+
+		let conversationId = input.conversationId;
+		if (!conversationId) {
+			const [inserted] = await this.db
+				.insert(conversations)
+				.values({
+					userId: input.userId,
+					title: conversationTitleFromQuery(input.query),
+					metadata: { mode: AGENTIC_CONVERSATION_MODE },
+				})
+				.returning({ id: conversations.id });
+			conversationId = inserted.id;
+		}
+
+		const [userMessage] = await this.db
+			.insert(messages)
+			.values({
+				conversationId,
+				role: "user",
+				content: input.query,
+				metadata: { mode: AGENTIC_CONVERSATION_MODE },
+			})
+			.returning({ id: messages.id });
+
+		const [assistantMessage] = await this.db
+			.insert(messages)
+			.values({
+				conversationId,
+				role: "assistant",
+				content: result.answer,
+				metadata: {
+					mode: AGENTIC_CONVERSATION_MODE,
+					citations: result.citations,
+					toolTrace: result.toolTrace,
+					usage: result.usage ?? null,
+					responseId: result.responseId ?? null,
+				},
+			})
+			.returning({ id: messages.id });
+
+		await this.db.insert(retrievalLogs).values({
+			conversationId,
+			messageId: assistantMessage.id,
+			query: input.query,
+			fragmentIds: retrieved.map((item) => item.id),
+			scores: {
+				selected: retrieved.map((item) => ({
+					id: item.id,
+					combinedScore: item.combinedScore,
+					vectorScore: item.vectorScore,
+					textScore: item.textScore,
+					trigramScore: item.trigramScore,
+				})),
+			},
+			context: {
+				mode: AGENTIC_CONVERSATION_MODE,
+				userMessageId: userMessage.id,
+				category: input.category ?? "all",
+				topK: input.topK,
+				toolTrace: result.toolTrace,
+				usage: result.usage ?? null,
+				citationCount: result.citations.length,
+				selectedCount: retrieved.length,
+				webCount: webResults.length,
+			},
+		});
+
+		await this.db
+			.update(conversations)
+			.set({ updatedAt: new Date() })
+			.where(eq(conversations.id, conversationId));
+
+		return { conversationId, messageId: assistantMessage.id };
+	}
+}
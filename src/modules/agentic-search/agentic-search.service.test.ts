@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import { AgenticSearchService } from "./agentic-search.service";
+
+const createService = (params: {
+	conversation?: {
+		id: string;
+		previousResponseId: string | null;
+		turns: Array<{ role: "user" | "assistant"; content: string }>;
+	} | null;
+}) => {
+	const runner = {
+		run: vi.fn().mockResolvedValue({
+			query: "follow up",
+			answer: "answer",
+			citations: [],
+			toolTrace: [{ tool: "search_evidence", status: "ok", elapsedMs: 3 }],
+			responseId: "resp_2",
+		}),
+	};
+	const conversationRepository = {
+		findForUser: vi.fn().mockResolvedValue(params.conversation ?? null),
+		saveRun: vi.fn().mockResolvedValue({
+			conversationId: "conversation-1",
+			messageId: "message-2",
+		}),
+	};
+	const service = new AgenticSearchService({
+		settingsRepository: {
+			getSystemContextForUser: vi.fn().mockResolvedValue({ systemContext: "" }),
+		} as never,
+		conversationRepository: conversationRepository as never,
+		runner: runner as never,
+		log: vi.fn(),
+	});
+	return { service, runner, conversationRepository };
+};
+
+describe("AgenticSearchService", () => {
+	it("continues an owned conversation from its last response id and stores the run", async () => {
+		const { service, runner, conversationRepository } = createService({
+			conversation: {
+				id: "conversation-1",
+				previousResponseId: "resp_1",
+				turns: [
+					{ role: "user", content: "options?" },
+					{ role: "assistant", content: "A or B" },
+				],
+			},
+		});
+
+		const result = await service.run({
+			query: "follow up",
+			userId: "user-1",
+			conversationId: "conversation-1",
+			topK: 8,
+		});
+
+		expect(conversationRepository.findForUser).toHaveBeenCalledWith(
+			"conversation-1",
+			"user-1",
+		);
+		expect(runner.run.mock.calls[0]?.[0]).toMatchObject({
+			query: "follow up",
+			previousResponseId: "resp_1",
+			history: [
+				{ role: "user", content: "options?" },
+				{ role: "assistant", content: "A or B" },
+			],
+		});
+		expect(conversationRepository.saveRun).toHaveBeenCalledWith(
+			expect.objectContaining({
+				conversationId: "conversation-1",
+				userId: "user-1",
+				query: "follow up",
+				result: expect.objectContaining({ responseId: "resp_2" }),
+			}),
+		);
+		expect(result).toMatchObject({
+			answer: "answer",
+			conversationId: "conversation-1",
+			messageId: "message-2",
+		});
+	});
+
+	it("rejects conversations that are not owned by the user", async () => {
+		const { service, runner, conversationRepository } = createService({
+			conversation: null,
+		});
+
+		await expect(
+			service.run({
+				query: "follow up",
+				userId: "user-2",
+				conversationId: "conversation-1",
+				topK: 8,
+			}),
+		).rejects.toMatchObject({ status: 404 });
+		expect(runner.run).not.toHaveBeenCalled();
+		expect(conversationRepository.saveRun).not.toHaveBeenCalled();
+	});
+});
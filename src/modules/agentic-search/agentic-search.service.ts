@@ -1,17 +1,31 @@
+import type { AccessScope } from "../access/access-scope";
+import type { MetadataFilter } from "../sources/search/metadata-filter";
+import { HttpError } from "../auth/errors";
+import type { AgenticConversationRepository } from "./agentic-conversation.repository";
+import type { AgenticConversationTurn } from "./history";
 import { buildAgenticSystemContext } from "./system-context";
-import type { AgenticSearchRunner } from "./runner";
+import type { AgenticSearchRunHooks, AgenticSearchRunner } from "./runner";
 import type { AgenticSearchResult } from "./types";
 import type { SettingsRepository } from "../settings/settings.repository";
 
 type RunAgenticSearchInput = {
 	query: string;
 	userId: string;
+	conversationId?: string;
+	/** conversationId を指定しない場合に使う過去ターン */
+	history?: AgenticConversationTurn[];
 	category?: string;
 	topK: number;
+	/** ツールの検索・ページ参照に適用する閲覧範囲 */
+	access?: AccessScope;
+	/** ツールの検索に適用する frontmatter の絞り込み */
+	filter?: MetadataFilter;
 };
 
 type AgenticSearchServiceDeps = {
 	settingsRepository: SettingsRepository;
+	/** 未指定の場合は実行結果を保存しない (CLI のスモークテストなど) */
+	conversationRepository?: AgenticConversationRepository;
 	runner: AgenticSearchRunner;
 	debug?: boolean;
 	log?: (params: {
@@ -23,12 +37,14 @@ type AgenticSearchServiceDeps = {
 
 export class AgenticSearchService {
 	private readonly settingsRepository: SettingsRepository;
+	private readonly conversationRepository?: AgenticConversationRepository;
 	private readonly runner: AgenticSearchRunner;
 	private readonly debug: boolean;
 	private readonly logHandler?: AgenticSearchServiceDeps["log"];
 
 	constructor(deps: AgenticSearchServiceDeps) {
 		this.settingsRepository = deps.settingsRepository;
+		this.conversationRepository = deps.conversationRepository;
 		this.runner = deps.runner;
 		this.debug = Boolean(deps.debug);
 		this.logHandler = deps.log;
@@ -52,14 +68,29 @@ export class AgenticSearchService {
 		console.log(`[agentic-search][service] ${event}${payload}`);
 	}
 
-	async run(input: RunAgenticSearchInput): Promise<AgenticSearchResult> {
+	async run(
+		input: RunAgenticSearchInput,
+		hooks: AgenticSearchRunHooks = {},
+	): Promise<AgenticSearchResult> {
 		const startedAt = Date.now();
 		this.log("info", "request.start", {
 			queryLength: input.query.length,
 			category: input.category ?? null,
 			topK: input.topK,
+			conversationId: input.conversationId ?? null,
 		});
 
+		const conversation =
+			input.conversationId && this.conversationRepository
+				? await this.conversationRepository.findForUser(
+						input.conversationId,
+						input.userId,
+					)
+				: null;
+		if (input.conversationId && !conversation) {
+			throw new HttpError(404, "Conversation not found.");
+		}
+
 		const settings = await this.settingsRepository.getSystemContextForUser(
 			input.userId,
 		);
@@ -73,19 +104,37 @@ export class AgenticSearchService {
 			userContextLength: settings.systemContext.length,
 		});
 
-		const result = await this.runner.run({
-			query: input.query,
-			category: input.category,
-			topK: input.topK,
-			systemContext,
-		});
+		const result = await this.runner.run(
+			{
+				query: input.query,
+				category: input.category,
+				topK: input.topK,
+				access: input.access,
+				filter: input.filter,
+				systemContext,
+				previousResponseId: conversation?.previousResponseId ?? undefined,
+				history: conversation?.turns ?? input.history,
+			},
+			hooks,
+		);
+		const saved = this.conversationRepository
+			? await this.conversationRepository.saveRun({
+					conversationId: conversation?.id,
+					userId: input.userId,
+					query: input.query,
+					category: input.category,
+					topK: input.topK,
+					result,
+				})
+			: null;
 		this.log("info", "request.complete", {
 			elapsedMs: Date.now() - startedAt,
 			citations: result.citations.length,
 			toolCalls: result.toolTrace.filter((item) => item.status === "ok").length,
 			answerLength: result.answer.length,
 			hasUsage: Boolean(result.usage),
+			conversationId: saved?.conversationId ?? null,
 		});
-		return result;
+		return saved ? { ...result, ...saved } : result;
 	}
 }
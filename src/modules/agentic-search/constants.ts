@@ -3,5 +3,6 @@ export const AGENTIC_SEARCH_DEFAULTS = {
 	maxToolCalls: 10,
 	maxFetchCalls: 3,
 	maxContextChars: 50000,
+	maxHistoryTokens: 8000,
 	debug: false,
 } as const;
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { trimHistoryToBudget } from "./history";
+
+describe("agentic-search history", () => {
+	it("keeps the newest turns that fit in the budget", () => {
+		const turns = [
+			{ role: "user" as const, content: "a".repeat(40) },
+			{ role: "assistant" as const, content: "b".repeat(40) },
+			{ role: "user" as const, content: "c".repeat(40) },
+		];
+
+		const trimmed = trimHistoryToBudget(turns, 25);
+
+		expect(trimmed.turns).toEqual(turns.slice(1));
+		expect(trimmed.droppedTurns).toBe(1);
+		expect(trimmed.truncated).toBe(false);
+		expect(trimmed.estimatedTokens).toBe(20);
+	});
+
+	it("truncates the newest turn when it alone exceeds the budget", () => {
+		const trimmed = trimHistoryToBudget(
+			[{ role: "assistant", content: "長い回答".repeat(10) }],
+			6,
+		);
+
+		expect(trimmed.turns).toEqual([
+			{ role: "assistant", content: "長い回答長い" },
+		]);
+		expect(trimmed.truncated).toBe(true);
+		expect(trimmed.droppedTurns).toBe(0);
+	});
+});
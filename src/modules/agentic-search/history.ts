@@ -0,0 +1,58 @@
+import { estimateTokens } from "../../utils/tokens";
+import { clampText } from "./utils";
+
+export type AgenticConversationTurn = {
+	role: "user" | "assistant";
+	content: string;
+};
+
+export type TrimmedAgenticHistory = {
+	turns: AgenticConversationTurn[];
+	droppedTurns: number;
+	truncated: boolean;
+	estimatedTokens: number;
+};
+
+/** 新しいターンから順にトークン予算へ収まる分だけ残し、古いターンを切り捨てる */
+export function trimHistoryToBudget(
+	turns: AgenticConversationTurn[],
+	maxTokens: number,
+): TrimmedAgenticHistory {
+	const kept: AgenticConversationTurn[] = [];
+	let estimatedTokens = 0;
+	let truncated = false;
+	for (let index = turns.length - 1; index >= 0; index -= 1) {
+		const turn = turns[index];
+		if (!turn) continue;
+		const tokens = estimateTokens(turn.content);
+		if (estimatedTokens + tokens <= maxTokens) {
+			kept.unshift(turn);
+			estimatedTokens += tokens;
+			continue;
+		}
+		// 直近のターン単体で予算を超える場合は本文を切り詰めて残す
+		if (kept.length === 0 && maxTokens > 0) {
+			const content = clampText(turn.content, maxTokens);
+			kept.unshift({ role: turn.role, content });
+			estimatedTokens += estimateTokens(content);
+			truncated = true;
+		}
+		break;
+	}
+	return {
+		turns: kept,
+		droppedTurns: turns.length - kept.length,
+		truncated,
+		estimatedTokens,
+	};
+}
+
+/** Responses API の input 形式へ変換する */
+export function toResponsesInput(turn: AgenticConversationTurn): unknown {
+	return turn.role === "user"
+		? { role: "user", content: [{ type: "input_text", text: turn.content }] }
+		: {
+				role: "assistant",
+				content: [{ type: "output_text", text: turn.content }],
+			};
+}
@@ -121,4 +121,57 @@ describe("OpenAiResponsesAdapter", () => {
 		expect(turn.text).toBe("OK");
 		expect(turn.usage?.totalTokens).toBe(3);
 	});
+
+	it("streams output text deltas and returns the completed response", async () => {
+		const events = [
+			{ type: "response.created", response: { id: "resp_1" } },
+			{ type: "response.output_text.delta", delta: "O" },
+			{ type: "response.output_text.delta", delta: "K" },
+			{
+				type: "response.completed",
+				response: {
+					id: "resp_1",
+					output_text: "OK",
+					usage: { input_tokens: 2, output_tokens: 1, total_tokens: 3 },
+				},
+			},
+		];
+		const fetchMock = vi.fn().mockResolvedValue(
+			new Response(
+				events
+					.map(
+						(event) => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`,
+					)
+					.join(""),
+				{ status: 200, headers: { "content-type": "text/event-stream" } },
+			),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const adapter = new OpenAiResponsesAdapter({
+			apiKey: "test-key",
+			baseUrl: "https://example.openai.azure.com/openai/v1",
+			model: "my-deployment",
+		});
+		const deltas: string[] = [];
+
+		const turn = await adapter.createTurn({
+			instructions: "test",
+			input: [],
+			tools: [],
+			onTextDelta: (delta) => {
+				deltas.push(delta);
+			},
+		});
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toMatchObject(
+			{ stream: true },
+		);
+		expect(deltas).toEqual(["O", "K"]);
+		expect(turn).toMatchObject({
+			responseId: "resp_1",
+			text: "OK",
+			usage: { totalTokens: 3 },
+		});
+	});
 });
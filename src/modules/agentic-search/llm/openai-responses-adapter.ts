@@ -45,6 +45,16 @@ export type OpenAiTurnInput = {
 	input: unknown[];
 	tools: AgenticFunctionToolSpec[];
 	previousResponseId?: string;
+	signal?: AbortSignal;
+	/** 指定時は stream: true で呼び出し、テキスト出力の差分を逐次通知する */
+	onTextDelta?: (delta: string) => void | Promise<void>;
+};
+
+type OpenAiResponsesStreamEvent = {
+	type?: string;
+	delta?: string;
+	response?: OpenAiResponsesPayload;
+	message?: string;
 };
 
 export type OpenAiTurnOutput = AgenticLlmTurnResult & {
@@ -203,6 +213,54 @@ export class OpenAiResponsesAdapter {
 			.join(": ");
 	}
 
+	private async readStreamedPayload(
+		response: Response,
+		onTextDelta: (delta: string) => void | Promise<void>,
+	): Promise<OpenAiResponsesPayload> {
+		if (!response.body) {
+			throw new Error("OpenAI Responses stream has no body.");
+		}
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+		let completed: OpenAiResponsesPayload | undefined;
+		try {
+			while (true) {
+				const { value, done } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+				let newlineIndex = buffer.indexOf("\n");
+				while (newlineIndex >= 0) {
+					const line = buffer.slice(0, newlineIndex).trim();
+					buffer = buffer.slice(newlineIndex + 1);
+					newlineIndex = buffer.indexOf("\n");
+					if (!line.startsWith("data:")) continue;
+					const data = line.slice(5).trim();
+					if (!data || data === "[DONE]") continue;
+					const event = JSON.parse(data) as OpenAiResponsesStreamEvent;
+					if (event.type === "response.output_text.delta" && event.delta) {
+						await onTextDelta(event.delta);
+					} else if (event.type === "response.completed" && event.response) {
+						completed = event.response;
+					} else if (
+						event.type === "response.failed" ||
+						event.type === "error"
+					) {
+						throw new Error(
+							`OpenAI Responses stream failed: ${event.message ?? data}`,
+						);
+					}
+				}
+			}
+		} finally {
+			reader.releaseLock();
+		}
+		if (!completed) {
+			throw new Error("OpenAI Responses stream ended before completion.");
+		}
+		return completed;
+	}
+
 	async createTurn(params: OpenAiTurnInput): Promise<OpenAiTurnOutput> {
 		this.log("debug", "turn.request", {
 			endpoint: this.endpoint,
@@ -210,6 +268,7 @@ export class OpenAiResponsesAdapter {
 			hasPreviousResponseId: Boolean(params.previousResponseId),
 			inputItems: params.input.length,
 			tools: params.tools.length,
+			stream: Boolean(params.onTextDelta),
 		});
 
 		const startedAt = Date.now();
@@ -227,7 +286,9 @@ export class OpenAiResponsesAdapter {
 				tools: params.tools,
 				parallel_tool_calls: false,
 				previous_response_id: params.previousResponseId,
+				...(params.onTextDelta ? { stream: true } : {}),
 			}),
+			signal: params.signal,
 		});
 
 		if (!response.ok) {
@@ -249,7 +310,9 @@ export class OpenAiResponsesAdapter {
 			);
 		}
 
-		const payload = (await response.json()) as OpenAiResponsesPayload;
+		const payload = params.onTextDelta
+			? await this.readStreamedPayload(response, params.onTextDelta)
+			: ((await response.json()) as OpenAiResponsesPayload);
 		const responseId = payload.id;
 		if (!responseId) {
 			throw new Error("OpenAI response id is missing.");
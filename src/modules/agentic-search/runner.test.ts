@@ -1,7 +1,10 @@
 import { describe, expect, it } from "vitest";
 import type { OpenAiResponsesAdapter } from "./llm/openai-responses-adapter";
 import { AgenticSearchRunner } from "./runner";
-import type { AgenticFunctionToolSpec } from "./types";
+import type {
+	AgenticFunctionToolSpec,
+	AgenticSearchProgressEvent,
+} from "./types";
 import type { AgenticToolRegistry } from "./tools/registry";
 
 type StubTurn = {
@@ -27,6 +30,7 @@ class StubAdapter {
 		input: unknown[];
 		tools: AgenticFunctionToolSpec[];
 		previousResponseId?: string;
+		onTextDelta?: (delta: string) => void | Promise<void>;
 	}) {
 		this.calls.push(params);
 		const turn = this.turns[this.index];
@@ -34,6 +38,9 @@ class StubAdapter {
 		if (!turn) {
 			throw new Error("No stub turn prepared");
 		}
+		if (turn.text) {
+			await params.onTextDelta?.(turn.text);
+		}
 		return turn;
 	}
 }
@@ -106,6 +113,7 @@ describe("AgenticSearchRunner", () => {
 				maxToolCalls: 5,
 				maxFetchCalls: 2,
 				maxContextChars: 5000,
+				maxHistoryTokens: 1000,
 			},
 		});
 
@@ -149,6 +157,7 @@ describe("AgenticSearchRunner", () => {
 				maxToolCalls: 5,
 				maxFetchCalls: 2,
 				maxContextChars: 5000,
+				maxHistoryTokens: 1000,
 			},
 		});
 
@@ -166,4 +175,227 @@ describe("AgenticSearchRunner", () => {
 		expect(adapter.calls.length).toBe(2);
 		expect(adapter.calls[1]?.previousResponseId).toBe("resp_1");
 	});
+
+	it("reports progress events while running tools", async () => {
+		const adapter = new StubAdapter([
+			{
+				responseId: "resp_1",
+				text: "",
+				functionCalls: [
+					{
+						callId: "call_1",
+						name: "search_evidence",
+						argumentsJson: JSON.stringify({ query: "rag" }),
+					},
+					{
+						callId: "call_2",
+						name: "unknown_tool",
+						argumentsJson: "{}",
+					},
+				],
+			},
+			{
+				responseId: "resp_2",
+				text: "done",
+				functionCalls: [],
+			},
+		]);
+		const runner = new AgenticSearchRunner({
+			llmAdapter: adapter as unknown as OpenAiResponsesAdapter,
+			toolRegistry: createRegistryStub() as unknown as AgenticToolRegistry,
+			options: {
+				maxToolCalls: 5,
+				maxFetchCalls: 2,
+				maxContextChars: 5000,
+				maxHistoryTokens: 1000,
+			},
+		});
+		const events: AgenticSearchProgressEvent[] = [];
+
+		await runner.run(
+			{
+				query: "what is rag",
+				topK: 8,
+				systemContext: "context",
+			},
+			{ onProgress: (event) => void events.push(event) },
+		);
+
+		expect(events.map((event) => event.type)).toEqual([
+			"run_start",
+			"turn_start",
+			"tool_call_start",
+			"tool_call_complete",
+			"citations",
+			"tool_call_complete",
+			"turn_start",
+			"answer_delta",
+		]);
+		expect(events[3]).toMatchObject({
+			tool: "search_evidence",
+			argsSummary: "rag",
+			status: "ok",
+			resultCount: 1,
+		});
+		expect(events[4]).toMatchObject({
+			citations: [{ kind: "wiki_page", wikiSlug: "tech/a" }],
+		});
+		expect(events[5]).toMatchObject({
+			tool: "unknown_tool",
+			status: "skipped",
+		});
+		expect(events[7]).toEqual({ type: "answer_delta", turn: 2, delta: "done" });
+	});
+
+	it("stops between turns once the request is aborted", async () => {
+		const controller = new AbortController();
+		const adapter = new StubAdapter([
+			{
+				responseId: "resp_1",
+				text: "",
+				functionCalls: [
+					{
+						callId: "call_1",
+						name: "search_evidence",
+						argumentsJson: JSON.stringify({ query: "rag" }),
+					},
+				],
+			},
+		]);
+		const runner = new AgenticSearchRunner({
+			llmAdapter: adapter as unknown as OpenAiResponsesAdapter,
+			toolRegistry: createRegistryStub() as unknown as AgenticToolRegistry,
+			options: {
+				maxToolCalls: 5,
+				maxFetchCalls: 2,
+				maxContextChars: 5000,
+				maxHistoryTokens: 1000,
+			},
+		});
+
+		await expect(
+			runner.run(
+				{
+					query: "what is rag",
+					topK: 8,
+					systemContext: "context",
+				},
+				{
+					signal: controller.signal,
+					onProgress: (event) => {
+						if (event.type === "tool_call_complete") controller.abort();
+					},
+				},
+			),
+		).rejects.toThrow();
+		expect(adapter.calls.length).toBe(1);
+	});
+
+	it("feeds prior turns into the first input when there is no previous response", async () => {
+		const adapter = new StubAdapter([
+			{ responseId: "resp_2", text: "second option", functionCalls: [] },
+		]);
+		const runner = new AgenticSearchRunner({
+			llmAdapter: adapter as unknown as OpenAiResponsesAdapter,
+			toolRegistry: createRegistryStub() as unknown as AgenticToolRegistry,
+			options: {
+				maxToolCalls: 5,
+				maxFetchCalls: 2,
+				maxContextChars: 5000,
+				maxHistoryTokens: 1000,
+			},
+		});
+
+		const result = await runner.run({
+			query: "the second option?",
+			topK: 8,
+			systemContext: "context",
+			history: [
+				{ role: "user", content: "options?" },
+				{ role: "assistant", content: "A or B" },
+			],
+		});
+
+		expect(result.responseId).toBe("resp_2");
+		expect(adapter.calls[0]?.previousResponseId).toBeUndefined();
+		expect(adapter.calls[0]?.input).toEqual([
+			{ role: "user", content: [{ type: "input_text", text: "options?" }] },
+			{
+				role: "assistant",
+				content: [{ type: "output_text", text: "A or B" }],
+			},
+			{
+				role: "user",
+				content: [{ type: "input_text", text: "the second option?" }],
+			},
+		]);
+	});
+
+	it("continues from the previous response while history fits the budget", async () => {
+		const adapter = new StubAdapter([
+			{ responseId: "resp_2", text: "B", functionCalls: [] },
+		]);
+		const runner = new AgenticSearchRunner({
+			llmAdapter: adapter as unknown as OpenAiResponsesAdapter,
+			toolRegistry: createRegistryStub() as unknown as AgenticToolRegistry,
+			options: {
+				maxToolCalls: 5,
+				maxFetchCalls: 2,
+				maxContextChars: 5000,
+				maxHistoryTokens: 1000,
+			},
+		});
+
+		await runner.run({
+			query: "the second option?",
+			topK: 8,
+			systemContext: "context",
+			previousResponseId: "resp_1",
+			history: [
+				{ role: "user", content: "options?" },
+				{ role: "assistant", content: "A or B" },
+			],
+		});
+
+		expect(adapter.calls[0]?.previousResponseId).toBe("resp_1");
+		expect(adapter.calls[0]?.input).toHaveLength(1);
+	});
+
+	it("trims long histories and stops reusing the previous response", async () => {
+		const adapter = new StubAdapter([
+			{ responseId: "resp_9", text: "ok", functionCalls: [] },
+		]);
+		const runner = new AgenticSearchRunner({
+			llmAdapter: adapter as unknown as OpenAiResponsesAdapter,
+			toolRegistry: createRegistryStub() as unknown as AgenticToolRegistry,
+			options: {
+				maxToolCalls: 5,
+				maxFetchCalls: 2,
+				maxContextChars: 5000,
+				maxHistoryTokens: 15,
+			},
+			log: () => undefined,
+		});
+
+		await runner.run({
+			query: "latest",
+			topK: 8,
+			systemContext: "context",
+			previousResponseId: "resp_8",
+			history: [
+				{ role: "user", content: "a".repeat(40) },
+				{ role: "assistant", content: "b".repeat(40) },
+				{ role: "user", content: "c".repeat(40) },
+			],
+		});
+
+		expect(adapter.calls[0]?.previousResponseId).toBeUndefined();
+		expect(adapter.calls[0]?.input).toEqual([
+			{
+				role: "user",
+				content: [{ type: "input_text", text: "c".repeat(40) }],
+			},
+			{ role: "user", content: [{ type: "input_text", text: "latest" }] },
+		]);
+	});
 });
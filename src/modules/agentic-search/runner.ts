@@ -1,6 +1,7 @@
 import type { AgenticSearchCitation, AgenticSearchResult } from "./types";
 import type { OpenAiResponsesAdapter } from "./llm/openai-responses-adapter";
 import type {
+	AgenticSearchProgressHandler,
 	AgenticSearchRequest,
 	AgenticSearchRunOptions,
 	AgenticToolTrace,
@@ -9,6 +10,8 @@ import type {
 import type { AgenticToolRegistry } from "./tools/registry";
 import type { EvidenceWebResult } from "../rag/search-evidence";
 import type { RetrievedFragment } from "../rag/types";
+import { toResponsesInput, trimHistoryToBudget } from "./history";
+import { summarizeToolArguments } from "./utils";
 
 type AgenticSearchRunnerDeps = {
 	llmAdapter: OpenAiResponsesAdapter;
@@ -66,6 +69,11 @@ function dedupeCitations(
 	return result;
 }
 
+export type AgenticSearchRunHooks = {
+	onProgress?: AgenticSearchProgressHandler;
+	signal?: AbortSignal;
+};
+
 function parseArguments(raw: string): unknown {
 	try {
 		return JSON.parse(raw);
@@ -107,10 +115,29 @@ export class AgenticSearchRunner {
 		console.log(`[agentic-search][runner] ${event}${payload}`);
 	}
 
-	async run(request: AgenticSearchRequest): Promise<AgenticSearchResult> {
+	async run(
+		request: AgenticSearchRequest,
+		hooks: AgenticSearchRunHooks = {},
+	): Promise<AgenticSearchResult> {
+		const { onProgress, signal } = hooks;
+		const emit: AgenticSearchProgressHandler = async (event) => {
+			await onProgress?.(event);
+		};
 		const startedAt = Date.now();
-		let previousResponseId: string | undefined;
+		const history = trimHistoryToBudget(
+			request.history ?? [],
+			this.options.maxHistoryTokens,
+		);
+		const historyTrimmed = history.droppedTurns > 0 || history.truncated;
+		// previous_response_id はサーバー側に全履歴を持つため、予算を超えた会話では使わず切り詰めた履歴を送る
+		const continueFromPrevious = Boolean(
+			request.previousResponseId && !historyTrimmed,
+		);
+		let previousResponseId = continueFromPrevious
+			? request.previousResponseId
+			: undefined;
 		let pendingInput: unknown[] = [
+			...(continueFromPrevious ? [] : history.turns.map(toResponsesInput)),
 			{
 				role: "user",
 				content: [{ type: "input_text", text: request.query }],
@@ -132,9 +159,23 @@ export class AgenticSearchRunner {
 			maxTurns,
 			maxToolCalls: this.options.maxToolCalls,
 			maxFetchCalls: this.options.maxFetchCalls,
+			historyTurns: history.turns.length,
+			historyTokens: history.estimatedTokens,
+			droppedHistoryTurns: history.droppedTurns,
+			continueFromPrevious,
 		});
+		if (historyTrimmed) {
+			this.log("warn", "history.trimmed", {
+				maxHistoryTokens: this.options.maxHistoryTokens,
+				droppedTurns: history.droppedTurns,
+				truncated: history.truncated,
+			});
+		}
+		await emit({ type: "run_start", query: request.query, maxTurns });
 
 		for (let turnIndex = 0; turnIndex < maxTurns; turnIndex += 1) {
+			signal?.throwIfAborted();
+			await emit({ type: "turn_start", turn: turnIndex + 1 });
 			this.log("debug", "turn.start", {
 				turn: turnIndex + 1,
 				previousResponseId: previousResponseId ?? null,
@@ -145,6 +186,11 @@ export class AgenticSearchRunner {
 				input: pendingInput,
 				tools: this.toolRegistry.listSpecs(),
 				previousResponseId,
+				signal,
+				onTextDelta: onProgress
+					? (delta) =>
+							emit({ type: "answer_delta", turn: turnIndex + 1, delta })
+					: undefined,
 			});
 			usage = mergeUsage(usage, turn.usage);
 			this.log("debug", "turn.completed", {
@@ -173,13 +219,31 @@ export class AgenticSearchRunner {
 					retrieved: retrieved.length > 0 ? retrieved : undefined,
 					webResults: webResults.length > 0 ? webResults : undefined,
 					usage,
+					responseId: turn.responseId,
 				};
 			}
 
 			const functionOutputs: unknown[] = [];
 			for (const call of turn.functionCalls) {
+				signal?.throwIfAborted();
+				const args = parseArguments(call.argumentsJson);
+				const argsSummary = summarizeToolArguments(args);
+				const recordTrace = async (trace: AgenticToolTrace) => {
+					toolTrace.push(trace);
+					await emit({
+						type: "tool_call_complete",
+						turn: turnIndex + 1,
+						callId: call.callId,
+						tool: call.name,
+						argsSummary,
+						status: trace.status,
+						elapsedMs: trace.elapsedMs,
+						resultCount: trace.resultCount,
+						message: trace.message,
+					});
+				};
 				if (!this.toolRegistry.has(call.name)) {
-					toolTrace.push({
+					await recordTrace({
 						tool: call.name,
 						status: "skipped",
 						elapsedMs: 0,
@@ -196,7 +260,7 @@ export class AgenticSearchRunner {
 				}
 
 				if (call.name === "fetch" && fetchCount >= this.options.maxFetchCalls) {
-					toolTrace.push({
+					await recordTrace({
 						tool: call.name,
 						status: "skipped",
 						elapsedMs: 0,
@@ -213,7 +277,7 @@ export class AgenticSearchRunner {
 				}
 
 				if (executedToolCalls >= this.options.maxToolCalls) {
-					toolTrace.push({
+					await recordTrace({
 						tool: call.name,
 						status: "skipped",
 						elapsedMs: 0,
@@ -229,8 +293,14 @@ export class AgenticSearchRunner {
 					continue;
 				}
 
-				const args = parseArguments(call.argumentsJson);
 				const startAt = Date.now();
+				await emit({
+					type: "tool_call_start",
+					turn: turnIndex + 1,
+					callId: call.callId,
+					tool: call.name,
+					argsSummary,
+				});
 				this.log("debug", "tool.start", {
 					turn: turnIndex + 1,
 					callId: call.callId,
@@ -241,6 +311,8 @@ export class AgenticSearchRunner {
 						query: request.query,
 						category: request.category,
 						topK: request.topK,
+						access: request.access,
+						filter: request.filter,
 						fetchCount,
 						maxFetchCalls: this.options.maxFetchCalls,
 						maxContextChars: this.options.maxContextChars,
@@ -249,7 +321,7 @@ export class AgenticSearchRunner {
 					if (call.name === "fetch") {
 						fetchCount += 1;
 					}
-					toolTrace.push({
+					await recordTrace({
 						tool: call.name,
 						status: "ok",
 						elapsedMs: Date.now() - startAt,
@@ -266,6 +338,10 @@ export class AgenticSearchRunner {
 					});
 					if (execution.citations && execution.citations.length > 0) {
 						citations.push(...execution.citations);
+						await emit({
+							type: "citations",
+							citations: dedupeCitations(citations),
+						});
 					}
 					if (execution.retrieved && execution.retrieved.length > 0) {
 						retrieved.push(...execution.retrieved);
@@ -279,7 +355,8 @@ export class AgenticSearchRunner {
 						output: JSON.stringify(execution.output),
 					});
 				} catch (error) {
-					toolTrace.push({
+					if (signal?.aborted) throw error;
+					await recordTrace({
 						tool: call.name,
 						status: "error",
 						elapsedMs: Date.now() - startAt,
@@ -328,6 +405,7 @@ export class AgenticSearchRunner {
 			retrieved: retrieved.length > 0 ? retrieved : undefined,
 			webResults: webResults.length > 0 ? webResults : undefined,
 			usage,
+			responseId: previousResponseId,
 		};
 	}
 }
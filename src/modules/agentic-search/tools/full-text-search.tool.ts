@@ -35,6 +35,8 @@ export const fullTextSearchTool: AgenticToolDefinition = {
 			topK,
 			["wiki"],
 			categories,
+			runtime.access,
+			runtime.filter,
 		);
 
 		const payload = rows.map((row) => {
@@ -39,6 +39,8 @@ export const searchEvidenceTool: AgenticToolDefinition = {
 			query: args.query,
 			topK,
 			category: runtime.category,
+			access: runtime.access,
+			filter: runtime.filter,
 		});
 		const localPayload = {
 			strategy: evidence.evaluation.strategy,
@@ -5,6 +5,7 @@ import { fullTextSearchTool } from "./full-text-search.tool";
 import { searchEvidenceTool } from "./search-evidence.tool";
 import type { AgenticToolDeps, AgenticToolRuntimeContext } from "./types";
 import { vectorSearchTool } from "./vector-search.tool";
+import { wikiReadTool } from "./wiki-read.tool";
 
 const runtime: AgenticToolRuntimeContext = {
 	query: "biome",
@@ -126,4 +127,39 @@ describe("agentic local search tools", () => {
 			"web_search_result",
 		]);
 	});
+
+	it("does not reveal wiki pages outside the user's access scope", async () => {
+		const deps: AgenticToolDeps = {
+			sourceRepository: {} as SourceRepository,
+			createEmbedding: async () => [],
+			readWikiPage: async (slug) => ({
+				slug,
+				title: "給与テーブル",
+				body: "confidential",
+				path: `${slug}.md`,
+				meta: {},
+				revision: "0".repeat(40),
+			}),
+			maxContextChars: 4000,
+		};
+		const access = {
+			unrestricted: false,
+			groups: ["engineering"],
+			deniedCategories: ["hr"],
+		};
+
+		const denied = await wikiReadTool.execute({ wikiSlug: "hr/salary" }, deps, {
+			...runtime,
+			access,
+		});
+		const allowed = await wikiReadTool.execute(
+			{ wikiSlug: "tech/biome" },
+			deps,
+			{ ...runtime, access },
+		);
+
+		expect(denied.output).toMatchObject({ found: false });
+		expect(denied.citations).toBeUndefined();
+		expect(allowed.output).toMatchObject({ found: true, wikiSlug: "tech/biome" });
+	});
 });
@@ -1,3 +1,5 @@
+import type { AccessScope } from "../../access/access-scope";
+import type { MetadataFilter } from "../../sources/search/metadata-filter";
 import type { SourceRepository } from "../../sources/source.repository";
 import type { PageDocument } from "../../sources/wiki/content-repo";
 import type { WebSearchProvider } from "../../../providers/types";
@@ -22,6 +24,10 @@ export type AgenticToolRuntimeContext = {
 	query: string;
 	category?: string;
 	topK: number;
+	/** 利用者の閲覧範囲。検索と wiki_read の両方に適用する */
+	access?: AccessScope;
+	/** リクエストで指定された frontmatter の絞り込み。検索系ツールすべてに適用する */
+	filter?: MetadataFilter;
 	fetchCount: number;
 	maxFetchCalls: number;
 	maxContextChars: number;
@@ -37,6 +37,8 @@ export const vectorSearchTool: AgenticToolDefinition = {
 				topK,
 				["wiki"],
 				categories,
+				runtime.access,
+				runtime.filter,
 			);
 			const payload = rows.map((row) => {
 				const linkRef = resolveWikiLinkRef({
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { canAccessSource } from "../../access/access-scope";
+import { categoryFromPageRelativePath } from "../../sources/wiki/category";
 import { clampText } from "../utils";
 import type { AgenticToolDefinition } from "./types";
 
@@ -42,7 +44,14 @@ export const wikiReadTool: AgenticToolDefinition = {
 
 		if (args.wikiSlug) {
 			const page = await deps.readWikiPage(args.wikiSlug);
-			if (!page) {
+			// 閲覧範囲外のページは存在自体を伝えない
+			if (
+				!page ||
+				!canAccessSource(runtime.access, {
+					category: categoryFromPageRelativePath(page.path),
+					metadata: page.meta,
+				})
+			) {
 				return {
 					output: {
 						found: false,
@@ -79,7 +88,7 @@ export const wikiReadTool: AgenticToolDefinition = {
 			? await deps.sourceRepository.getSourceById(args.sourceId)
 			: await deps.sourceRepository.getSourceByUri(args.sourceUri ?? "");
 
-		if (!source) {
+		if (!source || !canAccessSource(runtime.access, source)) {
 			return {
 				output: {
 					found: false,
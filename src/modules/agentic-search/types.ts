@@ -1,5 +1,8 @@
+import type { AccessScope } from "../access/access-scope";
+import type { MetadataFilter } from "../sources/search/metadata-filter";
 import type { EvidenceWebResult } from "../rag/search-evidence";
 import type { RetrievedFragment } from "../rag/types";
+import type { AgenticConversationTurn } from "./history";
 
 export type AgenticCitationKind =
 	| "wiki_fragment"
@@ -42,19 +45,56 @@ export type AgenticSearchResult = {
 	retrieved?: RetrievedFragment[];
 	webResults?: EvidenceWebResult[];
 	usage?: AgenticUsage;
+	responseId?: string;
+	conversationId?: string;
+	messageId?: string;
 };
 
+export type AgenticSearchProgressEvent =
+	| { type: "run_start"; query: string; maxTurns: number }
+	| { type: "turn_start"; turn: number }
+	| {
+			type: "tool_call_start";
+			turn: number;
+			callId: string;
+			tool: string;
+			argsSummary: string;
+	  }
+	| {
+			type: "tool_call_complete";
+			turn: number;
+			callId: string;
+			tool: string;
+			argsSummary: string;
+			status: AgenticToolTraceStatus;
+			elapsedMs: number;
+			resultCount?: number;
+			message?: string;
+	  }
+	| { type: "citations"; citations: AgenticSearchCitation[] }
+	| { type: "answer_delta"; turn: number; delta: string };
+
+export type AgenticSearchProgressHandler = (
+	event: AgenticSearchProgressEvent,
+) => void | Promise<void>;
+
 export type AgenticSearchRequest = {
 	query: string;
 	category?: string;
 	topK: number;
+	access?: AccessScope;
+	filter?: MetadataFilter;
 	systemContext: string;
+	previousResponseId?: string;
+	history?: AgenticConversationTurn[];
 };
 
 export type AgenticSearchRunOptions = {
 	maxToolCalls: number;
 	maxFetchCalls: number;
 	maxContextChars: number;
+	/** 過去ターンとして Responses API へ渡す履歴の概算トークン上限 */
+	maxHistoryTokens: number;
 };
 
 export type AgenticToolExecution = {
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { clampText, isSafeHttpUrl, normalizeWhitespace } from "./utils";
+import {
+	clampText,
+	isSafeHttpUrl,
+	normalizeWhitespace,
+	summarizeToolArguments,
+} from "./utils";
 
 describe("agentic-search utils", () => {
 	it("clamps text by max chars", () => {
@@ -17,4 +22,13 @@ describe("agentic-search utils", () => {
 		expect(isSafeHttpUrl("http://127.0.0.1")).toBe(false);
 		expect(isSafeHttpUrl("file:///tmp/a.txt")).toBe(false);
 	});
+
+	it("summarizes tool arguments for progress events", () => {
+		expect(summarizeToolArguments({ query: " auth \n flow ", topK: 3 })).toBe(
+			"auth flow",
+		);
+		expect(summarizeToolArguments({ wikiSlug: "tech/auth" })).toBe("tech/auth");
+		expect(summarizeToolArguments({ maxChars: 500 })).toBe('{"maxChars":500}');
+		expect(summarizeToolArguments("invalid")).toBe("");
+	});
 });
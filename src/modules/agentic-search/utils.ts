@@ -32,3 +32,24 @@ export function isSafeHttpUrl(rawUrl: string): boolean {
 	if (!host) return false;
 	return !PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(host));
 }
+
+const TOOL_ARGUMENT_SUMMARY_KEYS = [
+	"query",
+	"wikiSlug",
+	"sourceUri",
+	"sourceId",
+	"url",
+] as const;
+
+/** 進捗表示用にツール引数を短い文字列へ要約する */
+export function summarizeToolArguments(args: unknown, maxChars = 120): string {
+	if (!args || typeof args !== "object") return "";
+	const record = args as Record<string, unknown>;
+	for (const key of TOOL_ARGUMENT_SUMMARY_KEYS) {
+		const value = record[key];
+		if (typeof value === "string" && value.trim().length > 0) {
+			return clampText(normalizeWhitespace(value), maxChars);
+		}
+	}
+	return clampText(JSON.stringify(record), maxChars);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { ArtifactStreamParser } from "./stream";
+
+describe("ArtifactStreamParser", () => {
+	it("holds back artifact blocks until they close", () => {
+		const parser = new ArtifactStreamParser();
+
+		expect(parser.push("Intro <art")).toEqual({ text: "Intro ", artifacts: [] });
+		expect(parser.push('ifact type="mermaid" title="Flow">graph')).toEqual({
+			text: "",
+			artifacts: [],
+		});
+		const closed = parser.push(" TD</artifact> after");
+		expect(closed.text).toBe(" after");
+		expect(closed.artifacts).toMatchObject([
+			{ type: "mermaid", title: "Flow", content: "graph TD" },
+		]);
+		expect(parser.flush()).toEqual({ text: "", artifacts: [] });
+	});
+
+	it("releases unterminated blocks and partial tags on flush", () => {
+		const parser = new ArtifactStreamParser();
+
+		expect(parser.push("a < b <artifact")).toEqual({
+			text: "a < b ",
+			artifacts: [],
+		});
+		expect(parser.flush()).toEqual({ text: "<artifact", artifacts: [] });
+	});
+});
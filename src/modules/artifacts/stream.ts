@@ -0,0 +1,70 @@
+import { extractArtifactsFromText } from "./extract";
+import type { Artifact } from "./types";
+
+const ARTIFACT_OPEN = "<artifact";
+const ARTIFACT_CLOSE = "</artifact>";
+
+export type ArtifactStreamChunk = {
+	text: string;
+	artifacts: Artifact[];
+};
+
+function pendingOpenTagLength(buffer: string): number {
+	const lowered = buffer.toLowerCase();
+	for (
+		let length = Math.min(ARTIFACT_OPEN.length - 1, lowered.length);
+		length > 0;
+		length -= 1
+	) {
+		if (ARTIFACT_OPEN.startsWith(lowered.slice(-length))) {
+			return length;
+		}
+	}
+	return 0;
+}
+
+/**
+ * ストリーム出力から <artifact> ブロックを取り除き、閉じたブロックから順に Artifact へ変換する
+ */
+export class ArtifactStreamParser {
+	private buffer = "";
+
+	push(delta: string): ArtifactStreamChunk {
+		this.buffer += delta;
+		return this.drain(false);
+	}
+
+	flush(): ArtifactStreamChunk {
+		return this.drain(true);
+	}
+
+	private drain(final: boolean): ArtifactStreamChunk {
+		let text = "";
+		const artifacts: Artifact[] = [];
+		while (this.buffer.length > 0) {
+			const openIndex = this.buffer.toLowerCase().indexOf(ARTIFACT_OPEN);
+			if (openIndex < 0) {
+				const keep = final ? 0 : pendingOpenTagLength(this.buffer);
+				text += this.buffer.slice(0, this.buffer.length - keep);
+				this.buffer = this.buffer.slice(this.buffer.length - keep);
+				break;
+			}
+			text += this.buffer.slice(0, openIndex);
+			this.buffer = this.buffer.slice(openIndex);
+			const closeIndex = this.buffer.toLowerCase().indexOf(ARTIFACT_CLOSE);
+			if (closeIndex < 0) {
+				if (final) {
+					text += this.buffer;
+					this.buffer = "";
+				}
+				break;
+			}
+			const block = this.buffer.slice(0, closeIndex + ARTIFACT_CLOSE.length);
+			this.buffer = this.buffer.slice(block.length);
+			const extracted = extractArtifactsFromText(block);
+			artifacts.push(...extracted.artifacts);
+			text += extracted.cleanText;
+		}
+		return { text, artifacts };
+	}
+}
@@ -0,0 +1,117 @@
+import { Hono } from "hono";
+import { describe, expect, it, vi } from "vitest";
+import { type AuditEvent, AuditService, auditEventsToCsv } from "./audit.service";
+
+const createDbMock = (insertError?: Error) => {
+	const values = vi.fn(async () => {
+		if (insertError) throw insertError;
+	});
+	const insert = vi.fn(() => ({ values }));
+	return { db: { insert } as never, values };
+};
+
+describe("auditEventsToCsv", () => {
+	it("escapes commas, quotes and newlines", () => {
+		const event: AuditEvent = {
+			id: "event-1",
+			action: "page.update",
+			outcome: "success",
+			actorUserId: "user-1",
+			actorEmail: "alice@example.com",
+			ip: "10.0.0.1",
+			targetType: "page",
+			targetId: "tech/hono, routing",
+			summary: { title: 'Say "hi"\nagain' },
+			createdAt: new Date("2026-01-02T03:04:05.000Z"),
+		};
+
+		const csv = auditEventsToCsv([event]);
+
+		expect(csv.split("\r\n")[0]).toBe(
+			"createdAt,action,outcome,actorEmail,actorUserId,ip,targetType,targetId,summary",
+		);
+		expect(csv).toContain(
+			'2026-01-02T03:04:05.000Z,page.update,success,alice@example.com,user-1,10.0.0.1,page,"tech/hono, routing","{""title"":""Say \\""hi\\""\\nagain""}"\r\n',
+		);
+	});
+
+	it("prefixes cells that a spreadsheet would evaluate as formulas", () => {
+		const event: AuditEvent = {
+			id: "event-2",
+			action: "auth.login",
+			outcome: "failure",
+			actorUserId: null,
+			actorEmail: '=HYPERLINK("https://evil.example.com","x")',
+			ip: "-1+1",
+			targetType: "user",
+			targetId: "@SUM(A1:A2)",
+			summary: {},
+			createdAt: new Date("2026-01-02T03:04:05.000Z"),
+		};
+
+		const csv = auditEventsToCsv([event]);
+
+		expect(csv.split("\r\n")[1]).toBe(
+			`2026-01-02T03:04:05.000Z,auth.login,failure,"'=HYPERLINK(""https://evil.example.com"",""x"")",,'-1+1,user,'@SUM(A1:A2),{}`,
+		);
+	});
+});
+
+describe("AuditService.recordRequest", () => {
+	it("records the authenticated user and client IP", async () => {
+		const { db, values } = createDbMock();
+		const audit = new AuditService(db, { trustProxy: true });
+		const app = new Hono();
+		app.post("/pages", async (c) => {
+			c.set("authUser", {
+				userId: "user-1",
+				email: "alice@example.com",
+				role: "member",
+			});
+			await audit.recordRequest(c, {
+				action: "page.create",
+				targetType: "page",
+				targetId: "tech/hono",
+				summary: { title: "Hono" },
+			});
+			return c.json({ ok: true });
+		});
+
+		await app.request("http://localhost/pages", {
+			method: "POST",
+			headers: { "x-forwarded-for": "203.0.113.5, 10.0.0.1" },
+		});
+
+		expect(values).toHaveBeenCalledWith({
+			action: "page.create",
+			outcome: "success",
+			actorUserId: "user-1",
+			actorEmail: "alice@example.com",
+			ip: "203.0.113.5",
+			targetType: "page",
+			targetId: "tech/hono",
+			summary: { title: "Hono" },
+		});
+	});
+
+	it("does not fail the request when recording fails", async () => {
+		const { db } = createDbMock(new Error("connection lost"));
+		const audit = new AuditService(db, { trustProxy: false });
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => undefined);
+
+		await expect(
+			audit.record({
+				action: "auth.login",
+				outcome: "failure",
+				actor: { userId: null, email: "unknown@example.com" },
+				targetType: "user",
+			}),
+		).resolves.toBeUndefined();
+		expect(consoleError).toHaveBeenCalledWith(
+			expect.stringContaining("[audit] record failed"),
+		);
+		consoleError.mockRestore();
+	});
+});
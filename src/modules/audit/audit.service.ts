@@ -0,0 +1,202 @@
+import { and, count, desc, eq, gte, ilike, lt, type SQL } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import type { Context } from "hono";
+import type * as schema from "../../db/schema";
+import { auditEvents } from "../../db/schema";
+import { readClientIp } from "../../middleware/client-ip";
+
+export const AUDIT_ACTIONS = [
+	"auth.login",
+	"page.create",
+	"page.update",
+	"page.move",
+	"page.restore",
+	"page.delete",
+	"folder.create",
+	"folder.rename",
+	"folder.delete",
+	"wiki.reindex",
+	"user.create",
+	"user.update",
+	"user.password_reset",
+	"user.oidc_link",
+	"user.disable",
+	"user.enable",
+	"group.create",
+	"group.update",
+	"group.delete",
+	"group.members",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditOutcome = "success" | "failure";
+
+export type AuditActor = {
+	userId: string | null;
+	email: string | null;
+};
+
+export type AuditEventInput = {
+	action: AuditAction;
+	outcome?: AuditOutcome;
+	/** 省略時はリクエストの認証済み利用者 */
+	actor?: AuditActor;
+	targetType: string;
+	targetId?: string | null;
+	/** 変更内容の要約。本文など大きな値は入れない */
+	summary?: Record<string, unknown>;
+};
+
+export type AuditEvent = {
+	id: string;
+	action: string;
+	outcome: string;
+	actorUserId: string | null;
+	actorEmail: string | null;
+	ip: string | null;
+	targetType: string;
+	targetId: string | null;
+	summary: Record<string, unknown>;
+	createdAt: Date;
+};
+
+export type AuditEventFilter = {
+	action?: string;
+	outcome?: AuditOutcome;
+	actorUserId?: string;
+	/** メールアドレスの部分一致 */
+	actorEmail?: string;
+	targetType?: string;
+	targetId?: string;
+	from?: Date;
+	to?: Date;
+	limit: number;
+	offset: number;
+};
+
+const CSV_COLUMNS = [
+	"createdAt",
+	"action",
+	"outcome",
+	"actorEmail",
+	"actorUserId",
+	"ip",
+	"targetType",
+	"targetId",
+	"summary",
+] as const;
+
+/** 表計算ソフトで数式として評価されないよう、先頭が `=` `+` `-` `@` などのセルには `'` を付ける */
+const neutralizeFormula = (value: string): string =>
+	/^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const escapeCsvCell = (raw: string): string => {
+	const value = neutralizeFormula(raw);
+	return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+};
+
+/** 監査ログを RFC 4180 形式の CSV にする (改行は CRLF) */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+	const rows = events.map((event) =>
+		CSV_COLUMNS.map((column) => {
+			switch (column) {
+				case "createdAt":
+					return event.createdAt.toISOString();
+				case "summary":
+					return JSON.stringify(event.summary);
+				default:
+					return event[column] ?? "";
+			}
+		}),
+	);
+	return `${[[...CSV_COLUMNS], ...rows]
+		.map((row) => row.map(escapeCsvCell).join(","))
+		.join("\r\n")}\r\n`;
+}
+
+const readRequestActor = (c: Context): AuditActor => {
+	const user = c.get("authUser") as
+		| { userId?: string; email?: string }
+		| undefined;
+	return { userId: user?.userId ?? null, email: user?.email ?? null };
+};
+
+/**
+ * Wiki 編集・管理操作・ログインの監査ログ。
+ * 記録に失敗しても元の操作は失敗させず、ログに残すだけにする。
+ */
+export class AuditService {
+	constructor(
+		private readonly db: NodePgDatabase<typeof schema>,
+		private readonly options: { trustProxy: boolean },
+	) {}
+
+	async record(input: AuditEventInput & { ip?: string | null }): Promise<void> {
+		try {
+			await this.db.insert(auditEvents).values({
+				action: input.action,
+				outcome: input.outcome ?? "success",
+				actorUserId: input.actor?.userId ?? null,
+				actorEmail: input.actor?.email ?? null,
+				ip: input.ip ?? null,
+				targetType: input.targetType,
+				targetId: input.targetId ?? null,
+				summary: input.summary ?? {},
+			});
+		} catch (error) {
+			console.error(
+				`[audit] record failed ${JSON.stringify({
+					action: input.action,
+					targetId: input.targetId ?? null,
+					error: error instanceof Error ? error.message : String(error),
+				})}`,
+			);
+		}
+	}
+
+	/** リクエストの利用者とクライアント IP を補って記録する */
+	async recordRequest(c: Context, input: AuditEventInput): Promise<void> {
+		await this.record({
+			...input,
+			actor: input.actor ?? readRequestActor(c),
+			ip: readClientIp(c, this.options),
+		});
+	}
+
+	async listEvents(
+		filter: AuditEventFilter,
+	): Promise<{ items: AuditEvent[]; total: number }> {
+		const conditions: SQL[] = [];
+		if (filter.action) conditions.push(eq(auditEvents.action, filter.action));
+		if (filter.outcome) {
+			conditions.push(eq(auditEvents.outcome, filter.outcome));
+		}
+		if (filter.actorUserId) {
+			conditions.push(eq(auditEvents.actorUserId, filter.actorUserId));
+		}
+		if (filter.actorEmail) {
+			conditions.push(ilike(auditEvents.actorEmail, `%${filter.actorEmail}%`));
+		}
+		if (filter.targetType) {
+			conditions.push(eq(auditEvents.targetType, filter.targetType));
+		}
+		if (filter.targetId) {
+			conditions.push(eq(auditEvents.targetId, filter.targetId));
+		}
+		if (filter.from) conditions.push(gte(auditEvents.createdAt, filter.from));
+		if (filter.to) conditions.push(lt(auditEvents.createdAt, filter.to));
+		const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+		const [rows, [totalRow]] = await Promise.all([
+			this.db
+				.select()
+				.from(auditEvents)
+				.where(where)
+				.orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+				.limit(filter.limit)
+				.offset(filter.offset),
+			this.db.select({ total: count() }).from(auditEvents).where(where),
+		]);
+		return { items: rows, total: totalRow?.total ?? 0 };
+	}
+}
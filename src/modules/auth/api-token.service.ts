@@ -0,0 +1,169 @@
+import { randomBytes } from "node:crypto";
+import { and, desc, eq, isNull, lt, or, sql } from "drizzle-orm";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import type * as schema from "../../db/schema";
+import { apiTokens } from "../../db/schema";
+import { HttpError } from "./errors";
+import { hashToken } from "./token.service";
+import { type ApiTokenScope, apiTokenScopeSchema } from "./types";
+
+/** Bearer に渡された値が JWT ではなく個人用 API トークンかを見分けるための接頭辞 */
+export const API_TOKEN_PREFIX = "rrag_";
+
+/** last_used_at の更新間隔。リクエストごとに書き込まないよう間引く */
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export type ApiTokenSummary = {
+	id: string;
+	name: string;
+	tokenPrefix: string;
+	scopes: ApiTokenScope[];
+	expiresAt: Date | null;
+	lastUsedAt: Date | null;
+	revokedAt: Date | null;
+	createdAt: Date;
+};
+
+export type AuthenticatedApiToken = {
+	tokenId: string;
+	userId: string;
+	scopes: ApiTokenScope[];
+};
+
+export type ApiTokenUsage = {
+	activeTokens: number;
+	lastUsedAt: Date | null;
+};
+
+type CreateApiTokenInput = {
+	name: string;
+	scopes: ApiTokenScope[];
+	expiresAt?: Date;
+};
+
+const normalizeScopes = (scopes: string[]): ApiTokenScope[] =>
+	scopes.flatMap((scope) => {
+		const parsed = apiTokenScopeSchema.safeParse(scope);
+		return parsed.success ? [parsed.data] : [];
+	});
+
+const toSummary = (row: typeof apiTokens.$inferSelect): ApiTokenSummary => ({
+	id: row.id,
+	name: row.name,
+	tokenPrefix: row.tokenPrefix,
+	scopes: normalizeScopes(row.scopes),
+	expiresAt: row.expiresAt,
+	lastUsedAt: row.lastUsedAt,
+	revokedAt: row.revokedAt,
+	createdAt: row.createdAt,
+});
+
+export function isApiToken(token: string): boolean {
+	return token.startsWith(API_TOKEN_PREFIX);
+}
+
+/**
+ * スクリプトや CI から使う長期の個人用 API トークン。
+ * DB にはハッシュだけを保存し、平文は作成時に 1 度だけ返す。
+ */
+export class ApiTokenService {
+	constructor(private readonly db: NodePgDatabase<typeof schema>) {}
+
+	async createToken(
+		userId: string,
+		input: CreateApiTokenInput,
+	): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+		const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+		const [created] = await this.db
+			.insert(apiTokens)
+			.values({
+				userId,
+				name: input.name,
+				tokenHash: hashToken(token),
+				tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+				scopes: [...new Set(input.scopes)],
+				expiresAt: input.expiresAt ?? null,
+			})
+			.returning();
+		return { token, apiToken: toSummary(created) };
+	}
+
+	async listTokens(userId: string): Promise<ApiTokenSummary[]> {
+		const rows = await this.db
+			.select()
+			.from(apiTokens)
+			.where(eq(apiTokens.userId, userId))
+			.orderBy(desc(apiTokens.createdAt));
+		return rows.map(toSummary);
+	}
+
+	async revokeToken(userId: string, tokenId: string): Promise<void> {
+		const revoked = await this.db
+			.update(apiTokens)
+			.set({ revokedAt: new Date() })
+			.where(
+				and(
+					eq(apiTokens.id, tokenId),
+					eq(apiTokens.userId, userId),
+					isNull(apiTokens.revokedAt),
+				),
+			)
+			.returning({ id: apiTokens.id });
+		if (revoked.length === 0) {
+			throw new HttpError(404, "API token not found.");
+		}
+	}
+
+	/** 失効・期限切れのトークンは null。利用者の有効性は呼び出し側で確認する */
+	async authenticate(token: string): Promise<AuthenticatedApiToken | null> {
+		if (!isApiToken(token)) return null;
+		const row = await this.db.query.apiTokens.findFirst({
+			where: eq(apiTokens.tokenHash, hashToken(token)),
+		});
+		const now = new Date();
+		if (!row || row.revokedAt || (row.expiresAt && row.expiresAt <= now)) {
+			return null;
+		}
+		await this.db
+			.update(apiTokens)
+			.set({ lastUsedAt: now })
+			.where(
+				and(
+					eq(apiTokens.id, row.id),
+					or(
+						isNull(apiTokens.lastUsedAt),
+						lt(
+							apiTokens.lastUsedAt,
+							new Date(now.getTime() - LAST_USED_UPDATE_INTERVAL_MS),
+						),
+					),
+				),
+			);
+		return {
+			tokenId: row.id,
+			userId: row.userId,
+			scopes: normalizeScopes(row.scopes),
+		};
+	}
+
+	/** 管理画面向けに、利用者ごとの有効なトークン数と最終利用日時を集計する */
+	async usageByUser(): Promise<Map<string, ApiTokenUsage>> {
+		const rows = await this.db
+			.select({
+				userId: apiTokens.userId,
+				activeTokens: sql<number>`cast(count(*) filter (where ${apiTokens.revokedAt} is null and (${apiTokens.expiresAt} is null or ${apiTokens.expiresAt} > now())) as integer)`,
+				lastUsedAt: sql<Date | null>`max(${apiTokens.lastUsedAt})`,
+			})
+			.from(apiTokens)
+			.groupBy(apiTokens.userId);
+		return new Map(
+			rows.map((row) => [
+				row.userId,
+				{
+					activeTokens: row.activeTokens,
+					lastUsedAt: row.lastUsedAt ? new Date(row.lastUsedAt) : null,
+				},
+			]),
+		);
+	}
+}
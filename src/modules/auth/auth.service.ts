@@ -1,3 +1,4 @@
+import { randomBytes } from "node:crypto";
 import { and, desc, eq, ne, sql } from "drizzle-orm";
 import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 import type * as schema from "../../db/schema";
@@ -16,10 +17,11 @@ import {
 	userRoleSchema,
 	type AuthSessionUser,
 	type AuthUser,
+	type OidcIdentity,
 	type UserRole,
 } from "./types";
 
-type AuthTokensResult = {
+export type AuthTokensResult = {
 	accessToken: string;
 	refreshToken: string;
 	user: AuthSessionUser;
@@ -153,6 +155,104 @@ export class AuthService {
 		return this.issueTokens(refreshed);
 	}
 
+	/**
+	 * IdP で認証済みの利用者をログインさせる。issuer と subject で紐付け、
+	 * 未連携ならメールアドレスが一致する既存ユーザーに紐付け、いなければ自動作成する。
+	 * メールアドレスでの紐付けは IdP が確認済み (email_verified: true) とした場合に限る。
+	 */
+	async loginWithOidc(
+		identity: OidcIdentity,
+		options: { autoProvision: boolean },
+	): Promise<AuthTokensResult> {
+		const linked = await this.db.query.users.findFirst({
+			where: and(
+				eq(users.oidcIssuer, identity.issuer),
+				eq(users.oidcSubject, identity.subject),
+			),
+		});
+		let user = linked ? toAuthUser(linked) : null;
+
+		if (!user) {
+			const byEmail = await this.db.query.users.findFirst({
+				where: eq(users.email, identity.email.toLowerCase()),
+			});
+			if (byEmail?.oidcSubject) {
+				throw new HttpError(
+					409,
+					"This email is already linked to another SSO account.",
+				);
+			}
+			if (byEmail && !identity.emailVerified) {
+				// 管理者が紐付けられるよう、IdP 側の識別子をサーバーログに残す
+				console.warn(
+					`[auth][oidc] unverified email link refused ${JSON.stringify({
+						userId: byEmail.id,
+						issuer: identity.issuer,
+						subject: identity.subject,
+					})}`,
+				);
+				throw new HttpError(
+					409,
+					"An account with this email already exists. Ask an administrator to link it to your SSO account.",
+				);
+			}
+			if (byEmail) {
+				await this.db
+					.update(users)
+					.set({
+						oidcIssuer: identity.issuer,
+						oidcSubject: identity.subject,
+						updatedAt: new Date(),
+					})
+					.where(eq(users.id, byEmail.id));
+				user = toAuthUser(byEmail);
+			}
+		}
+
+		if (!user) {
+			if (!options.autoProvision) {
+				throw new HttpError(403, "No account is registered for this user.");
+			}
+			// パスワードログインはさせないため、誰も知らない値のハッシュを入れておく
+			const passwordHash = await hashPassword(randomBytes(32).toString("hex"));
+			const [created] = await this.db
+				.insert(users)
+				.values({
+					email: identity.email.toLowerCase(),
+					passwordHash,
+					displayName: identity.displayName,
+					role: identity.role ?? "member",
+					isActive: true,
+					oidcIssuer: identity.issuer,
+					oidcSubject: identity.subject,
+				})
+				.returning();
+			user = toAuthUser(created);
+		}
+
+		if (!user.isActive) {
+			throw new HttpError(403, "User account is disabled.");
+		}
+
+		if (identity.role && identity.role !== user.role) {
+			await this.assertCanRemoveAdminPrivileges(user);
+		}
+		const now = new Date();
+		await this.db
+			.update(users)
+			.set({
+				role: identity.role ?? user.role,
+				lastLoginAt: now,
+				updatedAt: now,
+			})
+			.where(eq(users.id, user.id));
+		const refreshed = await this.findUserById(user.id);
+		if (!refreshed) {
+			throw new HttpError(404, "User not found.");
+		}
+		return this.issueTokens(refreshed);
+	}
+
 	async refresh(refreshToken: string): Promise<AuthTokensResult> {
 		const payload = await consumeRefreshToken(refreshToken, this.db, this.env);
 		const user = await this.findUserById(payload.userId);
@@ -259,6 +359,39 @@ export class AuthService {
 		return toAuthUser(updated);
 	}
 
+	/** 管理者が既存ユーザーを IdP の issuer / subject に紐付ける */
+	async linkOidcIdentity(
+		targetUserId: string,
+		identity: { issuer: string; subject: string },
+	): Promise<AuthUser> {
+		const target = await this.findUserById(targetUserId);
+		if (!target) {
+			throw new HttpError(404, "User not found.");
+		}
+		const linked = await this.db.query.users.findFirst({
+			where: and(
+				eq(users.oidcIssuer, identity.issuer),
+				eq(users.oidcSubject, identity.subject),
+			),
+		});
+		if (linked && linked.id !== targetUserId) {
+			throw new HttpError(
+				409,
+				"This SSO account is already linked to another user.",
+			);
+		}
+		const [updated] = await this.db
+			.update(users)
+			.set({
+				oidcIssuer: identity.issuer,
+				oidcSubject: identity.subject,
+				updatedAt: new Date(),
+			})
+			.where(eq(users.id, targetUserId))
+			.returning();
+		return toAuthUser(updated);
+	}
+
 	async resetPassword(
 		targetUserId: string,
 		newPassword: string,
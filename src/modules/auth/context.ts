@@ -6,6 +6,7 @@ export type AuthContextUser = {
 	userId: string;
 	email: string;
 	role: UserRole;
+	displayName?: string;
 };
 
 export function getAuthContextUser(c: Context): AuthContextUser {
@@ -21,5 +22,6 @@ export function getAuthContextUser(c: Context): AuthContextUser {
 		userId: value.userId,
 		email: value.email,
 		role: value.role,
+		displayName: value.displayName,
 	};
 }
@@ -0,0 +1,393 @@
+import { createHash, randomUUID } from "node:crypto";
+import { Hono } from "hono";
+import { type CryptoKey, SignJWT, exportJWK, generateKeyPair } from "jose";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { AppEnv } from "../../app/env";
+import { createAuthRoute } from "../../routes/auth.route";
+import type { AuditService } from "../audit/audit.service";
+import { AuthService } from "./auth.service";
+import { mapOidcRole, OidcService } from "./oidc.service";
+import type { OidcConfig } from "./types";
+
+const ISSUER = "http://idp.test";
+const CLIENT_ID = "regular-rag";
+const CLIENT_SECRET = "client-secret";
+const REDIRECT_URI = "http://localhost:5173/api/auth/oidc/callback";
+
+const config: OidcConfig = {
+	issuer: ISSUER,
+	clientId: CLIENT_ID,
+	clientSecret: CLIENT_SECRET,
+	redirectUri: REDIRECT_URI,
+	scopes: ["openid", "email", "profile"],
+	roleClaim: "groups",
+	adminClaimValues: ["rag-admins"],
+	autoProvision: true,
+	displayName: "Company SSO",
+};
+
+type PendingAuthorization = {
+	nonce: string;
+	codeChallenge: string;
+	redirectUri: string;
+};
+
+/** 認可コードフローだけを実装したローカルのモック IdP */
+const createMockIssuer = async () => {
+	const { privateKey, publicKey } = await generateKeyPair("RS256");
+	const jwk = { ...(await exportJWK(publicKey)), kid: "key-1", alg: "RS256" };
+	const pending = new Map<string, PendingAuthorization>();
+	const claims: Record<string, unknown> = {
+		sub: "idp-user-1",
+		email: "alice@example.com",
+		email_verified: true,
+		name: "Alice",
+		groups: ["rag-admins"],
+	};
+	const overrides: { audience?: string; nonce?: string } = {};
+
+	const signIdToken = (
+		key: CryptoKey,
+		payload: Record<string, unknown>,
+		audience: string,
+	) =>
+		new SignJWT(payload)
+			.setProtectedHeader({ alg: "RS256", kid: "key-1" })
+			.setIssuer(ISSUER)
+			.setAudience(audience)
+			.setIssuedAt()
+			.setExpirationTime("5m")
+			.sign(key);
+
+	const app = new Hono()
+		.get("/.well-known/openid-configuration", (c) =>
+			c.json({
+				issuer: ISSUER,
+				authorization_endpoint: `${ISSUER}/authorize`,
+				token_endpoint: `${ISSUER}/token`,
+				jwks_uri: `${ISSUER}/jwks`,
+			}),
+		)
+		.get("/jwks", (c) => c.json({ keys: [jwk] }))
+		.get("/authorize", (c) => {
+			const code = randomUUID();
+			pending.set(code, {
+				nonce: c.req.query("nonce") ?? "",
+				codeChallenge: c.req.query("code_challenge") ?? "",
+				redirectUri: c.req.query("redirect_uri") ?? "",
+			});
+			const redirect = new URL(c.req.query("redirect_uri") ?? "");
+			redirect.searchParams.set("code", code);
+			redirect.searchParams.set("state", c.req.query("state") ?? "");
+			return c.redirect(redirect.toString());
+		})
+		.post("/token", async (c) => {
+			const expectedAuth = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64")}`;
+			if (c.req.header("Authorization") !== expectedAuth) {
+				return c.json({ error: "invalid_client" }, 401);
+			}
+			const form = await c.req.parseBody();
+			const authorization = pending.get(String(form.code));
+			const challenge = createHash("sha256")
+				.update(String(form.code_verifier))
+				.digest("base64url");
+			if (
+				!authorization ||
+				authorization.codeChallenge !== challenge ||
+				authorization.redirectUri !== form.redirect_uri
+			) {
+				return c.json({ error: "invalid_grant" }, 400);
+			}
+			pending.delete(String(form.code));
+			const idToken = await signIdToken(
+				privateKey,
+				{ ...claims, nonce: overrides.nonce ?? authorization.nonce },
+				overrides.audience ?? CLIENT_ID,
+			);
+			return c.json({
+				access_token: "idp-access-token",
+				token_type: "Bearer",
+				id_token: idToken,
+			});
+		});
+
+	return {
+		claims,
+		overrides,
+		fetch: async (input: string, init?: RequestInit) => app.request(input, init),
+	};
+};
+
+const authorizeWithIssuer = async (
+	issuer: Awaited<ReturnType<typeof createMockIssuer>>,
+	authorizationUrl: string,
+) => {
+	const response = await issuer.fetch(authorizationUrl);
+	const redirect = new URL(response.headers.get("location") ?? "");
+	return {
+		code: redirect.searchParams.get("code") ?? "",
+		state: redirect.searchParams.get("state") ?? "",
+		callbackPath: `${redirect.pathname}${redirect.search}`,
+	};
+};
+
+const createAuthServiceMock = () => ({
+	loginWithOidc: vi.fn(async () => ({
+		accessToken: "app-access-token",
+		refreshToken: "app-refresh-token",
+		user: {
+			id: "user-1",
+			email: "alice@example.com",
+			displayName: "Alice",
+			role: "admin" as const,
+		},
+	})),
+});
+
+const createAuditMock = () =>
+	({ recordRequest: vi.fn(async () => undefined) }) as unknown as AuditService;
+
+describe("OidcService", () => {
+	let issuer: Awaited<ReturnType<typeof createMockIssuer>>;
+
+	beforeAll(async () => {
+		issuer = await createMockIssuer();
+	});
+
+	it("builds a PKCE authorization request", async () => {
+		const service = new OidcService({
+			config,
+			authService: createAuthServiceMock() as unknown as AuthService,
+			fetch: issuer.fetch,
+		});
+
+		const request = await service.createAuthorizationRequest();
+		const url = new URL(request.url);
+
+		expect(url.origin + url.pathname).toBe(`${ISSUER}/authorize`);
+		expect(url.searchParams.get("client_id")).toBe(CLIENT_ID);
+		expect(url.searchParams.get("redirect_uri")).toBe(REDIRECT_URI);
+		expect(url.searchParams.get("scope")).toBe("openid email profile");
+		expect(url.searchParams.get("state")).toBe(request.state);
+		expect(url.searchParams.get("nonce")).toBe(request.nonce);
+		expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+		expect(url.searchParams.get("code_challenge")).toBe(
+			createHash("sha256").update(request.codeVerifier).digest("base64url"),
+		);
+	});
+
+	it("exchanges the code and logs in with the mapped identity", async () => {
+		const authService = createAuthServiceMock();
+		const service = new OidcService({
+			config,
+			authService: authService as unknown as AuthService,
+			fetch: issuer.fetch,
+		});
+		const request = await service.createAuthorizationRequest();
+		const { code } = await authorizeWithIssuer(issuer, request.url);
+
+		const result = await service.login({
+			code,
+			codeVerifier: request.codeVerifier,
+			nonce: request.nonce,
+		});
+
+		expect(result.accessToken).toBe("app-access-token");
+		expect(authService.loginWithOidc).toHaveBeenCalledWith(
+			{
+				issuer: ISSUER,
+				subject: "idp-user-1",
+				email: "alice@example.com",
+				emailVerified: true,
+				displayName: "Alice",
+				role: "admin",
+			},
+			{ autoProvision: true },
+		);
+	});
+
+	it("rejects ID tokens with an unexpected nonce or audience", async () => {
+		const service = new OidcService({
+			config,
+			authService: createAuthServiceMock() as unknown as AuthService,
+			fetch: issuer.fetch,
+		});
+
+		issuer.overrides.nonce = "other-nonce";
+		const first = await service.createAuthorizationRequest();
+		const firstCode = await authorizeWithIssuer(issuer, first.url);
+		await expect(
+			service.resolveIdentity({
+				code: firstCode.code,
+				codeVerifier: first.codeVerifier,
+				nonce: first.nonce,
+			}),
+		).rejects.toMatchObject({ status: 401 });
+		issuer.overrides.nonce = undefined;
+
+		issuer.overrides.audience = "another-client";
+		const second = await service.createAuthorizationRequest();
+		const secondCode = await authorizeWithIssuer(issuer, second.url);
+		await expect(
+			service.resolveIdentity({
+				code: secondCode.code,
+				codeVerifier: second.codeVerifier,
+				nonce: second.nonce,
+			}),
+		).rejects.toMatchObject({ status: 401, message: "Invalid ID token." });
+		issuer.overrides.audience = undefined;
+	});
+
+	it("refuses to link an existing account by an unverified email", async () => {
+		const existingAdmin = {
+			id: "user-admin",
+			email: "alice@example.com",
+			displayName: "Alice",
+			role: "admin",
+			isActive: true,
+			oidcIssuer: null,
+			oidcSubject: null,
+		};
+		const findFirst = vi
+			.fn()
+			.mockResolvedValueOnce(undefined)
+			.mockResolvedValueOnce(existingAdmin);
+		const db = { query: { users: { findFirst } }, update: vi.fn() };
+		const service = new OidcService({
+			config,
+			authService: new AuthService(db as never, {} as AppEnv),
+			fetch: issuer.fetch,
+		});
+		vi.spyOn(console, "warn").mockImplementation(() => undefined);
+
+		issuer.claims.email_verified = undefined;
+		try {
+			const request = await service.createAuthorizationRequest();
+			const { code } = await authorizeWithIssuer(issuer, request.url);
+			await expect(
+				service.login({
+					code,
+					codeVerifier: request.codeVerifier,
+					nonce: request.nonce,
+				}),
+			).rejects.toMatchObject({ status: 409 });
+		} finally {
+			issuer.claims.email_verified = true;
+		}
+		expect(findFirst).toHaveBeenCalledTimes(2);
+		expect(db.update).not.toHaveBeenCalled();
+	});
+});
+
+describe("mapOidcRole", () => {
+	it("reads nested claims and string values", () => {
+		const mapping = {
+			roleClaim: "realm_access.roles",
+			adminClaimValues: ["admin"],
+		};
+		expect(
+			mapOidcRole({ realm_access: { roles: ["user", "admin"] } }, mapping),
+		).toBe("admin");
+		expect(mapOidcRole({ realm_access: { roles: ["user"] } }, mapping)).toBe(
+			"member",
+		);
+		expect(
+			mapOidcRole(
+				{ role: "viewer admin" },
+				{ roleClaim: "role", adminClaimValues: ["admin"] },
+			),
+		).toBe("admin");
+	});
+
+	it("returns null when no admin values are configured", () => {
+		expect(
+			mapOidcRole(
+				{ groups: ["rag-admins"] },
+				{ roleClaim: "groups", adminClaimValues: [] },
+			),
+		).toBeNull();
+	});
+});
+
+describe("OIDC login routes", () => {
+	const env = {
+		jwtSecret: "test-secret-for-oidc-state-cookie",
+		jwtAccessExpiresIn: "15m",
+		jwtRefreshExpiresIn: "7d",
+		secureCookie: false,
+		cookieSameSite: "lax",
+	} as AppEnv;
+
+	it("completes the flow and issues the usual auth cookies", async () => {
+		const issuer = await createMockIssuer();
+		const authService = createAuthServiceMock();
+		const app = createAuthRoute({
+			authService: authService as unknown as AuthService,
+			env,
+			audit: createAuditMock(),
+			oidc: new OidcService({
+				config: { ...config, redirectUri: "http://localhost/oidc/callback" },
+				authService: authService as unknown as AuthService,
+				fetch: issuer.fetch,
+			}),
+		});
+
+		const login = await app.request("/oidc/login?returnTo=/knowledge");
+		expect(login.status).toBe(302);
+		const stateCookie = (login.headers.get("set-cookie") ?? "").split(";")[0];
+		const { callbackPath } = await authorizeWithIssuer(
+			issuer,
+			login.headers.get("location") ?? "",
+		);
+
+		const callback = await app.request(callbackPath, {
+			headers: { Cookie: stateCookie },
+		});
+
+		expect(callback.status).toBe(302);
+		expect(callback.headers.get("location")).toBe("/knowledge");
+		const cookies = callback.headers.getSetCookie().join("\n");
+		expect(cookies).toContain("access_token=app-access-token");
+		expect(cookies).toContain("refresh_token=app-refresh-token");
+		expect(authService.loginWithOidc).toHaveBeenCalledTimes(1);
+	});
+
+	it("redirects with an error when the state does not match", async () => {
+		const issuer = await createMockIssuer();
+		const authService = createAuthServiceMock();
+		const app = createAuthRoute({
+			authService: authService as unknown as AuthService,
+			env,
+			audit: createAuditMock(),
+			oidc: new OidcService({
+				config,
+				authService: authService as unknown as AuthService,
+				fetch: issuer.fetch,
+			}),
+		});
+
+		const callback = await app.request("/oidc/callback?code=x&state=forged");
+
+		expect(callback.status).toBe(302);
+		expect(callback.headers.get("location")).toBe(
+			`/?ssoError=${encodeURIComponent("Invalid SSO state.")}`,
+		);
+		expect(authService.loginWithOidc).not.toHaveBeenCalled();
+	});
+
+	it("reports SSO as disabled when it is not configured", async () => {
+		const app = createAuthRoute({
+			authService: createAuthServiceMock() as unknown as AuthService,
+			env,
+			audit: createAuditMock(),
+			oidc: null,
+		});
+
+		const response = await app.request("/oidc");
+
+		expect(await response.json()).toEqual({
+			enabled: false,
+			displayName: null,
+		});
+	});
+});
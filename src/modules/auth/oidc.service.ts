@@ -0,0 +1,269 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+	type JSONWebKeySet,
+	type JWTPayload,
+	createLocalJWKSet,
+	errors as joseErrors,
+	jwtVerify,
+} from "jose";
+import { z } from "zod";
+import type { AuthService, AuthTokensResult } from "./auth.service";
+import { HttpError } from "./errors";
+import type { OidcConfig, OidcIdentity, UserRole } from "./types";
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+type OidcServiceDeps = {
+	config: OidcConfig;
+	authService: AuthService;
+	/** テストではモック IdP に向けた fetch を渡す */
+	fetch?: FetchLike;
+};
+
+const providerMetadataSchema = z.object({
+	issuer: z.string(),
+	authorization_endpoint: z.string().url(),
+	token_endpoint: z.string().url(),
+	jwks_uri: z.string().url(),
+	userinfo_endpoint: z.string().url().optional(),
+});
+type OidcProviderMetadata = z.infer<typeof providerMetadataSchema>;
+
+const tokenResponseSchema = z.object({
+	access_token: z.string().optional(),
+	id_token: z.string(),
+	token_type: z.string().optional(),
+});
+
+const userInfoSchema = z
+	.object({
+		email: z.string().optional(),
+		email_verified: z.boolean().optional(),
+		name: z.string().optional(),
+		preferred_username: z.string().optional(),
+	})
+	.passthrough();
+
+export type OidcAuthorizationRequest = {
+	url: string;
+	state: string;
+	nonce: string;
+	codeVerifier: string;
+};
+
+const randomToken = () => randomBytes(32).toString("base64url");
+
+const toCodeChallenge = (codeVerifier: string) =>
+	createHash("sha256").update(codeVerifier).digest("base64url");
+
+/** `realm_access.roles` のようなドット区切りのパスでクレームを取り出す */
+const readClaim = (claims: Record<string, unknown>, path: string): unknown =>
+	path.split(".").reduce<unknown>((current, key) => {
+		if (!current || typeof current !== "object") return undefined;
+		return (current as Record<string, unknown>)[key];
+	}, claims);
+
+/** ロールのクレームを admin / member に対応付ける。対応付けが未設定なら null */
+export function mapOidcRole(
+	claims: Record<string, unknown>,
+	config: Pick<OidcConfig, "roleClaim" | "adminClaimValues">,
+): UserRole | null {
+	if (config.adminClaimValues.length === 0) return null;
+	const value = readClaim(claims, config.roleClaim);
+	const values = Array.isArray(value)
+		? value.filter((item): item is string => typeof item === "string")
+		: typeof value === "string"
+			? value.split(/[\s,]+/)
+			: [];
+	return values.some((item) => config.adminClaimValues.includes(item))
+		? "admin"
+		: "member";
+}
+
+/**
+ * OpenID Connect の認可コードフロー (PKCE 付き) を扱う。
+ * ID トークンを検証して利用者を特定し、AuthService で通常と同じトークンを発行する。
+ */
+export class OidcService {
+	private metadataPromise: Promise<OidcProviderMetadata> | null = null;
+	private jwks: ReturnType<typeof createLocalJWKSet> | null = null;
+	private readonly fetch: FetchLike;
+
+	constructor(private readonly deps: OidcServiceDeps) {
+		this.fetch = deps.fetch ?? ((input, init) => fetch(input, init));
+	}
+
+	get displayName(): string {
+		return this.deps.config.displayName;
+	}
+
+	private async fetchJson(url: string, init?: RequestInit): Promise<unknown> {
+		const response = await this.fetch(url, init);
+		if (!response.ok) {
+			const body = await response.text().catch(() => "");
+			throw new HttpError(
+				502,
+				`OIDC provider request failed (${response.status}): ${body.slice(0, 200)}`,
+			);
+		}
+		return response.json();
+	}
+
+	private async getMetadata(): Promise<OidcProviderMetadata> {
+		if (!this.metadataPromise) {
+			const url = `${this.deps.config.issuer}/.well-known/openid-configuration`;
+			this.metadataPromise = this.fetchJson(url)
+				.then((body) => providerMetadataSchema.parse(body))
+				.catch((error: unknown) => {
+					this.metadataPromise = null;
+					throw error;
+				});
+		}
+		return this.metadataPromise;
+	}
+
+	private async loadJwks(
+		metadata: OidcProviderMetadata,
+	): Promise<ReturnType<typeof createLocalJWKSet>> {
+		const body = (await this.fetchJson(metadata.jwks_uri)) as JSONWebKeySet;
+		this.jwks = createLocalJWKSet(body);
+		return this.jwks;
+	}
+
+	async createAuthorizationRequest(): Promise<OidcAuthorizationRequest> {
+		const metadata = await this.getMetadata();
+		const state = randomToken();
+		const nonce = randomToken();
+		const codeVerifier = randomToken();
+		const url = new URL(metadata.authorization_endpoint);
+		url.searchParams.set("response_type", "code");
+		url.searchParams.set("client_id", this.deps.config.clientId);
+		url.searchParams.set("redirect_uri", this.deps.config.redirectUri);
+		url.searchParams.set("scope", this.deps.config.scopes.join(" "));
+		url.searchParams.set("state", state);
+		url.searchParams.set("nonce", nonce);
+		url.searchParams.set("code_challenge", toCodeChallenge(codeVerifier));
+		url.searchParams.set("code_challenge_method", "S256");
+		return { url: url.toString(), state, nonce, codeVerifier };
+	}
+
+	private async exchangeCode(
+		metadata: OidcProviderMetadata,
+		params: { code: string; codeVerifier: string },
+	) {
+		const { clientId, clientSecret, redirectUri } = this.deps.config;
+		const body = new URLSearchParams({
+			grant_type: "authorization_code",
+			code: params.code,
+			redirect_uri: redirectUri,
+			code_verifier: params.codeVerifier,
+			client_id: clientId,
+		});
+		const headers: Record<string, string> = {
+			"Content-Type": "application/x-www-form-urlencoded",
+			Accept: "application/json",
+		};
+		if (clientSecret) {
+			headers.Authorization = `Basic ${Buffer.from(
+				`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`,
+			).toString("base64")}`;
+		}
+		const response = await this.fetchJson(metadata.token_endpoint, {
+			method: "POST",
+			headers,
+			body: body.toString(),
+		});
+		return tokenResponseSchema.parse(response);
+	}
+
+	private async verifyIdToken(
+		metadata: OidcProviderMetadata,
+		idToken: string,
+	): Promise<JWTPayload> {
+		const verify = async (jwks: ReturnType<typeof createLocalJWKSet>) =>
+			(
+				await jwtVerify(idToken, jwks, {
+					issuer: metadata.issuer,
+					audience: this.deps.config.clientId,
+				})
+			).payload;
+		try {
+			return await verify(this.jwks ?? (await this.loadJwks(metadata)));
+		} catch (error) {
+			// IdP の鍵がローテーションされた場合に備えて 1 度だけ取り直す
+			if (error instanceof joseErrors.JWKSNoMatchingKey) {
+				return verify(await this.loadJwks(metadata));
+			}
+			throw error;
+		}
+	}
+
+	/** 認可コードを交換し、検証済みの ID トークンから利用者情報を組み立てる */
+	async resolveIdentity(params: {
+		code: string;
+		codeVerifier: string;
+		nonce: string;
+	}): Promise<OidcIdentity> {
+		const metadata = await this.getMetadata();
+		const tokens = await this.exchangeCode(metadata, params);
+		const claims = await this.verifyIdToken(metadata, tokens.id_token).catch(
+			(error: unknown) => {
+				if (error instanceof HttpError) throw error;
+				throw new HttpError(401, "Invalid ID token.");
+			},
+		);
+		if (claims.nonce !== params.nonce) {
+			throw new HttpError(401, "Invalid ID token nonce.");
+		}
+		if (!claims.sub) {
+			throw new HttpError(401, "ID token has no subject.");
+		}
+
+		let profile: Record<string, unknown> = claims;
+		if (
+			typeof claims.email !== "string" &&
+			metadata.userinfo_endpoint &&
+			tokens.access_token
+		) {
+			const userInfo = userInfoSchema.parse(
+				await this.fetchJson(metadata.userinfo_endpoint, {
+					headers: { Authorization: `Bearer ${tokens.access_token}` },
+				}),
+			);
+			profile = { ...userInfo, ...claims };
+		}
+
+		const email = typeof profile.email === "string" ? profile.email : "";
+		if (!email) {
+			throw new HttpError(403, "OIDC provider did not return an email.");
+		}
+		if (profile.email_verified === false) {
+			throw new HttpError(403, "OIDC email address is not verified.");
+		}
+		const displayName =
+			(typeof profile.name === "string" && profile.name) ||
+			(typeof profile.preferred_username === "string" &&
+				profile.preferred_username) ||
+			email;
+		return {
+			issuer: metadata.issuer,
+			subject: claims.sub,
+			email,
+			emailVerified:
+				profile.email_verified === true || profile.email_verified === "true",
+			displayName,
+			role: mapOidcRole(profile, this.deps.config),
+		};
+	}
+
+	async login(params: {
+		code: string;
+		codeVerifier: string;
+		nonce: string;
+	}): Promise<AuthTokensResult> {
+		const identity = await this.resolveIdentity(params);
+		return this.deps.authService.loginWithOidc(identity, {
+			autoProvision: this.deps.config.autoProvision,
+		});
+	}
+}
@@ -8,7 +8,7 @@ import type { AppEnv } from "../../app/env";
 import { HttpError } from "./errors";
 import { jwtPayloadSchema, type JwtPayload } from "./types";
 
-const hashToken = (token: string): string =>
+export const hashToken = (token: string): string =>
 	createHash("sha256").update(token).digest("hex");
 
 const secretKey = (jwtSecret: string): Uint8Array =>
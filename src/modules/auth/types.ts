@@ -3,6 +3,10 @@ import { z } from "zod";
 export const userRoleSchema = z.enum(["admin", "member"]);
 export type UserRole = z.infer<typeof userRoleSchema>;
 
+/** 個人用 API トークンのスコープ (検索の読み取り、チャット、Wiki の書き込み) */
+export const apiTokenScopeSchema = z.enum(["search", "chat", "wiki:write"]);
+export type ApiTokenScope = z.infer<typeof apiTokenScopeSchema>;
+
 export const jwtPayloadSchema = z.object({
 	userId: z.string().uuid(),
 	email: z.string().email(),
@@ -24,6 +28,33 @@ export type AuthUser = {
 	updatedAt: Date;
 };
 
+/** OpenID Connect によるシングルサインオンの設定。OIDC_ISSUER が未設定なら無効 */
+export type OidcConfig = {
+	issuer: string;
+	clientId: string;
+	clientSecret?: string;
+	redirectUri: string;
+	scopes: string[];
+	/** ロール判定に使うクレーム。`realm_access.roles` のようにドット区切りで入れ子を辿る */
+	roleClaim: string;
+	/** roleClaim にこの値のいずれかを含む利用者を admin にする。空ならロールを同期しない */
+	adminClaimValues: string[];
+	/** 初回ログイン時に users 行を自動作成するか */
+	autoProvision: boolean;
+	displayName: string;
+};
+
+/** IdP で認証済みの利用者。role が null のときは既存のロールを変更しない */
+export type OidcIdentity = {
+	issuer: string;
+	subject: string;
+	email: string;
+	/** IdP が email_verified: true を返した場合だけ true */
+	emailVerified: boolean;
+	displayName: string;
+	role: UserRole | null;
+};
+
 export type AuthSessionUser = Pick<
 	AuthUser,
 	"id" | "email" | "displayName" | "role"
@@ -1,10 +1,11 @@
 import { describe, expect, it, vi } from "vitest";
 import {
+	artifacts,
 	conversations,
 	messages,
 	retrievalLogs,
 } from "../../db/schema";
-import { ChatService } from "./chat.service";
+import { ChatService, type ChatStreamEvent } from "./chat.service";
 
 const createDbMock = () => {
 	const inserted: Array<{ table: unknown; values: unknown }> = [];
@@ -101,4 +102,160 @@ describe("ChatService", () => {
 		expect(llmProvider.chatCompletion).not.toHaveBeenCalled();
 		expect(db.insert).not.toHaveBeenCalledWith(conversations);
 	});
+
+	it("streams text deltas and completed artifacts before persisting", async () => {
+		const { db, inserted } = createDbMock();
+		const llmProvider = {
+			chatCompletion: vi.fn().mockResolvedValue({
+				id: "decision-1",
+				content: '{"shouldSearch":true,"searchQuery":"rag"}',
+			}),
+			streamChatCompletion: vi.fn(async function* () {
+				yield { id: "chat-1", delta: "Hello " };
+				yield { id: "chat-1", delta: '<artifact type="json">{"a"' };
+				yield { id: "chat-1", delta: ":1}</artifact> world" };
+				yield {
+					id: "chat-1",
+					delta: "",
+					usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+				};
+			}),
+		};
+		const evidenceCollector = {
+			collect: vi.fn().mockResolvedValue({
+				query: "rag",
+				topK: 8,
+				evaluation: {
+					vectorResults: [],
+					textResults: [],
+					mergedResults: [],
+					selectedResults: [],
+					strategy: "merged",
+					hybrid: {
+						rrfK: 20,
+						vectorWeight: 1,
+						textWeight: 2,
+						fetchMultiplier: 5,
+					},
+				},
+				retrieved: [],
+				citations: [],
+				webResults: [],
+				localContext: "(none)",
+				webContext: "(none)",
+			}),
+		};
+		const service = new ChatService({
+			db: db as never,
+			llmProvider,
+			evidenceCollector: evidenceCollector as never,
+		});
+		const events: ChatStreamEvent[] = [];
+
+		const result = await service.runStream(
+			{
+				userId: "user-1",
+				messages: [{ role: "user", content: "what is rag" }],
+				rrfK: 20,
+				textWeight: 2,
+			},
+			{
+				onEvent: (event) => {
+					if (event.type === "message_start") {
+						expect(inserted).toEqual([]);
+					}
+					events.push(event);
+				},
+			},
+		);
+
+		expect(events.map((event) => event.type)).toEqual([
+			"message_start",
+			"retrieval_result",
+			"text_delta",
+			"text_delta",
+			"artifact_complete",
+			"message_complete",
+		]);
+		const start = events[0] as Extract<
+			ChatStreamEvent,
+			{ type: "message_start" }
+		>;
+		expect(result.id).toBe(start.messageId);
+		expect(result.text).toBe("Hello  world");
+		expect(result.artifacts[0]?.content).toEqual({ a: 1 });
+		expect(result.usage).toEqual({
+			promptTokens: 12,
+			completionTokens: 5,
+			totalTokens: 17,
+		});
+		expect(inserted).toContainEqual({
+			table: conversations,
+			values: {
+				id: start.conversationId,
+				userId: "user-1",
+				title: "what is rag",
+				metadata: {},
+			},
+		});
+		expect(
+			inserted.find(
+				(entry) =>
+					entry.table === messages &&
+					(entry.values as { role: string }).role === "assistant",
+			)?.values,
+		).toMatchObject({ id: start.messageId, content: "Hello  world" });
+		expect(inserted.some((entry) => entry.table === artifacts)).toBe(true);
+		expect(evidenceCollector.collect).toHaveBeenCalledWith({
+			query: "rag",
+			topK: 8,
+			category: undefined,
+			rrfK: 20,
+			textWeight: 2,
+		});
+		expect(
+			inserted.find((entry) => entry.table === retrievalLogs)?.values,
+		).toMatchObject({
+			context: {
+				hybridParams: {
+					rrfK: 20,
+					vectorWeight: 1,
+					textWeight: 2,
+					fetchMultiplier: 5,
+				},
+			},
+		});
+	});
+
+	it("does not persist anything when the stream is aborted", async () => {
+		const { db, inserted } = createDbMock();
+		const controller = new AbortController();
+		const llmProvider = {
+			chatCompletion: vi.fn().mockResolvedValue({
+				id: "decision-1",
+				content: '{"shouldSearch":false}',
+			}),
+			streamChatCompletion: vi.fn(async function* () {
+				yield { id: "chat-1", delta: "partial" };
+				controller.abort();
+				throw new Error("aborted");
+			}),
+		};
+		const service = new ChatService({
+			db: db as never,
+			llmProvider,
+			evidenceCollector: { collect: vi.fn() } as never,
+		});
+
+		await expect(
+			service.runStream(
+				{
+					userId: "user-1",
+					messages: [{ role: "user", content: "hello" }],
+				},
+				{ onEvent: vi.fn(), signal: controller.signal },
+			),
+		).rejects.toThrow("aborted");
+		expect(inserted).toEqual([]);
+	});
 });
@@ -8,17 +8,31 @@ import {
 	messages as messageTable,
 	retrievalLogs,
 } from "../../db/schema";
+import type { AccessScope } from "../access/access-scope";
 import { HttpError } from "../auth/errors";
-import type { LlmProvider } from "../../providers/types";
+import {
+	type LlmProvider,
+	type LlmResponse,
+	supportsStreaming,
+} from "../../providers/types";
 import type { ChatMessage } from "../../types/llm";
 import { extractArtifactsFromText } from "../artifacts/extract";
+import {
+	type ArtifactStreamChunk,
+	ArtifactStreamParser,
+} from "../artifacts/stream";
 import type { Artifact } from "../artifacts/types";
+import {
+	type HybridSearchOverrides,
+	pickHybridSearchOverrides,
+} from "../rag/hybrid-params";
 import type {
 	EvidenceWebResult,
 	SearchEvidence,
 	SearchEvidenceCollector,
 } from "../rag/search-evidence";
 import type { Citation, RetrievedFragment } from "../rag/types";
+import type { MetadataFilter } from "../sources/search/metadata-filter";
 
 export type ChatResult = {
 	id: string;
@@ -35,21 +49,81 @@ export type ChatResult = {
 	};
 };
 
+export type ChatStreamEvent =
+	| {
+			type: "message_start";
+			conversationId: string;
+			messageId: string;
+	  }
+	| {
+			type: "retrieval_result";
+			citations: Citation[];
+			retrieved: RetrievedFragment[];
+			webResults: EvidenceWebResult[];
+	  }
+	| {
+			type: "text_delta";
+			messageId: string;
+			delta: string;
+	  }
+	| {
+			type: "artifact_complete";
+			artifact: Artifact;
+	  }
+	| {
+			type: "message_complete";
+			messageId: string;
+			conversationId: string;
+			usage?: ChatResult["usage"];
+	  };
+
+export type ChatStreamOptions = {
+	onEvent: (event: ChatStreamEvent) => void | Promise<void>;
+	signal?: AbortSignal;
+};
+
 type ChatServiceDeps = {
 	db: NodePgDatabase<typeof schema>;
 	llmProvider: LlmProvider;
 	evidenceCollector: SearchEvidenceCollector;
 };
 
-type ChatRequest = {
+type ChatRequest = HybridSearchOverrides & {
 	messages: ChatMessage[];
 	userId: string;
 	conversationId?: string;
 	topK?: number;
 	category?: string;
+	multiQuery?: boolean;
+	/** 検索結果のページとリンクでつながったページの断片も根拠に加える */
+	expandLinks?: boolean;
+	/** ページの更新日が新しい断片を優先する */
+	freshness?: boolean;
+	/** frontmatter の値による検索の絞り込み */
+	filter?: MetadataFilter;
+	/** 検索に適用する利用者の閲覧範囲 */
+	access?: AccessScope;
 };
 
-function buildSystemPrompt(localContext: string, webContext: string): string {
+type PreparedChat = {
+	lastUserMessage: string;
+	category?: string;
+	evidence?: SearchEvidence;
+	directAnswer?: LlmResponse;
+	promptMessages: ChatMessage[];
+};
+
+function buildSystemPrompt(
+	localContext: string,
+	webContext: string,
+	staleCount = 0,
+): string {
+	const staleWarning =
+		staleCount > 0
+			? [
+					`${staleCount} local markdown source(s) are marked stale=true because the page has not been reviewed or updated for a long time. When the answer relies on them, tell the user that this evidence may be outdated and show its updated date.`,
+				]
+			: [];
 	return [
 		"You are a helpful assistant.",
 		"Use the provided local markdown context and web search context when they are relevant.",
@@ -58,6 +132,7 @@ function buildSystemPrompt(localContext: string, webContext: string): string {
 		"Cite uncertain points conservatively.",
 		'If you generate structured output, use <artifact type="..."> blocks.',
 		"Avoid overusing Markdown headings (like #, ##, ###). Instead, use a balanced mix of paragraphs, bullet points, and bold text to make the answer clear and readable.",
+		...staleWarning,
 		`Local markdown context:\n${localContext}`,
 		`Web search context:\n${webContext}`,
 	].join("\n\n");
@@ -115,7 +190,7 @@ function buildDirectAnswerPrompt(): string {
 	].join("\n");
 }
 
-function conversationTitleFromQuery(query: string): string {
+export function conversationTitleFromQuery(query: string): string {
 	const trimmed = query.trim();
 	if (!trimmed) return "Conversation";
 	return trimmed.length > 80 ? `${trimmed.slice(0, 77)}...` : trimmed;
@@ -142,11 +217,13 @@ export class ChatService {
 		conversationId: string | undefined,
 		userId: string,
 		query: string,
+		newConversationId?: string,
 	): Promise<string> {
 		if (conversationId) return conversationId;
 		const [inserted] = await this.deps.db
 			.insert(conversations)
 			.values({
+				id: newConversationId,
 				userId,
 				title: conversationTitleFromQuery(query),
 				metadata: {},
@@ -157,10 +234,11 @@ export class ChatService {
 
 	private async decideSearch(
 		messages: ChatMessage[],
+		signal?: AbortSignal,
 	): Promise<ChatSearchDecision> {
 		const response = await this.deps.llmProvider.chatCompletion(
 			[{ role: "system", content: buildSearchDecisionPrompt() }, ...messages],
-			{ temperature: 0 },
+			{ temperature: 0, signal },
 		);
 		const decision = parseSearchDecision(response.content);
 		if (decision) return decision;
@@ -170,14 +248,10 @@ export class ChatService {
 		};
 	}
 
-	private async directAnswer(messages: ChatMessage[]) {
-		return await this.deps.llmProvider.chatCompletion([
-			{ role: "system", content: buildDirectAnswerPrompt() },
-			...messages,
-		]);
-	}
-
-	async run(request: ChatRequest): Promise<ChatResult> {
+	private async prepare(
+		request: ChatRequest,
+		signal?: AbortSignal,
+	): Promise<PreparedChat> {
 		const lastUserMessage =
 			[...request.messages].reverse().find((message) => message.role === "user")
 				?.content ?? "";
@@ -192,33 +266,93 @@ export class ChatService {
 		}
 		const topK = request.topK ?? 8;
 		const category = request.category?.trim() || undefined;
-		const decision = await this.decideSearch(request.messages);
-		let evidence: SearchEvidence | undefined;
-		let llmResponse: Awaited<ReturnType<LlmProvider["chatCompletion"]>>;
+		const decision = await this.decideSearch(request.messages, signal);
 		if (decision.shouldSearch) {
 			const searchQuery = decision.searchQuery?.trim() || lastUserMessage;
-			evidence = await this.deps.evidenceCollector.collect({
+			const evidence = await this.deps.evidenceCollector.collect({
 				query: searchQuery,
 				topK,
 				category,
+				multiQuery: request.multiQuery,
+				expandLinks: request.expandLinks,
+				freshness: request.freshness,
+				filter: request.filter,
+				access: request.access,
+				...pickHybridSearchOverrides(request),
 			});
+			signal?.throwIfAborted();
 			const systemPrompt = buildSystemPrompt(
 				evidence.localContext,
 				evidence.webContext,
+				evidence.citations.filter((citation) => citation.stale).length,
 			);
-			llmResponse = await this.deps.llmProvider.chatCompletion([
-				{ role: "system", content: systemPrompt },
-				...request.messages,
-			]);
-		} else if (decision.answer?.trim()) {
-			llmResponse = {
-				id: randomUUID(),
-				content: decision.answer,
+			return {
+				lastUserMessage,
+				category,
+				evidence,
+				promptMessages: [
+					{ role: "system", content: systemPrompt },
+					...request.messages,
+				],
 			};
-		} else {
-			llmResponse = await this.directAnswer(request.messages);
 		}
-		const extracted = extractArtifactsFromText(llmResponse.content);
+		if (decision.answer?.trim()) {
+			return {
+				lastUserMessage,
+				category,
+				directAnswer: {
+					id: randomUUID(),
+					content: decision.answer,
+				},
+				promptMessages: [],
+			};
+		}
+		return {
+			lastUserMessage,
+			category,
+			promptMessages: [
+				{ role: "system", content: buildDirectAnswerPrompt() },
+				...request.messages,
+			],
+		};
+	}
+
+	private async *streamAnswer(
+		prepared: PreparedChat,
+		signal?: AbortSignal,
+	): AsyncIterable<{ delta: string; usage?: LlmResponse["usage"] }> {
+		if (prepared.directAnswer) {
+			yield { delta: prepared.directAnswer.content };
+			return;
+		}
+		const provider = this.deps.llmProvider;
+		if (!supportsStreaming(provider)) {
+			const response = await provider.chatCompletion(prepared.promptMessages, {
+				signal,
+			});
+			yield { delta: response.content, usage: response.usage };
+			return;
+		}
+		for await (const chunk of provider.streamChatCompletion(
+			prepared.promptMessages,
+			{ signal },
+		)) {
+			if (chunk.delta || chunk.usage) {
+				yield { delta: chunk.delta, usage: chunk.usage };
+			}
+		}
+	}
+
+	private async persistExchange(params: {
+		request: ChatRequest;
+		prepared: PreparedChat;
+		cleanText: string;
+		artifacts: Artifact[];
+		newConversationId?: string;
+		assistantMessageId?: string;
+	}): Promise<string> {
+		const { request, prepared } = params;
+		const { lastUserMessage, evidence } = prepared;
 		const retrieved = evidence?.retrieved ?? [];
 		const citations = evidence?.citations ?? [];
 		const webResults = evidence?.webResults ?? [];
@@ -227,6 +361,7 @@ export class ChatService {
 			request.conversationId,
 			request.userId,
 			lastUserMessage,
+			params.newConversationId,
 		);
 
 		let userMessageId: string = randomUUID();
@@ -246,16 +381,17 @@ export class ChatService {
 		const [assistantMessage] = await this.deps.db
 			.insert(messageTable)
 			.values({
+				id: params.assistantMessageId,
 				conversationId,
 				role: "assistant",
-				content: extracted.cleanText,
+				content: params.cleanText,
 				metadata: { citations },
 			})
 			.returning({ id: messageTable.id });
 
-		if (extracted.artifacts.length > 0) {
+		if (params.artifacts.length > 0) {
 			await this.deps.db.insert(artifacts).values(
-				extracted.artifacts.map((artifact) => ({
+				params.artifacts.map((artifact) => ({
 					conversationId,
 					messageId: assistantMessage.id,
 					type: artifact.type,
@@ -300,8 +436,14 @@ export class ChatService {
 				searchUsed: Boolean(evidence),
 				searchQuery: evidence?.query ?? null,
 				contextLength: evidence?.localContext.length ?? 0,
-				category: category ?? "all",
+				category: prepared.category ?? "all",
+				metadataFilter: evidence?.filter ?? null,
 				retrievalStrategy: evidence?.evaluation.strategy ?? null,
+				hybridParams: evidence?.evaluation.hybrid ?? null,
+				queryPlan: evidence?.evaluation.queryPlan ?? null,
+				graphExpansion: evidence?.evaluation.graphExpansion ?? null,
+				freshness: evidence?.evaluation.freshness ?? null,
+				staleCount: retrieved.filter((item) => item.stale).length,
 				selectedCount: retrieved.length,
 				vectorCount: evidence?.evaluation.vectorResults.length ?? 0,
 				textCount: evidence?.evaluation.textResults.length ?? 0,
@@ -315,15 +457,106 @@ export class ChatService {
 			.set({ updatedAt: new Date() })
 			.where(eq(conversations.id, conversationId));
 
+		return conversationId;
+	}
+
+	async run(request: ChatRequest): Promise<ChatResult> {
+		const prepared = await this.prepare(request);
+		const llmResponse =
+			prepared.directAnswer ??
+			(await this.deps.llmProvider.chatCompletion(prepared.promptMessages));
+		const extracted = extractArtifactsFromText(llmResponse.content);
+		const conversationId = await this.persistExchange({
+			request,
+			prepared,
+			cleanText: extracted.cleanText,
+			artifacts: extracted.artifacts,
+		});
+		const webResults = prepared.evidence?.webResults ?? [];
+
 		return {
 			id: llmResponse.id,
 			conversationId,
 			text: extracted.cleanText,
-			citations,
+			citations: prepared.evidence?.citations ?? [],
 			artifacts: extracted.artifacts,
-			retrieved,
+			retrieved: prepared.evidence?.retrieved ?? [],
 			webResults: webResults.length > 0 ? webResults : undefined,
 			usage: llmResponse.usage,
 		};
 	}
+
+	/**
+	 * run() と同じ処理を、検索結果 → テキスト差分 → artifact の順にイベントとして流す。
+	 * DB への保存はストリーム完了後に行い、signal が中断された場合は何も保存しない。
+	 */
+	async runStream(
+		request: ChatRequest,
+		options: ChatStreamOptions,
+	): Promise<ChatResult> {
+		const { onEvent, signal } = options;
+		const prepared = await this.prepare(request, signal);
+		const conversationId = request.conversationId ?? randomUUID();
+		const messageId = randomUUID();
+		const citations = prepared.evidence?.citations ?? [];
+		const retrieved = prepared.evidence?.retrieved ?? [];
+		const webResults = prepared.evidence?.webResults ?? [];
+
+		await onEvent({ type: "message_start", conversationId, messageId });
+		await onEvent({
+			type: "retrieval_result",
+			citations,
+			retrieved,
+			webResults,
+		});
+
+		const parser = new ArtifactStreamParser();
+		const streamedArtifacts: Artifact[] = [];
+		const emitChunk = async (chunk: ArtifactStreamChunk) => {
+			if (chunk.text) {
+				await onEvent({ type: "text_delta", messageId, delta: chunk.text });
+			}
+			for (const artifact of chunk.artifacts) {
+				streamedArtifacts.push(artifact);
+				await onEvent({ type: "artifact_complete", artifact });
+			}
+		};
+
+		let rawText = "";
+		let usage: LlmResponse["usage"];
+		for await (const chunk of this.streamAnswer(prepared, signal)) {
+			rawText += chunk.delta;
+			usage = chunk.usage ?? usage;
+			await emitChunk(parser.push(chunk.delta));
+		}
+		await emitChunk(parser.flush());
+		signal?.throwIfAborted();
+
+		const { cleanText } = extractArtifactsFromText(rawText);
+		await this.persistExchange({
+			request,
+			prepared,
+			cleanText,
+			artifacts: streamedArtifacts,
+			newConversationId: request.conversationId ? undefined : conversationId,
+			assistantMessageId: messageId,
+		});
+		await onEvent({
+			type: "message_complete",
+			messageId,
+			conversationId,
+			usage,
+		});
+
+		return {
+			id: messageId,
+			conversationId,
+			text: cleanText,
+			citations,
+			artifacts: streamedArtifacts,
+			retrieved,
+			webResults: webResults.length > 0 ? webResults : undefined,
+			usage,
+		};
+	}
 }
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+	FRESHNESS_DEFAULTS,
+	freshnessWeight,
+	isStaleContent,
+	resolveContentDate,
+} from "./freshness";
+
+const now = new Date("2026-10-19T00:00:00Z");
+
+describe("resolveContentDate", () => {
+	it("prefers reviewed_at, then updated, then the last commit date", () => {
+		expect(
+			resolveContentDate({
+				reviewed_at: "2026-05-01",
+				updated: "2026-01-01",
+				lastCommittedAt: "2026-09-30T10:00:00+09:00",
+			}),
+		).toBe("2026-05-01");
+		expect(
+			resolveContentDate({
+				updated: "not a date",
+				lastCommittedAt: "2026-09-30T10:00:00+09:00",
+			}),
+		).toBe("2026-09-30");
+		expect(resolveContentDate({ title: "RAG" })).toBeNull();
+	});
+});
+
+describe("freshnessWeight", () => {
+	it("halves the distance to the floor every half-life", () => {
+		expect(freshnessWeight("2026-10-19", FRESHNESS_DEFAULTS, now)).toBe(1);
+		expect(
+			freshnessWeight("2026-04-22", FRESHNESS_DEFAULTS, now),
+		).toBeCloseTo(0.75, 5);
+		expect(freshnessWeight("2000-01-01", FRESHNESS_DEFAULTS, now)).toBeCloseTo(
+			0.5,
+			5,
+		);
+		expect(freshnessWeight(null, FRESHNESS_DEFAULTS, now)).toBe(1);
+	});
+
+	it("flags content older than the stale threshold", () => {
+		expect(isStaleContent("2025-10-01", FRESHNESS_DEFAULTS, now)).toBe(true);
+		expect(isStaleContent("2026-01-01", FRESHNESS_DEFAULTS, now)).toBe(false);
+		expect(isStaleContent(undefined, FRESHNESS_DEFAULTS, now)).toBe(false);
+	});
+});
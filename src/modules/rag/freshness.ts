@@ -0,0 +1,95 @@
+import { APP_CONFIG_DEFAULTS } from "../../config/appDefaults";
+import type { RetrievedFragment } from "./types";
+
+export type FreshnessParams = {
+	/** 重みが半分 (minWeight との中間) になるまでの日数 */
+	halfLifeDays: number;
+	/** どれだけ古くてもこの値より重みを下げない (0〜1) */
+	minWeight: number;
+	/** 更新からこの日数を過ぎたページの断片を stale とする */
+	staleAfterDays: number;
+};
+
+export const FRESHNESS_DEFAULTS: FreshnessParams =
+	APP_CONFIG_DEFAULTS.freshness;
+
+/** ページの更新日として参照するメタデータ。先にあるものを優先する */
+const CONTENT_DATE_KEYS = ["reviewed_at", "updated", "lastCommittedAt"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (value: unknown): Date | null => {
+	if (typeof value !== "string" && !(value instanceof Date)) return null;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/** frontmatter の reviewed_at / updated、なければ最後のコミット日時を YYYY-MM-DD で返す */
+export function resolveContentDate(metadata: unknown): string | null {
+	if (!metadata || typeof metadata !== "object") return null;
+	const record = metadata as Record<string, unknown>;
+	for (const key of CONTENT_DATE_KEYS) {
+		const date = toDate(record[key]);
+		if (date) return date.toISOString().slice(0, 10);
+	}
+	return null;
+}
+
+const ageInDays = (contentDate: string, now: Date): number | null => {
+	const date = toDate(contentDate);
+	if (!date) return null;
+	return Math.max(0, (now.getTime() - date.getTime()) / DAY_MS);
+};
+
+/**
+ * 経過日数に応じた重み。halfLifeDays ごとに minWeight との差が半分になる指数減衰で、
+ * 更新日が分からない断片は 1 のまま扱う。
+ */
+export function freshnessWeight(
+	contentDate: string | null | undefined,
+	params: FreshnessParams,
+	now = new Date(),
+): number {
+	const age = contentDate ? ageInDays(contentDate, now) : null;
+	if (age === null || params.halfLifeDays <= 0) return 1;
+	const minWeight = Math.min(1, Math.max(0, params.minWeight));
+	return minWeight + (1 - minWeight) * 0.5 ** (age / params.halfLifeDays);
+}
+
+export function isStaleContent(
+	contentDate: string | null | undefined,
+	params: Pick<FreshnessParams, "staleAfterDays">,
+	now = new Date(),
+): boolean {
+	const age = contentDate ? ageInDays(contentDate, now) : null;
+	return age !== null && age > params.staleAfterDays;
+}
+
+/** 更新日から stale の印を付ける */
+export function markStaleFragments(
+	fragments: RetrievedFragment[],
+	params: Pick<FreshnessParams, "staleAfterDays">,
+	now = new Date(),
+): RetrievedFragment[] {
+	return fragments.map((item) => ({
+		...item,
+		stale: isStaleContent(item.contentDate, params, now),
+	}));
+}
+
+/** combinedScore に更新日の重みを掛けて並べ替える */
+export function rankByFreshness(
+	fragments: RetrievedFragment[],
+	params: FreshnessParams,
+	now = new Date(),
+): RetrievedFragment[] {
+	return fragments
+		.map((item) => {
+			const weight = freshnessWeight(item.contentDate, params, now);
+			return {
+				...item,
+				freshnessWeight: weight,
+				combinedScore: item.combinedScore * weight,
+			};
+		})
+		.sort((a, b) => b.combinedScore - a.combinedScore);
+}
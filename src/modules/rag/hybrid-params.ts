@@ -0,0 +1,63 @@
+import { z } from "zod";
+
+export type HybridSearchParams = {
+	/** RRF の定数 k。小さいほど上位の順位差が強く効く */
+	rrfK: number;
+	/** ベクトル検索の順位に掛ける重み */
+	vectorWeight: number;
+	/** 全文検索の順位に掛ける重み */
+	textWeight: number;
+	/** topK に対して各検索から取得する候補数の倍率 */
+	fetchMultiplier: number;
+};
+
+export type HybridSearchOverrides = Partial<HybridSearchParams>;
+
+export const HYBRID_SEARCH_DEFAULTS: HybridSearchParams = {
+	rrfK: 60,
+	vectorWeight: 1,
+	textWeight: 1,
+	fetchMultiplier: 5,
+};
+
+/** リクエストボディで受け付けるハイブリッド検索パラメータ */
+export const hybridSearchParamsShape = {
+	rrfK: z.number().int().min(1).max(1000).optional(),
+	vectorWeight: z.number().min(0).max(10).optional(),
+	textWeight: z.number().min(0).max(10).optional(),
+	fetchMultiplier: z.number().int().min(1).max(20).optional(),
+};
+
+/** 値が指定されているパラメータだけを取り出す */
+export function pickHybridSearchOverrides(
+	input: HybridSearchOverrides,
+): HybridSearchOverrides {
+	const overrides: HybridSearchOverrides = {};
+	for (const key of Object.keys(HYBRID_SEARCH_DEFAULTS) as Array<
+		keyof HybridSearchParams
+	>) {
+		const value = input[key];
+		if (typeof value === "number" && Number.isFinite(value)) {
+			overrides[key] = value;
+		}
+	}
+	return overrides;
+}
+
+/**
+ * リクエスト指定 > カテゴリ既定値 > 全体既定値 の順にパラメータを決める。
+ */
+export function resolveHybridSearchParams(params: {
+	overrides?: HybridSearchOverrides;
+	category?: string;
+	paramsByCategory?: Record<string, HybridSearchOverrides>;
+}): HybridSearchParams {
+	const categoryDefaults = params.category
+		? params.paramsByCategory?.[params.category]
+		: undefined;
+	return {
+		...HYBRID_SEARCH_DEFAULTS,
+		...pickHybridSearchOverrides(categoryDefaults ?? {}),
+		...pickHybridSearchOverrides(params.overrides ?? {}),
+	};
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from "vitest";
+import { QueryPlanner } from "./query-planner";
+
+describe("QueryPlanner", () => {
+	it("expands a query into deduplicated rewrites, translations and HyDE", async () => {
+		const llmProvider = {
+			chatCompletion: vi.fn().mockResolvedValue({
+				id: "plan-1",
+				content: JSON.stringify({
+					rewrites: ["デプロイ 手順", "デプロイ手順", "Azure VM 配置"],
+					translations: ["deploy procedure"],
+					hypotheticalAnswer: "Azure VM へのデプロイは bun run deploy で行う。",
+				}),
+			}),
+		};
+		const planner = new QueryPlanner(llmProvider, { maxRewrites: 2 });
+
+		const plan = await planner.plan(" デプロイ手順 ");
+
+		expect(plan).toEqual({
+			original: "デプロイ手順",
+			queries: [
+				{ kind: "original", text: "デプロイ手順" },
+				{ kind: "rewrite", text: "デプロイ 手順" },
+				{ kind: "translation", text: "deploy procedure" },
+				{
+					kind: "hyde",
+					text: "Azure VM へのデプロイは bun run deploy で行う。",
+				},
+			],
+		});
+	});
+
+	it("falls back to the original query when planning fails", async () => {
+		const planner = new QueryPlanner({
+			chatCompletion: vi.fn().mockRejectedValue(new Error("rate limited")),
+		});
+
+		await expect(planner.plan("biome")).resolves.toEqual({
+			original: "biome",
+			queries: [{ kind: "original", text: "biome" }],
+			error: "rate limited",
+		});
+	});
+});
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import type { LlmProvider } from "../../providers/types";
+
+export type PlannedQueryKind = "original" | "rewrite" | "translation" | "hyde";
+
+export type PlannedQuery = {
+	kind: PlannedQueryKind;
+	text: string;
+};
+
+export type QueryPlan = {
+	original: string;
+	queries: PlannedQuery[];
+	/** 計画の生成に失敗し元の問い合わせだけで検索した場合の理由 */
+	error?: string;
+};
+
+export type QueryPlannerOptions = {
+	maxRewrites?: number;
+	maxTranslations?: number;
+	/** HyDE (仮の回答文をベクトル検索に使う) を含めるか */
+	hyde?: boolean;
+};
+
+const QUERY_PLANNER_DEFAULTS = {
+	maxRewrites: 2,
+	maxTranslations: 1,
+	hyde: true,
+} as const;
+
+const MAX_HYDE_CHARS = 600;
+
+const QueryPlanResponseSchema = z.object({
+	rewrites: z.array(z.string()).default([]),
+	translations: z.array(z.string()).default([]),
+	hypotheticalAnswer: z.string().optional(),
+});
+
+function normalizeQueryKey(text: string): string {
+	return text.normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 検索前に問い合わせを言い換え・翻訳・仮回答 (HyDE) の複数クエリへ展開する。
+ * LLM の応答が使えない場合は元の問い合わせだけの計画を返す。
+ */
+export class QueryPlanner {
+	private readonly options: Required<QueryPlannerOptions>;
+
+	constructor(
+		private readonly llmProvider: LlmProvider,
+		options: QueryPlannerOptions = {},
+	) {
+		this.options = { ...QUERY_PLANNER_DEFAULTS, ...options };
+	}
+
+	async plan(query: string): Promise<QueryPlan> {
+		const original = query.trim();
+		const plan: QueryPlan = {
+			original,
+			queries: [{ kind: "original", text: original }],
+		};
+		if (!original) return plan;
+
+		try {
+			const response = await this.llmProvider.chatCompletion(
+				[
+					{ role: "system", content: this.buildPrompt() },
+					{ role: "user", content: original },
+				],
+				{ temperature: 0 },
+			);
+			const match = response.content.match(/\{[\s\S]*\}/);
+			if (!match) {
+				throw new Error("Query planner response did not contain JSON.");
+			}
+			const parsed = QueryPlanResponseSchema.parse(JSON.parse(match[0]));
+			const seen = new Set([normalizeQueryKey(original)]);
+			const add = (kind: PlannedQueryKind, text: string) => {
+				const trimmed = text.trim();
+				const key = normalizeQueryKey(trimmed);
+				if (!trimmed || seen.has(key)) return;
+				seen.add(key);
+				plan.queries.push({ kind, text: trimmed });
+			};
+			for (const rewrite of parsed.rewrites.slice(
+				0,
+				this.options.maxRewrites,
+			)) {
+				add("rewrite", rewrite);
+			}
+			for (const translation of parsed.translations.slice(
+				0,
+				this.options.maxTranslations,
+			)) {
+				add("translation", translation);
+			}
+			if (this.options.hyde && parsed.hypotheticalAnswer) {
+				add("hyde", parsed.hypotheticalAnswer.slice(0, MAX_HYDE_CHARS));
+			}
+		} catch (error) {
+			plan.error = error instanceof Error ? error.message : String(error);
+		}
+		return plan;
+	}
+
+	private buildPrompt(): string {
+		return [
+			"You expand a search query for an internal wiki that mixes Japanese and English pages.",
+			`Write up to ${this.options.maxRewrites} concise rewrites that use synonyms or more specific terms.`,
+			`Write up to ${this.options.maxTranslations} translations into the other language (Japanese <-> English).`,
+			this.options.hyde
+				? "Write a short hypothetical answer passage (2-3 sentences) as it might appear in the wiki."
+				: "Do not write a hypothetical answer.",
+			'Return only JSON: {"rewrites":["..."],"translations":["..."],"hypotheticalAnswer":"..."}',
+		].join("\n");
+	}
+}
@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
+import { LocalReranker } from "../../providers/LocalReranker";
 import { SourceRetriever } from "./retriever";
 
 const sampleResult = (overrides: Partial<Record<string, unknown>> = {}) => ({
@@ -49,6 +50,8 @@ describe("SourceRetriever", () => {
 			25,
 			["wiki"],
 			["tech"],
+			undefined,
+			undefined,
 		);
 		expect(breakdown.vectorResults).toEqual([]);
 		expect(breakdown.textResults).toHaveLength(1);
@@ -139,4 +142,385 @@ describe("SourceRetriever", () => {
 		expect(breakdown.vectorResults[0].sourceHitCount).toBe(2);
 		expect(breakdown.vectorResults[1].sourceHitCount).toBe(1);
 	});
+
+	it("reorders merged candidates by rerank score when requested", async () => {
+		const sourceRepository = {
+			searchSourceContent: vi.fn().mockResolvedValue([
+				sampleResult({ id: "frag-1", content: "biome lint overview" }),
+				sampleResult({
+					id: "frag-2",
+					locator: "chunk:0002",
+					content: "biome format --write for package.json",
+				}),
+			]),
+			vectorSearchSourceContent: vi.fn().mockResolvedValue([]),
+		};
+		const embeddingProvider = {
+			createEmbedding: vi.fn().mockResolvedValue([0.1]),
+		};
+		const retriever = new SourceRetriever(
+			sourceRepository as never,
+			embeddingProvider as never,
+			new LocalReranker(),
+		);
+
+		const plain = await retriever.retrieveBreakdown("biome format", {
+			topK: 2,
+		});
+		const reranked = await retriever.retrieveBreakdown("biome format", {
+			topK: 1,
+			rerank: true,
+		});
+
+		expect(plain.mergedResults.map((item) => item.id)).toEqual([
+			"frag-1",
+			"frag-2",
+		]);
+		expect(plain.rerank).toBeUndefined();
+		expect(reranked.mergedResults.map((item) => item.id)).toEqual(["frag-2"]);
+		expect(reranked.mergedResults[0]?.rerankScore).toBe(1);
+		expect(reranked.rerank).toEqual({
+			applied: true,
+			reranker: "local",
+			candidateCount: 2,
+		});
+	});
+
+	it("keeps the RRF order when the reranker fails", async () => {
+		const sourceRepository = {
+			searchSourceContent: vi
+				.fn()
+				.mockResolvedValue([
+					sampleResult({ id: "frag-1" }),
+					sampleResult({ id: "frag-2", locator: "chunk:0002" }),
+				]),
+			vectorSearchSourceContent: vi.fn().mockResolvedValue([]),
+		};
+		const retriever = new SourceRetriever(
+			sourceRepository as never,
+			{ createEmbedding: vi.fn().mockResolvedValue([0.1]) } as never,
+			{ name: "llm", rerank: vi.fn().mockRejectedValue(new Error("timeout")) },
+		);
+
+		const breakdown = await retriever.retrieveBreakdown("rag", {
+			topK: 2,
+			rerank: true,
+		});
+
+		expect(breakdown.mergedResults.map((item) => item.id)).toEqual([
+			"frag-1",
+			"frag-2",
+		]);
+		expect(breakdown.mergedResults[0]?.rerankScore).toBeUndefined();
+		expect(breakdown.rerank).toEqual({
+			applied: false,
+			reranker: "llm",
+			candidateCount: 2,
+			error: "timeout",
+		});
+	});
+
+	it("applies request weights over category defaults", async () => {
+		const sourceRepository = {
+			searchSourceContent: vi
+				.fn()
+				.mockResolvedValue([sampleResult({ id: "text-1" })]),
+			vectorSearchSourceContent: vi
+				.fn()
+				.mockResolvedValue([sampleResult({ id: "vector-1" })]),
+		};
+		const retriever = new SourceRetriever(
+			sourceRepository as never,
+			{ createEmbedding: vi.fn().mockResolvedValue([0.1]) } as never,
+			undefined,
+			{
+				hybridParamsByCategory: {
+					config: { textWeight: 3, fetchMultiplier: 2 },
+				},
+			},
+		);
+
+		const categoryDefaults = await retriever.retrieveBreakdown("port", {
+			topK: 4,
+			category: "config",
+		});
+		const overridden = await retriever.retrieveBreakdown("port", {
+			topK: 4,
+			category: "config",
+			rrfK: 10,
+			vectorWeight: 5,
+		});
+
+		expect(sourceRepository.searchSourceContent).toHaveBeenCalledWith(
+			"port",
+			8,
+			["wiki"],
+			["config"],
+			undefined,
+			undefined,
+		);
+		expect(categoryDefaults.hybrid).toEqual({
+			rrfK: 60,
+			vectorWeight: 1,
+			textWeight: 3,
+			fetchMultiplier: 2,
+		});
+		expect(categoryDefaults.mergedResults.map((item) => item.id)).toEqual([
+			"text-1",
+			"vector-1",
+		]);
+		expect(categoryDefaults.mergedResults[0]?.combinedScore).toBeCloseTo(
+			3 / 61,
+		);
+		expect(overridden.hybrid).toEqual({
+			rrfK: 10,
+			vectorWeight: 5,
+			textWeight: 3,
+			fetchMultiplier: 2,
+		});
+		expect(overridden.mergedResults.map((item) => item.id)).toEqual([
+			"vector-1",
+			"text-1",
+		]);
+		expect(overridden.mergedResults[0]?.combinedScore).toBeCloseTo(5 / 11);
+	});
+
+	it("fuses planned sub-queries with RRF and records which queries matched", async () => {
+		const resultsByQuery: Record<string, ReturnType<typeof sampleResult>[]> = {
+			デプロイ手順: [sampleResult({ id: "frag-ja" })],
+			"deploy procedure": [
+				sampleResult({ id: "frag-en", locator: "chunk:0002" }),
+				sampleResult({ id: "frag-ja" }),
+			],
+			"VM へ配置する": [sampleResult({ id: "frag-text-only", locator: "chunk:0004" })],
+		};
+		const sourceRepository = {
+			searchSourceContent: vi.fn(
+				async (query: string) => resultsByQuery[query] ?? [],
+			),
+			vectorSearchSourceContent: vi.fn(async (embedding: number[]) =>
+				embedding[0] === 1
+					? [sampleResult({ id: "frag-hyde", locator: "chunk:0003" })]
+					: [],
+			),
+		};
+		const retriever = new SourceRetriever(
+			sourceRepository as never,
+			{
+				createEmbedding: vi.fn(async (query: string) =>
+					query === "VM へ配置する" ? [1] : [0],
+				),
+			} as never,
+		);
+		const plan = {
+			original: "デプロイ手順",
+			queries: [
+				{ kind: "original" as const, text: "デプロイ手順" },
+				{ kind: "translation" as const, text: "deploy procedure" },
+				{ kind: "hyde" as const, text: "VM へ配置する" },
+			],
+		};
+
+		const evaluation = await retriever.evaluateQueryPlan(plan, { topK: 3 });
+
+		expect(evaluation.strategy).toBe("multi_query");
+		expect(evaluation.queryPlan).toBe(plan);
+		expect(
+			evaluation.selectedResults.map((item) => [item.id, item.matchedQueries]),
+		).toEqual([
+			["frag-ja", [0, 1]],
+			["frag-en", [1]],
+			["frag-hyde", [2]],
+		]);
+		expect(evaluation.selectedResults[0]?.combinedScore).toBeCloseTo(
+			1 / 61 + 1 / 62,
+		);
+		// HyDE のクエリはベクトル検索の結果だけを使う
+		expect(evaluation.selectedResults[2]?.combinedScore).toBeCloseTo(1 / 61);
+	});
+
+	it("passes the caller's access scope and metadata filter to both searches", async () => {
+		const sourceRepository = {
+			vectorSearchSourceContent: vi.fn().mockResolvedValue([]),
+			searchSourceContent: vi.fn().mockResolvedValue([]),
+		};
+		const retriever = new SourceRetriever(
+			sourceRepository as never,
+			{ createEmbedding: vi.fn().mockResolvedValue([0.1]) } as never,
+		);
+		const access = {
+			unrestricted: false,
+			groups: ["security"],
+			deniedCategories: ["hr"],
+		};
+
+		const filter = [
+			{ field: "status", operator: "neq" as const, values: ["deprecated"] },
+		];
+
+		await retriever.retrieveBreakdown("vpn", { topK: 2, access, filter });
+
+		expect(sourceRepository.searchSourceContent).toHaveBeenCalledWith(
+			"vpn",
+			10,
+			["wiki"],
+			undefined,
+			access,
+			filter,
+		);
+		expect(sourceRepository.vectorSearchSourceContent).toHaveBeenCalledWith(
+			[0.1],
+			10,
+			["wiki"],
+			undefined,
+			access,
+			filter,
+		);
+	});
+
+	it("adds the best fragment of linked pages within the character budget", async () => {
+		const seed = {
+			id: "frag-deploy",
+			sourceId: "src-deploy",
+			sourceUri: "/tmp/wiki/pages/tech/deploy.md",
+			sourceCategory: "tech",
+			locator: "chunk:0001",
+			heading: "Deploy",
+			content: "see the deployment runbook",
+			wikiSlug: "tech/deploy",
+			combinedScore: 0.04,
+		};
+		const other = { ...seed, id: "frag-other", wikiSlug: "tech/other" };
+		const sourceRepository = {
+			listLinkedWikiPages: vi.fn().mockResolvedValue([
+				{ fromSlug: "tech/deploy", linkedSlug: "guide/start", relation: "inbound" },
+				{ fromSlug: "tech/deploy", linkedSlug: "tech/other", relation: "outbound" },
+				{ fromSlug: "tech/deploy", linkedSlug: "ops/runbook", relation: "outbound" },
+			]),
+			findBestWikiPageFragments: vi.fn().mockResolvedValue([
+				sampleResult({
+					id: "frag-start",
+					sourceUri: "/tmp/wiki/pages/guide/start.md",
+					sourceCategory: "guide",
+					sourceMetadata: { wikiSlug: "guide/start" },
+					content: "x".repeat(500),
+				}),
+				sampleResult({
+					id: "frag-runbook",
+					sourceUri: "/tmp/wiki/pages/ops/runbook.md",
+					sourceCategory: "ops",
+					sourceMetadata: { wikiSlug: "ops/runbook" },
+					content: "roll back with the previous image",
+				}),
+			]),
+		};
+		const access = {
+			unrestricted: false,
+			groups: [],
+			deniedCategories: ["hr"],
+		};
+		const retriever = new SourceRetriever(
+			sourceRepository as never,
+			{ createEmbedding: vi.fn().mockResolvedValue([0.1]) } as never,
+		);
+
+		const { results, summary } = await retriever.expandWithLinkedPages(
+			"how to deploy",
+			[seed, other],
+			{ charBudget: 100, access },
+		);
+
+		expect(sourceRepository.listLinkedWikiPages).toHaveBeenCalledWith(
+			["tech/deploy", "tech/other"],
+			access,
+		);
+		expect(sourceRepository.findBestWikiPageFragments).toHaveBeenCalledWith({
+			wikiSlugs: ["ops/runbook", "guide/start"],
+			query: "how to deploy",
+			embedding: [0.1],
+			access,
+		});
+		expect(results.map((item) => item.id)).toEqual([
+			"frag-deploy",
+			"frag-other",
+			"frag-runbook",
+		]);
+		expect(results[2]).toMatchObject({
+			wikiSlug: "ops/runbook",
+			combinedScore: 0.02,
+			expandedFrom: {
+				fragmentId: "frag-deploy",
+				wikiSlug: "tech/deploy",
+				relation: "outbound",
+			},
+		});
+		expect(summary).toEqual({
+			seedCount: 2,
+			linkedPages: 2,
+			addedFragments: 1,
+			usedChars: 33,
+			charBudget: 100,
+		});
+	});
+
+	it("weights merged results by page recency and flags stale pages", async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2026-10-19T00:00:00Z"));
+		try {
+			const sourceRepository = {
+				searchSourceContent: vi.fn().mockResolvedValue([
+					sampleResult({
+						id: "frag-old",
+						sourceId: "src-old",
+						sourceMetadata: { updated: "2024-01-01" },
+					}),
+					sampleResult({
+						id: "frag-new",
+						sourceId: "src-new",
+						sourceMetadata: {
+							updated: "2023-01-01",
+							reviewed_at: "2026-10-01",
+						},
+					}),
+				]),
+				vectorSearchSourceContent: vi.fn().mockResolvedValue([]),
+			};
+			const retriever = new SourceRetriever(
+				sourceRepository as never,
+				{ createEmbedding: vi.fn().mockResolvedValue([0.1]) } as never,
+				undefined,
+				{ freshness: { halfLifeDays: 180, staleAfterDays: 365 } },
+			);
+
+			const plain = await retriever.evaluate("rag", { topK: 2 });
+			const fresh = await retriever.evaluate("rag", {
+				topK: 2,
+				freshness: true,
+			});
+
+			expect(plain.selectedResults.map((item) => item.id)).toEqual([
+				"frag-old",
+				"frag-new",
+			]);
+			expect(plain.freshness).toBeUndefined();
+			expect(
+				fresh.selectedResults.map((item) => [
+					item.id,
+					item.contentDate,
+					item.stale,
+				]),
+			).toEqual([
+				["frag-new", "2026-10-01", false],
+				["frag-old", "2024-01-01", true],
+			]);
+			expect(fresh.freshness).toEqual({
+				halfLifeDays: 180,
+				minWeight: 0.5,
+				staleAfterDays: 365,
+			});
+		} finally {
+			vi.useRealTimers();
+		}
+	});
 });
+
@@ -1,25 +1,100 @@
-import type { EmbeddingProvider } from "../../providers/types";
-import type { SourceRepository } from "../sources/source.repository";
+import { APP_CONFIG_DEFAULTS } from "../../config/appDefaults";
+import type { EmbeddingProvider, Reranker } from "../../providers/types";
+import type { AccessScope } from "../access/access-scope";
+import type { MetadataFilter } from "../sources/search/metadata-filter";
+import type {
+	SourceRepository,
+	SourceSearchResult,
+} from "../sources/source.repository";
 import { resolveWikiLinkRef } from "../sources/wiki/link-ref";
+import {
+	FRESHNESS_DEFAULTS,
+	type FreshnessParams,
+	markStaleFragments,
+	rankByFreshness,
+	resolveContentDate,
+} from "./freshness";
+import {
+	type HybridSearchOverrides,
+	type HybridSearchParams,
+	HYBRID_SEARCH_DEFAULTS,
+	resolveHybridSearchParams,
+} from "./hybrid-params";
+import type { QueryPlan } from "./query-planner";
 import type { RetrievedFragment } from "./types";
 
-const RRF_CONSTANT = 60;
+const DEFAULT_RERANK_CANDIDATES = 20;
+/** リンク先の断片は起点の検索結果より下に並べる */
+const EXPANDED_SCORE_FACTOR = 0.5;
 
-export type RetrieveOptions = {
+export type RetrieveOptions = HybridSearchOverrides & {
 	topK: number;
 	enableTrigramFallback?: boolean;
 	category?: string;
+	/** RRF 統合後の上位候補を Reranker で採点し直す */
+	rerank?: boolean;
+	/** 再ランキングにかける候補数 (topK 未満にはならない) */
+	rerankCandidates?: number;
+	/** 利用者の閲覧範囲。未指定の場合は制限なし */
+	access?: AccessScope;
+	/** frontmatter の値による絞り込み (ベクトル検索・全文検索の両方に適用) */
+	filter?: MetadataFilter;
+	/** RRF 統合後のスコアにページの更新日による重みを掛ける */
+	freshness?: boolean;
+};
+
+export type RerankSummary = {
+	applied: boolean;
+	reranker: string | null;
+	candidateCount: number;
+	error?: string;
 };
 
 export type RetrievalBreakdown = {
 	vectorResults: RetrievedFragment[];
 	textResults: RetrievedFragment[];
 	mergedResults: RetrievedFragment[];
+	/** 実際に使ったハイブリッド検索パラメータ */
+	hybrid?: HybridSearchParams;
+	rerank?: RerankSummary;
+	/** 更新日による重み付けをした場合のパラメータ */
+	freshness?: FreshnessParams;
+};
+
+export type GraphExpansionOptions = {
+	/** リンクをたどる上位の検索結果の数 */
+	seedCount?: number;
+	/** 追加する断片の本文の合計文字数の上限 */
+	charBudget?: number;
+	access?: AccessScope;
+	filter?: MetadataFilter;
+};
+
+export type GraphExpansionSummary = {
+	seedCount: number;
+	linkedPages: number;
+	addedFragments: number;
+	usedChars: number;
+	charBudget: number;
+	error?: string;
+};
+
+export type SourceRetrieverOptions = {
+	/** カテゴリごとのハイブリッド検索パラメータ既定値 */
+	hybridParamsByCategory?: Record<string, HybridSearchOverrides>;
+	/** リンクをたどって断片を追加するときの既定値 */
+	graphExpansion?: Pick<GraphExpansionOptions, "seedCount" | "charBudget">;
+	/** 更新日による重み付けと stale 判定の既定値 */
+	freshness?: Partial<FreshnessParams>;
 };
 
 export type RetrievalEvaluation = RetrievalBreakdown & {
 	selectedResults: RetrievedFragment[];
-	strategy: "merged" | "text_fallback" | "legacy_retrieve";
+	strategy: "merged" | "text_fallback" | "multi_query" | "legacy_retrieve";
+	/** 複数クエリに展開して検索した場合の計画 */
+	queryPlan?: QueryPlan;
+	/** リンクをたどって断片を追加した場合の集計 */
+	graphExpansion?: GraphExpansionSummary;
 };
 
 function mergeRrf(
@@ -46,12 +121,17 @@ function mergeRrf(
 		score: number;
 	}>,
 	topK: number,
+	params: HybridSearchParams,
 ): RetrievedFragment[] {
 	const merged = new Map<string, RetrievedFragment>();
 
-	vectorResults.forEach((result, index) => {
+	// 重み 0 の検索結果は統合に含めない
+	const weightedVectorResults = params.vectorWeight > 0 ? vectorResults : [];
+	const weightedTextResults = params.textWeight > 0 ? textResults : [];
+
+	weightedVectorResults.forEach((result, index) => {
 		const rank = index + 1;
-		const rrfScore = 1 / (RRF_CONSTANT + rank);
+		const rrfScore = params.vectorWeight / (params.rrfK + rank);
 		const linkRef = resolveWikiLinkRef({
 			sourceUri: result.sourceUri,
 			sourceMetadata: result.sourceMetadata,
@@ -70,12 +150,13 @@ function mergeRrf(
 			wikiSlug: linkRef?.wikiSlug ?? null,
 			wikiApiPath: linkRef?.wikiApiPath ?? null,
 			wikiRawPath: linkRef?.wikiRawPath ?? null,
+			contentDate: resolveContentDate(result.sourceMetadata),
 		});
 	});
 
-	textResults.forEach((result, index) => {
+	weightedTextResults.forEach((result, index) => {
 		const rank = index + 1;
-		const rrfScore = 1 / (RRF_CONSTANT + rank);
+		const rrfScore = params.textWeight / (params.rrfK + rank);
 		const linkRef = resolveWikiLinkRef({
 			sourceUri: result.sourceUri,
 			sourceMetadata: result.sourceMetadata,
@@ -104,6 +185,7 @@ function mergeRrf(
 				wikiSlug: linkRef?.wikiSlug ?? null,
 				wikiApiPath: linkRef?.wikiApiPath ?? null,
 				wikiRawPath: linkRef?.wikiRawPath ?? null,
+				contentDate: resolveContentDate(result.sourceMetadata),
 			});
 		}
 	});
@@ -113,6 +195,34 @@ function mergeRrf(
 		.slice(0, topK);
 }
 
+/** クエリごとの順位リストを RRF で統合し、どのクエリで見つかったかを記録する */
+function fuseRankedLists(
+	lists: RetrievedFragment[][],
+	rrfK: number,
+): RetrievedFragment[] {
+	const fused = new Map<string, RetrievedFragment>();
+	lists.forEach((list, queryIndex) => {
+		list.forEach((item, index) => {
+			const rrfScore = 1 / (rrfK + index + 1);
+			const existing = fused.get(item.id);
+			if (existing) {
+				existing.combinedScore += rrfScore;
+				existing.matchedQueries = [
+					...(existing.matchedQueries ?? []),
+					queryIndex,
+				];
+				return;
+			}
+			fused.set(item.id, {
+				...item,
+				combinedScore: rrfScore,
+				matchedQueries: [queryIndex],
+			});
+		});
+	});
+	return [...fused.values()].sort((a, b) => b.combinedScore - a.combinedScore);
+}
+
 function toSourceAggregationKey(item: RetrievedFragment): string {
 	return item.wikiSlug ?? item.sourceId ?? item.sourceUri;
 }
@@ -170,6 +280,7 @@ function toVectorFragments(
 			wikiSlug: linkRef?.wikiSlug ?? null,
 			wikiApiPath: linkRef?.wikiApiPath ?? null,
 			wikiRawPath: linkRef?.wikiRawPath ?? null,
+			contentDate: resolveContentDate(item.sourceMetadata),
 		};
 	});
 	return aggregateFragmentsBySource(fragments, topK);
@@ -208,19 +319,52 @@ function toTextFragments(
 			wikiSlug: linkRef?.wikiSlug ?? null,
 			wikiApiPath: linkRef?.wikiApiPath ?? null,
 			wikiRawPath: linkRef?.wikiRawPath ?? null,
+			contentDate: resolveContentDate(item.sourceMetadata),
 		};
 	});
 	return aggregateFragmentsBySource(fragments, topK);
 }
 
+function toExpandedFragment(
+	item: SourceSearchResult,
+	seed: RetrievedFragment,
+	relation: "outbound" | "inbound",
+): RetrievedFragment {
+	const linkRef = resolveWikiLinkRef({
+		sourceUri: item.sourceUri,
+		sourceMetadata: item.sourceMetadata,
+		sourceCategory: item.sourceCategory,
+	});
+	return {
+		id: item.id,
+		sourceId: item.sourceId,
+		sourceUri: item.sourceUri,
+		sourceCategory: item.sourceCategory,
+		locator: item.locator,
+		heading: item.heading,
+		content: item.content,
+		combinedScore: seed.combinedScore * EXPANDED_SCORE_FACTOR,
+		wikiSlug: linkRef?.wikiSlug ?? null,
+		wikiApiPath: linkRef?.wikiApiPath ?? null,
+		wikiRawPath: linkRef?.wikiRawPath ?? null,
+		contentDate: resolveContentDate(item.sourceMetadata),
+		expandedFrom: {
+			fragmentId: seed.id,
+			wikiSlug: seed.wikiSlug ?? "",
+			relation,
+		},
+	};
+}
+
 function withTextFallback(
 	textResults: RetrievedFragment[],
 	topK: number,
+	rrfK = HYBRID_SEARCH_DEFAULTS.rrfK,
 ): RetrievedFragment[] {
 	return textResults.slice(0, topK).map((item, index) => ({
 		...item,
 		trigramScore: item.textScore,
-		combinedScore: 1 / (RRF_CONSTANT + index + 1),
+		combinedScore: 1 / (rrfK + index + 1),
 	}));
 }
 
@@ -228,8 +372,197 @@ export class SourceRetriever {
 	constructor(
 		private readonly sourceRepository: SourceRepository,
 		private readonly embeddingProvider: EmbeddingProvider,
+		private readonly reranker?: Reranker,
+		private readonly options: SourceRetrieverOptions = {},
 	) {}
 
+	private get freshnessParams(): FreshnessParams {
+		return { ...FRESHNESS_DEFAULTS, ...this.options.freshness };
+	}
+
+	/** 返す断片すべてに stale の印を付ける */
+	private withStaleFlags(evaluation: RetrievalEvaluation): RetrievalEvaluation {
+		const params = this.freshnessParams;
+		return {
+			...evaluation,
+			vectorResults: markStaleFragments(evaluation.vectorResults, params),
+			textResults: markStaleFragments(evaluation.textResults, params),
+			mergedResults: markStaleFragments(evaluation.mergedResults, params),
+			selectedResults: markStaleFragments(evaluation.selectedResults, params),
+		};
+	}
+
+	private async rerankMerged(
+		query: string,
+		candidates: RetrievedFragment[],
+		topK: number,
+	): Promise<{ results: RetrievedFragment[]; summary: RerankSummary }> {
+		const reranker = this.reranker;
+		if (!reranker) {
+			return {
+				results: candidates.slice(0, topK),
+				summary: {
+					applied: false,
+					reranker: null,
+					candidateCount: 0,
+					error: "Reranker is not configured.",
+				},
+			};
+		}
+		const summaryBase = {
+			reranker: reranker.name ?? null,
+			candidateCount: candidates.length,
+		};
+		if (candidates.length === 0) {
+			return { results: [], summary: { ...summaryBase, applied: false } };
+		}
+		try {
+			const scores = await reranker.rerank(
+				query,
+				candidates.map((item) => ({
+					id: item.id,
+					text: item.heading
+						? `${item.heading}\n${item.content}`
+						: item.content,
+				})),
+			);
+			const scoreById = new Map(scores.map((entry) => [entry.id, entry.score]));
+			const results = candidates
+				.map((item) => ({ ...item, rerankScore: scoreById.get(item.id) ?? 0 }))
+				.sort(
+					(a, b) =>
+						b.rerankScore - a.rerankScore || b.combinedScore - a.combinedScore,
+				)
+				.slice(0, topK);
+			return { results, summary: { ...summaryBase, applied: true } };
+		} catch (error) {
+			// 再ランキングに失敗しても RRF の順位で検索結果を返す
+			return {
+				results: candidates.slice(0, topK),
+				summary: {
+					...summaryBase,
+					applied: false,
+					error: error instanceof Error ? error.message : String(error),
+				},
+			};
+		}
+	}
+
+	/**
+	 * 上位の検索結果のページからリンクしている / リンクされているページをたどり、
+	 * ページごとに問い合わせへ最も近い断片を charBudget の文字数まで末尾に追加する。
+	 */
+	async expandWithLinkedPages(
+		query: string,
+		results: RetrievedFragment[],
+		options: GraphExpansionOptions = {},
+	): Promise<{ results: RetrievedFragment[]; summary: GraphExpansionSummary }> {
+		const defaults = this.options.graphExpansion;
+		const charBudget = Math.max(
+			0,
+			options.charBudget ??
+				defaults?.charBudget ??
+				APP_CONFIG_DEFAULTS.graphExpansion.charBudget,
+		);
+		const seedCount =
+			options.seedCount ??
+			defaults?.seedCount ??
+			APP_CONFIG_DEFAULTS.graphExpansion.seedCount;
+		const seeds = results
+			.slice(0, seedCount)
+			.filter((item): item is RetrievedFragment & { wikiSlug: string } =>
+				Boolean(item.wikiSlug),
+			);
+		const summary: GraphExpansionSummary = {
+			seedCount: seeds.length,
+			linkedPages: 0,
+			addedFragments: 0,
+			usedChars: 0,
+			charBudget,
+		};
+		if (seeds.length === 0 || charBudget === 0) {
+			return { results, summary };
+		}
+		try {
+			const links = await this.sourceRepository.listLinkedWikiPages(
+				seeds.map((seed) => seed.wikiSlug),
+				options.access,
+			);
+			// 起点の順位順、同じ起点ではリンク先を先にたどる
+			const present = new Set(results.map((item) => item.wikiSlug));
+			const candidates: Array<{
+				slug: string;
+				seed: RetrievedFragment;
+				relation: "outbound" | "inbound";
+			}> = [];
+			for (const seed of seeds) {
+				for (const relation of ["outbound", "inbound"] as const) {
+					for (const link of links) {
+						if (
+							link.fromSlug !== seed.wikiSlug ||
+							link.relation !== relation ||
+							present.has(link.linkedSlug)
+						) {
+							continue;
+						}
+						present.add(link.linkedSlug);
+						candidates.push({ slug: link.linkedSlug, seed, relation });
+					}
+				}
+			}
+			summary.linkedPages = candidates.length;
+			if (candidates.length === 0) return { results, summary };
+
+			const embedding = await this.embeddingProvider
+				.createEmbedding(query)
+				.catch(() => undefined);
+			const fragments = await this.sourceRepository.findBestWikiPageFragments({
+				wikiSlugs: candidates.map((candidate) => candidate.slug),
+				query,
+				embedding,
+				access: options.access,
+				filter: options.filter,
+			});
+			const fragmentBySlug = new Map(
+				fragments.map((item) => [
+					resolveWikiLinkRef({
+						sourceUri: item.sourceUri,
+						sourceMetadata: item.sourceMetadata,
+						sourceCategory: item.sourceCategory,
+					})?.wikiSlug,
+					item,
+				]),
+			);
+			const expanded: RetrievedFragment[] = [];
+			for (const candidate of candidates) {
+				const fragment = fragmentBySlug.get(candidate.slug);
+				if (!fragment) continue;
+				if (summary.usedChars + fragment.content.length > charBudget) continue;
+				summary.usedChars += fragment.content.length;
+				expanded.push(
+					toExpandedFragment(fragment, candidate.seed, candidate.relation),
+				);
+			}
+			summary.addedFragments = expanded.length;
+			return {
+				results: [
+					...results,
+					...markStaleFragments(expanded, this.freshnessParams),
+				],
+				summary,
+			};
+		} catch (error) {
+			// リンクをたどれなくても元の検索結果はそのまま使う
+			return {
+				results,
+				summary: {
+					...summary,
+					error: error instanceof Error ? error.message : String(error),
+				},
+			};
+		}
+	}
+
 	async retrieve(
 		query: string,
 		options: RetrieveOptions,
@@ -251,8 +584,13 @@ export class SourceRetriever {
 			};
 		}
 		const topK = Math.max(1, options.topK);
-		const fetchK = topK * 5;
 		const normalizedCategory = options.category?.trim();
+		const hybrid = resolveHybridSearchParams({
+			overrides: options,
+			category: normalizedCategory,
+			paramsByCategory: this.options.hybridParamsByCategory,
+		});
+		const fetchK = topK * hybrid.fetchMultiplier;
 		const categories =
 			normalizedCategory && normalizedCategory.length > 0
 				? [normalizedCategory]
@@ -262,6 +600,8 @@ export class SourceRetriever {
 			fetchK,
 			["wiki"],
 			categories,
+			options.access,
+			options.filter,
 		);
 		const vectorResultsPromise = (async () => {
 			try {
@@ -272,6 +612,8 @@ export class SourceRetriever {
 					fetchK,
 					["wiki"],
 					categories,
+					options.access,
+					options.filter,
 				);
 			} catch {
 				return [];
@@ -282,11 +624,36 @@ export class SourceRetriever {
 			textResultsPromise,
 		]);
 
-		const merged = mergeRrf(vectorResults, textResults, topK);
-		return {
+		const freshness = options.freshness ? this.freshnessParams : undefined;
+		const breakdown = {
 			vectorResults: toVectorFragments(vectorResults, topK),
 			textResults: toTextFragments(textResults, topK),
-			mergedResults: merged,
+			hybrid,
+			...(freshness ? { freshness } : {}),
+		};
+		const candidateCount = options.rerank
+			? Math.max(topK, options.rerankCandidates ?? DEFAULT_RERANK_CANDIDATES)
+			: topK;
+		// 重み付けで順位が上がる候補を拾えるよう、取得した候補すべてを統合してから絞る
+		const candidates = freshness
+			? rankByFreshness(
+					mergeRrf(
+						vectorResults,
+						textResults,
+						Math.max(fetchK, candidateCount),
+						hybrid,
+					),
+					freshness,
+				).slice(0, candidateCount)
+			: mergeRrf(vectorResults, textResults, candidateCount, hybrid);
+		if (!options.rerank) {
+			return { ...breakdown, mergedResults: candidates };
+		}
+		const reranked = await this.rerankMerged(trimmedQuery, candidates, topK);
+		return {
+			...breakdown,
+			mergedResults: reranked.results,
+			rerank: reranked.summary,
 		};
 	}
 
@@ -297,16 +664,73 @@ export class SourceRetriever {
 		const topK = Math.max(1, options.topK);
 		const breakdown = await this.retrieveBreakdown(query, options);
 		if (breakdown.mergedResults.length > 0 || !options.enableTrigramFallback) {
-			return {
+			return this.withStaleFlags({
 				...breakdown,
 				selectedResults: breakdown.mergedResults,
 				strategy: "merged",
-			};
+			});
 		}
-		return {
+		return this.withStaleFlags({
 			...breakdown,
-			selectedResults: withTextFallback(breakdown.textResults, topK),
+			selectedResults: withTextFallback(
+				breakdown.textResults,
+				topK,
+				breakdown.hybrid?.rrfK,
+			),
 			strategy: "text_fallback",
+		});
+	}
+
+	/**
+	 * 計画された複数クエリを並列に検索し、各クエリの結果を RRF で統合する。
+	 * 再ランキングは統合後の候補に対して元の問い合わせで 1 回だけ行う。
+	 */
+	async evaluateQueryPlan(
+		plan: QueryPlan,
+		options: RetrieveOptions,
+	): Promise<RetrievalEvaluation> {
+		if (plan.queries.length <= 1) {
+			return {
+				...(await this.evaluate(plan.original, options)),
+				queryPlan: plan,
+			};
+		}
+		const topK = Math.max(1, options.topK);
+		const candidateCount = options.rerank
+			? Math.max(topK, options.rerankCandidates ?? DEFAULT_RERANK_CANDIDATES)
+			: topK;
+		const evaluations = await Promise.all(
+			plan.queries.map((planned) =>
+				this.evaluate(planned.text, {
+					...options,
+					topK: candidateCount,
+					rerank: false,
+					// HyDE の仮回答は語句の一致ではなく意味の近さだけで探す
+					...(planned.kind === "hyde"
+						? { textWeight: 0, enableTrigramFallback: false }
+						: {}),
+				}),
+			),
+		);
+		const primary = evaluations[0];
+		const fused = fuseRankedLists(
+			evaluations.map((evaluation) => evaluation.selectedResults),
+			primary?.hybrid?.rrfK ?? HYBRID_SEARCH_DEFAULTS.rrfK,
+		).slice(0, candidateCount);
+		const reranked = options.rerank
+			? await this.rerankMerged(plan.original, fused, topK)
+			: { results: fused.slice(0, topK), summary: undefined };
+
+		return {
+			vectorResults: primary?.vectorResults ?? [],
+			textResults: primary?.textResults ?? [],
+			hybrid: primary?.hybrid,
+			freshness: primary?.freshness,
+			mergedResults: reranked.results,
+			selectedResults: reranked.results,
+			rerank: reranked.summary,
+			strategy: "multi_query",
+			queryPlan: plan,
 		};
 	}
 }
@@ -341,7 +765,11 @@ export async function evaluateRetrieverCompat(
 		}
 		return {
 			...breakdown,
-			selectedResults: withTextFallback(breakdown.textResults, topK),
+			selectedResults: withTextFallback(
+				breakdown.textResults,
+				topK,
+				breakdown.hybrid?.rrfK,
+			),
 			strategy: "text_fallback",
 		};
 	}
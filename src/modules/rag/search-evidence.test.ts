@@ -1,5 +1,9 @@
 import { describe, expect, it, vi } from "vitest";
-import { SearchEvidenceCollector } from "./search-evidence";
+import {
+	buildLocalContext,
+	SearchEvidenceCollector,
+	toCitations,
+} from "./search-evidence";
 
 const fragment = {
 	id: "fragment-1",
@@ -67,4 +71,75 @@ describe("SearchEvidenceCollector", () => {
 			globalThis.fetch = originalFetch;
 		}
 	});
+
+	it("appends linked page fragments to the context when expandLinks is set", async () => {
+		const linked = {
+			...fragment,
+			id: "fragment-2",
+			sourceUri: "ops/runbook.md",
+			wikiSlug: "ops/runbook",
+			content: "Runbook content",
+			expandedFrom: {
+				fragmentId: "fragment-1",
+				wikiSlug: "tech/biome",
+				relation: "outbound",
+			},
+		};
+		const summary = {
+			seedCount: 1,
+			linkedPages: 1,
+			addedFragments: 1,
+			usedChars: 15,
+			charBudget: 2000,
+		};
+		const retriever = {
+			evaluate: vi.fn().mockResolvedValue({
+				strategy: "merged",
+				vectorResults: [],
+				textResults: [],
+				mergedResults: [fragment],
+				selectedResults: [fragment],
+			}),
+			expandWithLinkedPages: vi
+				.fn()
+				.mockResolvedValue({ results: [fragment, linked], summary }),
+		};
+		const collector = new SearchEvidenceCollector({
+			retriever: retriever as never,
+		});
+
+		const evidence = await collector.collect({
+			query: "Biome",
+			topK: 3,
+			expandLinks: true,
+		});
+
+		expect(retriever.expandWithLinkedPages).toHaveBeenCalledWith(
+			"Biome",
+			[fragment],
+			{ access: undefined, filter: undefined },
+		);
+		expect(evidence.citations.map((item) => item.fragmentId)).toEqual([
+			"fragment-1",
+			"fragment-2",
+		]);
+		expect(evidence.evaluation.graphExpansion).toEqual(summary);
+		expect(evidence.localContext).toContain(
+			"heading=Biome linked_from=tech/biome\nRunbook content",
+		);
+	});
+
+	it("carries the page date and stale flag into citations and context", () => {
+		const stale = { ...fragment, contentDate: "2024-01-01", stale: true };
+
+		expect(toCitations([stale])[0]).toMatchObject({
+			updatedAt: "2024-01-01",
+			stale: true,
+		});
+		expect(toCitations([fragment])[0]).not.toHaveProperty("stale");
+		expect(buildLocalContext([stale])).toContain(
+			"heading=Biome updated=2024-01-01 stale=true",
+		);
+	});
 });
+
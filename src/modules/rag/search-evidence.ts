@@ -1,5 +1,12 @@
 import type { WebSearchProvider, WebSearchResult } from "../../providers/types";
 import { WebSearchService } from "../../services/WebSearchService";
+import type { AccessScope } from "../access/access-scope";
+import type { MetadataFilter } from "../sources/search/metadata-filter";
+import {
+	type HybridSearchOverrides,
+	pickHybridSearchOverrides,
+} from "./hybrid-params";
+import type { QueryPlanner } from "./query-planner";
 import {
 	evaluateRetrieverCompat,
 	type RetrievalEvaluation,
@@ -14,6 +21,7 @@ export type EvidenceWebResult = WebSearchResult & {
 export type SearchEvidence = {
 	query: string;
 	category?: string;
+	filter?: MetadataFilter;
 	topK: number;
 	evaluation: RetrievalEvaluation;
 	retrieved: RetrievedFragment[];
@@ -26,12 +34,25 @@ export type SearchEvidence = {
 export type SearchEvidenceCollectorDeps = {
 	retriever: SourceRetriever;
 	webSearchProvider?: WebSearchProvider;
+	queryPlanner?: QueryPlanner;
 };
 
-export type CollectSearchEvidenceInput = {
+export type CollectSearchEvidenceInput = HybridSearchOverrides & {
 	query: string;
 	topK: number;
 	category?: string;
+	/** RRF 統合後の候補を Reranker で並べ替える */
+	rerank?: boolean;
+	/** 問い合わせを複数クエリに展開してから検索する */
+	multiQuery?: boolean;
+	/** 上位の検索結果とリンクでつながったページの断片を追加する */
+	expandLinks?: boolean;
+	/** ページの更新日が新しい断片ほど上位に並べる */
+	freshness?: boolean;
+	/** 利用者の閲覧範囲 */
+	access?: AccessScope;
+	/** frontmatter の値による絞り込み */
+	filter?: MetadataFilter;
 };
 
 export function toCitations(retrieved: RetrievedFragment[]): Citation[] {
@@ -44,6 +65,8 @@ export function toCitations(retrieved: RetrievedFragment[]): Citation[] {
 		heading: item.heading ?? undefined,
 		locator: item.locator,
 		score: item.combinedScore,
+		...(item.contentDate ? { updatedAt: item.contentDate } : {}),
+		...(item.stale ? { stale: true } : {}),
 	}));
 }
 
@@ -54,7 +77,7 @@ export function buildLocalContext(retrieved: RetrievedFragment[]): string {
 	return retrieved
 		.map(
 			(item, index) =>
-				`[${index + 1}] uri=${item.sourceUri} locator=${item.locator} heading=${item.heading ?? "(none)"}\n${item.content}`,
+				`[${index + 1}] uri=${item.sourceUri} locator=${item.locator} heading=${item.heading ?? "(none)"}${item.contentDate ? ` updated=${item.contentDate}` : ""}${item.stale ? " stale=true" : ""}${item.expandedFrom ? ` linked_from=${item.expandedFrom.wikiSlug}` : ""}\n${item.content}`,
 		)
 		.join("\n\n");
 }
@@ -113,21 +136,48 @@ export class SearchEvidenceCollector {
 		const query = input.query.trim();
 		const topK = Math.max(1, input.topK);
 		const category = input.category?.trim() || undefined;
+		const retrieveOptions = {
+			topK,
+			enableTrigramFallback: true,
+			category,
+			rerank: input.rerank,
+			freshness: input.freshness,
+			access: input.access,
+			filter: input.filter,
+			...pickHybridSearchOverrides(input),
+		};
+		const queryPlanner = input.multiQuery ? this.deps.queryPlanner : undefined;
 		const [evaluation, webResults] = await Promise.all([
-			evaluateRetrieverCompat(this.deps.retriever, query, {
-				topK,
-				enableTrigramFallback: true,
-				category,
-			}),
+			queryPlanner
+				? queryPlanner
+						.plan(query)
+						.then((plan) =>
+							this.deps.retriever.evaluateQueryPlan(plan, retrieveOptions),
+						)
+				: evaluateRetrieverCompat(this.deps.retriever, query, retrieveOptions),
 			this.collectWebResults(query, topK),
 		]);
-		const retrieved = evaluation.selectedResults;
+		const expansion = input.expandLinks
+			? await this.deps.retriever.expandWithLinkedPages(
+					query,
+					evaluation.selectedResults,
+					{ access: input.access, filter: input.filter },
+				)
+			: null;
+		const retrieved = expansion?.results ?? evaluation.selectedResults;
 		const citations = toCitations(retrieved);
 		return {
 			query,
 			category,
+			filter: input.filter,
 			topK,
-			evaluation,
+			evaluation: expansion
+				? {
+						...evaluation,
+						selectedResults: retrieved,
+						graphExpansion: expansion.summary,
+					}
+				: evaluation,
 			retrieved,
 			citations,
 			webResults,
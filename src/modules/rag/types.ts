@@ -7,6 +7,10 @@ export type Citation = {
 	heading?: string;
 	locator: string;
 	score: number;
+	/** ページの更新日 (YYYY-MM-DD) */
+	updatedAt?: string;
+	/** 更新から一定期間が過ぎ、内容が古い可能性がある */
+	stale?: boolean;
 };
 
 export type RetrievedFragment = {
@@ -24,5 +28,21 @@ export type RetrievedFragment = {
 	textScore?: number;
 	trigramScore?: number;
 	sourceHitCount?: number;
+	/** Reranker による関連度 (0〜1)。再ランキングしていない場合は未設定 */
+	rerankScore?: number;
+	/** 複数クエリ検索でこの断片を見つけたクエリの番号 (QueryPlan.queries の添字) */
+	matchedQueries?: number[];
+	/** 上位の検索結果からリンクをたどって追加した断片の場合、その起点 */
+	expandedFrom?: {
+		fragmentId: string;
+		wikiSlug: string;
+		/** outbound は起点ページからのリンク、inbound は起点ページへのリンク */
+		relation: "outbound" | "inbound";
+	};
+	/** reviewed_at / updated / 最後のコミット日から求めたページの更新日 (YYYY-MM-DD) */
+	contentDate?: string | null;
+	/** 更新日による重み付けをした場合に combinedScore へ掛けた値 */
+	freshnessWeight?: number;
+	stale?: boolean;
 	combinedScore: number;
 };
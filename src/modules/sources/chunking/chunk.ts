@@ -0,0 +1,126 @@
+import { estimateTokens } from "../../../utils/tokens";
+
+export type MarkdownChunk = {
+	locator: string;
+	heading: string | null;
+	headingPath: string[];
+	content: string;
+	tokenCount: number;
+};
+
+export type MarkdownChunkOptions = {
+	title?: string | null;
+	maxTokens?: number;
+	overlapTokens?: number;
+};
+
+export const MARKDOWN_CHUNK_DEFAULTS = {
+	maxTokens: 600,
+	overlapTokens: 80,
+} as const;
+
+export const HEADING_PATH_SEPARATOR = " > ";
+
+export function resolveChunkOptions(options: MarkdownChunkOptions): {
+	title: string | null;
+	maxTokens: number;
+	overlapTokens: number;
+} {
+	const maxTokens = Math.max(
+		1,
+		options.maxTokens ?? MARKDOWN_CHUNK_DEFAULTS.maxTokens,
+	);
+	return {
+		title: options.title?.trim() || null,
+		maxTokens,
+		overlapTokens: Math.max(
+			0,
+			Math.min(
+				options.overlapTokens ?? MARKDOWN_CHUNK_DEFAULTS.overlapTokens,
+				Math.floor(maxTokens / 2),
+			),
+		),
+	};
+}
+
+/** 連番 locator と見出しパンくずを付けてチャンクを作る */
+export function createChunk(params: {
+	index: number;
+	headingPath: string[];
+	title: string | null;
+	content: string;
+}): MarkdownChunk {
+	const { headingPath, title } = params;
+	return {
+		locator: `chunk:${String(params.index).padStart(4, "0")}`,
+		heading:
+			headingPath.length > 0 ? headingPath.join(HEADING_PATH_SEPARATOR) : title,
+		headingPath: headingPath.length > 0 ? headingPath : title ? [title] : [],
+		content: params.content,
+		tokenCount: estimateTokens(params.content),
+	};
+}
+
+/** 見出しレベルに応じて現在の見出し階層を保持する */
+export class HeadingTrail {
+	private readonly stack: Array<{ level: number; text: string }> = [];
+
+	push(level: number, text: string): void {
+		while (
+			this.stack.length > 0 &&
+			(this.stack[this.stack.length - 1]?.level ?? 0) >= level
+		) {
+			this.stack.pop();
+		}
+		this.stack.push({ level, text });
+	}
+
+	get path(): string[] {
+		return this.stack.map((item) => item.text);
+	}
+}
+
+/** 上限トークン数に収まる最長の先頭文字数を二分探索する */
+export function longestPrefixWithin(text: string, maxTokens: number): number {
+	let low = 1;
+	let high = text.length;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (estimateTokens(text.slice(0, mid)) <= maxTokens) {
+			low = mid;
+		} else {
+			high = mid - 1;
+		}
+	}
+	return Math.min(low, text.length);
+}
+
+/** 上限を超えるテキストを行、さらに文字数で分割する */
+export function splitTextByTokens(text: string, maxTokens: number): string[] {
+	const pieces: string[] = [];
+	let buffer = "";
+	const pushBuffer = () => {
+		if (buffer.trim()) pieces.push(buffer.trimEnd());
+		buffer = "";
+	};
+	for (const line of text.split("\n")) {
+		const candidate = buffer ? `${buffer}\n${line}` : line;
+		if (estimateTokens(candidate) <= maxTokens) {
+			buffer = candidate;
+			continue;
+		}
+		pushBuffer();
+		if (estimateTokens(line) <= maxTokens) {
+			buffer = line;
+			continue;
+		}
+		let rest = line;
+		while (rest.length > 0) {
+			const size = longestPrefixWithin(rest, maxTokens);
+			pieces.push(rest.slice(0, size));
+			rest = rest.slice(size);
+		}
+	}
+	pushBuffer();
+	return pieces;
+}
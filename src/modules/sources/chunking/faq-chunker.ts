@@ -0,0 +1,81 @@
+import {
+	createChunk,
+	HeadingTrail,
+	type MarkdownChunk,
+	type MarkdownChunkOptions,
+	resolveChunkOptions,
+} from "./chunk";
+import { parseMarkdownBlocks } from "./markdown-blocks";
+
+const QUESTION_LINE_PATTERN =
+	/^\s*(?:\*\*)?(?:Q|Question|質問)\s*\d*\s*[:：.．](?:\*\*)?\s*(.+?)(?:\*\*)?\s*$/i;
+
+function isQuestionHeading(text: string): boolean {
+	return /[?？]\s*$/.test(text) || QUESTION_LINE_PATTERN.test(text);
+}
+
+function questionText(text: string): string {
+	return text.match(QUESTION_LINE_PATTERN)?.[1]?.trim() ?? text.trim();
+}
+
+/**
+ * FAQ ページを質問と回答の組ごとに 1 チャンクにする。
+ * `?` で終わる見出し、または `Q:` / `質問:` で始まる段落を質問として扱い、
+ * 次の質問までを回答とみなす。回答は分割しない。
+ */
+export function chunkFaq(
+	markdown: string,
+	options: MarkdownChunkOptions = {},
+): MarkdownChunk[] {
+	const { title } = resolveChunkOptions(options);
+	const chunks: MarkdownChunk[] = [];
+	const headings = new HeadingTrail();
+	let question: string | null = null;
+	let parts: string[] = [];
+	let questionPath: string[] = [];
+
+	const flush = () => {
+		if (parts.length > 0) {
+			chunks.push(
+				createChunk({
+					index: chunks.length + 1,
+					headingPath: questionPath,
+					title,
+					content: parts.join("\n\n"),
+				}),
+			);
+		}
+		question = null;
+		parts = [];
+	};
+
+	for (const block of parseMarkdownBlocks(markdown)) {
+		if (block.type === "heading") {
+			flush();
+			headings.push(block.level, questionText(block.text));
+			questionPath = headings.path;
+			if (isQuestionHeading(block.text)) {
+				question = questionText(block.text);
+				parts = [block.raw];
+			}
+			continue;
+		}
+
+		const firstLine = block.raw.split("\n")[0] ?? "";
+		if (block.type === "paragraph" && QUESTION_LINE_PATTERN.test(firstLine)) {
+			flush();
+			question = questionText(firstLine);
+			questionPath = [...headings.path, question];
+			parts = [block.raw];
+			continue;
+		}
+
+		if (question === null && parts.length === 0) {
+			questionPath = headings.path;
+		}
+		parts.push(block.raw);
+	}
+	flush();
+
+	return chunks;
+}
@@ -0,0 +1,48 @@
+import {
+	createChunk,
+	type MarkdownChunk,
+	type MarkdownChunkOptions,
+	longestPrefixWithin,
+	resolveChunkOptions,
+} from "./chunk";
+import { stripFrontmatter } from "./markdown-blocks";
+
+/**
+ * Markdown の構造を無視し、一定トークン数の窓をオーバーラップさせながらずらして分割する。
+ */
+export function chunkFixedWindow(
+	markdown: string,
+	options: MarkdownChunkOptions = {},
+): MarkdownChunk[] {
+	const { title, maxTokens, overlapTokens } = resolveChunkOptions(options);
+	const text = stripFrontmatter(markdown).trim();
+	const chunks: MarkdownChunk[] = [];
+	let start = 0;
+
+	while (start < text.length) {
+		const rest = text.slice(start);
+		const size = longestPrefixWithin(rest, maxTokens);
+		const content = rest.slice(0, size).trim();
+		if (content) {
+			chunks.push(
+				createChunk({
+					index: chunks.length + 1,
+					headingPath: [],
+					title,
+					content,
+				}),
+			);
+		}
+		if (start + size >= text.length) break;
+		const overlap =
+			overlapTokens > 0
+				? longestPrefixWithin(
+						[...rest.slice(0, size)].reverse().join(""),
+						overlapTokens,
+					)
+				: 0;
+		start += Math.max(1, size - overlap);
+	}
+
+	return chunks;
+}
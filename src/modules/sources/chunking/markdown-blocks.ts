@@ -0,0 +1,74 @@
+import matter from "gray-matter";
+import { Lexer, type Token, type Tokens } from "marked";
+
+export type MarkdownBlock =
+	| { type: "heading"; level: number; text: string; raw: string }
+	| { type: "code"; raw: string }
+	| { type: "table"; raw: string }
+	| { type: "html"; raw: string }
+	| { type: "list"; raw: string; items: string[] }
+	| { type: "paragraph"; raw: string };
+
+/** コードブロック・表・HTML ブロックは途中で分割しない */
+export function isUnsplittableBlock(block: MarkdownBlock): boolean {
+	return (
+		block.type === "code" || block.type === "table" || block.type === "html"
+	);
+}
+
+/** 先頭の YAML frontmatter を取り除いた本文を返す */
+export function stripFrontmatter(markdown: string): string {
+	const match = markdown.match(
+		/^---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/,
+	);
+	return match ? markdown.slice(match[0].length) : markdown;
+}
+
+/** frontmatter の内容を返す。壊れた YAML は空として扱う */
+export function readFrontmatter(markdown: string): Record<string, unknown> {
+	try {
+		return matter(markdown).data as Record<string, unknown>;
+	} catch {
+		return {};
+	}
+}
+
+function toBlock(token: Token): MarkdownBlock | null {
+	const raw = token.raw.trimEnd();
+	switch (token.type) {
+		case "space":
+		case "hr":
+			return null;
+		case "heading":
+			return { type: "heading", level: token.depth, text: token.text, raw };
+		case "code":
+		case "table":
+		case "html":
+			return { type: token.type, raw };
+		case "list":
+			return {
+				type: "list",
+				raw,
+				items: (token as Tokens.List).items
+					.map((item) => item.raw.trim())
+					.filter(Boolean),
+			};
+		default:
+			// 段落・引用・リンク参照定義などはそのまま段落として扱う
+			return raw.trim() ? { type: "paragraph", raw } : null;
+	}
+}
+
+/**
+ * Markdown (CommonMark + GFM) を marked の字句解析でトップレベルのブロック列へ分解する。
+ * 入れ子のリスト・インデントされたコード・HTML ブロックも親のブロックにまとめ、
+ * コードブロックと表は途中で分割されないよう 1 ブロックとして扱う。
+ */
+export function parseMarkdownBlocks(markdown: string): MarkdownBlock[] {
+	const tokens = Lexer.lex(stripFrontmatter(markdown).replace(/\r\n?/g, "\n"), {
+		gfm: true,
+	});
+	return tokens
+		.map(toBlock)
+		.filter((block): block is MarkdownBlock => block !== null);
+}
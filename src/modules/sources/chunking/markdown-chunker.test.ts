@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { parseMarkdownBlocks } from "./markdown-blocks";
+import { chunkMarkdown } from "./markdown-chunker";
+
+describe("parseMarkdownBlocks", () => {
+	it("keeps fenced code containing headings and blank lines as one block", () => {
+		const blocks = parseMarkdownBlocks(
+			[
+				"---",
+				"title: Deploy",
+				"---",
+				"Intro text",
+				"",
+				"```bash",
+				"# not a heading",
+				"",
+				"echo ok",
+				"```",
+				"After",
+			].join("\n"),
+		);
+
+		expect(blocks.map((block) => block.type)).toEqual([
+			"paragraph",
+			"code",
+			"paragraph",
+		]);
+		expect(blocks[1]?.raw).toBe("```bash\n# not a heading\n\necho ok\n```");
+	});
+
+	it("detects tables and lists separated by blank lines", () => {
+		const blocks = parseMarkdownBlocks(
+			[
+				"| key | value |",
+				"| --- | :---: |",
+				"| a | 1 |",
+				"| b | 2 |",
+				"- one",
+				"",
+				"- two",
+				"  continued",
+				"",
+				"plain",
+			].join("\n"),
+		);
+
+		expect(blocks.map((block) => block.type)).toEqual([
+			"table",
+			"list",
+			"paragraph",
+		]);
+		expect(blocks[0]?.raw.split("\n")).toHaveLength(4);
+		expect(blocks[1]?.raw).toBe("- one\n\n- two\n  continued");
+	});
+
+	it("keeps nested lists, indented code and HTML blocks intact", () => {
+		const blocks = parseMarkdownBlocks(
+			[
+				"- parent",
+				"  - child",
+				"",
+				"    child paragraph",
+				"- sibling",
+				"",
+				"Text",
+				"",
+				"    # indented code",
+				"    echo ok",
+				"",
+				"<details>",
+				"<summary>More</summary>",
+				"</details>",
+			].join("\n"),
+		);
+
+		expect(blocks.map((block) => block.type)).toEqual([
+			"list",
+			"paragraph",
+			"code",
+			"html",
+		]);
+		expect(blocks[0]).toMatchObject({
+			items: ["- parent\n  - child\n\n    child paragraph", "- sibling"],
+		});
+		expect(blocks[2]?.raw).toBe("    # indented code\n    echo ok");
+	});
+
+	it("treats unterminated fences as code until the end", () => {
+		const blocks = parseMarkdownBlocks("~~~\ncode\n## still code");
+		expect(blocks).toEqual([{ type: "code", raw: "~~~\ncode\n## still code" }]);
+	});
+});
+
+describe("chunkMarkdown", () => {
+	it("records the full heading breadcrumb for each section", () => {
+		const chunks = chunkMarkdown(
+			[
+				"# Deploy",
+				"Overview",
+				"## Azure",
+				"### VM",
+				"Create the VM.",
+				"## AWS",
+				"Use EC2.",
+			].join("\n"),
+			{ title: "Deploy guide" },
+		);
+
+		expect(chunks.map((chunk) => chunk.heading)).toEqual([
+			"Deploy",
+			"Deploy > Azure > VM",
+			"Deploy > AWS",
+		]);
+		expect(chunks[1]).toMatchObject({
+			locator: "chunk:0002",
+			headingPath: ["Deploy", "Azure", "VM"],
+			content: "### VM\n\nCreate the VM.",
+		});
+	});
+
+	it("falls back to the title when the page has no headings", () => {
+		const chunks = chunkMarkdown("Just text.", { title: "Page" });
+		expect(chunks).toEqual([
+			{
+				locator: "chunk:0001",
+				heading: "Page",
+				headingPath: ["Page"],
+				content: "Just text.",
+				tokenCount: 3,
+			},
+		]);
+	});
+
+	it("never splits code fences or tables even when they exceed the size", () => {
+		const code = ["```ts", ...Array.from({ length: 40 }, (_, i) => `const v${i} = ${i};`), "```"].join("\n");
+		const table = [
+			"| name | value |",
+			"| --- | --- |",
+			...Array.from({ length: 30 }, (_, i) => `| row${i} | ${i} |`),
+		].join("\n");
+		const chunks = chunkMarkdown(
+			["# Code", "Before", "", code, "", table, "", "After"].join("\n"),
+			{ maxTokens: 60, overlapTokens: 10 },
+		);
+
+		expect(chunks.some((chunk) => chunk.content.includes(code))).toBe(true);
+		expect(chunks.some((chunk) => chunk.content.includes(table))).toBe(true);
+		for (const chunk of chunks) {
+			const fences = chunk.content.match(/^```/gm) ?? [];
+			expect(fences.length % 2).toBe(0);
+		}
+	});
+
+	it("splits long sections by token size with paragraph overlap", () => {
+		const paragraphs = Array.from(
+			{ length: 6 },
+			(_, i) => `Paragraph ${i} ${"word ".repeat(20).trim()}`,
+		);
+		const chunks = chunkMarkdown(["## Guide", ...paragraphs].join("\n\n"), {
+			maxTokens: 70,
+			overlapTokens: 30,
+		});
+
+		expect(chunks.length).toBeGreaterThan(2);
+		for (const chunk of chunks) {
+			expect(chunk.tokenCount).toBeLessThanOrEqual(70);
+			expect(chunk.heading).toBe("Guide");
+		}
+		const firstLast = chunks[0]?.content.split("\n\n").at(-1);
+		expect(chunks[1]?.content.startsWith(firstLast ?? "")).toBe(true);
+	});
+
+	it("splits a single oversized paragraph into windows", () => {
+		const text = "あ".repeat(250);
+		const chunks = chunkMarkdown(text, { maxTokens: 100, overlapTokens: 0 });
+
+		expect(chunks.map((chunk) => chunk.content.length)).toEqual([100, 100, 50]);
+		expect(chunks.map((chunk) => chunk.content).join("")).toBe(text);
+	});
+
+	it("skips sections that contain only a heading", () => {
+		const chunks = chunkMarkdown("# Empty\n## Child\nBody");
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0]?.heading).toBe("Empty > Child");
+	});
+});
@@ -0,0 +1,112 @@
+import { estimateTokens } from "../../../utils/tokens";
+import {
+	createChunk,
+	HeadingTrail,
+	type MarkdownChunk,
+	type MarkdownChunkOptions,
+	resolveChunkOptions,
+	splitTextByTokens,
+} from "./chunk";
+import {
+	isUnsplittableBlock,
+	type MarkdownBlock,
+	parseMarkdownBlocks,
+} from "./markdown-blocks";
+
+type ChunkPiece = {
+	text: string;
+	tokens: number;
+	/** オーバーラップとして次のチャンクへ持ち越してよいか (コードブロックと表は持ち越さない) */
+	overlappable: boolean;
+};
+
+function toPieces(block: MarkdownBlock, maxTokens: number): ChunkPiece[] {
+	const tokens = estimateTokens(block.raw);
+	if (isUnsplittableBlock(block)) {
+		return [{ text: block.raw, tokens, overlappable: false }];
+	}
+	if (tokens <= maxTokens) {
+		return [{ text: block.raw, tokens, overlappable: true }];
+	}
+	return splitTextByTokens(block.raw, maxTokens).map((text) => ({
+		text,
+		tokens: estimateTokens(text),
+		overlappable: true,
+	}));
+}
+
+/**
+ * Markdown を構造を保ったままチャンクへ分割する。
+ * 見出しごとにチャンクを区切り、見出し階層をパンくず (例: `Deploy > Azure > VM`) として記録する。
+ * コードブロックと表は上限を超えても分割せず、段落の続きには末尾の段落をオーバーラップとして付与する。
+ */
+export function chunkMarkdown(
+	markdown: string,
+	options: MarkdownChunkOptions = {},
+): MarkdownChunk[] {
+	const { title, maxTokens, overlapTokens } = resolveChunkOptions(options);
+	const chunks: MarkdownChunk[] = [];
+	const headings = new HeadingTrail();
+	let current: ChunkPiece[] = [];
+	let currentHasContent = false;
+
+	const flush = (carryOverlap: boolean) => {
+		if (currentHasContent) {
+			chunks.push(
+				createChunk({
+					index: chunks.length + 1,
+					headingPath: headings.path,
+					title,
+					content: current.map((piece) => piece.text).join("\n\n"),
+				}),
+			);
+		}
+
+		const carried: ChunkPiece[] = [];
+		if (carryOverlap && currentHasContent && overlapTokens > 0) {
+			let budget = overlapTokens;
+			for (let index = current.length - 1; index >= 0; index -= 1) {
+				const piece = current[index];
+				if (!piece?.overlappable || piece.tokens > budget) break;
+				carried.unshift(piece);
+				budget -= piece.tokens;
+			}
+		}
+		current = carried;
+		currentHasContent = false;
+	};
+
+	const currentTokens = () =>
+		current.reduce((sum, piece) => sum + piece.tokens, 0) +
+		Math.max(0, current.length - 1);
+
+	for (const block of parseMarkdownBlocks(markdown)) {
+		if (block.type === "heading") {
+			flush(false);
+			headings.push(block.level, block.text);
+			current = [
+				{
+					text: block.raw,
+					tokens: estimateTokens(block.raw),
+					overlappable: false,
+				},
+			];
+			continue;
+		}
+
+		for (const piece of toPieces(block, maxTokens)) {
+			if (currentHasContent && currentTokens() + piece.tokens > maxTokens) {
+				flush(true);
+				// オーバーラップを足すと上限を超える場合は持ち越さない
+				if (currentTokens() + piece.tokens > maxTokens) {
+					current = [];
+				}
+			}
+			current.push(piece);
+			currentHasContent = true;
+		}
+	}
+	flush(false);
+
+	return chunks;
+}
@@ -0,0 +1,52 @@
+import {
+	createChunk,
+	HeadingTrail,
+	type MarkdownChunk,
+	type MarkdownChunkOptions,
+	resolveChunkOptions,
+	splitTextByTokens,
+} from "./chunk";
+import { isUnsplittableBlock, parseMarkdownBlocks } from "./markdown-blocks";
+
+/**
+ * 段落・リスト項目・コードブロック・表・HTML ブロックをそれぞれ 1 チャンクにする。
+ * 見出し階層はパンくずとして保持し、上限を超える段落のみ分割する。
+ */
+export function chunkByParagraph(
+	markdown: string,
+	options: MarkdownChunkOptions = {},
+): MarkdownChunk[] {
+	const { title, maxTokens } = resolveChunkOptions(options);
+	const chunks: MarkdownChunk[] = [];
+	const headings = new HeadingTrail();
+	const push = (content: string) => {
+		chunks.push(
+			createChunk({
+				index: chunks.length + 1,
+				headingPath: headings.path,
+				title,
+				content,
+			}),
+		);
+	};
+
+	for (const block of parseMarkdownBlocks(markdown)) {
+		if (block.type === "heading") {
+			headings.push(block.level, block.text);
+			continue;
+		}
+		if (isUnsplittableBlock(block)) {
+			push(block.raw);
+			continue;
+		}
+		// リストはトップレベルの項目ごとに分ける (手順書の 1 ステップ = 1 項目)
+		const parts = block.type === "list" ? block.items : [block.raw];
+		for (const part of parts) {
+			for (const piece of splitTextByTokens(part, maxTokens)) {
+				push(piece);
+			}
+		}
+	}
+
+	return chunks;
+}
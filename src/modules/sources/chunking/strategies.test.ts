@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { readFrontmatter } from "./markdown-blocks";
+import { chunkFaq } from "./faq-chunker";
+import { chunkFixedWindow } from "./fixed-window-chunker";
+import { chunkByParagraph } from "./paragraph-chunker";
+import { resolveChunkingStrategy } from "./strategies";
+
+describe("resolveChunkingStrategy", () => {
+	it("prefers frontmatter over category config", () => {
+		const body = "---\nchunking: faq\n---\n# FAQ";
+		expect(
+			resolveChunkingStrategy({
+				frontmatter: readFrontmatter(body),
+				category: "runbook",
+				strategyByCategory: { runbook: "paragraph" },
+			}).name,
+		).toBe("faq");
+	});
+
+	it("falls back to category config and then the heading strategy", () => {
+		expect(
+			resolveChunkingStrategy({
+				frontmatter: { chunking: "unknown" },
+				category: "runbook",
+				strategyByCategory: { runbook: "paragraph" },
+			}).name,
+		).toBe("paragraph");
+		expect(resolveChunkingStrategy({ category: "tech" }).name).toBe("heading");
+	});
+
+	it("treats broken frontmatter as empty", () => {
+		expect(readFrontmatter("---\nchunking: [\n---\nbody")).toEqual({});
+	});
+});
+
+describe("chunkByParagraph", () => {
+	it("creates one chunk per step and keeps code blocks whole", () => {
+		const chunks = chunkByParagraph(
+			[
+				"# Restart",
+				"Before you start.",
+				"",
+				"1. Stop the app",
+				"   with care",
+				"2. Restart the DB",
+				"",
+				"```sh",
+				"systemctl restart app",
+				"",
+				"systemctl status app",
+				"```",
+			].join("\n"),
+		);
+
+		expect(chunks.map((chunk) => chunk.content)).toEqual([
+			"Before you start.",
+			"1. Stop the app\n   with care",
+			"2. Restart the DB",
+			"```sh\nsystemctl restart app\n\nsystemctl status app\n```",
+		]);
+		expect(chunks.every((chunk) => chunk.heading === "Restart")).toBe(true);
+	});
+});
+
+describe("chunkFaq", () => {
+	it("pairs question headings with their answers", () => {
+		const chunks = chunkFaq(
+			[
+				"# FAQ",
+				"Common questions.",
+				"## How do I reset my password?",
+				"Open settings.",
+				"",
+				"Then click reset.",
+				"## Where are logs stored？",
+				"In /var/log.",
+			].join("\n"),
+		);
+
+		expect(chunks.map((chunk) => chunk.heading)).toEqual([
+			"FAQ",
+			"FAQ > How do I reset my password?",
+			"FAQ > Where are logs stored？",
+		]);
+		expect(chunks[1]?.content).toBe(
+			"## How do I reset my password?\n\nOpen settings.\n\nThen click reset.",
+		);
+	});
+
+	it("detects Q: / A: paragraphs", () => {
+		const chunks = chunkFaq(
+			[
+				"# 認証",
+				"Q: トークンの有効期限は？",
+				"A: 15 分です。",
+				"",
+				"**Q: 更新方法は?**",
+				"",
+				"A: refresh を呼びます。",
+			].join("\n"),
+		);
+
+		expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+			["認証", "トークンの有効期限は？"],
+			["認証", "更新方法は?"],
+		]);
+		expect(chunks[1]?.content).toBe(
+			"**Q: 更新方法は?**\n\nA: refresh を呼びます。",
+		);
+	});
+});
+
+describe("chunkFixedWindow", () => {
+	it("slides a token window with overlap regardless of structure", () => {
+		const text = "0123456789".repeat(8);
+		const chunks = chunkFixedWindow(`---\ntitle: x\n---\n${text}`, {
+			title: "Window",
+			maxTokens: 10,
+			overlapTokens: 2,
+		});
+
+		expect(chunks.map((chunk) => chunk.content.length)).toEqual([40, 40, 16]);
+		expect(chunks[1]?.content.startsWith(text.slice(32, 40))).toBe(true);
+		expect(chunks.every((chunk) => chunk.heading === "Window")).toBe(true);
+	});
+});
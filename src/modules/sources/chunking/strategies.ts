@@ -0,0 +1,65 @@
+import type { MarkdownChunk, MarkdownChunkOptions } from "./chunk";
+import { chunkFaq } from "./faq-chunker";
+import { chunkFixedWindow } from "./fixed-window-chunker";
+import { chunkMarkdown } from "./markdown-chunker";
+import { chunkByParagraph } from "./paragraph-chunker";
+
+export const CHUNKING_STRATEGY_NAMES = [
+	"heading",
+	"paragraph",
+	"faq",
+	"fixed-window",
+] as const;
+
+export type ChunkingStrategyName = (typeof CHUNKING_STRATEGY_NAMES)[number];
+
+export type ChunkingStrategy = {
+	name: ChunkingStrategyName;
+	chunk(markdown: string, options?: MarkdownChunkOptions): MarkdownChunk[];
+};
+
+export const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategyName = "heading";
+
+const STRATEGIES: Record<ChunkingStrategyName, ChunkingStrategy> = {
+	heading: { name: "heading", chunk: chunkMarkdown },
+	paragraph: { name: "paragraph", chunk: chunkByParagraph },
+	faq: { name: "faq", chunk: chunkFaq },
+	"fixed-window": { name: "fixed-window", chunk: chunkFixedWindow },
+};
+
+export function isChunkingStrategyName(
+	value: unknown,
+): value is ChunkingStrategyName {
+	return (
+		typeof value === "string" &&
+		(CHUNKING_STRATEGY_NAMES as readonly string[]).includes(value)
+	);
+}
+
+export function getChunkingStrategy(
+	name: ChunkingStrategyName,
+): ChunkingStrategy {
+	return STRATEGIES[name];
+}
+
+/**
+ * ページ frontmatter の `chunking`、カテゴリ設定、既定値の順に分割方式を決める。
+ * 未知の値は無視して次の候補へ進む。
+ */
+export function resolveChunkingStrategy(params: {
+	frontmatter?: Record<string, unknown>;
+	category?: string;
+	strategyByCategory?: Record<string, string>;
+}): ChunkingStrategy {
+	const fromFrontmatter = params.frontmatter?.chunking;
+	if (isChunkingStrategyName(fromFrontmatter)) {
+		return STRATEGIES[fromFrontmatter];
+	}
+	const fromCategory = params.category
+		? params.strategyByCategory?.[params.category]
+		: undefined;
+	if (isChunkingStrategyName(fromCategory)) {
+		return STRATEGIES[fromCategory];
+	}
+	return STRATEGIES[DEFAULT_CHUNKING_STRATEGY];
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { hashFragmentContent, planFragmentSync } from "./fragment-sync";
+
+const fragment = (id: string, locator: string, content: string) => ({
+	id,
+	locator,
+	contentHash: hashFragmentContent(content),
+	hasEmbedding: true,
+});
+
+const chunk = (locator: string, content: string) => ({
+	locator,
+	contentHash: hashFragmentContent(content),
+});
+
+describe("planFragmentSync", () => {
+	it("keeps unchanged fragments and only inserts edited chunks", () => {
+		const plan = planFragmentSync(
+			[
+				fragment("f1", "chunk:1", "intro"),
+				fragment("f2", "chunk:2", "old step"),
+				fragment("f3", "chunk:3", "outro"),
+			],
+			[
+				chunk("chunk:1", "intro"),
+				chunk("chunk:2", "new step"),
+				chunk("chunk:3", "outro"),
+			],
+		);
+
+		expect(plan.keep.map(({ fragment }) => fragment.id)).toEqual(["f1", "f3"]);
+		expect(plan.insert).toEqual([chunk("chunk:2", "new step")]);
+		expect(plan.deleteIds).toEqual(["f2"]);
+	});
+
+	it("reuses fragments whose position shifted after an insertion", () => {
+		const plan = planFragmentSync(
+			[fragment("f1", "chunk:1", "a"), fragment("f2", "chunk:2", "b")],
+			[chunk("chunk:1", "new"), chunk("chunk:2", "a"), chunk("chunk:3", "b")],
+		);
+
+		expect(
+			plan.keep.map(({ fragment, chunk }) => [fragment.id, chunk.locator]),
+		).toEqual([
+			["f1", "chunk:2"],
+			["f2", "chunk:3"],
+		]);
+		expect(plan.insert.map((entry) => entry.locator)).toEqual(["chunk:1"]);
+		expect(plan.deleteIds).toEqual([]);
+	});
+
+	it("prefers the same locator when identical content appears twice", () => {
+		const plan = planFragmentSync(
+			[fragment("f1", "chunk:1", "same"), fragment("f2", "chunk:2", "same")],
+			[chunk("chunk:2", "same")],
+		);
+
+		expect(plan.keep.map(({ fragment }) => fragment.id)).toEqual(["f2"]);
+		expect(plan.deleteIds).toEqual(["f1"]);
+	});
+});
@@ -0,0 +1,79 @@
+import { createHash } from "node:crypto";
+
+export type ExistingFragment = {
+	id: string;
+	locator: string;
+	contentHash: string;
+	hasEmbedding: boolean;
+};
+
+export type PlannedFragment = {
+	locator: string;
+	contentHash: string;
+};
+
+export type FragmentSyncPlan<T extends PlannedFragment> = {
+	/** 本文が変わらず id と埋め込みを引き継ぐフラグメント */
+	keep: Array<{ fragment: ExistingFragment; chunk: T }>;
+	/** 新規に作成し埋め込みが必要なチャンク */
+	insert: T[];
+	/** 対応するチャンクがなくなったフラグメント */
+	deleteIds: string[];
+};
+
+/** フラグメント本文の差分判定に使うハッシュ (埋め込み対象の本文だけから計算する) */
+export function hashFragmentContent(content: string): string {
+	return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * 既存フラグメントと新しいチャンクを本文ハッシュで突き合わせる。
+ * 同じ本文が複数ある場合は locator が一致するものを優先し、残りは出現順に対応付ける。
+ */
+export function planFragmentSync<T extends PlannedFragment>(
+	existing: ExistingFragment[],
+	chunks: T[],
+): FragmentSyncPlan<T> {
+	const unmatched = new Map<string, ExistingFragment[]>();
+	for (const fragment of existing) {
+		const bucket = unmatched.get(fragment.contentHash) ?? [];
+		bucket.push(fragment);
+		unmatched.set(fragment.contentHash, bucket);
+	}
+
+	const take = (chunk: T, sameLocatorOnly: boolean) => {
+		const bucket = unmatched.get(chunk.contentHash);
+		if (!bucket || bucket.length === 0) return undefined;
+		const index = sameLocatorOnly
+			? bucket.findIndex((fragment) => fragment.locator === chunk.locator)
+			: 0;
+		if (index < 0) return undefined;
+		const [fragment] = bucket.splice(index, 1);
+		return fragment;
+	};
+
+	const matches = new Map<T, ExistingFragment>();
+	for (const chunk of chunks) {
+		const fragment = take(chunk, true);
+		if (fragment) matches.set(chunk, fragment);
+	}
+	for (const chunk of chunks) {
+		if (matches.has(chunk)) continue;
+		const fragment = take(chunk, false);
+		if (fragment) matches.set(chunk, fragment);
+	}
+
+	const plan: FragmentSyncPlan<T> = { keep: [], insert: [], deleteIds: [] };
+	for (const chunk of chunks) {
+		const fragment = matches.get(chunk);
+		if (fragment) {
+			plan.keep.push({ fragment, chunk });
+		} else {
+			plan.insert.push(chunk);
+		}
+	}
+	for (const bucket of unmatched.values()) {
+		plan.deleteIds.push(...bucket.map((fragment) => fragment.id));
+	}
+	return plan;
+}
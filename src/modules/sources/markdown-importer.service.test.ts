@@ -107,4 +107,97 @@ describe("collectMarkdownFiles", () => {
 			},
 		});
 	});
+
+	it("skips redirect stubs left behind by page moves", async () => {
+		const root = await mkdtemp(path.join(os.tmpdir(), "regular-rag-importer-"));
+		tempDirs.push(root);
+		const pagesRoot = path.join(root, "pages");
+		await mkdir(path.join(pagesRoot, "tech"), { recursive: true });
+		await writeFile(
+			path.join(pagesRoot, "tech", "old.md"),
+			"---\nredirectTo: tech/new\n---\nThis page has moved to [[tech/new]].\n",
+			"utf8",
+		);
+		await writeFile(
+			path.join(pagesRoot, "tech", "new.md"),
+			"# New\n\ncontent",
+			"utf8",
+		);
+
+		const sourceRepository = {
+			upsertSourceDocument: vi.fn().mockResolvedValue("source-1"),
+			deleteStaleSourcesForRoot: vi.fn().mockResolvedValue(0),
+		};
+
+		const result = await importMarkdownDirectory({
+			contentRoot: root,
+			sourceRepository: sourceRepository as never,
+			embedFragments: false,
+		});
+
+		expect(result).toMatchObject({ importedFiles: 1, skippedFiles: 1 });
+		expect(
+			sourceRepository.upsertSourceDocument.mock.calls[0]?.[0],
+		).toMatchObject({ metadata: { wikiSlug: "tech/new" } });
+	});
+
+	it("passes links to other pages resolved to slugs", async () => {
+		const root = await mkdtemp(path.join(os.tmpdir(), "regular-rag-importer-"));
+		tempDirs.push(root);
+		const pagesRoot = path.join(root, "pages");
+		await mkdir(path.join(pagesRoot, "tech", "hono"), { recursive: true });
+		await writeFile(
+			path.join(pagesRoot, "tech", "hono", "index.md"),
+			"# Hono\n\n[Routing](routing.md) and [[guide/start|Start]]\n",
+			"utf8",
+		);
+
+		const sourceRepository = {
+			upsertSourceDocument: vi.fn().mockResolvedValue("source-1"),
+			deleteStaleSourcesForRoot: vi.fn().mockResolvedValue(0),
+		};
+
+		await importMarkdownDirectory({
+			contentRoot: root,
+			sourceRepository: sourceRepository as never,
+			embedFragments: false,
+		});
+
+		expect(
+			sourceRepository.upsertSourceDocument.mock.calls[0]?.[0].links,
+		).toEqual([
+			{ targetSlug: "tech/hono/routing", kind: "markdown", text: "Routing" },
+			{ targetSlug: "guide/start", kind: "wiki", text: "Start" },
+		]);
+	});
+
+	it("keeps frontmatter such as visibility in source metadata", async () => {
+		const root = await mkdtemp(path.join(os.tmpdir(), "regular-rag-importer-"));
+		tempDirs.push(root);
+		const pagesRoot = path.join(root, "pages");
+		await mkdir(path.join(pagesRoot, "hr"), { recursive: true });
+		await writeFile(
+			path.join(pagesRoot, "hr", "salary.md"),
+			"---\nvisibility: [hr]\n---\n# Salary\n\ncontent",
+			"utf8",
+		);
+
+		const sourceRepository = {
+			upsertSourceDocument: vi.fn().mockResolvedValue("source-1"),
+			deleteStaleSourcesForRoot: vi.fn().mockResolvedValue(0),
+		};
+
+		await importMarkdownDirectory({
+			contentRoot: root,
+			sourceRepository: sourceRepository as never,
+			embedFragments: false,
+		});
+
+		expect(
+			sourceRepository.upsertSourceDocument.mock.calls[0]?.[0],
+		).toMatchObject({
+			category: "hr",
+			metadata: { visibility: ["hr"], wikiSlug: "hr/salary" },
+		});
+	});
 });
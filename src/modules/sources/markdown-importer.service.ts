@@ -1,11 +1,15 @@
 import { createHash } from "node:crypto";
 import { mkdir, readFile, readdir, rename, rm, stat } from "node:fs/promises";
 import path from "node:path";
+import { readFrontmatter } from "./chunking/markdown-blocks";
+import { normalizeFrontmatterMetadata } from "./search/metadata-filter";
 import type { SourceRepository } from "./source.repository";
 import {
 	categoryFromPageRelativePath,
 	DEFAULT_WIKI_CATEGORY,
 } from "./wiki/category";
+import { listPageLastCommittedAt, redirectTargetOf } from "./wiki/content-repo";
+import { extractPageLinks } from "./wiki/page-links";
 import { filePathToSlug } from "./wiki/slug";
 
 export type MarkdownImportResult = {
@@ -46,6 +50,13 @@ export type MarkdownImportProgressEvent =
 			total: number;
 			path: string;
 	  }
+	| {
+			type: "file_skipped_redirect";
+			index: number;
+			total: number;
+			path: string;
+			redirectTo: string;
+	  }
 	| {
 			type: "cleanup_started";
 			keepUris: number;
@@ -185,6 +196,9 @@ export async function importMarkdownDirectory(params: {
 	const markdownFiles = await collectMarkdownFiles(params.contentRoot);
 	const pagesRoot = path.resolve(params.contentRoot, "pages");
 	const embedFragments = params.embedFragments ?? true;
+	const lastCommittedAtByPath = await listPageLastCommittedAt(
+		params.contentRoot,
+	);
 	params.onProgress?.({
 		type: "scan_completed",
 		totalFiles: markdownFiles.length,
@@ -224,8 +238,26 @@ export async function importMarkdownDirectory(params: {
 			continue;
 		}
 
+		// ページ移動で残したリダイレクト用ページは検索対象にしない
+		const frontmatter = readFrontmatter(content);
+		const redirectTo = redirectTargetOf(frontmatter);
+		if (redirectTo) {
+			results.skippedFiles += 1;
+			params.onProgress?.({
+				type: "file_skipped_redirect",
+				index,
+				total: markdownFiles.length,
+				path: filePath,
+				redirectTo,
+			});
+			continue;
+		}
+
 		const hash = createHash("sha256").update(content).digest("hex");
 		const wikiSlug = filePathToSlug(relativeFromPages);
+		const lastCommittedAt = lastCommittedAtByPath.get(
+			relativeFromPages.split(path.sep).join("/"),
+		);
 		const title =
 			firstMarkdownHeading(content) ?? path.basename(filePath, ".md");
 		const sourceId = await params.sourceRepository.upsertSourceDocument({
@@ -236,11 +268,15 @@ export async function importMarkdownDirectory(params: {
 			contentHash: hash,
 			category,
 			embedFragments,
+			// frontmatter (visibility など) も API から保存した場合と同じくメタデータに含める
 			metadata: {
+				...normalizeFrontmatterMetadata(frontmatter),
 				relativePath: path.relative(params.contentRoot, filePath),
 				wikiSlug,
+				...(lastCommittedAt ? { lastCommittedAt } : {}),
 				importedAt: new Date().toISOString(),
 			},
+			links: extractPageLinks(content, relativeFromPages),
 		});
 
 		results.importedFiles += 1;
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+	MetadataFilterParseError,
+	normalizeFrontmatterMetadata,
+	parseMetadataFilter,
+} from "./metadata-filter";
+
+describe("parseMetadataFilter", () => {
+	it("parses equality, negation, comparison and OR lists", () => {
+		expect(
+			parseMetadataFilter(
+				'tags:auth,oauth status:!deprecated updated>=2026-01-01 owner:"Platform Team"',
+			),
+		).toEqual([
+			{ field: "tags", operator: "eq", values: ["auth", "oauth"] },
+			{ field: "status", operator: "neq", values: ["deprecated"] },
+			{ field: "updated", operator: "gte", values: ["2026-01-01"] },
+			{ field: "owner", operator: "eq", values: ["Platform Team"] },
+		]);
+		expect(parseMetadataFilter("  ")).toEqual([]);
+	});
+
+	it("rejects malformed conditions", () => {
+		expect(() => parseMetadataFilter("auth")).toThrow(MetadataFilterParseError);
+		expect(() => parseMetadataFilter("tags:")).toThrow("Missing filter value");
+		expect(() => parseMetadataFilter("updated>2026-01-01,2026-02-01")).toThrow(
+			"single value",
+		);
+	});
+});
+
+describe("normalizeFrontmatterMetadata", () => {
+	it("turns tags into a list and dates into YYYY-MM-DD", () => {
+		expect(
+			normalizeFrontmatterMetadata({
+				tags: "auth, oauth",
+				updated: new Date("2026-03-04T00:00:00Z"),
+				status: "active",
+			}),
+		).toEqual({
+			tags: ["auth", "oauth"],
+			updated: "2026-03-04",
+			status: "active",
+		});
+	});
+});
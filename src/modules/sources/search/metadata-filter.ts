@@ -0,0 +1,138 @@
+import { z } from "zod";
+
+export type MetadataFilterOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte";
+
+/** frontmatter の 1 項目に対する条件。eq / neq の values はいずれかに一致すればよい */
+export type MetadataFilterCondition = {
+	field: string;
+	operator: MetadataFilterOperator;
+	values: string[];
+};
+
+export type MetadataFilter = MetadataFilterCondition[];
+
+export class MetadataFilterParseError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "MetadataFilterParseError";
+	}
+}
+
+/** sources.metadata ではなく sources.category 列で絞り込む項目 */
+export const CATEGORY_FILTER_FIELD = "category";
+
+const MAX_CONDITIONS = 10;
+const LIST_FIELDS = new Set(["tags"]);
+const DATE_FIELDS = new Set(["updated"]);
+const TOKEN_PATTERN = /(?:[^\s"]+|"[^"]*")+/g;
+const CONDITION_PATTERN = /^([A-Za-z_][A-Za-z0-9_-]*)(>=|<=|>|<|:)(.*)$/;
+const COMPARISON_OPERATORS: Record<string, MetadataFilterOperator> = {
+	">": "gt",
+	">=": "gte",
+	"<": "lt",
+	"<=": "lte",
+};
+
+const unquote = (value: string): string =>
+	value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+		? value.slice(1, -1)
+		: value;
+
+const parseValues = (raw: string): string[] =>
+	(raw.startsWith('"') ? [unquote(raw)] : raw.split(","))
+		.map((value) => value.trim())
+		.filter(Boolean);
+
+/**
+ * `tags:auth status:!deprecated updated>2026-01-01` 形式の絞り込み条件を解析する。
+ * 条件はすべて AND、`tags:auth,oauth` のようにカンマで並べた値は OR になる。
+ */
+export function parseMetadataFilter(input: string): MetadataFilter {
+	const tokens = input.trim().match(TOKEN_PATTERN) ?? [];
+	if (tokens.length > MAX_CONDITIONS) {
+		throw new MetadataFilterParseError(
+			`Too many filter conditions (max ${MAX_CONDITIONS}).`,
+		);
+	}
+	return tokens.map((token) => {
+		const match = CONDITION_PATTERN.exec(token);
+		if (!match) {
+			throw new MetadataFilterParseError(`Invalid filter condition: ${token}`);
+		}
+		const [, field = "", symbol = "", rawValue = ""] = match;
+		const negated = symbol === ":" && rawValue.startsWith("!");
+		const values = parseValues(negated ? rawValue.slice(1) : rawValue);
+		const operator: MetadataFilterOperator =
+			symbol === ":"
+				? negated
+					? "neq"
+					: "eq"
+				: (COMPARISON_OPERATORS[symbol] ?? "eq");
+		if (values.length === 0) {
+			throw new MetadataFilterParseError(`Missing filter value: ${token}`);
+		}
+		if (operator !== "eq" && operator !== "neq" && values.length > 1) {
+			throw new MetadataFilterParseError(
+				`Comparison filters take a single value: ${token}`,
+			);
+		}
+		return { field, operator, values };
+	});
+}
+
+/** リクエストボディで受け付ける絞り込み条件。解析できない場合は 400 になる */
+export const metadataFilterSchema = z
+	.string()
+	.max(500)
+	.transform((value, ctx) => {
+		try {
+			return parseMetadataFilter(value);
+		} catch (error) {
+			ctx.addIssue({
+				code: "custom",
+				message:
+					error instanceof Error ? error.message : "Invalid metadata filter.",
+			});
+			return z.NEVER;
+		}
+	});
+
+const toDateString = (value: unknown): unknown =>
+	value instanceof Date && !Number.isNaN(value.getTime())
+		? value.toISOString().slice(0, 10)
+		: value;
+
+const toStringList = (value: unknown): unknown => {
+	if (typeof value === "string") {
+		return value
+			.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean);
+	}
+	if (Array.isArray(value)) {
+		return value
+			.filter((item) => typeof item === "string" || typeof item === "number")
+			.map((item) => String(item).trim())
+			.filter(Boolean);
+	}
+	return value;
+};
+
+/**
+ * frontmatter を絞り込みで比較できる形にそろえる。
+ * `tags` は文字列配列に、`updated` の日付は YYYY-MM-DD にする。その他の項目はそのまま残す。
+ */
+export function normalizeFrontmatterMetadata(
+	frontmatter: Record<string, unknown>,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(frontmatter).map(([key, value]) => [
+			key,
+			LIST_FIELDS.has(key)
+				? toStringList(value)
+				: DATE_FIELDS.has(key)
+					? toDateString(value)
+					: value,
+		]),
+	);
+}
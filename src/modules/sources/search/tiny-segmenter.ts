@@ -0,0 +1,100 @@
+// TinySegmenter 0.2 を TypeScript に移植したもの。
+// (c) 2008 Taku Kudo <taku@chasen.org>
+// TinySegmenter is freely distributable under the terms of a new BSD licence.
+// For details, see http://chasen.org/~taku/software/TinySegmenter/LICENCE.txt
+
+import {
+	TINY_SEGMENTER_BIAS,
+	TINY_SEGMENTER_MODEL as MODEL,
+} from "./tiny-segmenter-model";
+
+/** 文字種 (M: 漢数字, H: 漢字, I: ひらがな, K: カタカナ, A: 英字, N: 数字, O: その他) */
+const CHAR_TYPES: Array<[RegExp, string]> = [
+	[/[一二三四五六七八九十百千万億兆]/, "M"],
+	[/[一-龠々〆ヵヶ]/, "H"],
+	[/[ぁ-ん]/, "I"],
+	[/[ァ-ヴーｱ-ﾝﾞｰ]/, "K"],
+	[/[a-zA-Zａ-ｚＡ-Ｚ]/, "A"],
+	[/[0-9０-９]/, "N"],
+];
+
+const charType = (char: string): string =>
+	CHAR_TYPES.find(([pattern]) => pattern.test(char))?.[1] ?? "O";
+
+const weight = (table: string, key: string): number => MODEL[table]?.[key] ?? 0;
+
+/**
+ * 辞書を持たない日本語の分かち書き。前後 3 文字の文字・文字種と直前の判定結果から、
+ * 各文字の前で単語が切れるかを学習済みの重みで判定する。
+ */
+export function segmentJapanese(input: string): string[] {
+	if (!input) return [];
+	const chars = [...input];
+	const seg = ["B3", "B2", "B1", ...chars, "E1", "E2", "E3"];
+	const ctype = ["O", "O", "O", ...chars.map(charType), "O", "O", "O"];
+	const result: string[] = [];
+	let word = seg[3] ?? "";
+	let p1 = "U";
+	let p2 = "U";
+	let p3 = "U";
+	for (let i = 4; i < seg.length - 3; i += 1) {
+		const [w1, w2, w3, w4, w5, w6] = seg.slice(i - 3, i + 3);
+		const [c1, c2, c3, c4, c5, c6] = ctype.slice(i - 3, i + 3);
+		const score =
+			TINY_SEGMENTER_BIAS +
+			weight("UP1", p1) +
+			weight("UP2", p2) +
+			weight("UP3", p3) +
+			weight("BP1", p1 + p2) +
+			weight("BP2", p2 + p3) +
+			weight("UW1", w1) +
+			weight("UW2", w2) +
+			weight("UW3", w3) +
+			weight("UW4", w4) +
+			weight("UW5", w5) +
+			weight("UW6", w6) +
+			weight("BW1", w2 + w3) +
+			weight("BW2", w3 + w4) +
+			weight("BW3", w4 + w5) +
+			weight("TW1", w1 + w2 + w3) +
+			weight("TW2", w2 + w3 + w4) +
+			weight("TW3", w3 + w4 + w5) +
+			weight("TW4", w4 + w5 + w6) +
+			weight("UC1", c1) +
+			weight("UC2", c2) +
+			weight("UC3", c3) +
+			weight("UC4", c4) +
+			weight("UC5", c5) +
+			weight("UC6", c6) +
+			weight("BC1", c2 + c3) +
+			weight("BC2", c3 + c4) +
+			weight("BC3", c4 + c5) +
+			weight("TC1", c1 + c2 + c3) +
+			weight("TC2", c2 + c3 + c4) +
+			weight("TC3", c3 + c4 + c5) +
+			weight("TC4", c4 + c5 + c6) +
+			weight("UQ1", p1 + c1) +
+			weight("UQ2", p2 + c2) +
+			weight("UQ3", p3 + c3) +
+			weight("BQ1", p2 + c2 + c3) +
+			weight("BQ2", p2 + c3 + c4) +
+			weight("BQ3", p3 + c2 + c3) +
+			weight("BQ4", p3 + c3 + c4) +
+			weight("TQ1", p2 + c1 + c2 + c3) +
+			weight("TQ2", p2 + c2 + c3 + c4) +
+			weight("TQ3", p3 + c1 + c2 + c3) +
+			weight("TQ4", p3 + c2 + c3 + c4);
+		let p = "O";
+		if (score > 0) {
+			result.push(word);
+			word = "";
+			p = "B";
+		}
+		p1 = p2;
+		p2 = p3;
+		p3 = p;
+		word += seg[i];
+	}
+	result.push(word);
+	return result;
+}
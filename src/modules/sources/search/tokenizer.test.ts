@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+	BigramTokenizer,
+	createSearchTokenizer,
+	TinySegmenterTokenizer,
+	toSearchDocument,
+} from "./tokenizer";
+
+describe("TinySegmenterTokenizer", () => {
+	it("splits Japanese compounds into words and drops particles", () => {
+		expect(new TinySegmenterTokenizer().tokenize("認証トークンの有効期限")).toEqual(
+			["認証", "トークン", "有効", "期限"],
+		);
+	});
+
+	it("keeps katakana loanwords and code-like tokens whole", () => {
+		expect(
+			new TinySegmenterTokenizer().tokenize(
+				"データベースのマイグレーションは bun run db:migrate で",
+			),
+		).toEqual([
+			"データベース",
+			"マイグレーション",
+			"bun",
+			"run",
+			"db:migrate",
+		]);
+	});
+
+	it("segments without the runtime's Intl.Segmenter", () => {
+		const segmenter = Intl.Segmenter;
+		Reflect.deleteProperty(Intl, "Segmenter");
+		try {
+			expect(new TinySegmenterTokenizer().tokenize("障害対応の運用ルール")).toEqual(
+				["障害", "対応", "運用", "ルール"],
+			);
+		} finally {
+			Reflect.set(Intl, "Segmenter", segmenter);
+		}
+	});
+});
+
+describe("BigramTokenizer", () => {
+	it("splits kanji and katakana runs into overlapping bigrams", () => {
+		expect(new BigramTokenizer().tokenize("認証トークンの有効期限")).toEqual([
+			"認証",
+			"トー",
+			"ーク",
+			"クン",
+			"有効",
+			"効期",
+			"期限",
+		]);
+	});
+});
+
+describe("toSearchDocument", () => {
+	it("joins tokens of all parts with spaces for to_tsvector", () => {
+		expect(
+			toSearchDocument(createSearchTokenizer("bigram"), "Auth", null, "有効期限"),
+		).toBe("auth 有効 効期 期限");
+	});
+});
@@ -0,0 +1,105 @@
+import { segmentJapanese } from "./tiny-segmenter";
+
+export const SEARCH_TOKENIZER_NAMES = ["tinysegmenter", "bigram"] as const;
+
+export type SearchTokenizerName = (typeof SEARCH_TOKENIZER_NAMES)[number];
+
+/**
+ * 全文検索用のトークナイザー。索引作成 (search_vector) と検索語の両方で同じものを使う。
+ */
+export interface SearchTokenizer {
+	readonly name: SearchTokenizerName;
+	tokenize(text: string): string[];
+}
+
+const TOKEN_PATTERN =
+	/(?:--?)?[a-z0-9][a-z0-9._:/@+-]*|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]+/giu;
+const CJK_RUN_PATTERN =
+	/^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々]+$/u;
+const HIRAGANA_PATTERN = /^[\p{Script=Hiragana}ー]+$/u;
+const SCRIPT_RUN_PATTERN =
+	/[\p{Script=Han}々]+|[\p{Script=Katakana}ー]+|[\p{Script=Hiragana}]+/gu;
+
+function normalizeText(text: string): string {
+	return text.normalize("NFKC").toLowerCase();
+}
+
+/** 助詞などの 1 文字のひらがなは単独では検索語にしない */
+function isParticle(token: string): boolean {
+	return token.length === 1 && HIRAGANA_PATTERN.test(token);
+}
+
+/**
+ * 英数字・記号を含むコード風の語はそのまま 1 語とし、日本語の連続部分だけを segmentJapanese で分割する。
+ */
+function tokenizeWith(
+	text: string,
+	segmentJapanese: (run: string) => string[],
+): string[] {
+	const tokens: string[] = [];
+	for (const match of normalizeText(text).match(TOKEN_PATTERN) ?? []) {
+		if (!CJK_RUN_PATTERN.test(match)) {
+			tokens.push(match);
+			continue;
+		}
+		for (const token of segmentJapanese(match)) {
+			if (!isParticle(token)) tokens.push(token);
+		}
+	}
+	return tokens;
+}
+
+/** 漢字・カタカナの連続は 2 文字ずつずらした bigram に、ひらがなはまとまりのまま扱う */
+function toBigrams(run: string): string[] {
+	const tokens: string[] = [];
+	for (const part of run.match(SCRIPT_RUN_PATTERN) ?? []) {
+		const chars = [...part];
+		if (HIRAGANA_PATTERN.test(part) || chars.length <= 2) {
+			tokens.push(part);
+			continue;
+		}
+		for (let index = 0; index < chars.length - 1; index += 1) {
+			tokens.push(`${chars[index]}${chars[index + 1]}`);
+		}
+	}
+	return tokens;
+}
+
+/** 辞書を使わない n-gram (bigram) トークナイザー */
+export class BigramTokenizer implements SearchTokenizer {
+	readonly name = "bigram";
+
+	tokenize(text: string): string[] {
+		return tokenizeWith(text, toBigrams);
+	}
+}
+
+/**
+ * 同梱の TinySegmenter (学習済みの重みを持つ純粋な TypeScript 実装) で単語に分割するトークナイザー。
+ * 実行環境の ICU データに左右されないため、索引作成時と検索時で分割結果が変わらない。
+ */
+export class TinySegmenterTokenizer implements SearchTokenizer {
+	readonly name = "tinysegmenter";
+
+	tokenize(text: string): string[] {
+		return tokenizeWith(text, segmentJapanese);
+	}
+}
+
+export function createSearchTokenizer(
+	name: SearchTokenizerName = "tinysegmenter",
+): SearchTokenizer {
+	return name === "bigram"
+		? new BigramTokenizer()
+		: new TinySegmenterTokenizer();
+}
+
+/** to_tsvector('simple', …) に渡すための空白区切りのトークン列 */
+export function toSearchDocument(
+	tokenizer: SearchTokenizer,
+	...parts: Array<string | null | undefined>
+): string {
+	return tokenizer
+		.tokenize(parts.filter((part): part is string => Boolean(part)).join("\n"))
+		.join(" ");
+}
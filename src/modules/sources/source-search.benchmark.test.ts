@@ -0,0 +1,168 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { Pool } from "pg";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import * as schema from "../../db/schema";
+import { normalizeSearchTerms, SourceRepository } from "./source.repository";
+
+/**
+ * 旧実装 (行ごとに to_tsvector を計算し ILIKE を OR で並べる) と
+ * 保存済み search_vector + GIN 索引の検索を比較するベンチマーク。
+ * BENCHMARK_DATABASE_URL を指定したときだけ一時スキーマを作って実行する。
+ */
+const databaseUrl = process.env.BENCHMARK_DATABASE_URL;
+
+const SOURCE_COUNT = 400;
+const SECTIONS_PER_SOURCE = 10;
+const RUNS = 7;
+
+const VOCABULARY = [
+	"deploy",
+	"cache",
+	"queue",
+	"worker",
+	"schema",
+	"index",
+	"backup",
+	"release",
+	"monitoring",
+	"latency",
+	"認証",
+	"設定",
+	"障害",
+	"手順",
+	"運用",
+	"権限",
+	"通知",
+	"ログ",
+];
+
+function createRandom(seed: number): () => number {
+	let state = seed;
+	return () => {
+		state = (state * 1103515245 + 12345) % 2147483648;
+		return state / 2147483648;
+	};
+}
+
+function buildBody(index: number, random: () => number): string {
+	const sections = Array.from({ length: SECTIONS_PER_SOURCE }, (_, section) => {
+		const words = Array.from(
+			{ length: 60 },
+			() => VOCABULARY[Math.floor(random() * VOCABULARY.length)],
+		);
+		return `## Section ${section}\n\n${words.join(" ")}`;
+	});
+	if (index === 123) {
+		sections.push("## Rotation\n\nkubelet certificate rotation の手順");
+	}
+	return sections.join("\n\n");
+}
+
+async function legacySearch(pool: Pool, query: string, limit: number) {
+	const terms = normalizeSearchTerms(query);
+	const rankQuery = terms.length > 0 ? terms.join(" ") : query;
+	const params: unknown[] = [rankQuery, `%${query}%`, query];
+	const termCases = terms.map((term) => {
+		params.push(`%${term}%`);
+		const p = `$${params.length}`;
+		return `CASE WHEN (s.title ilike ${p} OR f.heading ilike ${p} OR f.content ilike ${p} OR f.metadata::text ilike ${p}) THEN 1 ELSE 0 END`;
+	});
+	const document =
+		"to_tsvector('simple', concat_ws(' ', s.title, f.heading, f.content, f.metadata::text))";
+	params.push(limit);
+	const result = await pool.query<{ uri: string }>(
+		`SELECT s.uri
+		FROM source_fragments f JOIN sources s ON s.id = f.source_id
+		WHERE ${document} @@ plainto_tsquery('simple', $1)
+			OR s.title ilike $2 OR f.heading ilike $2 OR f.content ilike $2 OR f.metadata::text ilike $2
+			OR (${termCases.join(" + ") || "0"}) >= ${terms.length >= 3 ? 2 : 1}
+			OR greatest(similarity(coalesce(s.title, ''), $3), similarity(coalesce(f.heading, ''), $3), similarity(f.content, $3)) >= 0.2
+		ORDER BY ts_rank_cd(${document}, plainto_tsquery('simple', $1)) DESC
+		LIMIT $${params.length}`,
+		params,
+	);
+	return result.rows;
+}
+
+async function medianMs(run: () => Promise<unknown>): Promise<number> {
+	const timings: number[] = [];
+	for (let i = 0; i < RUNS; i += 1) {
+		const startedAt = performance.now();
+		await run();
+		timings.push(performance.now() - startedAt);
+	}
+	timings.sort((a, b) => a - b);
+	return timings[Math.floor(timings.length / 2)] ?? 0;
+}
+
+describe.skipIf(!databaseUrl)("searchSourceContent benchmark", () => {
+	const schemaName = `bench_search_${Date.now()}`;
+	let pool: Pool;
+	let repository: SourceRepository;
+
+	beforeAll(async () => {
+		const admin = new Pool({ connectionString: databaseUrl });
+		await admin.query(`CREATE SCHEMA "${schemaName}"`);
+		await admin.end();
+
+		pool = new Pool({
+			connectionString: databaseUrl,
+			options: `-c search_path=${schemaName},public`,
+		});
+		const migrationsDir = path.resolve(process.cwd(), "drizzle");
+		const files = (await readdir(migrationsDir))
+			.filter((name) => name.endsWith(".sql"))
+			.sort((a, b) => a.localeCompare(b));
+		for (const file of files) {
+			await pool.query(await readFile(path.join(migrationsDir, file), "utf8"));
+		}
+
+		repository = new SourceRepository(drizzle(pool, { schema }), {
+			createEmbedding: async () => [],
+		} as never);
+		const random = createRandom(42);
+		for (let index = 0; index < SOURCE_COUNT; index += 1) {
+			await repository.upsertSourceDocument({
+				sourceKind: "wiki",
+				category: "bench",
+				uri: `wiki://bench/page-${index}`,
+				title: `Bench page ${index}`,
+				body: buildBody(index, random),
+				embedFragments: false,
+			});
+		}
+		await pool.query("ANALYZE source_fragments");
+		await pool.query("ANALYZE sources");
+	}, 600_000);
+
+	afterAll(async () => {
+		await pool?.query(`DROP SCHEMA IF EXISTS "${schemaName}" CASCADE`);
+		await pool?.end();
+	});
+
+	it("is faster than the per-row tsvector scan and finds the same page", async () => {
+		const { rows } = await pool.query<{ count: string }>(
+			"SELECT count(*) FROM source_fragments",
+		);
+		expect(Number(rows[0]?.count)).toBeGreaterThanOrEqual(
+			SOURCE_COUNT * SECTIONS_PER_SOURCE,
+		);
+
+		const query = "kubelet certificate rotation";
+		const legacy = await legacySearch(pool, query, 10);
+		const current = await repository.searchSourceContent(query, 10);
+		expect(legacy[0]?.uri).toBe("wiki://bench/page-123");
+		expect(current[0]?.sourceUri).toBe("wiki://bench/page-123");
+
+		const legacyMs = await medianMs(() => legacySearch(pool, query, 10));
+		const currentMs = await medianMs(() =>
+			repository.searchSourceContent(query, 10),
+		);
+		console.log(
+			`[bench][search] searchSourceContent ${JSON.stringify({ legacyMs, currentMs })}`,
+		);
+		expect(currentMs).toBeLessThan(legacyMs);
+	}, 600_000);
+});
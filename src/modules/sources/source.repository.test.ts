@@ -1,5 +1,7 @@
-import { describe, expect, it } from "vitest";
-import { normalizeSearchTerms } from "./source.repository";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { describe, expect, it, vi } from "vitest";
+import { normalizeSearchTerms, SourceRepository } from "./source.repository";
 
 describe("normalizeSearchTerms", () => {
 	it("keeps code-like tokens and removes filler words", () => {
@@ -21,7 +23,17 @@ describe("normalizeSearchTerms", () => {
 		expect(normalizeSearchTerms("Biomeのpackage.json設定方法")).toEqual([
 			"biome",
 			"package.json",
-			"設定方法",
+			"設定",
+			"方法",
+		]);
+	});
+
+	it("splits Japanese compound words into searchable parts", () => {
+		expect(normalizeSearchTerms("認証トークンの有効期限について")).toEqual([
+			"認証",
+			"トークン",
+			"有効",
+			"期限",
 		]);
 	});
 
@@ -46,3 +58,94 @@ describe("normalizeSearchTerms", () => {
 		]);
 	});
 });
+
+describe("SourceRepository.searchSourceContent", () => {
+	/** 発行した SELECT の WHERE 句を SQL 文字列で記録する */
+	const createRecordingDb = () => {
+		const wheres: string[] = [];
+		const dialect = new PgDialect();
+		const chain = {
+			from: () => chain,
+			innerJoin: () => chain,
+			where: (where: SQL) => {
+				wheres.push(dialect.sqlToQuery(where).sql);
+				return chain;
+			},
+			orderBy: () => chain,
+			limit: vi.fn().mockResolvedValue([]),
+		};
+		return { db: { select: () => chain }, wheres };
+	};
+
+	it("matches substrings and typos alongside word matches in one query", async () => {
+		const { db, wheres } = createRecordingDb();
+		const repository = new SourceRepository(db as never, {} as never);
+
+		await repository.searchSourceContent("kubelet rotation", 10);
+
+		expect(wheres).toHaveLength(1);
+		expect(wheres[0]).toContain('"source_fragments"."search_vector" @@');
+		expect(wheres[0]).toMatch(/or "source_fragments"\."content" % \$\d+/);
+	});
+
+	it("keeps fragments that only match on the title, heading or metadata", async () => {
+		const { db, wheres } = createRecordingDb();
+		const repository = new SourceRepository(db as never, {} as never);
+
+		await repository.searchSourceContent("kubelet rotation", 10);
+
+		expect(wheres[0]).toMatch(/"sources"\."title" ilike \$\d+/);
+		expect(wheres[0]).toMatch(/"source_fragments"\."heading" ilike \$\d+/);
+		expect(wheres[0]).toMatch(
+			/"source_fragments"\."metadata"::text ilike \$\d+/,
+		);
+		expect(wheres[0]).toMatch(/or "sources"\."title" % \$\d+/);
+		expect(wheres[0]).toMatch(/or "source_fragments"\."heading" % \$\d+/);
+	});
+});
+
+describe("SourceRepository.rebuildSearchVectors", () => {
+	it("writes each batch with a single UPDATE and skips up-to-date rows", async () => {
+		const dialect = new PgDialect();
+		const batches = [
+			[
+				{ id: "a", title: "T", heading: null, content: "認証", metadata: {} },
+				{ id: "b", title: "T", heading: "H", content: "期限", metadata: {} },
+			],
+			[],
+		];
+		const wheres: string[] = [];
+		const chain = {
+			from: () => chain,
+			innerJoin: () => chain,
+			where: (where: SQL) => {
+				wheres.push(dialect.sqlToQuery(where).sql);
+				return chain;
+			},
+			orderBy: () => chain,
+			limit: async () => batches.shift() ?? [],
+		};
+		const execute = vi.fn().mockResolvedValue(undefined);
+		const repository = new SourceRepository(
+			{ select: () => chain, execute } as never,
+			{} as never,
+		);
+
+		const rebuilt = await repository.rebuildSearchVectors({
+			batchSize: 2,
+			staleOnly: true,
+		});
+
+		expect(rebuilt).toBe(2);
+		expect(wheres[0]).toContain(
+			'"source_fragments"."search_tokenizer" IS DISTINCT FROM',
+		);
+		expect(execute).toHaveBeenCalledTimes(1);
+		const update = dialect.sqlToQuery(execute.mock.calls[0]?.[0]);
+		expect(update.sql).toContain('UPDATE "source_fragments"');
+		expect(update.sql).toContain("FROM (VALUES (");
+		expect(update.params).toEqual(
+			expect.arrayContaining(["a", "b", "tinysegmenter"]),
+		);
+	});
+});
@@ -15,7 +15,23 @@ import {
 import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 import type { EmbeddingProvider } from "../../providers/types";
 import type * as schema from "../../db/schema";
-import { sourceFragments, sources } from "../../db/schema";
+import { pageLinks, sourceFragments, sources } from "../../db/schema";
+import type { AccessScope } from "../access/access-scope";
+import type { MarkdownChunkOptions } from "./chunking/chunk";
+import { readFrontmatter } from "./chunking/markdown-blocks";
+import { resolveChunkingStrategy } from "./chunking/strategies";
+import { hashFragmentContent, planFragmentSync } from "./fragment-sync";
+import {
+	createSearchTokenizer,
+	type SearchTokenizer,
+	toSearchDocument,
+} from "./search/tokenizer";
+import {
+	CATEGORY_FILTER_FIELD,
+	type MetadataFilter,
+	type MetadataFilterCondition,
+} from "./search/metadata-filter";
+import type { ExtractedPageLink, PageLinkKind } from "./wiki/page-links";
 
 export type SourceKind = "wiki";
 
@@ -28,6 +44,71 @@ export type UpsertSourceParams = {
 	contentHash?: string;
 	embedFragments?: boolean;
 	metadata?: Record<string, unknown>;
+	/** 指定するとページ間リンクをこの内容で置き換える */
+	links?: ExtractedPageLink[];
+};
+
+/** あるページへリンクしているページ */
+export type PageBacklink = {
+	slug: string;
+	title: string | null;
+	kind: PageLinkKind;
+	linkText: string;
+};
+
+/** 存在しないページへのリンク */
+export type BrokenPageLink = {
+	sourceSlug: string;
+	sourceTitle: string | null;
+	targetSlug: string;
+	kind: PageLinkKind;
+	linkText: string;
+};
+
+/** 起点ページとリンクでつながったページ。outbound は起点からのリンク、inbound は起点へのリンク */
+export type LinkedWikiPage = {
+	fromSlug: string;
+	linkedSlug: string;
+	relation: "outbound" | "inbound";
+};
+
+/** 件数を集計する項目。category 以外は frontmatter の値 */
+export const SOURCE_FACET_FIELDS = [
+	"category",
+	"tags",
+	"owner",
+	"status",
+] as const;
+
+export type SourceFacetField = (typeof SOURCE_FACET_FIELDS)[number];
+
+export type SourceFacetCount = {
+	value: string;
+	pages: number;
+	fragments: number;
+};
+
+export type SourceFacets = Record<SourceFacetField, SourceFacetCount[]>;
+
+export type CountSourceFacetsParams = {
+	access?: AccessScope;
+	category?: string;
+	filter?: MetadataFilter;
+	/** 指定した場合はこの断片だけを数える (検索結果の集計) */
+	fragmentIds?: string[];
+	/** 項目ごとに返す値の上限 */
+	limit?: number;
+};
+
+const DEFAULT_FACET_LIMIT = 50;
+
+export type SourceRepositoryOptions = {
+	/** フラグメント分割のトークン上限とオーバーラップ */
+	chunking?: Pick<MarkdownChunkOptions, "maxTokens" | "overlapTokens">;
+	/** カテゴリごとの分割方式 (ページ frontmatter の `chunking` が優先される) */
+	chunkingStrategyByCategory?: Record<string, string>;
+	/** search_vector の作成と検索語の分割に使うトークナイザー */
+	searchTokenizer?: SearchTokenizer;
 };
 
 export type SourceSearchResult = {
@@ -94,12 +175,13 @@ const SEARCH_STOP_WORDS = new Set([
 	"教えて",
 ]);
 
-export function normalizeSearchTerms(query: string): string[] {
-	const normalized = query.normalize("NFKC").toLowerCase();
-	const tokens =
-		normalized.match(
-			/(?:--?)?[a-z0-9][a-z0-9._:/@+-]*|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+/giu,
-		) ?? [];
+const DEFAULT_SEARCH_TOKENIZER = createSearchTokenizer();
+
+export function normalizeSearchTerms(
+	query: string,
+	tokenizer: SearchTokenizer = DEFAULT_SEARCH_TOKENIZER,
+): string[] {
+	const tokens = tokenizer.tokenize(query);
 	const result: string[] = [];
 	for (const token of tokens) {
 		const value = token.trim();
@@ -124,61 +206,165 @@ function sumSql(parts: SQL<number>[]): SQL<number> {
 	);
 }
 
-function chunkSourceDocument(params: {
-	title?: string | null;
-	body: string;
-	maxChars?: number;
-}): Array<{ locator: string; heading: string | null; content: string }> {
-	const maxChars = params.maxChars ?? 2500;
-	const lines = params.body.split("\n");
-	const chunks: Array<{
-		locator: string;
-		heading: string | null;
-		content: string;
-	}> = [];
-	let heading = params.title ?? null;
-	let buffer: string[] = [];
-	let index = 1;
-
-	const flush = () => {
-		const content = buffer.join("\n").trim();
-		if (!content) return;
-		chunks.push({
-			locator: `chunk:${String(index).padStart(4, "0")}`,
-			heading,
-			content,
-		});
-		index += 1;
-		buffer = [];
-	};
-
-	for (const line of lines) {
-		const headingMatch = line.match(/^(#{1,6})\s+(.+?)\s*$/);
-		if (headingMatch && buffer.join("\n").trim().length > 0) {
-			flush();
-			heading = headingMatch[2]?.trim() || heading;
-		}
-		buffer.push(line);
-		if (buffer.join("\n").length >= maxChars) {
-			flush();
-		}
+function textArraySql(values: string[]): SQL {
+	if (values.length === 0) return sql`ARRAY[]::text[]`;
+	return sql`ARRAY[${sql.join(
+		values.map((value) => sql`${value}`),
+		sql`, `,
+	)}]::text[]`;
+}
+
+/**
+ * 閲覧範囲の条件。access/access-scope.ts の canAccessSource と同じ規則で
+ * 参照できないカテゴリと、frontmatter の visibility に所属グループが含まれないページを除く。
+ */
+function accessScopeConditions(access?: AccessScope): SQL[] {
+	if (!access || access.unrestricted) return [];
+	const conditions: SQL[] = [];
+	if (access.deniedCategories.length > 0) {
+		conditions.push(notInArray(sources.category, access.deniedCategories));
 	}
-	flush();
+	const visibility = sql`${sources.metadata} -> 'visibility'`;
+	const groups = textArraySql(access.groups);
+	conditions.push(sql`(CASE jsonb_typeof(${visibility})
+      WHEN 'string' THEN (${sources.metadata} ->> 'visibility') = ANY(${groups})
+      WHEN 'array' THEN jsonb_array_length(${visibility}) = 0
+        OR EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(${visibility}) AS allowed(name)
+          WHERE allowed.name = ANY(${groups})
+        )
+      ELSE true
+    END)`);
+	return conditions;
+}
 
-	if (chunks.length === 0) {
-		const content = params.body.trim();
-		return content
-			? [{ locator: "full", heading: params.title ?? null, content }]
-			: [];
+const COMPARISON_SQL = {
+	gt: ">",
+	gte: ">=",
+	lt: "<",
+	lte: "<=",
+} as const;
+const DATE_VALUE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const NUMBER_VALUE_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * frontmatter の値との比較。日付らしい値は日付部分 (YYYY-MM-DD) 同士、数値は数値として比べ、
+ * 形式の合わないページは条件を満たさないものとして扱う。
+ */
+function metadataComparisonSql(
+	text: SQL,
+	operator: keyof typeof COMPARISON_SQL,
+	value: string,
+): SQL {
+	const op = sql.raw(COMPARISON_SQL[operator]);
+	if (DATE_VALUE_PATTERN.test(value)) {
+		return sql`(CASE WHEN ${text} ~ ${DATE_VALUE_PATTERN.source} THEN left(${text}, 10) END) ${op} ${value.slice(0, 10)}`;
+	}
+	if (NUMBER_VALUE_PATTERN.test(value)) {
+		return sql`(CASE WHEN ${text} ~ ${NUMBER_VALUE_PATTERN.source} THEN (${text})::numeric END) ${op} ${value}::numeric`;
 	}
-	return chunks;
+	return sql`${text} ${op} ${value}`;
+}
+
+function metadataFilterCondition(condition: MetadataFilterCondition): SQL {
+	const isCategory = condition.field === CATEGORY_FILTER_FIELD;
+	if (condition.operator === "eq" || condition.operator === "neq") {
+		const values = textArraySql(
+			condition.values.map((value) => value.toLowerCase()),
+		);
+		// 配列 (tags など) はいずれかの要素、文字列はその値と大文字小文字を区別せずに比べる
+		const field = sql`${sources.metadata} -> ${condition.field}`;
+		const matched = isCategory
+			? sql`lower(${sources.category}) = ANY(${values})`
+			: sql`EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(
+            CASE jsonb_typeof(${field}) WHEN 'array' THEN ${field} ELSE jsonb_build_array(${field}) END
+          ) AS filter_value(value)
+          WHERE lower(filter_value.value) = ANY(${values})
+        )`;
+		return condition.operator === "neq" ? sql`NOT ${matched}` : matched;
+	}
+	const text = isCategory
+		? sql`${sources.category}`
+		: sql`(${sources.metadata} ->> ${condition.field})`;
+	return metadataComparisonSql(
+		text,
+		condition.operator,
+		condition.values[0] ?? "",
+	);
+}
+
+function metadataFilterConditions(filter?: MetadataFilter): SQL[] {
+	return (filter ?? []).map(metadataFilterCondition);
+}
+
+/** 集計項目の値を jsonb 配列にそろえる。配列以外のスカラー値は 1 要素、オブジェクトなどは空配列 */
+function facetValuesSql(field: SourceFacetField): SQL {
+	if (field === CATEGORY_FILTER_FIELD) {
+		return sql`jsonb_build_array(${sources.category})`;
+	}
+	const value = sql`${sources.metadata} -> ${field}`;
+	return sql`(CASE
+      WHEN jsonb_typeof(${value}) = 'array' THEN ${value}
+      WHEN jsonb_typeof(${value}) IN ('string', 'number', 'boolean') THEN jsonb_build_array(${value})
+      ELSE '[]'::jsonb
+    END)`;
+}
+
+type SearchVectorFields = {
+	title: string | null | undefined;
+	heading: string | null | undefined;
+	content: string;
+	metadata?: unknown;
+};
+
+/** ts_rank_cd の重み ({D, C, B, A})。本文は従来どおり 0.1 */
+const SEARCH_RANK_WEIGHTS = "{0.05, 0.1, 0.2, 0.4}";
+
+const PREFIX_TERM_PATTERN = /^[\p{L}\p{N}]+$/u;
+
+function metadataSearchText(metadata: unknown): string {
+	if (metadata == null) return "";
+	return typeof metadata === "string" ? metadata : JSON.stringify(metadata);
+}
+
+/**
+ * 検索語 1 つ分の tsquery。記号を含まない語は前方一致 (`term:*`) にして部分一致に近づける。
+ */
+function termTsQuery(term: string): SQL {
+	return PREFIX_TERM_PATTERN.test(term)
+		? sql`to_tsquery('simple', ${`${term}:*`})`
+		: sql`plainto_tsquery('simple', ${term})`;
 }
 
 export class SourceRepository {
+	private readonly searchTokenizer: SearchTokenizer;
+
 	constructor(
 		private readonly db: NodePgDatabase<typeof schema>,
 		private readonly embeddingProvider: EmbeddingProvider,
-	) {}
+		private readonly options: SourceRepositoryOptions = {},
+	) {
+		this.searchTokenizer = options.searchTokenizer ?? DEFAULT_SEARCH_TOKENIZER;
+	}
+
+	/**
+	 * タイトル (A)・見出し (B)・本文 (C)・メタデータ (D) の重み付き tsvector。
+	 * 検索時の ts_rank_cd は SEARCH_RANK_WEIGHTS でこの重みを参照する。
+	 */
+	private toSearchVector(fields: SearchVectorFields): SQL {
+		const weighted = (text: string | null | undefined, weight: string) =>
+			sql`setweight(to_tsvector('simple', ${toSearchDocument(this.searchTokenizer, text)}), ${weight}::"char")`;
+		return sql`(${weighted(fields.title, "A")} || ${weighted(fields.heading, "B")} || ${weighted(fields.content, "C")} || ${weighted(metadataSearchText(fields.metadata), "D")})`;
+	}
+
+	/** search_vector と、それを作ったトークナイザー名 */
+	private searchColumns(fields: SearchVectorFields) {
+		return {
+			searchVector: this.toSearchVector(fields),
+			searchTokenizer: this.searchTokenizer.name,
+		};
+	}
 
 	private async tryEmbed(content: string): Promise<number[] | undefined> {
 		try {
@@ -188,42 +374,144 @@ export class SourceRepository {
 		}
 	}
 
-	private async replaceSourceFragments(params: {
+	/**
+	 * 本文をチャンクに分割し、既存フラグメントと本文ハッシュで差分同期する。
+	 * 本文が変わらないフラグメントは id と埋め込みを保ったまま見出しや locator だけ更新し、
+	 * 変わったチャンクだけを作り直して埋め込みを計算する。
+	 */
+	private async syncSourceFragments(params: {
 		sourceId: string;
+		category: string;
 		title?: string | null;
 		body: string;
 		embedFragments: boolean;
 		metadata?: Record<string, unknown>;
-	}): Promise<number> {
-		await this.db
-			.delete(sourceFragments)
+	}): Promise<void> {
+		const strategy = resolveChunkingStrategy({
+			frontmatter: readFrontmatter(params.body),
+			category: params.category,
+			strategyByCategory: this.options.chunkingStrategyByCategory,
+		});
+		const chunks = strategy
+			.chunk(params.body, {
+				...this.options.chunking,
+				title: params.title,
+			})
+			.map((chunk) => ({
+				...chunk,
+				contentHash: hashFragmentContent(chunk.content),
+				metadata: {
+					...params.metadata,
+					headingPath: chunk.headingPath,
+					tokenCount: chunk.tokenCount,
+					chunkingStrategy: strategy.name,
+				},
+			}));
+
+		const existing = await this.db
+			.select({
+				id: sourceFragments.id,
+				locator: sourceFragments.locator,
+				contentHash: sourceFragments.contentHash,
+				hasEmbedding: sql<boolean>`${sourceFragments.embedding} IS NOT NULL`,
+			})
+			.from(sourceFragments)
 			.where(eq(sourceFragments.sourceId, params.sourceId));
+		const plan = planFragmentSync(existing, chunks);
 
-		const chunks = chunkSourceDocument({
-			title: params.title,
-			body: params.body,
-		});
-		if (chunks.length === 0) return 0;
-
-		await this.db.insert(sourceFragments).values(
-			await Promise.all(
-				chunks.map(async (chunk) => {
-					const metadataJson = params.metadata ?? {};
-					return {
-						sourceId: params.sourceId,
-						locator: chunk.locator,
+		// 埋め込みの API 呼び出しでトランザクションを長く開いたままにしないよう、先に計算しておく
+		const keep = await Promise.all(
+			plan.keep.map(async ({ fragment, chunk }) => ({
+				fragment,
+				chunk,
+				embedding:
+					params.embedFragments && !fragment.hasEmbedding
+						? await this.tryEmbed(chunk.content)
+						: undefined,
+			})),
+		);
+		const insertRows = await Promise.all(
+			plan.insert.map(async (chunk) => {
+				const embedding = params.embedFragments
+					? await this.tryEmbed(chunk.content)
+					: undefined;
+				return {
+					sourceId: params.sourceId,
+					locator: chunk.locator,
+					heading: chunk.heading,
+					content: chunk.content,
+					contentHash: chunk.contentHash,
+					...this.searchColumns({
+						title: params.title,
 						heading: chunk.heading,
 						content: chunk.content,
-						searchVector: sql`to_tsvector('simple', ${chunk.content})`,
-						metadata: metadataJson,
-						embedding: params.embedFragments
-							? await this.tryEmbed(chunk.content)
-							: undefined,
-					};
-				}),
-			),
+						metadata: chunk.metadata,
+					}),
+					metadata: chunk.metadata,
+					embedding,
+				};
+			}),
+		);
+
+		// 一時的な locator へ退避した状態が残らないよう、計画全体を 1 つのトランザクションで適用する
+		await this.db.transaction(async (tx) => {
+			if (plan.deleteIds.length > 0) {
+				await tx
+					.delete(sourceFragments)
+					.where(inArray(sourceFragments.id, plan.deleteIds));
+			}
+
+			// locator の一意制約に掛からないよう、位置が変わるフラグメントは一時的な locator へ退避してから付け替える
+			const movedIds = keep
+				.filter(({ fragment, chunk }) => fragment.locator !== chunk.locator)
+				.map(({ fragment }) => fragment.id);
+			if (movedIds.length > 0) {
+				await tx
+					.update(sourceFragments)
+					.set({ locator: sql`'~' || ${sourceFragments.id}::text` })
+					.where(inArray(sourceFragments.id, movedIds));
+			}
+
+			for (const { fragment, chunk, embedding } of keep) {
+				await tx
+					.update(sourceFragments)
+					.set({
+						locator: chunk.locator,
+						heading: chunk.heading,
+						...this.searchColumns({
+							title: params.title,
+							heading: chunk.heading,
+							content: chunk.content,
+							metadata: chunk.metadata,
+						}),
+						metadata: chunk.metadata,
+						...(embedding ? { embedding } : {}),
+					})
+					.where(eq(sourceFragments.id, fragment.id));
+			}
+
+			if (insertRows.length > 0) {
+				await tx.insert(sourceFragments).values(insertRows);
+			}
+		});
+	}
+
+	/** 相対リンクの解決先は置き場所で変わるため、本文が同じでも毎回作り直す */
+	private async replacePageLinks(
+		sourceId: string,
+		links: ExtractedPageLink[] | undefined,
+	): Promise<void> {
+		if (!links) return;
+		await this.db.delete(pageLinks).where(eq(pageLinks.sourceId, sourceId));
+		if (links.length === 0) return;
+		await this.db.insert(pageLinks).values(
+			links.map((link) => ({
+				sourceId,
+				targetSlug: link.targetSlug,
+				kind: link.kind,
+				linkText: link.text,
+			})),
 		);
-		return chunks.length;
 	}
 
 	private ensureEmbeddingShape(embedding: number[]): void {
@@ -264,6 +552,7 @@ export class SourceRepository {
 						lastIndexedAt: new Date(),
 					})
 					.where(eq(sources.id, existing.id));
+				await this.replacePageLinks(existing.id, params.links);
 				return existing.id;
 			}
 
@@ -281,13 +570,15 @@ export class SourceRepository {
 					lastIndexedAt: new Date(),
 				})
 				.where(eq(sources.id, existing.id));
-			await this.replaceSourceFragments({
+			await this.syncSourceFragments({
 				sourceId: existing.id,
+				category: params.category,
 				title: params.title,
 				body: params.body,
 				embedFragments,
 				metadata: params.metadata,
 			});
+			await this.replacePageLinks(existing.id, params.links);
 			return existing.id;
 		}
 
@@ -305,13 +596,15 @@ export class SourceRepository {
 			})
 			.returning({ id: sources.id });
 
-		await this.replaceSourceFragments({
+		await this.syncSourceFragments({
 			sourceId: inserted.id,
+			category: params.category,
 			title: params.title,
 			body: params.body,
 			embedFragments,
 			metadata: params.metadata,
 		});
+		await this.replacePageLinks(inserted.id, params.links);
 		return inserted.id;
 	}
 
@@ -319,6 +612,21 @@ export class SourceRepository {
 		await this.db.delete(sources).where(eq(sources.uri, uri));
 	}
 
+	/**
+	 * ファイルの移動に合わせて URI だけを付け替える。
+	 * フラグメントと埋め込みはそのまま残り、続く upsert で差分だけ同期される。
+	 */
+	async relocateSource(fromUri: string, toUri: string): Promise<boolean> {
+		if (fromUri === toUri) return false;
+		await this.db.delete(sources).where(eq(sources.uri, toUri));
+		const updated = await this.db
+			.update(sources)
+			.set({ uri: toUri, updatedAt: new Date() })
+			.where(eq(sources.uri, fromUri))
+			.returning({ id: sources.id });
+		return updated.length > 0;
+	}
+
 	async deleteStaleSourcesForRoot(params: {
 		rootPath: string;
 		keepUris: string[];
@@ -364,6 +672,69 @@ export class SourceRepository {
 			.filter((category) => category.length > 0);
 	}
 
+	/** 閲覧範囲内の Wiki ページを項目の値ごとに数える (ページ数と断片数) */
+	async countFacets(
+		params: CountSourceFacetsParams = {},
+	): Promise<SourceFacets> {
+		const counts = await Promise.all(
+			SOURCE_FACET_FIELDS.map((field) => this.countFacetValues(field, params)),
+		);
+		return Object.fromEntries(
+			SOURCE_FACET_FIELDS.map((field, index) => [field, counts[index] ?? []]),
+		) as SourceFacets;
+	}
+
+	private async countFacetValues(
+		field: SourceFacetField,
+		params: CountSourceFacetsParams,
+	): Promise<SourceFacetCount[]> {
+		const conditions: SQL[] = [
+			eq(sources.sourceKind, "wiki"),
+			...accessScopeConditions(params.access),
+			...metadataFilterConditions(params.filter),
+		];
+		if (params.category) {
+			conditions.push(eq(sources.category, params.category));
+		}
+		const facetValues = this.db
+			.selectDistinct({
+				sourceId: sources.id,
+				value:
+					sql<string>`jsonb_array_elements_text(${facetValuesSql(field)})`.as(
+						"value",
+					),
+			})
+			.from(sources)
+			.where(and(...conditions))
+			.as("facet_values");
+		const fragmentIds = params.fragmentIds;
+		const pages = sql<number>`cast(count(DISTINCT ${facetValues.sourceId}) as integer)`;
+		const rows = await this.db
+			.select({
+				value: facetValues.value,
+				pages,
+				fragments: sql<number>`cast(count(${sourceFragments.id}) as integer)`,
+			})
+			.from(facetValues)
+			.leftJoin(
+				sourceFragments,
+				and(
+					eq(sourceFragments.sourceId, facetValues.sourceId),
+					fragmentIds ? inArray(sourceFragments.id, fragmentIds) : undefined,
+				),
+			)
+			.where(
+				and(
+					sql`btrim(${facetValues.value}) <> ''`,
+					fragmentIds ? sql`${sourceFragments.id} IS NOT NULL` : undefined,
+				),
+			)
+			.groupBy(facetValues.value)
+			.orderBy(desc(pages), asc(facetValues.value))
+			.limit(params.limit ?? DEFAULT_FACET_LIMIT);
+		return rows;
+	}
+
 	async countPendingSourceFragmentEmbeddings(
 		sourceKinds: SourceKind[] = ["wiki"],
 	): Promise<number> {
@@ -440,11 +811,66 @@ export class SourceRepository {
 			.where(eq(sourceFragments.id, fragmentId));
 	}
 
+	/**
+	 * search_vector を現在のトークナイザーで作り直す。staleOnly なら別のトークナイザーで
+	 * 作られたフラグメント (トークナイザー名を記録する前のものを含む) だけを対象にする。
+	 * 1 バッチ分を 1 つの UPDATE にまとめて書き込む。
+	 */
+	async rebuildSearchVectors(params: {
+		batchSize: number;
+		staleOnly?: boolean;
+		onProgress?: (rebuilt: number) => void;
+	}): Promise<number> {
+		const tokenizerName = this.searchTokenizer.name;
+		let rebuilt = 0;
+		let afterId: string | undefined;
+		while (true) {
+			const rows = await this.db
+				.select({
+					id: sourceFragments.id,
+					title: sources.title,
+					heading: sourceFragments.heading,
+					content: sourceFragments.content,
+					metadata: sourceFragments.metadata,
+				})
+				.from(sourceFragments)
+				.innerJoin(sources, eq(sources.id, sourceFragments.sourceId))
+				.where(
+					and(
+						afterId ? gt(sourceFragments.id, afterId) : undefined,
+						params.staleOnly
+							? sql`${sourceFragments.searchTokenizer} IS DISTINCT FROM ${tokenizerName}`
+							: undefined,
+					),
+				)
+				.orderBy(asc(sourceFragments.id))
+				.limit(params.batchSize);
+			if (rows.length === 0) break;
+
+			const values = sql.join(
+				rows.map((row) => sql`(${row.id}::uuid, ${this.toSearchVector(row)})`),
+				sql`, `,
+			);
+			await this.db.execute(sql`
+        UPDATE ${sourceFragments}
+        SET search_vector = rebuilt.search_vector, search_tokenizer = ${tokenizerName}
+        FROM (VALUES ${values}) AS rebuilt(id, search_vector)
+        WHERE ${sourceFragments.id} = rebuilt.id
+      `);
+			rebuilt += rows.length;
+			afterId = rows.at(-1)?.id;
+			params.onProgress?.(rebuilt);
+		}
+		return rebuilt;
+	}
+
 	async vectorSearchSourceContent(
 		embedding: number[],
 		limit: number,
 		sourceKinds?: SourceKind[],
 		categories?: string[],
+		access?: AccessScope,
+		filter?: MetadataFilter,
 	): Promise<SourceSearchResult[]> {
 		const embeddingStr = JSON.stringify(embedding);
 		const similarity = sql<number>`1 - (${sourceFragments.embedding} <=> ${embeddingStr}::vector)`;
@@ -455,6 +881,8 @@ export class SourceRepository {
 		if (categories && categories.length > 0) {
 			conditions.push(inArray(sources.category, categories));
 		}
+		conditions.push(...accessScopeConditions(access));
+		conditions.push(...metadataFilterConditions(filter));
 
 		const rows = await this.db
 			.select({
@@ -483,43 +911,46 @@ export class SourceRepository {
 		limit: number,
 		sourceKinds?: SourceKind[],
 		categories?: string[],
+		access?: AccessScope,
+		filter?: MetadataFilter,
 	): Promise<SourceSearchResult[]> {
 		const trimmedQuery = query.trim();
 		if (!trimmedQuery) return [];
-		const searchTerms = normalizeSearchTerms(trimmedQuery);
+		const searchTerms = normalizeSearchTerms(
+			trimmedQuery,
+			this.searchTokenizer,
+		);
 		const rankQuery =
 			searchTerms.length > 0 ? searchTerms.join(" ") : trimmedQuery;
 		const exactPattern = `%${trimmedQuery}%`;
 		const minTermMatches = minimumSearchTermMatches(searchTerms.length);
 
+		// search_vector は索引作成時に同じトークナイザーで分割した重み付きのタイトル・見出し・本文・メタデータ
 		const rankExpr = sql<number>`
-      ts_rank_cd(
-        to_tsvector('simple', concat_ws(' ', ${sources.title}, ${sourceFragments.heading}, ${sourceFragments.content}, ${sourceFragments.metadata}::text)),
-        plainto_tsquery('simple', ${rankQuery})
-      )
+      ts_rank_cd(${SEARCH_RANK_WEIGHTS}::float4[], ${sourceFragments.searchVector}, plainto_tsquery('simple', ${rankQuery}))
     `;
-
 		const textMatchExpr = sql<boolean>`
-      to_tsvector('simple', concat_ws(' ', ${sources.title}, ${sourceFragments.heading}, ${sourceFragments.content}, ${sourceFragments.metadata}::text))
-      @@ plainto_tsquery('simple', ${rankQuery})
+      ${sourceFragments.searchVector} @@ plainto_tsquery('simple', ${rankQuery})
     `;
+		const anyTermQuery =
+			searchTerms.length > 0
+				? searchTerms
+						.map(termTsQuery)
+						.reduce((acc, termQuery) => sql`(${acc} || ${termQuery})`)
+				: sql`plainto_tsquery('simple', ${trimmedQuery})`;
+		const candidateExpr = sql<boolean>`${sourceFragments.searchVector} @@ ${anyTermQuery}`;
+		const termMatchCountExpr = sumSql(
+			searchTerms.map(
+				(term) =>
+					sql<number>`CASE WHEN ${sourceFragments.searchVector} @@ ${termTsQuery(term)} THEN 1 ELSE 0 END`,
+			),
+		);
 		const exactMatchExpr = or(
 			ilike(sources.title, exactPattern),
 			ilike(sourceFragments.heading, exactPattern),
 			ilike(sourceFragments.content, exactPattern),
 			sql`${sourceFragments.metadata}::text ilike ${exactPattern}`,
 		);
-		const termMatchCountExpr = sumSql(
-			searchTerms.map((term) => {
-				const pattern = `%${term}%`;
-				return sql<number>`CASE WHEN (
-          ${sources.title} ilike ${pattern}
-          OR ${sourceFragments.heading} ilike ${pattern}
-          OR ${sourceFragments.content} ilike ${pattern}
-          OR ${sourceFragments.metadata}::text ilike ${pattern}
-        ) THEN 1 ELSE 0 END`;
-			}),
-		);
 		const termScoreExpr = sumSql(
 			searchTerms.map((term) => {
 				const pattern = `%${term}%`;
@@ -549,21 +980,42 @@ export class SourceRepository {
       + (${trigramScoreExpr} * 2)
     )`;
 
-		const conditions = [
-			or(
-				exactMatchExpr,
-				textMatchExpr,
-				sql`${termMatchCountExpr} >= ${minTermMatches}`,
-				sql`${trigramScoreExpr} >= 0.2`,
-			),
-		];
+		const scopeConditions: SQL[] = [];
 		if (sourceKinds && sourceKinds.length > 0) {
-			conditions.push(inArray(sources.sourceKind, sourceKinds));
+			scopeConditions.push(inArray(sources.sourceKind, sourceKinds));
 		}
 		if (categories && categories.length > 0) {
-			conditions.push(inArray(sources.category, categories));
+			scopeConditions.push(inArray(sources.category, categories));
 		}
+		scopeConditions.push(...accessScopeConditions(access));
+		scopeConditions.push(...metadataFilterConditions(filter));
+
+		// 候補は search_vector と、タイトル・見出し・本文・メタデータの pg_trgm の GIN 索引で絞り込み、採点は候補にだけ行う。
+		// 語として一致しない断片 (語の途中の部分一致・タイプミス) も、語で一致した断片と同じ結果に並べる
+		return this.selectScoredFragments(
+			and(
+				or(
+					and(
+						candidateExpr,
+						or(textMatchExpr, sql`${termMatchCountExpr} >= ${minTermMatches}`),
+					),
+					exactMatchExpr,
+					sql`${sources.title} % ${trimmedQuery}`,
+					sql`${sourceFragments.heading} % ${trimmedQuery}`,
+					sql`${sourceFragments.content} % ${trimmedQuery}`,
+				),
+				...scopeConditions,
+			),
+			scoreExpr,
+			limit,
+		);
+	}
 
+	private async selectScoredFragments(
+		where: SQL | undefined,
+		scoreExpr: SQL<number>,
+		limit: number,
+	): Promise<SourceSearchResult[]> {
 		const rows = await this.db
 			.select({
 				id: sourceFragments.id,
@@ -579,13 +1031,177 @@ export class SourceRepository {
 			})
 			.from(sourceFragments)
 			.innerJoin(sources, eq(sources.id, sourceFragments.sourceId))
-			.where(and(...conditions))
+			.where(where)
 			.orderBy(desc(scoreExpr), desc(sourceFragments.createdAt))
 			.limit(limit);
 
 		return rows.map((row) => ({ ...row, score: finiteOrZero(row.score) }));
 	}
 
+	/** 閲覧範囲の外にある Wiki ページの slug (ページ一覧から除くために使う) */
+	async listInaccessibleWikiSlugs(access?: AccessScope): Promise<Set<string>> {
+		const conditions = accessScopeConditions(access);
+		if (conditions.length === 0) return new Set();
+		const rows = await this.db
+			.select({
+				wikiSlug: sql<string | null>`${sources.metadata} ->> 'wikiSlug'`,
+			})
+			.from(sources)
+			.where(
+				and(eq(sources.sourceKind, "wiki"), sql`NOT (${and(...conditions)})`),
+			);
+		return new Set(
+			rows
+				.map((row) => row.wikiSlug)
+				.filter((slug): slug is string => typeof slug === "string"),
+		);
+	}
+
+	/** targetSlug のページへリンクしている、閲覧範囲内のページ */
+	async listBacklinks(
+		targetSlug: string,
+		access?: AccessScope,
+	): Promise<PageBacklink[]> {
+		const rows = await this.db
+			.select({
+				slug: sql<string | null>`${sources.metadata} ->> 'wikiSlug'`,
+				title: sources.title,
+				kind: pageLinks.kind,
+				linkText: pageLinks.linkText,
+			})
+			.from(pageLinks)
+			.innerJoin(sources, eq(sources.id, pageLinks.sourceId))
+			.where(
+				and(
+					eq(pageLinks.targetSlug, targetSlug),
+					eq(sources.sourceKind, "wiki"),
+					...accessScopeConditions(access),
+				),
+			)
+			.orderBy(asc(sources.title), asc(sources.uri));
+		return rows.flatMap((row) =>
+			row.slug
+				? [{ ...row, slug: row.slug, kind: row.kind as PageLinkKind }]
+				: [],
+		);
+	}
+
+	/** 閲覧範囲内のページから、インデックスにないページへ張られたリンク */
+	async listBrokenPageLinks(access?: AccessScope): Promise<BrokenPageLink[]> {
+		const rows = await this.db
+			.select({
+				sourceSlug: sql<string | null>`${sources.metadata} ->> 'wikiSlug'`,
+				sourceTitle: sources.title,
+				targetSlug: pageLinks.targetSlug,
+				kind: pageLinks.kind,
+				linkText: pageLinks.linkText,
+			})
+			.from(pageLinks)
+			.innerJoin(sources, eq(sources.id, pageLinks.sourceId))
+			.where(
+				and(
+					eq(sources.sourceKind, "wiki"),
+					sql`NOT EXISTS (
+            SELECT 1 FROM ${sources} AS target
+            WHERE target.source_kind = 'wiki'
+              AND target.metadata ->> 'wikiSlug' = ${pageLinks.targetSlug}
+          )`,
+					...accessScopeConditions(access),
+				),
+			)
+			.orderBy(asc(sources.uri), asc(pageLinks.targetSlug));
+		return rows.flatMap((row) =>
+			row.sourceSlug
+				? [
+						{
+							...row,
+							sourceSlug: row.sourceSlug,
+							kind: row.kind as PageLinkKind,
+						},
+					]
+				: [],
+		);
+	}
+
+	/** slugs のページとリンクでつながっているページ (起点側のページは閲覧範囲内に限る) */
+	async listLinkedWikiPages(
+		slugs: string[],
+		access?: AccessScope,
+	): Promise<LinkedWikiPage[]> {
+		if (slugs.length === 0) return [];
+		const sourceSlug = sql<string>`${sources.metadata} ->> 'wikiSlug'`;
+		const baseConditions = [
+			eq(sources.sourceKind, "wiki"),
+			...accessScopeConditions(access),
+		];
+		const [outbound, inbound] = await Promise.all([
+			this.db
+				.select({ fromSlug: sourceSlug, linkedSlug: pageLinks.targetSlug })
+				.from(pageLinks)
+				.innerJoin(sources, eq(sources.id, pageLinks.sourceId))
+				.where(and(inArray(sourceSlug, slugs), ...baseConditions)),
+			this.db
+				.select({ fromSlug: pageLinks.targetSlug, linkedSlug: sourceSlug })
+				.from(pageLinks)
+				.innerJoin(sources, eq(sources.id, pageLinks.sourceId))
+				.where(and(inArray(pageLinks.targetSlug, slugs), ...baseConditions)),
+		]);
+		return [
+			...outbound.map((row) => ({ ...row, relation: "outbound" as const })),
+			...inbound.map((row) => ({ ...row, relation: "inbound" as const })),
+		];
+	}
+
+	/**
+	 * 指定した Wiki ページごとに問い合わせへ最も近いフラグメントを 1 件返す。
+	 * 埋め込みがあればベクトル類似度、無ければ全文検索のスコアで選ぶ。
+	 */
+	async findBestWikiPageFragments(params: {
+		wikiSlugs: string[];
+		query: string;
+		embedding?: number[];
+		access?: AccessScope;
+		filter?: MetadataFilter;
+	}): Promise<SourceSearchResult[]> {
+		if (params.wikiSlugs.length === 0) return [];
+		const searchTerms = normalizeSearchTerms(
+			params.query.trim(),
+			this.searchTokenizer,
+		);
+		const rankQuery =
+			searchTerms.length > 0 ? searchTerms.join(" ") : params.query.trim();
+		const score = params.embedding
+			? sql<number>`COALESCE(1 - (${sourceFragments.embedding} <=> ${JSON.stringify(params.embedding)}::vector), 0)`
+			: sql<number>`COALESCE(ts_rank_cd(${SEARCH_RANK_WEIGHTS}::float4[], ${sourceFragments.searchVector}, plainto_tsquery('simple', ${rankQuery})), 0)`;
+
+		const rows = await this.db
+			.selectDistinctOn([sources.id], {
+				id: sourceFragments.id,
+				sourceId: sourceFragments.sourceId,
+				sourceUri: sources.uri,
+				sourceTitle: sources.title,
+				sourceCategory: sources.category,
+				sourceMetadata: sources.metadata,
+				locator: sourceFragments.locator,
+				heading: sourceFragments.heading,
+				content: sourceFragments.content,
+				score,
+			})
+			.from(sourceFragments)
+			.innerJoin(sources, eq(sources.id, sourceFragments.sourceId))
+			.where(
+				and(
+					eq(sources.sourceKind, "wiki"),
+					inArray(sql`${sources.metadata} ->> 'wikiSlug'`, params.wikiSlugs),
+					...accessScopeConditions(params.access),
+					...metadataFilterConditions(params.filter),
+				),
+			)
+			.orderBy(sources.id, desc(score), asc(sourceFragments.locator));
+
+		return rows.map((row) => ({ ...row, score: finiteOrZero(row.score) }));
+	}
+
 	async getFragmentById(fragmentId: string) {
 		const rows = await this.db
 			.select({
@@ -0,0 +1,306 @@
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	commitDeleteChange,
+	commitFileChange,
+	deletePage,
+	ensureContentRoot,
+	ensureGitRepo,
+	getPageHistory,
+	listPageLastCommittedAt,
+	mergeText,
+	movePage,
+	readPage,
+	readPageAtCommit,
+	renameFolder,
+	resolvePageConflict,
+	withPageWriteLock,
+	writePage,
+	writePageContent,
+} from "./content-repo";
+
+const execFileAsync = promisify(execFile);
+
+const author = { name: "Alice", email: "alice@example.com" };
+
+describe("content repository", () => {
+	let contentRoot: string;
+
+	beforeEach(async () => {
+		contentRoot = await fs.mkdtemp(path.join(os.tmpdir(), "wiki-content-"));
+		await ensureContentRoot(contentRoot);
+		await ensureGitRepo(contentRoot);
+	});
+
+	afterEach(async () => {
+		await fs.rm(contentRoot, { recursive: true, force: true });
+	});
+
+	it("records the editing user and edit summary on each commit", async () => {
+		const first = await writePage(contentRoot, "tech/hono", "Hono", "v1", {});
+		await commitFileChange(contentRoot, first.path, "docs(page): create", {
+			author: { name: "Alice", email: "alice@example.com" },
+		});
+		const second = await writePage(contentRoot, "tech/hono", "Hono", "v2", {});
+		await commitFileChange(contentRoot, second.path, "docs(page): update", {
+			author: { name: "Bob <admin>\n", email: "bob@example.com" },
+			summary: "Fix routing example\n\nAlso mention middleware.",
+		});
+
+		const history = await getPageHistory(contentRoot, "tech/hono");
+
+		expect(history).toHaveLength(2);
+		expect(history[0]).toMatchObject({
+			author: "Bob admin",
+			authorEmail: "bob@example.com",
+			message: "docs(page): update",
+			summary: "Fix routing example\n\nAlso mention middleware.",
+		});
+		expect(history[1]).toMatchObject({
+			author: "Alice",
+			authorEmail: "alice@example.com",
+			message: "docs(page): create",
+			summary: "",
+		});
+	});
+
+	it("lists the last commit date of every page in one pass", async () => {
+		const hono = await writePage(contentRoot, "tech/hono", "Hono", "v1", {});
+		await commitFileChange(contentRoot, hono.path, "docs(page): create", {
+			author,
+		});
+		const rag = await writePage(contentRoot, "tech/rag", "RAG", "v1", {});
+		await commitFileChange(contentRoot, rag.path, "docs(page): create", {
+			author,
+		});
+		await writePage(contentRoot, "tech/draft", "Draft", "v1", {});
+
+		const dates = await listPageLastCommittedAt(contentRoot);
+
+		const [latestHono] = await getPageHistory(contentRoot, "tech/hono");
+		const [latestRag] = await getPageHistory(contentRoot, "tech/rag");
+		expect(dates.get("tech/hono.md")).toBe(latestHono?.date);
+		expect(dates.get("tech/rag.md")).toBe(latestRag?.date);
+		expect(dates.has("tech/draft.md")).toBe(false);
+	});
+
+	it("uses the git blob hash as the page revision", async () => {
+		const written = await writePage(contentRoot, "tech/hono", "Hono", "v1", {});
+		await commitFileChange(contentRoot, written.path, "docs(page): create", {
+			author,
+		});
+
+		const page = await readPage(contentRoot, "tech/hono");
+		const { stdout } = await execFileAsync("git", [
+			"-C",
+			contentRoot,
+			"rev-parse",
+			"HEAD:pages/tech/hono.md",
+		]);
+
+		expect(page?.revision).toBe(stdout.trim());
+		expect(written.revision).toBe(page?.revision);
+	});
+
+	it("merges a stale edit against the committed base revision", async () => {
+		const base = await writePage(
+			contentRoot,
+			"tech/hono",
+			"Hono",
+			"# Hono\n\nintro\n\n## Routing\n\nold routing\n",
+			{},
+		);
+		await commitFileChange(contentRoot, base.path, "docs(page): create", {
+			author,
+		});
+		const theirs = await writePage(
+			contentRoot,
+			"tech/hono",
+			"Hono",
+			"# Hono\n\nnew intro\n\n## Routing\n\nold routing\n",
+			{},
+		);
+		await commitFileChange(contentRoot, theirs.path, "docs(page): update", {
+			author,
+		});
+		const current = await readPage(contentRoot, "tech/hono");
+		if (!current) throw new Error("page not found");
+
+		const conflict = await resolvePageConflict(contentRoot, {
+			baseRevision: base.revision,
+			mine: "# Hono\n\nintro\n\n## Routing\n\nnew routing\n",
+			current,
+		});
+
+		expect(conflict).toMatchObject({
+			revision: current.revision,
+			hasConflicts: false,
+			merged: "# Hono\n\nnew intro\n\n## Routing\n\nnew routing\n",
+		});
+	});
+
+	it("returns no merge when the base revision is unknown", async () => {
+		const written = await writePage(contentRoot, "tech/hono", "Hono", "v2", {});
+		const current = await readPage(contentRoot, "tech/hono");
+		if (!current) throw new Error("page not found");
+
+		const conflict = await resolvePageConflict(contentRoot, {
+			baseRevision: "not-a-revision",
+			mine: "mine",
+			current,
+		});
+
+		expect(written.revision).toBe(current.revision);
+		expect(conflict).toMatchObject({
+			base: null,
+			merged: null,
+			hasConflicts: true,
+		});
+	});
+
+	it("reads a deleted page as it was at an earlier commit", async () => {
+		const written = await writePage(contentRoot, "tech/hono", "Hono", "v1", {
+			tags: ["web"],
+		});
+		const first = await commitFileChange(
+			contentRoot,
+			written.path,
+			"docs(page): create",
+			{ author },
+		);
+		const deletedPath = await deletePage(contentRoot, "tech/hono");
+		await commitDeleteChange(contentRoot, deletedPath, "docs(page): delete", {
+			author,
+		});
+		if (!first) throw new Error("commit not created");
+
+		const snapshot = await readPageAtCommit(contentRoot, "tech/hono", first);
+		if (!snapshot) throw new Error("snapshot not found");
+		await writePageContent(contentRoot, snapshot.path, snapshot.raw);
+
+		expect(snapshot).toMatchObject({
+			path: "tech/hono.md",
+			meta: { title: "Hono", tags: ["web"] },
+		});
+		expect((await readPage(contentRoot, "tech/hono"))?.revision).toBe(
+			written.revision,
+		);
+		expect(
+			await readPageAtCommit(contentRoot, "tech/hono", "--output=/tmp/x"),
+		).toBeNull();
+	});
+
+	it("moves a page, rewrites inbound links and leaves a redirect stub", async () => {
+		await writePage(contentRoot, "tech/hono", "Hono", "[Index](index.md)", {
+			visibility: ["platform"],
+		});
+		await writePage(
+			contentRoot,
+			"tech/rag",
+			"RAG",
+			"Uses [[tech/hono]] and [Hono](hono.md).",
+			{},
+		);
+
+		const moved = await movePage(contentRoot, {
+			from: "tech/hono",
+			to: "tech/web/hono",
+			redirect: true,
+		});
+
+		expect(moved).toMatchObject({
+			fromPath: "tech/hono.md",
+			toPath: "tech/web/hono.md",
+			rewrittenPages: [{ slug: "tech/rag" }],
+		});
+		expect((await readPage(contentRoot, "tech/rag"))?.body).toContain(
+			"Uses [[tech/web/hono]] and [Hono](web/hono.md).",
+		);
+		expect((await readPage(contentRoot, "tech/web/hono"))?.body).toContain(
+			"[Index](/pages/tech/index.md)",
+		);
+		expect((await readPage(contentRoot, "tech/hono"))?.meta).toMatchObject({
+			redirectTo: "tech/web/hono",
+			visibility: ["platform"],
+		});
+		await expect(
+			movePage(contentRoot, { from: "tech/rag", to: "tech/web/hono" }),
+		).rejects.toThrow("Page already exists");
+	});
+
+	it("rewrites links into a renamed folder", async () => {
+		await writePage(contentRoot, "tech/hono/routing", "Routing", "body", {});
+		await writePage(
+			contentRoot,
+			"guide/start",
+			"Start",
+			"[[tech/hono/routing]] and [Routing](/pages/tech/hono/routing.md)",
+			{},
+		);
+
+		const renamed = await renameFolder(contentRoot, "tech/hono", "tech/web");
+
+		expect(renamed.movedPages).toEqual([
+			{ from: "tech/hono/routing", to: "tech/web/routing" },
+		]);
+		expect(renamed.rewrittenPages.map((page) => page.slug)).toEqual([
+			"guide/start",
+		]);
+		expect((await readPage(contentRoot, "guide/start"))?.body).toContain(
+			"[[tech/web/routing]] and [Routing](/pages/tech/web/routing.md)",
+		);
+	});
+});
+
+describe("mergeText", () => {
+	it("keeps conflict markers when both sides change the same line", async () => {
+		const result = await mergeText({
+			base: "title\nbody\n",
+			mine: "title\nmy body\n",
+			theirs: "title\ntheir body\n",
+		});
+
+		expect(result.hasConflicts).toBe(true);
+		expect(result.merged).toBe(
+			"title\n<<<<<<< mine\nmy body\n=======\ntheir body\n>>>>>>> theirs\n",
+		);
+	});
+});
+
+describe("withPageWriteLock", () => {
+	it("runs writes to the same page one at a time", async () => {
+		const events: string[] = [];
+		const write = (name: string, slugs: string[], fail = false) =>
+			withPageWriteLock("/content", slugs, async () => {
+				events.push(`${name}:start`);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				events.push(`${name}:end`);
+				if (fail) throw new Error(`${name} failed`);
+				return name;
+			});
+
+		const results = await Promise.allSettled([
+			write("first", ["guide/start"], true),
+			write("second", ["guide/start", "guide/renamed"]),
+			write("third", ["guide/renamed"]),
+		]);
+
+		expect(results.map((result) => result.status)).toEqual([
+			"rejected",
+			"fulfilled",
+			"fulfilled",
+		]);
+		expect(events).toEqual([
+			"first:start",
+			"first:end",
+			"second:start",
+			"second:end",
+			"third:start",
+			"third:end",
+		]);
+	});
+});
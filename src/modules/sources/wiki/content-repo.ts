@@ -1,6 +1,7 @@
 import { execFile } from "node:child_process";
 import crypto from "node:crypto";
 import fs from "node:fs/promises";
+import os from "node:os";
 import path from "node:path";
 import { promisify } from "node:util";
 import matter from "gray-matter";
@@ -8,11 +9,13 @@ import {
 	categoryFromPageRelativePath,
 	DEFAULT_WIKI_CATEGORY,
 } from "./category";
+import { type PageMove, rewritePageLinks } from "./link-rewrite";
 import { sanitizeMarkdownBody, sanitizePlainText } from "./sanitize";
 import { assertSafeSlug, filePathToSlug } from "./slug";
 
 const execFileAsync = promisify(execFile);
 const gitInitLocks = new Map<string, Promise<void>>();
+const pageWriteLocks = new Map<string, Promise<void>>();
 
 export type GitSummary = {
 	branch: string;
@@ -35,12 +38,49 @@ export type MovedPage = {
 	to: string;
 };
 
+/** Wiki を編集した利用者。コミットの author / committer に使う */
+export type GitCommitAuthor = {
+	name: string;
+	email: string;
+};
+
+export type CommitOptions = {
+	author?: GitCommitAuthor | null;
+	/** 編集者が入力した変更の要約。コミットメッセージの本文に入れる */
+	summary?: string;
+};
+
+export type PageHistoryItem = {
+	commit: string;
+	author: string;
+	authorEmail: string;
+	date: string;
+	message: string;
+	summary: string;
+};
+
 export type PageDocument = {
 	slug: string;
 	title: string;
 	body: string;
 	path: string;
 	meta: Record<string, unknown>;
+	/** ファイル内容の git ブロブハッシュ。更新時の競合検出に使う */
+	revision: string;
+};
+
+/** 古い revision で更新されたときに返す 3-way マージの結果 */
+export type PageConflict = {
+	/** 現在のファイルの revision */
+	revision: string;
+	baseRevision: string;
+	/** 編集開始時点の本文。git に残っていなければ null */
+	base: string | null;
+	mine: string;
+	theirs: string;
+	/** base が取れないときは null。競合箇所は conflict marker で残る */
+	merged: string | null;
+	hasConflicts: boolean;
 };
 
 const pagesDirectory = (contentRoot: string) =>
@@ -216,6 +256,16 @@ function firstMarkdownHeading(body: string): string | null {
 	return null;
 }
 
+/** `git hash-object` と同じ値になるブロブハッシュ */
+export const pageRevision = (raw: string): string => {
+	const content = Buffer.from(raw, "utf8");
+	return crypto
+		.createHash("sha1")
+		.update(`blob ${content.length}\0`)
+		.update(content)
+		.digest("hex");
+};
+
 const toMetaRecord = (value: unknown): Record<string, unknown> => {
 	if (!value || typeof value !== "object" || Array.isArray(value)) {
 		return {};
@@ -252,6 +302,7 @@ export const readPage = async (
 				body: parsed.content,
 				path: normalizedPath,
 				meta,
+				revision: pageRevision(raw),
 			};
 		} catch (error) {
 			if (!isNotFoundError(error)) {
@@ -308,7 +359,12 @@ export const writePage = async (
 	body: string,
 	meta: Record<string, unknown>,
 	options: { relativePath?: string } = {},
-): Promise<{ path: string; hash: string; content: string }> => {
+): Promise<{
+	path: string;
+	hash: string;
+	content: string;
+	revision: string;
+}> => {
 	const targetPath = resolveWritePath(contentRoot, slug, options.relativePath);
 	await fs.mkdir(path.dirname(targetPath), { recursive: true });
 	const output = serializeMarkdown(title, body, meta);
@@ -317,6 +373,7 @@ export const writePage = async (
 		path: targetPath,
 		hash: crypto.createHash("sha256").update(output).digest("hex"),
 		content: output,
+		revision: pageRevision(output),
 	};
 };
 
@@ -422,6 +479,9 @@ export const renameFolder = async (
 	oldAbsolutePath: string;
 	newAbsolutePath: string;
 	movedPages: MovedPage[];
+	pageMoves: PageMove[];
+	/** フォルダ内のページへのリンクを書き換えたページ */
+	rewrittenPages: RewrittenPage[];
 }> => {
 	const source = assertSafeFolderPath(folderPath);
 	const target = assertSafeFolderPath(targetFolderPath);
@@ -445,30 +505,218 @@ export const renameFolder = async (
 			throw error;
 		}
 	}
-	const movedPages = (await listPagesUnderFolder(contentRoot, source)).map(
-		(page) => {
-			const suffix = page.path.slice(source.length + 1);
-			const targetPath = path.posix.join(target, suffix);
-			return { from: page.slug, to: filePathToSlug(targetPath) };
-		},
-	);
+	const moves: PageMove[] = (
+		await listPagesUnderFolder(contentRoot, source)
+	).map((page) => {
+		const suffix = page.path.slice(source.length + 1);
+		const targetPath = path.posix.join(target, suffix);
+		return {
+			fromSlug: page.slug,
+			toSlug: filePathToSlug(targetPath),
+			fromPath: page.path,
+			toPath: targetPath,
+		};
+	});
 	await fs.mkdir(path.dirname(newAbsolutePath), { recursive: true });
 	await fs.rename(oldAbsolutePath, newAbsolutePath);
 	await removeEmptyParentDirectories(contentRoot, oldAbsolutePath);
+	const rewrittenPages = await rewriteLinksToMovedPages(contentRoot, moves);
 	return {
 		path: target,
 		from: source,
 		oldAbsolutePath,
 		newAbsolutePath,
-		movedPages,
+		movedPages: moves.map((move) => ({ from: move.fromSlug, to: move.toSlug })),
+		pageMoves: moves,
+		rewrittenPages,
+	};
+};
+
+/** 移動元に残すリダイレクト用ページの frontmatter キー */
+export const REDIRECT_META_KEY = "redirectTo";
+
+/** リダイレクト用ページなら移動先の slug を返す */
+export const redirectTargetOf = (
+	meta: Record<string, unknown>,
+): string | null => {
+	const target = meta[REDIRECT_META_KEY];
+	return typeof target === "string" && target.trim() !== ""
+		? target.trim()
+		: null;
+};
+
+export type RewrittenPage = {
+	slug: string;
+	path: string;
+	absolutePath: string;
+	meta: Record<string, unknown>;
+};
+
+export type PageMoveResult = PageMove & {
+	oldAbsolutePath: string;
+	newAbsolutePath: string;
+	/** リンクを書き換えたページ (移動したページ自身は含まない) */
+	rewrittenPages: RewrittenPage[];
+	/** 移動元に残したリダイレクト用ページ */
+	redirectStubPath: string | null;
+};
+
+/** 全ページのリンクを移動先へ書き換え、書き換えたページを返す */
+const rewriteLinksToMovedPages = async (
+	contentRoot: string,
+	moves: PageMove[],
+	options: { skipPaths?: string[] } = {},
+): Promise<RewrittenPage[]> => {
+	const rewrittenPages: RewrittenPage[] = [];
+	for (const page of await listPages(contentRoot)) {
+		if (options.skipPaths?.includes(page.path)) continue;
+		const absolutePath = assertInsidePages(contentRoot, page.path);
+		const raw = await fs.readFile(absolutePath, "utf8");
+		let rewritten = rewritePageLinks(raw, {
+			sourcePath: page.path,
+			currentPath: page.path,
+			moves,
+		});
+		// 以前の移動で残したリダイレクトも新しい移動先へ向け直す
+		const parsed = matter(rewritten);
+		const redirectMove = moves.find(
+			(move) => move.fromSlug === redirectTargetOf(toMetaRecord(parsed.data)),
+		);
+		if (redirectMove) {
+			rewritten = matter.stringify(parsed.content, {
+				...parsed.data,
+				[REDIRECT_META_KEY]: redirectMove.toSlug,
+			});
+		}
+		if (rewritten === raw) continue;
+		await fs.writeFile(absolutePath, rewritten, "utf8");
+		rewrittenPages.push({
+			slug: page.slug,
+			path: page.path,
+			absolutePath,
+			meta: toMetaRecord(parsed.data),
+		});
+	}
+	return rewrittenPages;
+};
+
+/**
+ * ページのファイルを移動し、他のページからのリンクを移動先へ書き換える。
+ * 移動したページ自身の相対リンクも新しい場所から辿れるように直す。
+ */
+export const movePage = async (
+	contentRoot: string,
+	input: { from: string; to: string; redirect?: boolean },
+): Promise<PageMoveResult> => {
+	const existing = await readPage(contentRoot, input.from);
+	if (!existing) {
+		throw new Error("Page not found");
+	}
+	const toSlug = assertSafeSlug(input.to);
+	if (toSlug === existing.slug) {
+		throw new Error("Page slug is unchanged");
+	}
+	if (await readPage(contentRoot, toSlug)) {
+		throw new Error("Page already exists");
+	}
+	const oldAbsolutePath = assertInsidePages(contentRoot, existing.path);
+	const newAbsolutePath = resolveWritePath(contentRoot, toSlug);
+	const move: PageMove = {
+		fromSlug: existing.slug,
+		toSlug,
+		fromPath: existing.path,
+		toPath: normalizePosixPath(
+			path.relative(pagesDirectory(contentRoot), newAbsolutePath),
+		),
+	};
+	if (categoryFromPageRelativePath(move.toPath) === null) {
+		throw new Error("Top-level page is not allowed");
+	}
+
+	await fs.mkdir(path.dirname(newAbsolutePath), { recursive: true });
+	await fs.rename(oldAbsolutePath, newAbsolutePath);
+	const movedRaw = await fs.readFile(newAbsolutePath, "utf8");
+	const movedRewritten = rewritePageLinks(movedRaw, {
+		sourcePath: move.fromPath,
+		currentPath: move.toPath,
+		moves: [move],
+	});
+	if (movedRewritten !== movedRaw) {
+		await fs.writeFile(newAbsolutePath, movedRewritten, "utf8");
+	}
+
+	const rewrittenPages = await rewriteLinksToMovedPages(contentRoot, [move], {
+		skipPaths: [move.toPath],
+	});
+
+	let redirectStubPath: string | null = null;
+	if (input.redirect) {
+		await fs.mkdir(path.dirname(oldAbsolutePath), { recursive: true });
+		await fs.writeFile(
+			oldAbsolutePath,
+			// visibility などの frontmatter を引き継ぎ、閲覧範囲が移動前より広がらないようにする
+			matter.stringify(`This page has moved to [[${toSlug}]].\n`, {
+				...existing.meta,
+				title: existing.title,
+				[REDIRECT_META_KEY]: toSlug,
+			}),
+			"utf8",
+		);
+		redirectStubPath = oldAbsolutePath;
+	} else {
+		await removeEmptyParentDirectories(contentRoot, oldAbsolutePath);
+	}
+
+	return {
+		...move,
+		oldAbsolutePath,
+		newAbsolutePath,
+		rewrittenPages,
+		redirectStubPath,
 	};
 };
 
 const runGit = async (
 	contentRoot: string,
 	args: string[],
+	env?: Record<string, string>,
 ): Promise<{ stdout: string; stderr: string }> =>
-	execFileAsync("git", ["-C", contentRoot, ...args]);
+	execFileAsync("git", ["-C", contentRoot, ...args], {
+		env: { ...process.env, ...env },
+		// 全ページ分の git log を読むことがあるため、既定 (1MB) より大きくしておく
+		maxBuffer: 64 * 1024 * 1024,
+	});
+
+/** git が受け付けない山括弧と改行を取り除く */
+const sanitizeIdentity = (value: string): string =>
+	value.replace(/[<>\r\n]/g, "").trim();
+
+const authorEnv = (
+	author: GitCommitAuthor | null | undefined,
+): Record<string, string> | undefined => {
+	const email = author ? sanitizeIdentity(author.email) : "";
+	if (!author || !email) return undefined;
+	const name = sanitizeIdentity(author.name) || email;
+	return {
+		GIT_AUTHOR_NAME: name,
+		GIT_AUTHOR_EMAIL: email,
+		GIT_COMMITTER_NAME: name,
+		GIT_COMMITTER_EMAIL: email,
+	};
+};
+
+const runCommit = async (
+	contentRoot: string,
+	message: string,
+	options: CommitOptions,
+) => {
+	const summary = options.summary?.trim();
+	await runGit(
+		contentRoot,
+		["commit", "-m", message, ...(summary ? ["-m", summary] : [])],
+		authorEnv(options.author),
+	);
+};
 
 const errorMessage = (error: unknown): string => {
 	if (!(error instanceof Error)) return "";
@@ -553,6 +801,43 @@ export const ensureGitRepo = async (contentRoot: string): Promise<void> => {
 	await task;
 };
 
+const withPageLock = async <T>(
+	key: string,
+	task: () => Promise<T>,
+): Promise<T> => {
+	const previous = pageWriteLocks.get(key) ?? Promise.resolve();
+	const run = previous.then(task);
+	const tail = run.then(
+		() => undefined,
+		() => undefined,
+	);
+	pageWriteLocks.set(key, tail);
+	try {
+		return await run;
+	} finally {
+		if (pageWriteLocks.get(key) === tail) {
+			pageWriteLocks.delete(key);
+		}
+	}
+};
+
+/**
+ * 同じページへの書き込みをプロセス内で 1 つずつ実行する。
+ * revision の確認から書き込み・コミットまでをこの中で行い、同時保存による上書きを防ぐ。
+ * 複数ページを扱う場合はデッドロックしないよう slug の順にロックを取る。
+ */
+export const withPageWriteLock = async <T>(
+	contentRoot: string,
+	slugs: string[],
+	task: () => Promise<T>,
+): Promise<T> =>
+	[...new Set(slugs)]
+		.sort()
+		.reduceRight<() => Promise<T>>(
+			(next, slug) => () => withPageLock(`${contentRoot}\0${slug}`, next),
+			task,
+		)();
+
 export const getGitSummary = async (
 	contentRoot: string,
 ): Promise<GitSummary> => {
@@ -584,12 +869,13 @@ export const commitFileChange = async (
 	contentRoot: string,
 	absolutePath: string,
 	message: string,
+	options: CommitOptions = {},
 ): Promise<string | null> => {
 	const relative = path.relative(contentRoot, absolutePath);
 	const normalizedRelative = normalizePosixPath(relative);
 	await runGit(contentRoot, ["add", normalizedRelative]);
 	try {
-		await runGit(contentRoot, ["commit", "-m", message]);
+		await runCommit(contentRoot, message, options);
 	} catch (error) {
 		if (await hasStagedChanges(contentRoot, normalizedRelative)) {
 			throw error;
@@ -603,12 +889,13 @@ export const commitDeleteChange = async (
 	contentRoot: string,
 	absolutePath: string,
 	message: string,
+	options: CommitOptions = {},
 ): Promise<string | null> => {
 	const relative = path.relative(contentRoot, absolutePath);
 	const normalizedRelative = normalizePosixPath(relative);
 	await runGit(contentRoot, ["add", "-A", normalizedRelative]);
 	try {
-		await runGit(contentRoot, ["commit", "-m", message]);
+		await runCommit(contentRoot, message, options);
 	} catch (error) {
 		if (await hasStagedChanges(contentRoot, normalizedRelative)) {
 			throw error;
@@ -622,13 +909,14 @@ export const commitPathsChange = async (
 	contentRoot: string,
 	absolutePaths: string[],
 	message: string,
+	options: CommitOptions = {},
 ): Promise<string | null> => {
 	const normalizedRelatives = absolutePaths.map((absolutePath) =>
 		normalizePosixPath(path.relative(contentRoot, absolutePath)),
 	);
 	await runGit(contentRoot, ["add", "-A", "--", ...normalizedRelatives]);
 	try {
-		await runGit(contentRoot, ["commit", "-m", message]);
+		await runCommit(contentRoot, message, options);
 	} catch (error) {
 		if (await hasAnyStagedChanges(contentRoot, normalizedRelatives)) {
 			throw error;
@@ -651,31 +939,37 @@ const resolveGitPathspecs = async (
 	);
 };
 
+/** limit を指定すると新しいものからその件数だけ返す */
 export const getPageHistory = async (
 	contentRoot: string,
 	slug: string,
-): Promise<
-	Array<{ commit: string; author: string; date: string; message: string }>
-> => {
+	options: { limit?: number } = {},
+): Promise<PageHistoryItem[]> => {
 	const pathspecs = await resolveGitPathspecs(contentRoot, slug);
 	try {
+		// 本文は複数行になるため、項目を US (0x1f)、コミットを RS (0x1e) で区切る
 		const { stdout } = await runGit(contentRoot, [
 			"log",
-			"--pretty=format:%H\t%an\t%ad\t%s",
+			...(options.limit ? [`--max-count=${options.limit}`] : []),
+			"--pretty=format:%H%x1f%an%x1f%ae%x1f%ad%x1f%s%x1f%b%x1e",
 			"--date=iso-strict",
 			"--",
 			...pathspecs,
 		]);
 		return stdout
-			.split("\n")
-			.filter((line) => line.trim() !== "")
-			.map((line) => {
-				const [commit, author, date, message] = line.split("\t");
+			.split("\x1e")
+			.filter((record) => record.trim() !== "")
+			.map((record) => {
+				const [commit, author, authorEmail, date, message, summary] = record
+					.replace(/^\n/, "")
+					.split("\x1f");
 				return {
 					commit: commit ?? "",
 					author: author ?? "",
+					authorEmail: authorEmail ?? "",
 					date: date ?? "",
 					message: message ?? "",
+					summary: summary?.trim() ?? "",
 				};
 			});
 	} catch {
@@ -683,6 +977,52 @@ export const getPageHistory = async (
 	}
 };
 
+/** ページを最後に変更したコミットの日時。コミットがなければ null */
+export const getPageLastCommittedAt = async (
+	contentRoot: string,
+	slug: string,
+): Promise<string | null> => {
+	const [latest] = await getPageHistory(contentRoot, slug, { limit: 1 });
+	return latest?.date || null;
+};
+
+/**
+ * pages/ 以下の各ページを最後に変更したコミットの日時を 1 回の git log でまとめて返す。
+ * キーは pages/ からの相対パスで、コミットがないページは含まない。
+ */
+export const listPageLastCommittedAt = async (
+	contentRoot: string,
+): Promise<Map<string, string>> => {
+	const lastCommittedAt = new Map<string, string>();
+	try {
+		// 新しいコミットから順に出力されるため、最初に現れた日時がそのページの最終更新になる
+		const { stdout } = await runGit(contentRoot, [
+			"-c",
+			"core.quotePath=false",
+			"log",
+			"--pretty=format:%x1e%ad",
+			"--date=iso-strict",
+			"--name-only",
+			"--",
+			"pages",
+		]);
+		for (const record of stdout.split("\x1e")) {
+			const [date, ...files] = record.split("\n");
+			if (!date) continue;
+			for (const file of files) {
+				if (!file.startsWith("pages/")) continue;
+				const relativePath = file.slice("pages/".length);
+				if (!lastCommittedAt.has(relativePath)) {
+					lastCommittedAt.set(relativePath, date);
+				}
+			}
+		}
+	} catch {
+		return new Map();
+	}
+	return lastCommittedAt;
+};
+
 export const getPageDiff = async (
 	contentRoot: string,
 	slug: string,
@@ -703,3 +1043,182 @@ export const getPageDiff = async (
 		return "";
 	}
 };
+
+const REVISION_PATTERN = /^[0-9a-f]{40}$/;
+const COMMIT_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+export type PageSnapshot = {
+	/** pages/ からの相対パス */
+	path: string;
+	raw: string;
+	meta: Record<string, unknown>;
+};
+
+/** 指定コミット時点のページ。そのコミットに存在しなければ null */
+export const readPageAtCommit = async (
+	contentRoot: string,
+	slug: string,
+	commit: string,
+): Promise<PageSnapshot | null> => {
+	if (!COMMIT_PATTERN.test(commit)) {
+		return null;
+	}
+	for (const candidate of resolveCandidateRelativePaths(slug)) {
+		const relativePath = normalizePosixPath(candidate);
+		if (categoryFromPageRelativePath(relativePath) === null) {
+			continue;
+		}
+		try {
+			const { stdout } = await runGit(contentRoot, [
+				"show",
+				`${commit}:pages/${relativePath}`,
+			]);
+			return {
+				path: relativePath,
+				raw: stdout,
+				meta: toMetaRecord(matter(stdout).data),
+			};
+		} catch {
+			// 別の候補パスを試す
+		}
+	}
+	return null;
+};
+
+/** 索引に渡すファイル内容とハッシュ (writePage の戻り値と同じ形) */
+export const readPageContent = async (
+	contentRoot: string,
+	relativePath: string,
+): Promise<{ content: string; hash: string }> => {
+	const content = await fs.readFile(
+		assertInsidePages(contentRoot, relativePath),
+		"utf8",
+	);
+	return {
+		content,
+		hash: crypto.createHash("sha256").update(content).digest("hex"),
+	};
+};
+
+/** 過去の内容をそのまま書き戻す (frontmatter も含めて復元する) */
+export const writePageContent = async (
+	contentRoot: string,
+	relativePath: string,
+	raw: string,
+): Promise<{
+	path: string;
+	hash: string;
+	content: string;
+	revision: string;
+}> => {
+	const targetPath = assertInsidePages(contentRoot, relativePath);
+	await fs.mkdir(path.dirname(targetPath), { recursive: true });
+	await fs.writeFile(targetPath, raw, "utf8");
+	return {
+		path: targetPath,
+		hash: crypto.createHash("sha256").update(raw).digest("hex"),
+		content: raw,
+		revision: pageRevision(raw),
+	};
+};
+
+/** 過去の revision の本文を git のオブジェクトから読む */
+const readRevisionBody = async (
+	contentRoot: string,
+	revision: string,
+): Promise<string | null> => {
+	if (!REVISION_PATTERN.test(revision)) {
+		return null;
+	}
+	try {
+		const { stdout } = await runGit(contentRoot, [
+			"cat-file",
+			"blob",
+			revision,
+		]);
+		return matter(stdout).content;
+	} catch {
+		return null;
+	}
+};
+
+const isMergeConflictExit = (
+	error: unknown,
+): error is { code: number; stdout: string } =>
+	typeof error === "object" &&
+	error !== null &&
+	"code" in error &&
+	typeof error.code === "number" &&
+	error.code > 0 &&
+	error.code < 128 &&
+	"stdout" in error &&
+	typeof error.stdout === "string";
+
+/** `git merge-file` で 3-way マージする。競合があれば marker 付きで返す */
+export const mergeText = async (input: {
+	base: string;
+	mine: string;
+	theirs: string;
+}): Promise<{ merged: string; hasConflicts: boolean }> => {
+	const directory = await fs.mkdtemp(path.join(os.tmpdir(), "wiki-merge-"));
+	const files = {
+		mine: path.join(directory, "mine.md"),
+		base: path.join(directory, "base.md"),
+		theirs: path.join(directory, "theirs.md"),
+	};
+	try {
+		await Promise.all([
+			fs.writeFile(files.mine, input.mine, "utf8"),
+			fs.writeFile(files.base, input.base, "utf8"),
+			fs.writeFile(files.theirs, input.theirs, "utf8"),
+		]);
+		try {
+			const { stdout } = await execFileAsync("git", [
+				"merge-file",
+				"-p",
+				"-L",
+				"mine",
+				"-L",
+				"base",
+				"-L",
+				"theirs",
+				files.mine,
+				files.base,
+				files.theirs,
+			]);
+			return { merged: stdout, hasConflicts: false };
+		} catch (error) {
+			// 終了コードは競合の数。それ以外の失敗はそのまま投げる
+			if (isMergeConflictExit(error)) {
+				return { merged: error.stdout, hasConflicts: true };
+			}
+			throw error;
+		}
+	} finally {
+		await fs.rm(directory, { recursive: true, force: true });
+	}
+};
+
+export const resolvePageConflict = async (
+	contentRoot: string,
+	input: { baseRevision: string; mine: string; current: PageDocument },
+): Promise<PageConflict> => {
+	const base = await readRevisionBody(contentRoot, input.baseRevision);
+	const merged =
+		base === null
+			? null
+			: await mergeText({
+					base,
+					mine: input.mine,
+					theirs: input.current.body,
+				});
+	return {
+		revision: input.current.revision,
+		baseRevision: input.baseRevision,
+		base,
+		mine: input.mine,
+		theirs: input.current.body,
+		merged: merged?.merged ?? null,
+		hasConflicts: merged?.hasConflicts ?? true,
+	};
+};
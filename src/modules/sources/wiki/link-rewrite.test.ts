@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { type PageMove, rewritePageLinks } from "./link-rewrite";
+
+const move: PageMove = {
+	fromSlug: "tech/hono",
+	toSlug: "tech/web/hono",
+	fromPath: "tech/hono.md",
+	toPath: "tech/web/hono.md",
+};
+
+describe("rewritePageLinks", () => {
+	it("rewrites wiki links, relative links and reference definitions", () => {
+		const markdown = [
+			"See [[tech/hono]], [[tech/hono#routing|routing]] and [[tech/honox]].",
+			"Read [Hono](hono.md#setup) or [Hono](/pages/tech/hono.md).",
+			"![diagram](hono.md)",
+			"",
+			'[hono]: ./hono.md "Hono"',
+		].join("\n");
+
+		const result = rewritePageLinks(markdown, {
+			sourcePath: "tech/index.md",
+			currentPath: "tech/index.md",
+			moves: [move],
+		});
+
+		expect(result).toBe(
+			[
+				"See [[tech/web/hono]], [[tech/web/hono#routing|routing]] and [[tech/honox]].",
+				"Read [Hono](web/hono.md#setup) or [Hono](/pages/tech/web/hono.md).",
+				"![diagram](hono.md)",
+				"",
+				'[hono]: ./web/hono.md "Hono"',
+			].join("\n"),
+		);
+	});
+
+	it("leaves frontmatter and fenced code blocks untouched", () => {
+		const markdown = [
+			"---",
+			"related: '[[tech/hono]]'",
+			"---",
+			"```md",
+			"[[tech/hono]]",
+			"```",
+			"[[tech/hono]]",
+		].join("\n");
+
+		const result = rewritePageLinks(markdown, {
+			sourcePath: "tech/index.md",
+			currentPath: "tech/index.md",
+			moves: [move],
+		});
+
+		expect(result.split("\n")).toEqual([
+			"---",
+			"related: '[[tech/hono]]'",
+			"---",
+			"```md",
+			"[[tech/hono]]",
+			"```",
+			"[[tech/web/hono]]",
+		]);
+	});
+
+	it("rebases relative links of the moved page without using ..", () => {
+		const result = rewritePageLinks(
+			"[Routing](hono/routing.md) and [Self](hono.md) and [Docs](https://hono.dev/a.md)",
+			{ sourcePath: move.fromPath, currentPath: move.toPath, moves: [move] },
+		);
+
+		expect(result).toBe(
+			"[Routing](/pages/tech/hono/routing.md) and [Self](hono.md) and [Docs](https://hono.dev/a.md)",
+		);
+	});
+});
@@ -0,0 +1,107 @@
+import path from "node:path";
+import {
+	INLINE_LINK_PATTERN,
+	type LinkStyle,
+	mapMarkdownContentLines,
+	REFERENCE_LINK_PATTERN,
+	resolveLinkedPagePath,
+	safeDecodeUri,
+	splitTarget,
+	WIKI_LINK_PATTERN,
+} from "./page-links";
+import { sanitizeSlug } from "./slug";
+
+/** 移動したページ。path は pages/ からの相対パス */
+export type PageMove = {
+	fromSlug: string;
+	toSlug: string;
+	fromPath: string;
+	toPath: string;
+};
+
+export type LinkRewriteContext = {
+	/** リンクを含むページの移動前の場所。相対リンクはここから解決する */
+	sourcePath: string;
+	/** リンクを含むページの現在の場所。相対リンクはここから書き直す */
+	currentPath: string;
+	moves: PageMove[];
+};
+
+const formatLinkedPagePath = (
+	pagePath: string,
+	style: LinkStyle,
+	original: string,
+	currentPath: string,
+): string => {
+	if (style === "root") return `/pages/${pagePath}`;
+	if (style === "pages") return `pages/${pagePath}`;
+	const relative = path.posix.relative(
+		path.posix.dirname(currentPath),
+		pagePath,
+	);
+	// ".." を含む相対リンクは sanitize で無効化されるため pages/ 起点の絶対パスにする
+	if (relative.startsWith("../")) return `/pages/${pagePath}`;
+	return original.startsWith("./") ? `./${relative}` : relative;
+};
+
+const rewriteLinkTarget = (
+	target: string,
+	context: LinkRewriteContext,
+): string => {
+	const { pathPart, suffix } = splitTarget(target);
+	const decoded = safeDecodeUri(pathPart);
+	const linked = resolveLinkedPagePath(decoded, context.sourcePath);
+	if (!linked) return target;
+	const move = context.moves.find((item) => item.fromPath === linked.pagePath);
+	const pageMoved = context.sourcePath !== context.currentPath;
+	if (!move && !(pageMoved && linked.style === "relative")) {
+		return target;
+	}
+	const formatted = formatLinkedPagePath(
+		move?.toPath ?? linked.pagePath,
+		linked.style,
+		decoded,
+		context.currentPath,
+	);
+	return `${decoded === pathPart ? formatted : encodeURI(formatted)}${suffix}`;
+};
+
+const rewriteLine = (line: string, context: LinkRewriteContext): string => {
+	const reference = REFERENCE_LINK_PATTERN.exec(line);
+	if (reference && !line.trimStart().startsWith("[[")) {
+		const [, prefix = "", target = "", rest = ""] = reference;
+		return `${prefix}${rewriteLinkTarget(target, context)}${rest}`;
+	}
+	return line
+		.replace(
+			INLINE_LINK_PATTERN,
+			(match, label: string, target: string, title) =>
+				label.startsWith("!")
+					? match
+					: `${label}(${rewriteLinkTarget(target, context)}${title ?? ""})`,
+		)
+		.replace(
+			WIKI_LINK_PATTERN,
+			(
+				match,
+				slug: string,
+				anchor: string | undefined,
+				alias: string | undefined,
+			) => {
+				const move = context.moves.find(
+					(item) => item.fromSlug === sanitizeSlug(slug.trim()),
+				);
+				return move ? `[[${move.toSlug}${anchor ?? ""}${alias ?? ""}]]` : match;
+			},
+		);
+};
+
+/**
+ * 移動したページを指す Markdown リンク・参照定義・[[wiki]] リンクを書き換える。
+ * frontmatter とコードブロックの中は書き換えない。
+ */
+export const rewritePageLinks = (
+	markdown: string,
+	context: LinkRewriteContext,
+): string =>
+	mapMarkdownContentLines(markdown, (line) => rewriteLine(line, context));
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { extractPageLinks } from "./page-links";
+
+describe("extractPageLinks", () => {
+	it("resolves markdown, reference and wiki links to page slugs", () => {
+		const markdown = [
+			"---",
+			"related: [[tech/ignored]]",
+			"---",
+			"See [[tech/hono#routing|Routing]] and [Setup](../guide/setup.md).",
+			"Read [Auth](auth/index.md#tokens) or [Hono again](/pages/tech/hono.md).",
+			"![diagram](diagram.md) [site](https://example.com/page.md)",
+			"",
+			"[deploy]: pages/ops/deploy.md",
+			"",
+			"```",
+			"[[tech/in-code]]",
+			"```",
+		].join("\n");
+
+		expect(extractPageLinks(markdown, "tech/index.md")).toEqual([
+			{ targetSlug: "guide/setup", kind: "markdown", text: "Setup" },
+			{ targetSlug: "tech/hono", kind: "wiki", text: "Routing" },
+			{ targetSlug: "tech/auth", kind: "markdown", text: "Auth" },
+			{ targetSlug: "ops/deploy", kind: "markdown", text: "deploy" },
+		]);
+	});
+
+	it("ignores links back to the page itself", () => {
+		expect(
+			extractPageLinks("[[tech/hono]] [Top](#top) [Self](hono.md)", "tech/hono.md"),
+		).toEqual([]);
+	});
+});
@@ -0,0 +1,143 @@
+import path from "node:path";
+import { filePathToSlug, isSafeSlug, sanitizeSlug } from "./slug";
+
+export type LinkStyle = "root" | "pages" | "relative";
+
+export type PageLinkKind = "markdown" | "wiki";
+
+/** ページ本文から取り出した他ページへのリンク */
+export type ExtractedPageLink = {
+	targetSlug: string;
+	kind: PageLinkKind;
+	/** 最初に見つかったリンクの表示テキスト */
+	text: string;
+};
+
+export const INLINE_LINK_PATTERN =
+	/(!?\[[^\]]*])\(([^)\s]+)(\s+(?:"[^"]*"|'[^']*'))?\)/g;
+export const REFERENCE_LINK_PATTERN = /^(\s*\[[^\]]+]:\s*)(\S+)(.*)$/;
+export const WIKI_LINK_PATTERN =
+	/\[\[([^\]|#\n]+)(#[^\]|\n]*)?(\|[^\]\n]*)?]]/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+const hasUriScheme = (value: string): boolean =>
+	/^[A-Za-z][A-Za-z0-9+.-]*:/.test(value);
+
+export const safeDecodeUri = (value: string): string => {
+	try {
+		return decodeURI(value);
+	} catch {
+		return value;
+	}
+};
+
+export const splitTarget = (
+	target: string,
+): { pathPart: string; suffix: string } => {
+	const index = target.search(/[?#]/);
+	return index < 0
+		? { pathPart: target, suffix: "" }
+		: { pathPart: target.slice(0, index), suffix: target.slice(index) };
+};
+
+/** リンク先が Wiki ページなら pages/ からの相対パスを返す */
+export const resolveLinkedPagePath = (
+	pathPart: string,
+	sourcePath: string,
+): { pagePath: string; style: LinkStyle } | null => {
+	if (!pathPart.endsWith(".md") || hasUriScheme(pathPart)) {
+		return null;
+	}
+	if (pathPart.startsWith("/pages/")) {
+		return { pagePath: pathPart.slice("/pages/".length), style: "root" };
+	}
+	if (pathPart.startsWith("pages/")) {
+		return { pagePath: pathPart.slice("pages/".length), style: "pages" };
+	}
+	if (pathPart.startsWith("/")) {
+		return null;
+	}
+	const resolved = path.posix.normalize(
+		path.posix.join(path.posix.dirname(sourcePath), pathPart),
+	);
+	if (resolved.startsWith("../") || resolved === "..") {
+		return null;
+	}
+	return { pagePath: resolved, style: "relative" };
+};
+
+/** frontmatter とコードブロックを除いた本文の行だけに mapper を適用する */
+export const mapMarkdownContentLines = (
+	markdown: string,
+	mapper: (line: string) => string,
+): string => {
+	const lines = markdown.split("\n");
+	let inFrontmatter = lines[0]?.trim() === "---";
+	let fence: string | null = null;
+	return lines
+		.map((line, index) => {
+			if (inFrontmatter) {
+				if (index > 0 && line.trim() === "---") inFrontmatter = false;
+				return line;
+			}
+			const fenceMatch = FENCE_PATTERN.exec(line);
+			if (fenceMatch) {
+				const marker = fenceMatch[1] ?? "";
+				if (fence === null) fence = marker;
+				else if (fence === marker) fence = null;
+				return line;
+			}
+			return fence === null ? mapper(line) : line;
+		})
+		.join("\n");
+};
+
+const labelText = (label: string): string =>
+	label.replace(/^\[|]$/g, "").trim();
+
+/**
+ * Markdown リンク・参照定義・[[wiki]] リンクからリンク先ページの slug を取り出す。
+ * 相対リンクは sourcePath (pages/ からの相対パス) を起点に解決し、同じリンク先は 1 件にまとめる。
+ */
+export const extractPageLinks = (
+	markdown: string,
+	sourcePath: string,
+): ExtractedPageLink[] => {
+	const sourceSlug = filePathToSlug(sourcePath);
+	const links = new Map<string, ExtractedPageLink>();
+	const add = (targetSlug: string, kind: PageLinkKind, text: string) => {
+		if (!targetSlug || targetSlug === sourceSlug || !isSafeSlug(targetSlug)) {
+			return;
+		}
+		if (!links.has(targetSlug)) {
+			links.set(targetSlug, { targetSlug, kind, text: text || targetSlug });
+		}
+	};
+	const addMarkdownTarget = (target: string, text: string) => {
+		const linked = resolveLinkedPagePath(
+			safeDecodeUri(splitTarget(target).pathPart),
+			sourcePath,
+		);
+		if (linked) add(filePathToSlug(linked.pagePath), "markdown", text);
+	};
+
+	mapMarkdownContentLines(markdown, (line) => {
+		const reference = REFERENCE_LINK_PATTERN.exec(line);
+		if (reference && !line.trimStart().startsWith("[[")) {
+			const [, prefix = "", target = ""] = reference;
+			addMarkdownTarget(target, labelText(prefix.trim().replace(/:$/, "")));
+			return line;
+		}
+		for (const [, label = "", target = ""] of line.matchAll(
+			INLINE_LINK_PATTERN,
+		)) {
+			if (!label.startsWith("!")) addMarkdownTarget(target, labelText(label));
+		}
+		for (const [, slug = "", , alias] of line.matchAll(WIKI_LINK_PATTERN)) {
+			const targetSlug = sanitizeSlug(slug);
+			add(targetSlug, "wiki", alias?.slice(1).trim() || targetSlug);
+		}
+		return line;
+	});
+	return [...links.values()];
+};
@@ -139,4 +139,115 @@ describe("AzureOpenAiProvider", () => {
 		expect(fetchMock).toHaveBeenCalledTimes(2);
 		expect(result.content).toBe("ok");
 	});
+
+	it("removes the abort listener of each retried attempt", async () => {
+		const fetchMock = vi
+			.fn()
+			.mockResolvedValueOnce(new Response("busy", { status: 429 }))
+			.mockRejectedValueOnce(new Error("socket hang up"))
+			.mockResolvedValueOnce(
+				new Response(
+					JSON.stringify({
+						id: "chat-4",
+						choices: [{ message: { role: "assistant", content: "ok" } }],
+					}),
+					{ status: 200 },
+				),
+			);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const provider = new AzureOpenAiProvider({
+			endpoint: "https://example.openai.azure.com",
+			apiKey: "key",
+			deployment: "gpt-4o",
+		});
+		vi.spyOn(provider as any, "sleep").mockResolvedValue(undefined);
+		const controller = new AbortController();
+		const add = vi.spyOn(controller.signal, "addEventListener");
+		const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+		await provider.chatCompletion([{ role: "user", content: "retry me" }], {
+			signal: controller.signal,
+		});
+
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+		expect(add).toHaveBeenCalledTimes(3);
+		expect(remove.mock.calls.map(([, listener]) => listener)).toEqual(
+			add.mock.calls.slice(0, 2).map(([, listener]) => listener),
+		);
+	});
+
+	it("streamChatCompletion yields content deltas from event-stream chunks", async () => {
+		const chunks = [
+			'data: {"id":"","choices":[]}\n\n',
+			'data: {"id":"chat-3","choices":[{"delta":{"role":"assistant","content":"Hel"}}]}\n\n',
+			'data: {"id":"chat-3","choices":[{"delta":{"content":"lo"}}]}\n\ndata: {"id":"chat-3","choices":[{"delta":{},"finish_reason":"stop"}]}\n\n',
+			'data: {"id":"chat-3","choices":[],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\n',
+			"data: [DONE]\n\n",
+		];
+		const encoder = new TextEncoder();
+		const fetchMock = vi.fn().mockResolvedValue(
+			new Response(
+				new ReadableStream({
+					start(controller) {
+						for (const chunk of chunks) {
+							controller.enqueue(encoder.encode(chunk));
+						}
+						controller.close();
+					},
+				}),
+				{ status: 200, headers: { "content-type": "text/event-stream" } },
+			),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const provider = new AzureOpenAiProvider({
+			endpoint: "https://example.openai.azure.com",
+			apiKey: "key",
+			deployment: "gpt-4o",
+		});
+
+		const deltas = [];
+		for await (const delta of provider.streamChatCompletion([
+			{ role: "user", content: "hi" },
+		])) {
+			deltas.push(delta);
+		}
+
+		expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual({
+			messages: [{ role: "user", content: "hi" }],
+			stream: true,
+			stream_options: { include_usage: true },
+		});
+		expect(deltas).toEqual([
+			{ id: "chat-3", delta: "Hel", finishReason: undefined },
+			{ id: "chat-3", delta: "lo", finishReason: undefined },
+			{ id: "chat-3", delta: "", finishReason: "stop" },
+			{
+				id: "chat-3",
+				delta: "",
+				usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+			},
+		]);
+	});
+
+	it("does not retry when the caller aborts the request", async () => {
+		const fetchMock = vi.fn().mockRejectedValue(new Error("aborted"));
+		vi.stubGlobal("fetch", fetchMock);
+
+		const provider = new AzureOpenAiProvider({
+			endpoint: "https://example.openai.azure.com",
+			apiKey: "key",
+			deployment: "gpt-4o",
+		});
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect(
+			provider.chatCompletion([{ role: "user", content: "hi" }], {
+				signal: controller.signal,
+			}),
+		).rejects.toThrow();
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
 });
@@ -2,13 +2,19 @@ import { z } from "zod";
 
 import { APP_CONFIG_DEFAULTS } from "../config/appDefaults";
 import { AGENTIC_SEARCH_DEFAULTS } from "../modules/agentic-search/constants";
-import { AzureChatResponseSchema, type ChatMessage } from "../types/llm";
+import {
+	AzureChatResponseSchema,
+	AzureChatStreamChunkSchema,
+	type AzureUsage,
+	type ChatMessage,
+} from "../types/llm";
 
 import type {
+	ChatDelta,
 	EmbeddingProvider,
 	LlmCompletionOptions,
-	LlmProvider,
 	LlmResponse,
+	StreamingLlmProvider,
 } from "./types";
 
 export interface AzureOpenAiConfig {
@@ -19,10 +25,21 @@ export interface AzureOpenAiConfig {
 	apiVersion?: string;
 }
 
+const toUsage = (usage?: AzureUsage | null): LlmResponse["usage"] =>
+	usage
+		? {
+				promptTokens: usage.prompt_tokens,
+				completionTokens: usage.completion_tokens,
+				totalTokens: usage.total_tokens,
+			}
+		: undefined;
+
 /**
- * Azure OpenAI の LlmProvider + EmbeddingProvider 実装
+ * Azure OpenAI の StreamingLlmProvider + EmbeddingProvider 実装
  */
-export class AzureOpenAiProvider implements LlmProvider, EmbeddingProvider {
+export class AzureOpenAiProvider
+	implements StreamingLlmProvider, EmbeddingProvider
+{
 	private static readonly REQUEST_TIMEOUT_MS = 30_000;
 	private static readonly MAX_RETRIES = 2;
 	private readonly endpoint: string;
@@ -71,20 +88,14 @@ export class AzureOpenAiProvider implements LlmProvider, EmbeddingProvider {
 		messages: ChatMessage[],
 		options?: LlmCompletionOptions,
 	): Promise<LlmResponse> {
-		const url = `${this.endpoint}/openai/deployments/${this.deployment}/chat/completions?api-version=${this.apiVersion}`;
-
-		const body: Record<string, unknown> = { messages };
-		if (options?.temperature !== undefined)
-			body.temperature = options.temperature;
-		if (options?.maxTokens !== undefined) body.max_tokens = options.maxTokens;
-
-		const response = await this.fetchWithRetry(url, {
+		const response = await this.fetchWithRetry(this.chatCompletionsUrl(), {
 			method: "POST",
 			headers: {
 				"Content-Type": "application/json",
 				"api-key": this.apiKey,
 			},
-			body: JSON.stringify(body),
+			body: JSON.stringify(this.buildChatBody(messages, options)),
+			signal: options?.signal,
 		});
 
 		if (!response.ok) {
@@ -98,16 +109,55 @@ export class AzureOpenAiProvider implements LlmProvider, EmbeddingProvider {
 		return {
 			id: data.id,
 			content: choice?.message?.content ?? "",
-			usage: data.usage
-				? {
-						promptTokens: data.usage.prompt_tokens,
-						completionTokens: data.usage.completion_tokens,
-						totalTokens: data.usage.total_tokens,
-					}
-				: undefined,
+			usage: toUsage(data.usage),
 		};
 	}
 
+	/**
+	 * Chat Completions を stream: true で呼び出し、テキスト差分を順に返す
+	 * options.signal を abort すると HTTP 接続ごと中断する
+	 */
+	async *streamChatCompletion(
+		messages: ChatMessage[],
+		options?: LlmCompletionOptions,
+	): AsyncIterable<ChatDelta> {
+		const response = await this.fetchWithRetry(this.chatCompletionsUrl(), {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"api-key": this.apiKey,
+			},
+			body: JSON.stringify({
+				...this.buildChatBody(messages, options),
+				stream: true,
+				stream_options: { include_usage: true },
+			}),
+			signal: options?.signal,
+		});
+
+		if (!response.ok) {
+			const message = await response.text();
+			throw new Error(`Azure OpenAI error (${response.status}): ${message}`);
+		}
+		if (!response.body) {
+			throw new Error("Azure OpenAI stream response has no body.");
+		}
+
+		for await (const data of this.readEventData(response.body)) {
+			if (data === "[DONE]") return;
+			const chunk = AzureChatStreamChunkSchema.parse(JSON.parse(data));
+			for (const choice of chunk.choices) {
+				const delta = choice.delta?.content ?? "";
+				const finishReason = choice.finish_reason ?? undefined;
+				if (!delta && !finishReason) continue;
+				yield { id: chunk.id, delta, finishReason };
+			}
+			if (chunk.usage) {
+				yield { id: chunk.id, delta: "", usage: toUsage(chunk.usage) };
+			}
+		}
+	}
+
 	async createEmbedding(input: string): Promise<number[]> {
 		const url = `${this.endpoint}/openai/deployments/${this.embeddingsDeployment}/embeddings?api-version=${this.apiVersion}`;
 
@@ -141,18 +191,73 @@ export class AzureOpenAiProvider implements LlmProvider, EmbeddingProvider {
 		return embedding;
 	}
 
+	private chatCompletionsUrl(): string {
+		return `${this.endpoint}/openai/deployments/${this.deployment}/chat/completions?api-version=${this.apiVersion}`;
+	}
+
+	private buildChatBody(
+		messages: ChatMessage[],
+		options?: LlmCompletionOptions,
+	): Record<string, unknown> {
+		const body: Record<string, unknown> = { messages };
+		if (options?.temperature !== undefined)
+			body.temperature = options.temperature;
+		if (options?.maxTokens !== undefined) body.max_tokens = options.maxTokens;
+		return body;
+	}
+
+	/**
+	 * text/event-stream の本文から data 行だけを取り出す
+	 */
+	private async *readEventData(
+		body: ReadableStream<Uint8Array>,
+	): AsyncGenerator<string> {
+		const reader = body.getReader();
+		const decoder = new TextDecoder();
+		let buffer = "";
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += decoder.decode(value, { stream: true });
+				let newlineIndex = buffer.indexOf("\n");
+				while (newlineIndex >= 0) {
+					const line = buffer.slice(0, newlineIndex).replace(/\r$/, "");
+					buffer = buffer.slice(newlineIndex + 1);
+					if (line.startsWith("data:")) {
+						yield line.slice("data:".length).trim();
+					}
+					newlineIndex = buffer.indexOf("\n");
+				}
+			}
+			const rest = buffer.trim();
+			if (rest.startsWith("data:")) {
+				yield rest.slice("data:".length).trim();
+			}
+		} finally {
+			await reader.cancel().catch(() => undefined);
+		}
+	}
+
 	private async fetchWithRetry(
 		url: string,
 		init: RequestInit,
 	): Promise<Response> {
 		let lastError: unknown;
+		const callerSignal = init.signal ?? undefined;
 
 		for (
 			let attempt = 0;
 			attempt <= AzureOpenAiProvider.MAX_RETRIES;
 			attempt++
 		) {
+			callerSignal?.throwIfAborted();
 			const controller = new AbortController();
+			// 呼び出し側の中断はレスポンス本文の読み取り中も伝播させる
+			const onAbort = () => controller.abort(callerSignal?.reason);
+			callerSignal?.addEventListener("abort", onAbort, { once: true });
+			// 返さなかった試行のリスナーは呼び出し側の signal に残さない
+			const detach = () => callerSignal?.removeEventListener("abort", onAbort);
 			const timeout = setTimeout(
 				() => controller.abort(),
 				AzureOpenAiProvider.REQUEST_TIMEOUT_MS,
@@ -174,6 +279,7 @@ export class AzureOpenAiProvider implements LlmProvider, EmbeddingProvider {
 					this.shouldRetry(response.status)
 				) {
 					clearTimeout(timeout);
+					detach();
 					await this.sleep(this.backoffMs(attempt));
 					continue;
 				}
@@ -182,8 +288,12 @@ export class AzureOpenAiProvider implements LlmProvider, EmbeddingProvider {
 				return response;
 			} catch (error) {
 				clearTimeout(timeout);
+				detach();
 				lastError = error;
-				if (attempt >= AzureOpenAiProvider.MAX_RETRIES) {
+				if (
+					callerSignal?.aborted ||
+					attempt >= AzureOpenAiProvider.MAX_RETRIES
+				) {
 					throw error;
 				}
 				await this.sleep(this.backoffMs(attempt));
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from "vitest";
+import { LlmReranker } from "./LlmReranker";
+
+describe("LlmReranker", () => {
+	it("maps indexed scores back to document ids and clamps them", async () => {
+		const llmProvider = {
+			chatCompletion: vi.fn().mockResolvedValue({
+				id: "rerank-1",
+				content:
+					'```json\n{"scores":[{"index":2,"score":1.4},{"index":1,"score":0.2}]}\n```',
+			}),
+		};
+		const reranker = new LlmReranker(llmProvider);
+
+		const results = await reranker.rerank("biome", [
+			{ id: "a", text: "first" },
+			{ id: "b", text: "second" },
+			{ id: "c", text: "third" },
+		]);
+
+		expect(results).toEqual([
+			{ id: "a", score: 0.2 },
+			{ id: "b", score: 1 },
+			{ id: "c", score: 0 },
+		]);
+		expect(llmProvider.chatCompletion).toHaveBeenCalledWith(
+			expect.any(Array),
+			{ temperature: 0 },
+		);
+	});
+
+	it("throws when the response is not JSON", async () => {
+		const reranker = new LlmReranker({
+			chatCompletion: vi.fn().mockResolvedValue({ id: "x", content: "n/a" }),
+		});
+
+		await expect(
+			reranker.rerank("biome", [{ id: "a", text: "first" }]),
+		).rejects.toThrow("Reranker response did not contain JSON.");
+	});
+});
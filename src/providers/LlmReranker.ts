@@ -0,0 +1,75 @@
+import { z } from "zod";
+import type {
+	LlmProvider,
+	RerankDocument,
+	Reranker,
+	RerankResult,
+} from "./types";
+
+const RerankResponseSchema = z.object({
+	scores: z.array(
+		z.object({
+			index: z.number().int(),
+			score: z.number(),
+		}),
+	),
+});
+
+const MAX_DOCUMENT_CHARS = 1200;
+
+function clampScore(score: number): number {
+	return Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Chat Completion を使って候補ごとの関連度を 0〜1 で採点する Reranker
+ */
+export class LlmReranker implements Reranker {
+	readonly name = "llm";
+
+	constructor(private readonly llmProvider: LlmProvider) {}
+
+	async rerank(
+		query: string,
+		documents: RerankDocument[],
+	): Promise<RerankResult[]> {
+		if (documents.length === 0) return [];
+
+		const candidates = documents
+			.map(
+				(document, index) =>
+					`[${index + 1}]\n${document.text.slice(0, MAX_DOCUMENT_CHARS)}`,
+			)
+			.join("\n\n");
+		const response = await this.llmProvider.chatCompletion(
+			[
+				{
+					role: "system",
+					content: [
+						"You rate how well each candidate passage answers the search query.",
+						"Score every candidate from 0 (irrelevant) to 1 (directly answers the query).",
+						'Return only JSON: {"scores":[{"index":1,"score":0.8}]}',
+					].join("\n"),
+				},
+				{
+					role: "user",
+					content: `Query:\n${query}\n\nCandidates:\n${candidates}`,
+				},
+			],
+			{ temperature: 0 },
+		);
+
+		const match = response.content.match(/\{[\s\S]*\}/);
+		if (!match) {
+			throw new Error("Reranker response did not contain JSON.");
+		}
+		const parsed = RerankResponseSchema.parse(JSON.parse(match[0]));
+		const scoreByIndex = new Map(
+			parsed.scores.map((entry) => [entry.index, clampScore(entry.score)]),
+		);
+		return documents.map((document, index) => ({
+			id: document.id,
+			score: scoreByIndex.get(index + 1) ?? 0,
+		}));
+	}
+}
@@ -0,0 +1,31 @@
+import type { RerankDocument, Reranker, RerankResult } from "./types";
+
+function toTerms(text: string): string[] {
+	return (
+		text
+			.normalize("NFKC")
+			.toLowerCase()
+			.match(/[\p{L}\p{N}][\p{L}\p{N}._-]*/gu) ?? []
+	);
+}
+
+/**
+ * 問い合わせ語の被覆率で採点する決定的な Reranker
+ * 外部 API を呼ばないため、テストやローカル確認用に使う
+ */
+export class LocalReranker implements Reranker {
+	readonly name = "local";
+
+	async rerank(
+		query: string,
+		documents: RerankDocument[],
+	): Promise<RerankResult[]> {
+		const queryTerms = [...new Set(toTerms(query))];
+		return documents.map((document) => {
+			if (queryTerms.length === 0) return { id: document.id, score: 0 };
+			const text = document.text.normalize("NFKC").toLowerCase();
+			const matched = queryTerms.filter((term) => text.includes(term)).length;
+			return { id: document.id, score: matched / queryTerms.length };
+		});
+	}
+}
@@ -14,6 +14,7 @@ export interface LlmProvider {
 export interface LlmCompletionOptions {
 	temperature?: number;
 	maxTokens?: number;
+	signal?: AbortSignal;
 }
 
 export interface LlmResponse {
@@ -30,6 +31,8 @@ export interface ChatDelta {
 	id: string;
 	delta: string;
 	finishReason?: string;
+	/** ストリームの最後に届くトークン使用量 */
+	usage?: LlmResponse["usage"];
 }
 
 /**
@@ -78,3 +81,28 @@ export interface WebSearchProvider {
 	readonly name?: string;
 	search(options: WebSearchOptions): Promise<WebSearchResult[]>;
 }
+
+/**
+ * 再ランキング対象の文書
+ */
+export interface RerankDocument {
+	id: string;
+	text: string;
+}
+
+/**
+ * 再ランキング結果 (score は 0〜1、大きいほど問い合わせとの関連が強い)
+ */
+export interface RerankResult {
+	id: string;
+	score: number;
+}
+
+/**
+ * 検索候補を問い合わせとの関連度で採点し直すプロバイダーインターフェース
+ * LLM やクロスエンコーダーの実装を差し替え可能
+ */
+export interface Reranker {
+	readonly name?: string;
+	rerank(query: string, documents: RerankDocument[]): Promise<RerankResult[]>;
+}
@@ -0,0 +1,63 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import {
+	type AuditEvent,
+	type AuditService,
+	auditEventsToCsv,
+} from "../modules/audit/audit.service";
+
+/** CSV はページングせず、この件数までまとめて出力する */
+const CSV_EXPORT_LIMIT = 10_000;
+
+const auditQuerySchema = z.object({
+	action: z.string().trim().min(1).optional(),
+	outcome: z.enum(["success", "failure"]).optional(),
+	actorUserId: z.string().uuid().optional(),
+	actorEmail: z.string().trim().min(1).optional(),
+	targetType: z.string().trim().min(1).optional(),
+	targetId: z.string().trim().min(1).optional(),
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(50),
+	offset: z.coerce.number().int().min(0).default(0),
+	format: z.enum(["json", "csv"]).default("json"),
+});
+
+type AdminAuditRouteDeps = {
+	audit: AuditService;
+};
+
+const toResponseEvent = (event: AuditEvent) => ({
+	...event,
+	createdAt: event.createdAt.toISOString(),
+});
+
+export function createAdminAuditRoute(deps: AdminAuditRouteDeps) {
+	return new Hono().get(
+		"/audit",
+		zValidator("query", auditQuerySchema),
+		async (c) => {
+			const { format, ...filter } = c.req.valid("query");
+			if (format === "csv") {
+				const { items } = await deps.audit.listEvents({
+					...filter,
+					limit: CSV_EXPORT_LIMIT,
+					offset: 0,
+				});
+				// Excel で UTF-8 として開けるよう BOM を付ける
+				return c.body(`\uFEFF${auditEventsToCsv(items)}`, 200, {
+					"Content-Type": "text/csv; charset=utf-8",
+					"Content-Disposition": 'attachment; filename="audit-events.csv"',
+				});
+			}
+			const { items, total } = await deps.audit.listEvents(filter);
+			return c.json({
+				items: items.map(toResponseEvent),
+				total,
+				limit: filter.limit,
+				offset: filter.offset,
+			});
+		},
+	);
+}
@@ -0,0 +1,119 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import type {
+	AccessControlService,
+	AccessGroup,
+} from "../modules/access/access-control.service";
+import type { AuditService } from "../modules/audit/audit.service";
+
+const groupNameSchema = z
+	.string()
+	.trim()
+	.regex(
+		/^[a-z0-9][a-z0-9_-]*$/,
+		"Group name must be lowercase letters, digits, '-' or '_'",
+	);
+
+const categoriesSchema = z.array(
+	z
+		.string()
+		.trim()
+		.min(1)
+		.regex(/^[^/]+$/, "Invalid category"),
+);
+
+const createGroupSchema = z.object({
+	name: groupNameSchema,
+	description: z.string().trim().optional(),
+	categories: categoriesSchema.default([]),
+});
+
+const updateGroupSchema = z.object({
+	name: groupNameSchema.optional(),
+	description: z.string().trim().optional(),
+	categories: categoriesSchema.optional(),
+});
+
+const setMembersSchema = z.object({
+	userIds: z.array(z.string().uuid()),
+});
+
+type AdminGroupsRouteDeps = {
+	accessControl: AccessControlService;
+	audit: AuditService;
+};
+
+const toResponseGroup = (group: AccessGroup) => ({
+	id: group.id,
+	name: group.name,
+	description: group.description,
+	categories: group.categories,
+	memberIds: group.memberIds,
+	createdAt: group.createdAt.toISOString(),
+	updatedAt: group.updatedAt.toISOString(),
+});
+
+export function createAdminGroupsRoute(deps: AdminGroupsRouteDeps) {
+	return new Hono()
+		.get("/groups", async (c) => {
+			const items = await deps.accessControl.listGroups();
+			return c.json({ items: items.map(toResponseGroup) });
+		})
+		.post("/groups", zValidator("json", createGroupSchema), async (c) => {
+			const body = c.req.valid("json");
+			const created = await deps.accessControl.createGroup(body);
+			await deps.audit.recordRequest(c, {
+				action: "group.create",
+				targetType: "group",
+				targetId: created.id,
+				summary: { name: created.name, categories: created.categories },
+			});
+			return c.json({ group: toResponseGroup(created) }, 201);
+		})
+		.patch(
+			"/groups/:groupId",
+			zValidator("json", updateGroupSchema),
+			async (c) => {
+				const body = c.req.valid("json");
+				const updated = await deps.accessControl.updateGroup(
+					c.req.param("groupId"),
+					body,
+				);
+				await deps.audit.recordRequest(c, {
+					action: "group.update",
+					targetType: "group",
+					targetId: updated.id,
+					summary: { name: updated.name, categories: updated.categories },
+				});
+				return c.json({ group: toResponseGroup(updated) });
+			},
+		)
+		.delete("/groups/:groupId", async (c) => {
+			await deps.accessControl.deleteGroup(c.req.param("groupId"));
+			await deps.audit.recordRequest(c, {
+				action: "group.delete",
+				targetType: "group",
+				targetId: c.req.param("groupId"),
+			});
+			return c.json({ ok: true });
+		})
+		.put(
+			"/groups/:groupId/members",
+			zValidator("json", setMembersSchema),
+			async (c) => {
+				const body = c.req.valid("json");
+				const updated = await deps.accessControl.setGroupMembers(
+					c.req.param("groupId"),
+					body.userIds,
+				);
+				await deps.audit.recordRequest(c, {
+					action: "group.members",
+					targetType: "group",
+					targetId: updated.id,
+					summary: { name: updated.name, members: updated.memberIds.length },
+				});
+				return c.json({ group: toResponseGroup(updated) });
+			},
+		);
+}
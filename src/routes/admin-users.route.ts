@@ -1,6 +1,11 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
 import { z } from "zod";
+import type { AuditService } from "../modules/audit/audit.service";
+import type {
+	ApiTokenService,
+	ApiTokenUsage,
+} from "../modules/auth/api-token.service";
 import type { AuthService } from "../modules/auth/auth.service";
 import { getAuthContextUser } from "../modules/auth/context";
 import { userRoleSchema } from "../modules/auth/types";
@@ -21,20 +26,30 @@ const resetPasswordSchema = z.object({
 	newPassword: z.string().min(8),
 });
 
+const oidcLinkSchema = z.object({
+	issuer: z.string().trim().url(),
+	subject: z.string().trim().min(1),
+});
+
 type AdminUsersRouteDeps = {
 	authService: AuthService;
+	apiTokens: ApiTokenService;
+	audit: AuditService;
 };
 
-const toResponseUser = (user: {
-	id: string;
-	email: string;
-	displayName: string;
-	role: "admin" | "member";
-	isActive: boolean;
-	lastLoginAt: Date | null;
-	createdAt: Date;
-	updatedAt: Date;
-}) => ({
+const toResponseUser = (
+	user: {
+		id: string;
+		email: string;
+		displayName: string;
+		role: "admin" | "member";
+		isActive: boolean;
+		lastLoginAt: Date | null;
+		createdAt: Date;
+		updatedAt: Date;
+	},
+	apiTokenUsage?: ApiTokenUsage,
+) => ({
 	id: user.id,
 	email: user.email,
 	displayName: user.displayName,
@@ -43,13 +58,22 @@ const toResponseUser = (user: {
 	lastLoginAt: user.lastLoginAt?.toISOString() ?? null,
 	createdAt: user.createdAt.toISOString(),
 	updatedAt: user.updatedAt.toISOString(),
+	activeApiTokens: apiTokenUsage?.activeTokens ?? 0,
+	apiTokenLastUsedAt: apiTokenUsage?.lastUsedAt?.toISOString() ?? null,
 });
 
 export function createAdminUsersRoute(deps: AdminUsersRouteDeps) {
 	return new Hono()
 		.get("/users", async (c) => {
-			const items = await deps.authService.listUsers();
-			return c.json({ items: items.map(toResponseUser) });
+			const [items, apiTokenUsage] = await Promise.all([
+				deps.authService.listUsers(),
+				deps.apiTokens.usageByUser(),
+			]);
+			return c.json({
+				items: items.map((user) =>
+					toResponseUser(user, apiTokenUsage.get(user.id)),
+				),
+			});
 		})
 		.post("/users", zValidator("json", createUserSchema), async (c) => {
 			const body = c.req.valid("json");
@@ -59,6 +83,12 @@ export function createAdminUsersRoute(deps: AdminUsersRouteDeps) {
 				password: body.initialPassword,
 				role: body.role,
 			});
+			await deps.audit.recordRequest(c, {
+				action: "user.create",
+				targetType: "user",
+				targetId: created.id,
+				summary: { email: created.email, role: created.role },
+			});
 			return c.json({ user: toResponseUser(created) }, 201);
 		})
 		.patch(
@@ -66,6 +96,9 @@ export function createAdminUsersRoute(deps: AdminUsersRouteDeps) {
 			zValidator("json", updateUserSchema),
 			async (c) => {
 				const body = c.req.valid("json");
+				const before = await deps.authService.findUserById(
+					c.req.param("userId"),
+				);
 				const updated = await deps.authService.updateUserProfile(
 					c.req.param("userId"),
 					{
@@ -73,6 +106,20 @@ export function createAdminUsersRoute(deps: AdminUsersRouteDeps) {
 						role: body.role,
 					},
 				);
+				await deps.audit.recordRequest(c, {
+					action: "user.update",
+					targetType: "user",
+					targetId: updated.id,
+					summary: {
+						email: updated.email,
+						...(before && before.role !== updated.role
+							? { role: { from: before.role, to: updated.role } }
+							: {}),
+						...(before && before.displayName !== updated.displayName
+							? { displayNameChanged: true }
+							: {}),
+					},
+				});
 				return c.json({ user: toResponseUser(updated) });
 			},
 		)
@@ -85,9 +132,36 @@ export function createAdminUsersRoute(deps: AdminUsersRouteDeps) {
 					c.req.param("userId"),
 					body.newPassword,
 				);
+				await deps.audit.recordRequest(c, {
+					action: "user.password_reset",
+					targetType: "user",
+					targetId: c.req.param("userId"),
+				});
 				return c.json({ ok: true });
 			},
 		)
+		.post(
+			"/users/:userId/oidc-link",
+			zValidator("json", oidcLinkSchema),
+			async (c) => {
+				const body = c.req.valid("json");
+				const updated = await deps.authService.linkOidcIdentity(
+					c.req.param("userId"),
+					body,
+				);
+				await deps.audit.recordRequest(c, {
+					action: "user.oidc_link",
+					targetType: "user",
+					targetId: updated.id,
+					summary: {
+						email: updated.email,
+						issuer: body.issuer,
+						subject: body.subject,
+					},
+				});
+				return c.json({ user: toResponseUser(updated) });
+			},
+		)
 		.post("/users/:userId/disable", async (c) => {
 			const actor = getAuthContextUser(c);
 			const updated = await deps.authService.setUserActive(
@@ -95,6 +169,12 @@ export function createAdminUsersRoute(deps: AdminUsersRouteDeps) {
 				c.req.param("userId"),
 				false,
 			);
+			await deps.audit.recordRequest(c, {
+				action: "user.disable",
+				targetType: "user",
+				targetId: updated.id,
+				summary: { email: updated.email },
+			});
 			return c.json({ user: toResponseUser(updated) });
 		})
 		.post("/users/:userId/enable", async (c) => {
@@ -104,6 +184,12 @@ export function createAdminUsersRoute(deps: AdminUsersRouteDeps) {
 				c.req.param("userId"),
 				true,
 			);
+			await deps.audit.recordRequest(c, {
+				action: "user.enable",
+				targetType: "user",
+				targetId: updated.id,
+				summary: { email: updated.email },
+			});
 			return c.json({ user: toResponseUser(updated) });
 		});
 }
@@ -1,12 +1,28 @@
 import { randomUUID } from "node:crypto";
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import { z } from "zod";
+import type { AccessScope } from "../modules/access/access-scope";
+import { getAccessScope } from "../modules/access/context";
 import { getAuthContextUser } from "../modules/auth/context";
+import type { AgenticConversationTurn } from "../modules/agentic-search/history";
+import type { AgenticSearchRunHooks } from "../modules/agentic-search/runner";
 import type { AgenticSearchResult } from "../modules/agentic-search/types";
+import {
+	type MetadataFilter,
+	metadataFilterSchema,
+} from "../modules/sources/search/metadata-filter";
+
+const AgenticHistoryTurnSchema = z.object({
+	role: z.enum(["user", "assistant"]),
+	content: z.string(),
+});
 
 const AgenticSearchRequestSchema = z.object({
 	query: z.string().trim().min(1),
+	conversationId: z.string().uuid().optional(),
+	messages: z.array(AgenticHistoryTurnSchema).max(100).optional(),
 	topK: z.number().int().min(1).max(20).optional(),
 	category: z
 		.string()
@@ -14,16 +30,24 @@ const AgenticSearchRequestSchema = z.object({
 		.min(1)
 		.regex(/^[^/]+$/, "Invalid category")
 		.optional(),
+	filter: metadataFilterSchema.optional(),
 });
 
 type AgenticSearchRouteDeps = {
 	service: {
-		run(input: {
-			query: string;
-			userId: string;
-			topK: number;
-			category?: string;
-		}): Promise<AgenticSearchResult>;
+		run(
+			input: {
+				query: string;
+				userId: string;
+				conversationId?: string;
+				history?: AgenticConversationTurn[];
+				topK: number;
+				category?: string;
+				access?: AccessScope;
+				filter?: MetadataFilter;
+			},
+			hooks?: AgenticSearchRunHooks,
+		): Promise<AgenticSearchResult>;
 	};
 };
 
@@ -32,10 +56,8 @@ export function createAgenticSearchRoute(deps: AgenticSearchRouteDeps) {
 		throw new Error("agentic search service is not configured");
 	}
 
-	return new Hono().post(
-		"/",
-		zValidator("json", AgenticSearchRequestSchema),
-		async (c) => {
+	return new Hono()
+		.post("/", zValidator("json", AgenticSearchRequestSchema), async (c) => {
 			const requestId = randomUUID();
 			const authUser = getAuthContextUser(c);
 			const body = c.req.valid("json");
@@ -52,8 +74,12 @@ export function createAgenticSearchRoute(deps: AgenticSearchRouteDeps) {
 				const result = await deps.service.run({
 					query: body.query,
 					userId: authUser.userId,
+					conversationId: body.conversationId,
+					history: body.messages,
 					topK: body.topK ?? 8,
 					category: body.category,
+					access: getAccessScope(c),
+					filter: body.filter,
 				});
 				console.log(
 					`[agentic-search][route] request.complete ${JSON.stringify({
@@ -62,6 +88,7 @@ export function createAgenticSearchRoute(deps: AgenticSearchRouteDeps) {
 						citations: result.citations.length,
 						toolTrace: result.toolTrace.length,
 						usageTotalTokens: result.usage?.totalTokens ?? null,
+						conversationId: result.conversationId ?? null,
 					})}`,
 				);
 				return c.json(result);
@@ -76,6 +103,88 @@ export function createAgenticSearchRoute(deps: AgenticSearchRouteDeps) {
 				);
 				throw error;
 			}
-		},
-	);
+		})
+		.post(
+			"/stream",
+			zValidator("json", AgenticSearchRequestSchema),
+			async (c) => {
+				const requestId = randomUUID();
+				const authUser = getAuthContextUser(c);
+				const body = c.req.valid("json");
+				const startedAt = Date.now();
+				console.log(
+					`[agentic-search][route] stream.start ${JSON.stringify({
+						requestId,
+						queryLength: body.query.length,
+						category: body.category ?? null,
+						topK: body.topK ?? 8,
+					})}`,
+				);
+
+				return streamSSE(c, async (stream) => {
+					const controller = new AbortController();
+					stream.onAbort(() => controller.abort());
+					try {
+						const result = await deps.service.run(
+							{
+								query: body.query,
+								userId: authUser.userId,
+								conversationId: body.conversationId,
+								history: body.messages,
+								topK: body.topK ?? 8,
+								category: body.category,
+								access: getAccessScope(c),
+								filter: body.filter,
+							},
+							{
+								signal: controller.signal,
+								onProgress: async (event) => {
+									await stream.writeSSE({
+										event: event.type,
+										data: JSON.stringify(event),
+									});
+								},
+							},
+						);
+						await stream.writeSSE({
+							event: "complete",
+							data: JSON.stringify({ type: "complete", result }),
+						});
+						console.log(
+							`[agentic-search][route] stream.complete ${JSON.stringify({
+								requestId,
+								elapsedMs: Date.now() - startedAt,
+								citations: result.citations.length,
+								toolTrace: result.toolTrace.length,
+								usageTotalTokens: result.usage?.totalTokens ?? null,
+								conversationId: result.conversationId ?? null,
+							})}`,
+						);
+					} catch (error) {
+						const message =
+							error instanceof Error ? error.message : "unknown route error";
+						if (controller.signal.aborted) {
+							console.log(
+								`[agentic-search][route] stream.aborted ${JSON.stringify({
+									requestId,
+									elapsedMs: Date.now() - startedAt,
+								})}`,
+							);
+							return;
+						}
+						console.error(
+							`[agentic-search][route] stream.error ${JSON.stringify({
+								requestId,
+								elapsedMs: Date.now() - startedAt,
+								message,
+							})}`,
+						);
+						await stream.writeSSE({
+							event: "error",
+							data: JSON.stringify({ type: "error", message }),
+						});
+					}
+				});
+			},
+		);
 }
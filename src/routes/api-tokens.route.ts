@@ -0,0 +1,60 @@
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import type {
+	ApiTokenService,
+	ApiTokenSummary,
+} from "../modules/auth/api-token.service";
+import { getAuthContextUser } from "../modules/auth/context";
+import { apiTokenScopeSchema } from "../modules/auth/types";
+
+const createApiTokenSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	scopes: z.array(apiTokenScopeSchema).min(1),
+	expiresInDays: z.number().int().min(1).max(3650).optional(),
+});
+
+type ApiTokensRouteDeps = {
+	apiTokens: ApiTokenService;
+};
+
+const toResponseToken = (token: ApiTokenSummary) => ({
+	id: token.id,
+	name: token.name,
+	tokenPrefix: token.tokenPrefix,
+	scopes: token.scopes,
+	expiresAt: token.expiresAt?.toISOString() ?? null,
+	lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+	revokedAt: token.revokedAt?.toISOString() ?? null,
+	createdAt: token.createdAt.toISOString(),
+});
+
+export function createApiTokensRoute(deps: ApiTokensRouteDeps) {
+	return new Hono()
+		.get("/", async (c) => {
+			const authUser = getAuthContextUser(c);
+			const items = await deps.apiTokens.listTokens(authUser.userId);
+			return c.json({ items: items.map(toResponseToken) });
+		})
+		.post("/", zValidator("json", createApiTokenSchema), async (c) => {
+			const authUser = getAuthContextUser(c);
+			const body = c.req.valid("json");
+			const created = await deps.apiTokens.createToken(authUser.userId, {
+				name: body.name,
+				scopes: body.scopes,
+				expiresAt: body.expiresInDays
+					? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000)
+					: undefined,
+			});
+			// 平文のトークンを返すのは作成時のこの 1 回だけ
+			return c.json(
+				{ token: created.token, apiToken: toResponseToken(created.apiToken) },
+				201,
+			);
+		})
+		.delete("/:tokenId", async (c) => {
+			const authUser = getAuthContextUser(c);
+			await deps.apiTokens.revokeToken(authUser.userId, c.req.param("tokenId"));
+			return c.json({ ok: true });
+		});
+}
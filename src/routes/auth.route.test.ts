@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { toSafeReturnTo } from "./auth.route";
+
+describe("toSafeReturnTo", () => {
+	it("keeps same-origin paths with query and hash", () => {
+		expect(toSafeReturnTo("/knowledge?page=tech#top")).toBe(
+			"/knowledge?page=tech#top",
+		);
+	});
+
+	it("rejects values that browsers resolve to another origin", () => {
+		for (const value of [
+			undefined,
+			"https://evil.example",
+			"//evil.example",
+			"/\\evil.example",
+			"/\\/evil.example",
+			"/\tevil.example",
+		]) {
+			expect(toSafeReturnTo(value)).toBe("/");
+		}
+	});
+});
@@ -1,8 +1,14 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
-import { getCookie } from "hono/cookie";
+import {
+	deleteCookie,
+	getCookie,
+	getSignedCookie,
+	setSignedCookie,
+} from "hono/cookie";
 import { z } from "zod";
 import type { AppEnv } from "../app/env";
+import type { AuditService } from "../modules/audit/audit.service";
 import type { AuthService } from "../modules/auth/auth.service";
 import {
 	REFRESH_TOKEN_COOKIE_NAME,
@@ -11,6 +17,7 @@ import {
 } from "../modules/auth/auth-cookies";
 import { getAuthContextUser } from "../modules/auth/context";
 import { HttpError } from "../modules/auth/errors";
+import type { OidcService } from "../modules/auth/oidc.service";
 
 const loginSchema = z.object({
 	email: z.string().trim().email(),
@@ -20,15 +27,80 @@ const loginSchema = z.object({
 type AuthRouteDeps = {
 	authService: AuthService;
 	env: AppEnv;
+	/** OIDC_ISSUER が未設定なら null (SSO ログインは無効) */
+	oidc?: OidcService | null;
+	audit: AuditService;
+};
+
+const OIDC_STATE_COOKIE_NAME = "oidc_state";
+const OIDC_STATE_COOKIE_PATH = "/api/auth/oidc";
+const OIDC_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+const oidcStateSchema = z.object({
+	state: z.string(),
+	nonce: z.string(),
+	codeVerifier: z.string(),
+	returnTo: z.string(),
+});
+
+const RETURN_TO_BASE = "http://return-to.invalid";
+
+/**
+ * オープンリダイレクトを避けるため、同一オリジン内のパスだけを戻り先にする。
+ * ブラウザは `\` を `/` として扱うため、`/\evil.example` のような値も拒否する。
+ */
+export const toSafeReturnTo = (value: string | undefined): string => {
+	if (!value?.startsWith("/") || /[\\\s]/.test(value)) {
+		return "/";
+	}
+	try {
+		const url = new URL(value, RETURN_TO_BASE);
+		return url.origin === RETURN_TO_BASE
+			? `${url.pathname}${url.search}${url.hash}`
+			: "/";
+	} catch {
+		return "/";
+	}
+};
+
+const parseOidcState = (value: string | false | undefined) => {
+	if (!value) return null;
+	try {
+		const parsed = oidcStateSchema.safeParse(JSON.parse(value));
+		return parsed.success ? parsed.data : null;
+	} catch {
+		return null;
+	}
 };
 
 export function createAuthRoute(deps: AuthRouteDeps) {
 	return new Hono()
 		.post("/login", zValidator("json", loginSchema), async (c) => {
 			const body = c.req.valid("json");
-			const result = await deps.authService.login({
-				email: body.email,
-				password: body.password,
+			const result = await deps.authService
+				.login({
+					email: body.email,
+					password: body.password,
+				})
+				.catch(async (error: unknown) => {
+					await deps.audit.recordRequest(c, {
+						action: "auth.login",
+						outcome: "failure",
+						actor: { userId: null, email: body.email.toLowerCase() },
+						targetType: "user",
+						summary: {
+							method: "password",
+							reason: error instanceof Error ? error.message : "unknown",
+						},
+					});
+					throw error;
+				});
+			await deps.audit.recordRequest(c, {
+				action: "auth.login",
+				actor: { userId: result.user.id, email: result.user.email },
+				targetType: "user",
+				targetId: result.user.id,
+				summary: { method: "password" },
 			});
 			setAuthCookies(c, deps.env, result);
 			return c.json({ user: result.user });
@@ -48,6 +120,86 @@ export function createAuthRoute(deps: AuthRouteDeps) {
 			clearAuthCookies(c);
 			return c.json({ ok: true });
 		})
+		.get("/oidc", (c) =>
+			c.json({
+				enabled: Boolean(deps.oidc),
+				displayName: deps.oidc?.displayName ?? null,
+			}),
+		)
+		.get("/oidc/login", async (c) => {
+			if (!deps.oidc) {
+				throw new HttpError(404, "SSO is not configured.");
+			}
+			const request = await deps.oidc.createAuthorizationRequest();
+			await setSignedCookie(
+				c,
+				OIDC_STATE_COOKIE_NAME,
+				JSON.stringify({
+					state: request.state,
+					nonce: request.nonce,
+					codeVerifier: request.codeVerifier,
+					returnTo: toSafeReturnTo(c.req.query("returnTo")),
+				}),
+				deps.env.jwtSecret,
+				{
+					httpOnly: true,
+					secure: deps.env.secureCookie,
+					// IdP からのトップレベル遷移で送られるよう lax に固定する
+					sameSite: "lax",
+					path: OIDC_STATE_COOKIE_PATH,
+					maxAge: OIDC_STATE_MAX_AGE_SECONDS,
+				},
+			);
+			return c.redirect(request.url);
+		})
+		.get("/oidc/callback", async (c) => {
+			if (!deps.oidc) {
+				throw new HttpError(404, "SSO is not configured.");
+			}
+			const saved = parseOidcState(
+				await getSignedCookie(c, deps.env.jwtSecret, OIDC_STATE_COOKIE_NAME),
+			);
+			deleteCookie(c, OIDC_STATE_COOKIE_NAME, { path: OIDC_STATE_COOKIE_PATH });
+			const query = c.req.query();
+			try {
+				if (query.error) {
+					throw new HttpError(401, query.error_description || query.error);
+				}
+				if (!saved || !query.code || query.state !== saved.state) {
+					throw new HttpError(400, "Invalid SSO state.");
+				}
+				const result = await deps.oidc.login({
+					code: query.code,
+					codeVerifier: saved.codeVerifier,
+					nonce: saved.nonce,
+				});
+				await deps.audit.recordRequest(c, {
+					action: "auth.login",
+					actor: { userId: result.user.id, email: result.user.email },
+					targetType: "user",
+					targetId: result.user.id,
+					summary: { method: "oidc" },
+				});
+				setAuthCookies(c, deps.env, result);
+				return c.redirect(toSafeReturnTo(saved.returnTo));
+			} catch (error) {
+				if (!(error instanceof HttpError)) throw error;
+				await deps.audit.recordRequest(c, {
+					action: "auth.login",
+					outcome: "failure",
+					actor: { userId: null, email: null },
+					targetType: "user",
+					summary: { method: "oidc", reason: error.message },
+				});
+				console.warn(
+					`[auth][oidc] login failed ${JSON.stringify({
+						status: error.status,
+						message: error.message,
+					})}`,
+				);
+				return c.redirect(`/?ssoError=${encodeURIComponent(error.message)}`);
+			}
+		})
 		.get("/me", async (c) => {
 			const authUser = getAuthContextUser(c);
 			const user = await deps.authService.findUserById(authUser.userId);
@@ -11,9 +11,15 @@ import {
 	messages,
 	retrievalLogs,
 } from "../db/schema";
+import { getAccessScope } from "../modules/access/context";
 import { getAuthContextUser } from "../modules/auth/context";
 import { ChatService } from "../modules/chat/chat.service";
+import {
+	hybridSearchParamsShape,
+	pickHybridSearchOverrides,
+} from "../modules/rag/hybrid-params";
 import type { SearchEvidenceCollector } from "../modules/rag/search-evidence";
+import { metadataFilterSchema } from "../modules/sources/search/metadata-filter";
 import type { LlmProvider } from "../providers/types";
 import type { ChatMessage } from "../types/llm";
 
@@ -32,6 +38,11 @@ const ChatRequestSchema = z.object({
 		.min(1)
 		.regex(/^[^/]+$/, "Invalid category")
 		.optional(),
+	multiQuery: z.boolean().optional(),
+	expandLinks: z.boolean().optional(),
+	freshness: z.boolean().optional(),
+	filter: metadataFilterSchema.optional(),
+	...hybridSearchParamsShape,
 });
 
 const ConversationsQuerySchema = z.object({
@@ -219,6 +230,12 @@ export function createChatRoute(deps: ChatRouteDeps) {
 				conversationId: body.conversationId,
 				topK: body.topK,
 				category: body.category,
+				multiQuery: body.multiQuery,
+				expandLinks: body.expandLinks,
+				freshness: body.freshness,
+				filter: body.filter,
+				access: getAccessScope(c),
+				...pickHybridSearchOverrides(body),
 			});
 			return c.json(result);
 		})
@@ -227,59 +244,35 @@ export function createChatRoute(deps: ChatRouteDeps) {
 			const body = c.req.valid("json");
 
 			return streamSSE(c, async (stream) => {
+				const controller = new AbortController();
+				stream.onAbort(() => controller.abort());
 				try {
-					const result = await service.run({
-						messages: body.messages as ChatMessage[],
-						userId: authUser.userId,
-						conversationId: body.conversationId,
-						topK: body.topK,
-						category: body.category,
-					});
-
-					await stream.writeSSE({
-						event: "message_start",
-						data: JSON.stringify({
-							type: "message_start",
-							conversationId: result.conversationId,
-							messageId: result.id,
-						}),
-					});
-					await stream.writeSSE({
-						event: "retrieval_result",
-						data: JSON.stringify({
-							type: "retrieval_result",
-							citations: result.citations,
-							retrieved: result.retrieved,
-							webResults: result.webResults ?? [],
-						}),
-					});
-					await stream.writeSSE({
-						event: "text_delta",
-						data: JSON.stringify({
-							type: "text_delta",
-							messageId: result.id,
-							delta: result.text,
-						}),
-					});
-					for (const artifact of result.artifacts) {
-						await stream.writeSSE({
-							event: "artifact_complete",
-							data: JSON.stringify({
-								type: "artifact_complete",
-								artifact,
-							}),
-						});
-					}
-					await stream.writeSSE({
-						event: "message_complete",
-						data: JSON.stringify({
-							type: "message_complete",
-							messageId: result.id,
-							conversationId: result.conversationId,
-							usage: result.usage,
-						}),
-					});
+					await service.runStream(
+						{
+							messages: body.messages as ChatMessage[],
+							userId: authUser.userId,
+							conversationId: body.conversationId,
+							topK: body.topK,
+							category: body.category,
+							multiQuery: body.multiQuery,
+							expandLinks: body.expandLinks,
+							freshness: body.freshness,
+							filter: body.filter,
+							access: getAccessScope(c),
+							...pickHybridSearchOverrides(body),
+						},
+						{
+							signal: controller.signal,
+							onEvent: async (event) => {
+								await stream.writeSSE({
+									event: event.type,
+									data: JSON.stringify(event),
+								});
+							},
+						},
+					);
 				} catch (error) {
+					if (controller.signal.aborted) return;
 					await stream.writeSSE({
 						event: "error",
 						data: JSON.stringify({
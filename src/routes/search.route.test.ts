@@ -1,5 +1,16 @@
 import { describe, expect, it, vi } from "vitest";
-import { createSearchRoute } from "./search.route";
+import { Hono } from "hono";
+import { UNRESTRICTED_ACCESS_SCOPE } from "../modules/access/access-scope";
+import { createSearchRoute as createRoute } from "./search.route";
+
+/** 本番では attachAccessScope が設定する閲覧範囲を明示的に渡す */
+const createSearchRoute = (deps: Parameters<typeof createRoute>[0]) =>
+	new Hono()
+		.use(async (c, next) => {
+			c.set("accessScope", UNRESTRICTED_ACCESS_SCOPE);
+			await next();
+		})
+		.route("/", createRoute(deps));
 
 describe("createSearchRoute", () => {
 	it("returns local retrieval and Web Search results together", async () => {
@@ -40,6 +51,7 @@ describe("createSearchRoute", () => {
 			topK: 3,
 			enableTrigramFallback: true,
 			category: "tech",
+			access: UNRESTRICTED_ACCESS_SCOPE,
 		});
 		expect(webSearchProvider.search).toHaveBeenCalledWith({
 			query: "biome",
@@ -93,4 +105,116 @@ describe("createSearchRoute", () => {
 			unavailableMessage: "Exa Search is not configured. Set EXA_API_KEY.",
 		});
 	});
+
+	it("passes the rerank toggle through and reports the rerank summary", async () => {
+		const retriever = {
+			evaluate: vi.fn().mockResolvedValue({
+				strategy: "merged",
+				vectorResults: [],
+				textResults: [],
+				mergedResults: [],
+				selectedResults: [],
+				rerank: { applied: true, reranker: "llm", candidateCount: 0 },
+			}),
+		};
+		const app = createSearchRoute({ retriever: retriever as never });
+
+		const response = await app.request("/", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ query: "biome", rerank: true }),
+		});
+		const body = await response.json();
+
+		expect(retriever.evaluate).toHaveBeenCalledWith("biome", {
+			topK: 8,
+			enableTrigramFallback: true,
+			category: undefined,
+			rerank: true,
+			access: UNRESTRICTED_ACCESS_SCOPE,
+		});
+		expect(body.rerank).toEqual({
+			applied: true,
+			reranker: "llm",
+			candidateCount: 0,
+		});
+	});
+
+	it("parses the metadata filter and rejects invalid syntax", async () => {
+		const retriever = {
+			evaluate: vi.fn().mockResolvedValue({
+				strategy: "merged",
+				vectorResults: [],
+				textResults: [],
+				mergedResults: [],
+				selectedResults: [],
+			}),
+		};
+		const app = createSearchRoute({ retriever: retriever as never });
+
+		const response = await app.request("/", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({
+				query: "biome",
+				filter: "tags:auth status:!deprecated",
+			}),
+		});
+		expect(response.status).toBe(200);
+		expect(retriever.evaluate).toHaveBeenCalledWith(
+			"biome",
+			expect.objectContaining({
+				filter: [
+					{ field: "tags", operator: "eq", values: ["auth"] },
+					{ field: "status", operator: "neq", values: ["deprecated"] },
+				],
+			}),
+		);
+
+		const invalid = await app.request("/", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ query: "biome", filter: "auth" }),
+		});
+		expect(invalid.status).toBe(400);
+	});
+
+	it("counts facets over the retrieved fragments", async () => {
+		const fragment = { id: "fragment-1" };
+		const facets = {
+			category: [{ value: "tech", pages: 1, fragments: 1 }],
+			tags: [{ value: "auth", pages: 1, fragments: 1 }],
+			owner: [],
+			status: [],
+		};
+		const sourceRepository = {
+			countFacets: vi.fn().mockResolvedValue(facets),
+		};
+		const app = createSearchRoute({
+			retriever: {
+				evaluate: vi.fn().mockResolvedValue({
+					strategy: "merged",
+					vectorResults: [],
+					textResults: [],
+					mergedResults: [fragment],
+					selectedResults: [fragment],
+				}),
+			} as never,
+			sourceRepository,
+		});
+
+		const response = await app.request("/", {
+			method: "POST",
+			headers: { "content-type": "application/json" },
+			body: JSON.stringify({ query: "biome" }),
+		});
+		const body = await response.json();
+
+		expect(sourceRepository.countFacets).toHaveBeenCalledWith({
+			access: UNRESTRICTED_ACCESS_SCOPE,
+			fragmentIds: ["fragment-1"],
+		});
+		expect(body.facets).toEqual(facets);
+	});
 });
+
@@ -1,10 +1,21 @@
 import { zValidator } from "@hono/zod-validator";
 import { Hono } from "hono";
 import { z } from "zod";
+import { getAccessScope } from "../modules/access/context";
+import {
+	hybridSearchParamsShape,
+	pickHybridSearchOverrides,
+} from "../modules/rag/hybrid-params";
+import type { QueryPlanner } from "../modules/rag/query-planner";
 import {
 	evaluateRetrieverCompat,
 	type SourceRetriever,
 } from "../modules/rag/retriever";
+import { metadataFilterSchema } from "../modules/sources/search/metadata-filter";
+import type {
+	SourceFacets,
+	SourceRepository,
+} from "../modules/sources/source.repository";
 import type { WebSearchProvider, WebSearchResult } from "../providers/types";
 
 const SearchRequestSchema = z.object({
@@ -16,6 +27,12 @@ const SearchRequestSchema = z.object({
 		.min(1)
 		.regex(/^[^/]+$/, "Invalid category")
 		.optional(),
+	rerank: z.boolean().optional(),
+	multiQuery: z.boolean().optional(),
+	expandLinks: z.boolean().optional(),
+	freshness: z.boolean().optional(),
+	filter: metadataFilterSchema.optional(),
+	...hybridSearchParamsShape,
 });
 
 type SearchRouteDeps = {
@@ -23,6 +40,9 @@ type SearchRouteDeps = {
 	webSearchProvider?: WebSearchProvider;
 	webSearchProviderName?: string | null;
 	webSearchUnavailableMessage?: string | null;
+	queryPlanner?: QueryPlanner;
+	/** 検索結果の断片を category / tags / owner / status ごとに数える */
+	sourceRepository?: Pick<SourceRepository, "countFacets">;
 };
 
 export function createSearchRoute(deps: SearchRouteDeps) {
@@ -47,19 +67,90 @@ export function createSearchRoute(deps: SearchRouteDeps) {
 								return [];
 							})
 					: Promise.resolve([]);
-			const [evaluation, webResults] = await Promise.all([
-				evaluateRetrieverCompat(deps.retriever, body.query, {
-					topK,
-					enableTrigramFallback: true,
-					category: body.category,
-				}),
+			const retrieveOptions = {
+				topK,
+				enableTrigramFallback: true,
+				category: body.category,
+				rerank: body.rerank,
+				freshness: body.freshness,
+				access: getAccessScope(c),
+				filter: body.filter,
+				...pickHybridSearchOverrides(body),
+			};
+			const queryPlanner = body.multiQuery ? deps.queryPlanner : undefined;
+			const [baseEvaluation, webResults] = await Promise.all([
+				queryPlanner
+					? queryPlanner
+							.plan(body.query)
+							.then((plan) =>
+								deps.retriever.evaluateQueryPlan(plan, retrieveOptions),
+							)
+					: evaluateRetrieverCompat(
+							deps.retriever,
+							body.query,
+							retrieveOptions,
+						),
 				webResultsPromise,
 			]);
+			const expansion = body.expandLinks
+				? await deps.retriever.expandWithLinkedPages(
+						body.query,
+						baseEvaluation.selectedResults,
+						{ access: retrieveOptions.access, filter: body.filter },
+					)
+				: null;
+			const evaluation = expansion
+				? {
+						...baseEvaluation,
+						selectedResults: expansion.results,
+						graphExpansion: expansion.summary,
+					}
+				: baseEvaluation;
+			const facetFragmentIds = [
+				...new Set(
+					[...evaluation.mergedResults, ...evaluation.selectedResults].map(
+						(item) => item.id,
+					),
+				),
+			];
+			let facets: SourceFacets | null = null;
+			if (deps.sourceRepository && facetFragmentIds.length > 0) {
+				facets = await deps.sourceRepository
+					.countFacets({
+						access: retrieveOptions.access,
+						fragmentIds: facetFragmentIds,
+					})
+					.catch((error) => {
+						console.warn(
+							`[search][route] facets.failed ${error instanceof Error ? error.message : String(error)}`,
+						);
+						return null;
+					});
+			}
+			if (evaluation.queryPlan) {
+				console.log(
+					`[search][route] query.plan ${JSON.stringify({
+						queries: evaluation.queryPlan.queries,
+						error: evaluation.queryPlan.error ?? null,
+						hits: evaluation.selectedResults.map((item) => ({
+							id: item.id,
+							matchedQueries: item.matchedQueries ?? [],
+						})),
+					})}`,
+				);
+			}
 			return c.json({
 				query: body.query,
 				topK,
 				category: body.category ?? null,
+				filter: body.filter ?? null,
 				strategy: evaluation.strategy,
+				hybrid: evaluation.hybrid ?? null,
+				queryPlan: evaluation.queryPlan ?? null,
+				rerank: evaluation.rerank ?? null,
+				graphExpansion: evaluation.graphExpansion ?? null,
+				freshness: evaluation.freshness ?? null,
+				facets,
 				vectorResults: evaluation.vectorResults,
 				textResults: evaluation.textResults,
 				webResults,
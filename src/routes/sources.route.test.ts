@@ -0,0 +1,90 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	type AccessScope,
+	UNRESTRICTED_ACCESS_SCOPE,
+} from "../modules/access/access-scope";
+import {
+	createFolder,
+	ensureContentRoot,
+	readPage,
+} from "../modules/sources/wiki/content-repo";
+import { createSourcesRoute } from "./sources.route";
+
+/** 本番では attachAccessScope が設定する閲覧範囲を明示的に渡す */
+const createApp = (contentRoot: string, accessScope: AccessScope) =>
+	new Hono()
+		.use(async (c, next) => {
+			c.set("accessScope", accessScope);
+			c.set("authUser", {
+				userId: "user-1",
+				email: "alice@example.com",
+				role: "member",
+			});
+			await next();
+		})
+		.route(
+			"/api/sources",
+			createSourcesRoute({
+				contentRoot,
+				sourceRepository: {
+					upsertSourceDocument: vi.fn().mockResolvedValue(undefined),
+				} as never,
+				audit: { recordRequest: vi.fn() } as never,
+			}),
+		);
+
+describe("createSourcesRoute", () => {
+	let contentRoot: string;
+
+	beforeEach(async () => {
+		contentRoot = await fs.mkdtemp(path.join(os.tmpdir(), "wiki-route-"));
+		await ensureContentRoot(contentRoot);
+		await createFolder(contentRoot, "tech/web");
+		await createFolder(contentRoot, "hr/policies");
+	});
+
+	afterEach(async () => {
+		await fs.rm(contentRoot, { recursive: true, force: true });
+	});
+
+	it("hides folders of categories the user cannot access", async () => {
+		const app = createApp(contentRoot, {
+			unrestricted: false,
+			groups: [],
+			deniedCategories: ["hr"],
+		});
+
+		const response = await app.request("/api/sources/folders");
+		const body = await response.json();
+
+		expect(response.status).toBe(200);
+		expect(body.items.map((item: { path: string }) => item.path)).toEqual([
+			"tech",
+			"tech/web",
+		]);
+	});
+
+	it("lets only one of two concurrent creates of the same page through", async () => {
+		const app = createApp(contentRoot, UNRESTRICTED_ACCESS_SCOPE);
+		const create = (body: string) =>
+			app.request("/api/sources/pages", {
+				method: "POST",
+				headers: { "content-type": "application/json" },
+				body: JSON.stringify({ slug: "tech/web/guide", title: "Guide", body }),
+			});
+
+		const responses = await Promise.all([create("first"), create("second")]);
+
+		expect(responses.map((response) => response.status).sort()).toEqual([
+			200, 409,
+		]);
+		const created = responses.findIndex((response) => response.status === 200);
+		expect((await readPage(contentRoot, "tech/web/guide"))?.body.trim()).toBe(
+			created === 0 ? "first" : "second",
+		);
+	});
+});
@@ -1,12 +1,23 @@
 import { zValidator } from "@hono/zod-validator";
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
 import { z } from "zod";
+import {
+	canAccessCategory,
+	canAccessSource,
+} from "../modules/access/access-scope";
+import { getAccessScope } from "../modules/access/context";
+import type { AuditService } from "../modules/audit/audit.service";
+import {
+	metadataFilterSchema,
+	normalizeFrontmatterMetadata,
+} from "../modules/sources/search/metadata-filter";
 import {
 	categoryFromPageRelativePath,
 	DEFAULT_WIKI_CATEGORY,
 	topLevelCategoriesFromFolderPaths,
 } from "../modules/sources/wiki/category";
 import {
+	type CommitOptions,
 	commitDeleteChange,
 	commitFileChange,
 	commitPathsChange,
@@ -18,12 +29,23 @@ import {
 	getGitSummary,
 	getPageDiff,
 	getPageHistory,
+	getPageLastCommittedAt,
 	listFolders,
 	listPages,
+	movePage,
+	type PageDocument,
+	type PageMoveResult,
 	readPage,
+	readPageAtCommit,
+	readPageContent,
+	redirectTargetOf,
 	renameFolder,
+	resolvePageConflict,
 	writePage,
+	withPageWriteLock,
+	writePageContent,
 } from "../modules/sources/wiki/content-repo";
+import { extractPageLinks } from "../modules/sources/wiki/page-links";
 import {
 	extractRemainderFromPathname,
 	isSafeSlug,
@@ -40,11 +62,15 @@ const pageSlugSchema = z
 		message: "Invalid page slug",
 	});
 
+/** 編集者が任意で入力する変更の要約。コミット本文として履歴に残る */
+const editSummarySchema = z.string().trim().max(500).optional();
+
 const writePageSchema = z.object({
 	slug: pageSlugSchema,
 	title: z.string().min(1),
 	body: z.string(),
 	meta: z.record(z.string(), z.unknown()).optional(),
+	editSummary: editSummarySchema,
 });
 
 const updatePageSchema = z.object({
@@ -53,6 +79,24 @@ const updatePageSchema = z.object({
 	body: z.string(),
 	meta: z.record(z.string(), z.unknown()).optional(),
 	commitMessage: z.string().min(1).optional(),
+	editSummary: editSummarySchema,
+	/** 編集を始めたときに読んだページの revision */
+	revision: z.string().min(1),
+	/** slug を変えるときに移動元へリダイレクト用ページを残す */
+	redirect: z.boolean().optional(),
+});
+
+const movePageSchema = z.object({
+	to: pageSlugSchema,
+	/** 移動元に移動先へのリンクだけを書いたページを残す */
+	redirect: z.boolean().default(false),
+	commitMessage: z.string().min(1).optional(),
+	editSummary: editSummarySchema,
+});
+
+const restorePageSchema = z.object({
+	commit: z.string().regex(/^[0-9a-f]{7,40}$/i, "Invalid commit"),
+	editSummary: editSummarySchema,
 });
 
 const folderPathSchema = pageSlugSchema.refine((value) => value !== "", {
@@ -72,17 +116,31 @@ const searchQuerySchema = z.object({
 	q: z.string().optional(),
 });
 
+const facetsQuerySchema = z.object({
+	category: z
+		.string()
+		.trim()
+		.min(1)
+		.regex(/^[^/]+$/, "Invalid category")
+		.optional(),
+	filter: metadataFilterSchema.optional(),
+	limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
 const slugFromRequestPath = (url: string, prefix: string): string => {
 	const pathname = new URL(url).pathname;
 	return sanitizeSlug(extractRemainderFromPathname(pathname, prefix));
 };
 
-const rawPageSlugFromRequestPath = (url: string): string => {
+const suffixedPageSlugFromRequestPath = (
+	url: string,
+	suffix: "/raw" | "/backlinks",
+): string => {
 	const slugWithSuffix = slugFromRequestPath(url, "/api/sources/pages/");
-	if (!slugWithSuffix.endsWith("/raw")) {
+	if (!slugWithSuffix.endsWith(suffix)) {
 		return "\0";
 	}
-	return sanitizeSlug(slugWithSuffix.slice(0, -"/raw".length));
+	return sanitizeSlug(slugWithSuffix.slice(0, -suffix.length));
 };
 
 const invalidSlugResponse = (slug: string) => ({
@@ -100,6 +158,40 @@ const invalidFolderResponse = (folderPath: string) => ({
 const isInvalidFolderPath = (folderPath: string): boolean =>
 	folderPath === "" || !isSafeSlug(folderPath);
 
+const forbiddenPageResponse = (slug: string) => ({
+	message: "You do not have access to this category or visibility.",
+	slug,
+});
+
+/** 編集した利用者をコミットの author にする */
+const commitOptions = (c: Context, summary?: string): CommitOptions => {
+	const user = c.get("authUser");
+	return {
+		author: user
+			? { name: user.displayName ?? user.email, email: user.email }
+			: null,
+		summary,
+	};
+};
+
+const topLevelPageResponse = (slug: string) => ({
+	message: "Top-level documents are not allowed. Use pages/<category>/...",
+	slug,
+});
+
+const pageMoveErrorStatus = (error: Error): 400 | 404 | 409 => {
+	if (error.message === "Page not found") return 404;
+	if (error.message === "Page already exists") return 409;
+	return 400;
+};
+
+/** 1 コミットにまとめるファイル (移動元・移動先・リンクを書き換えたページ) */
+const pageMovePaths = (moved: PageMoveResult): string[] => [
+	moved.oldAbsolutePath,
+	moved.newAbsolutePath,
+	...moved.rewrittenPages.map((page) => page.absolutePath),
+];
+
 const folderErrorStatus = (error: unknown): 400 | 404 | 409 => {
 	const message = error instanceof Error ? error.message : "";
 	if (message.includes("already exists") || message.includes("conflicts"))
@@ -112,6 +204,7 @@ type SourcesRouteDeps = {
 	contentRoot: string;
 	sourceRepository: SourceRepository;
 	wikiBlobSyncer?: WikiBlobSyncer | null;
+	audit: AuditService;
 };
 
 type SourceReindexSummary = {
@@ -155,6 +248,108 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 		await ensureGitRepo(deps.contentRoot);
 	};
 
+	/** 閲覧範囲外のページは存在しないものとして扱う */
+	const readAccessiblePage = async (
+		c: Context,
+		slug: string,
+	): Promise<PageDocument | null> => {
+		const page = await readPage(deps.contentRoot, slug);
+		if (!page || !canAccessPage(c, page)) return null;
+		return page;
+	};
+
+	const canAccessPage = (
+		c: Context,
+		page: Pick<PageDocument, "path" | "meta">,
+	): boolean =>
+		canAccessSource(getAccessScope(c), {
+			category: categoryFromPageRelativePath(page.path),
+			metadata: page.meta,
+		});
+
+	/** 削除済みのページはカテゴリだけで判定する */
+	const canAccessPageHistory = async (
+		c: Context,
+		slug: string,
+	): Promise<boolean> => {
+		const page = await readPage(deps.contentRoot, slug);
+		return page
+			? canAccessPage(c, page)
+			: canAccessPage(c, { path: `${slug}.md`, meta: {} });
+	};
+
+	/** 保存したページを検索インデックスへ反映する。カテゴリ外のページは null */
+	const upsertWikiSource = async (
+		page: PageDocument,
+		content: string,
+		hash: string,
+	): Promise<string | null> => {
+		const category = categoryFromPageRelativePath(page.path);
+		if (!category) return null;
+		const lastCommittedAt = await getPageLastCommittedAt(
+			deps.contentRoot,
+			page.slug,
+		);
+		await deps.sourceRepository.upsertSourceDocument({
+			sourceKind: "wiki",
+			category,
+			uri: `${deps.contentRoot}/pages/${page.path}`,
+			title: page.title,
+			body: content,
+			contentHash: hash,
+			metadata: {
+				...normalizeFrontmatterMetadata(page.meta),
+				relativePath: `pages/${page.path}`,
+				wikiSlug: page.slug,
+				...(lastCommittedAt ? { lastCommittedAt } : {}),
+			},
+			links: extractPageLinks(content, page.path),
+		});
+		return category;
+	};
+
+	const reindexPage = async (
+		slug: string,
+	): Promise<(PageDocument & { hash: string }) | null> => {
+		const page = await readPage(deps.contentRoot, slug);
+		if (!page || redirectTargetOf(page.meta)) return null;
+		const { content, hash } = await readPageContent(
+			deps.contentRoot,
+			page.path,
+		);
+		await upsertWikiSource(page, content, hash);
+		return { ...page, hash };
+	};
+
+	/**
+	 * 移動したページとリンクを書き換えたページを検索インデックスへ反映する。
+	 * 移動したページは先に URI を付け替えるので、本文が変わらない断片の埋め込みは残る。
+	 */
+	const reindexMovedPages = async (
+		moved: PageMoveResult,
+	): Promise<(PageDocument & { hash: string }) | null> => {
+		await deps.sourceRepository.relocateSource(
+			`${deps.contentRoot}/pages/${moved.fromPath}`,
+			`${deps.contentRoot}/pages/${moved.toPath}`,
+		);
+		for (const page of moved.rewrittenPages) {
+			await reindexPage(page.slug);
+		}
+		return reindexPage(moved.toSlug);
+	};
+
+	/** 閲覧範囲外のページの slug は応答に含めない */
+	const rewrittenSlugsFor = (
+		c: Context,
+		moved: Pick<PageMoveResult, "rewrittenPages">,
+	): string[] =>
+		moved.rewrittenPages
+			.filter((page) => canAccessPage(c, page))
+			.map((page) => page.slug);
+
+	const canAccessFolder = (c: Context, folderPath: string): boolean =>
+		canAccessCategory(getAccessScope(c), folderPath.split("/")[0] ?? "");
+
 	const publishWikiContent = async (): Promise<void> => {
 		await deps.wikiBlobSyncer?.push();
 	};
@@ -183,11 +378,23 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 		})
 		.get("/tree", async (c) => {
 			await ensureSourceRuntime();
-			const [items, folders] = await Promise.all([
+			const access = getAccessScope(c);
+			const [items, folders, hiddenSlugs] = await Promise.all([
 				listPages(deps.contentRoot),
 				listFolders(deps.contentRoot),
+				deps.sourceRepository.listInaccessibleWikiSlugs(access),
 			]);
-			return c.json({ items, folders });
+			return c.json({
+				items: items.filter(
+					(item) =>
+						!hiddenSlugs.has(item.slug) &&
+						canAccessCategory(
+							access,
+							categoryFromPageRelativePath(item.path) ?? "",
+						),
+				),
+				folders: folders.filter((folder) => canAccessFolder(c, folder.path)),
+			});
 		})
 		.get("/categories", async (c) => {
 			await ensureSourceRuntime();
@@ -203,8 +410,21 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 				),
 			]);
 			return c.json({
-				items: [...categories].sort((a, b) => a.localeCompare(b)),
+				items: [...categories]
+					.filter((category) => canAccessCategory(getAccessScope(c), category))
+					.sort((a, b) => a.localeCompare(b)),
+			});
+		})
+		.get("/facets", zValidator("query", facetsQuerySchema), async (c) => {
+			await ensureSourceRuntime();
+			const { category, filter, limit } = c.req.valid("query");
+			const facets = await deps.sourceRepository.countFacets({
+				access: getAccessScope(c),
+				category,
+				filter,
+				limit,
 			});
+			return c.json({ category: category ?? null, facets });
 		})
 		.get("/search", zValidator("query", searchQuerySchema), async (c) => {
 			await ensureSourceRuntime();
@@ -219,7 +439,7 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 			const queryLower = query.toLowerCase();
 
 			for (const item of tree) {
-				const page = await readPage(deps.contentRoot, item.slug);
+				const page = await readAccessiblePage(c, item.slug);
 				if (!page) continue;
 				const metaText = searchableMetaText(page.meta);
 				const searchableText = `${page.slug}\n${page.title}\n${metaText}\n${page.body}`;
@@ -240,6 +460,15 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 				contentRoot: deps.contentRoot,
 				sourceRepository: deps.sourceRepository,
 			});
+			await deps.audit.recordRequest(c, {
+				action: "wiki.reindex",
+				targetType: "wiki",
+				summary: {
+					importedFiles: result.importedFiles,
+					skippedFiles: result.skippedFiles,
+					removedSources: result.removedSources,
+				},
+			});
 			return c.json({
 				ok: true,
 				...result,
@@ -248,19 +477,37 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 		.get("/folders", async (c) => {
 			await ensureSourceRuntime();
 			const items = await listFolders(deps.contentRoot);
-			return c.json({ items });
+			return c.json({
+				items: items.filter((folder) => canAccessFolder(c, folder.path)),
+			});
 		})
 		.post("/folders", zValidator("json", writeFolderSchema), async (c) => {
 			await ensureSourceRuntime();
 			const payload = c.req.valid("json");
+			if (!canAccessFolder(c, payload.path)) {
+				return c.json(
+					{
+						message: "You do not have access to this category.",
+						path: payload.path,
+					},
+					403,
+				);
+			}
 			try {
 				const created = await createFolder(deps.contentRoot, payload.path);
 				const commit = await commitFileChange(
 					deps.contentRoot,
 					created.keepFilePath,
 					`docs(folder): create ${created.path}`,
+					commitOptions(c),
 				);
 				await publishWikiContent();
+				await deps.audit.recordRequest(c, {
+					action: "folder.create",
+					targetType: "folder",
+					targetId: created.path,
+					summary: { commit },
+				});
 				return c.json({ ok: true, path: created.path, commit });
 			} catch (error) {
 				return c.json(
@@ -282,7 +529,19 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 			if (isInvalidFolderPath(folderPath)) {
 				return c.json(invalidFolderResponse(folderPath), 400);
 			}
+			if (!canAccessFolder(c, folderPath)) {
+				return c.json({ message: "Folder not found", path: folderPath }, 404);
+			}
 			const payload = c.req.valid("json");
+			if (!canAccessFolder(c, payload.path)) {
+				return c.json(
+					{
+						message: "You do not have access to this category.",
+						path: payload.path,
+					},
+					403,
+				);
+			}
 			try {
 				const renamed = await renameFolder(
 					deps.contentRoot,
@@ -291,16 +550,40 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 				);
 				const commit = await commitPathsChange(
 					deps.contentRoot,
-					[renamed.oldAbsolutePath, renamed.newAbsolutePath],
+					[
+						renamed.oldAbsolutePath,
+						renamed.newAbsolutePath,
+						...renamed.rewrittenPages.map((page) => page.absolutePath),
+					],
 					`docs(folder): rename ${renamed.from} to ${renamed.path}`,
+					commitOptions(c),
 				);
+				// URI を付け替えてから再取り込みし、移動したページの埋め込みを残す
+				for (const move of renamed.pageMoves) {
+					await deps.sourceRepository.relocateSource(
+						`${deps.contentRoot}/pages/${move.fromPath}`,
+						`${deps.contentRoot}/pages/${move.toPath}`,
+					);
+				}
 				const reindexed = await syncSourceIndex();
 				await publishWikiContent();
+				await deps.audit.recordRequest(c, {
+					action: "folder.rename",
+					targetType: "folder",
+					targetId: renamed.path,
+					summary: {
+						from: renamed.from,
+						movedPages: renamed.movedPages.length,
+						rewrittenPages: renamed.rewrittenPages.length,
+						commit,
+					},
+				});
 				return c.json({
 					ok: true,
 					from: renamed.from,
 					path: renamed.path,
 					movedPages: renamed.movedPages,
+					rewrittenPages: rewrittenSlugsFor(c, renamed),
 					reindexed,
 					commit,
 				});
@@ -324,15 +607,25 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 			if (isInvalidFolderPath(folderPath)) {
 				return c.json(invalidFolderResponse(folderPath), 400);
 			}
+			if (!canAccessFolder(c, folderPath)) {
+				return c.json({ message: "Folder not found", path: folderPath }, 404);
+			}
 			try {
 				const deleted = await deleteFolder(deps.contentRoot, folderPath);
 				const commit = await commitPathsChange(
 					deps.contentRoot,
 					[deleted.absolutePath],
 					`docs(folder): delete ${deleted.path}`,
+					commitOptions(c),
 				);
 				const reindexed = await syncSourceIndex();
 				await publishWikiContent();
+				await deps.audit.recordRequest(c, {
+					action: "folder.delete",
+					targetType: "folder",
+					targetId: deleted.path,
+					summary: { deletedPages: deleted.deletedSlugs.length, commit },
+				});
 				return c.json({
 					ok: true,
 					path: deleted.path,
@@ -353,11 +646,11 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 		})
 		.get("/pages/*/raw", async (c) => {
 			await ensureSourceRuntime();
-			const slug = rawPageSlugFromRequestPath(c.req.url);
+			const slug = suffixedPageSlugFromRequestPath(c.req.url, "/raw");
 			if (isInvalidSlug(slug)) {
 				return c.json(invalidSlugResponse(slug), 400);
 			}
-			const page = await readPage(deps.contentRoot, slug);
+			const page = await readAccessiblePage(c, slug);
 			if (!page) {
 				return c.json({ message: "Page not found", slug }, 404);
 			}
@@ -365,13 +658,29 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 				"Content-Type": "text/markdown; charset=utf-8",
 			});
 		})
+		.get("/pages/*/backlinks", async (c) => {
+			await ensureSourceRuntime();
+			const slug = suffixedPageSlugFromRequestPath(c.req.url, "/backlinks");
+			if (isInvalidSlug(slug)) {
+				return c.json(invalidSlugResponse(slug), 400);
+			}
+			const page = await readAccessiblePage(c, slug);
+			if (!page) {
+				return c.json({ message: "Page not found", slug }, 404);
+			}
+			const items = await deps.sourceRepository.listBacklinks(
+				page.slug,
+				getAccessScope(c),
+			);
+			return c.json({ slug: page.slug, items });
+		})
 		.get("/pages/*", async (c) => {
 			await ensureSourceRuntime();
 			const slug = slugFromRequestPath(c.req.url, "/api/sources/pages/");
 			if (isInvalidSlug(slug)) {
 				return c.json(invalidSlugResponse(slug), 400);
 			}
-			const page = await readPage(deps.contentRoot, slug);
+			const page = await readAccessiblePage(c, slug);
 			if (!page) {
 				return c.json({ message: "Page not found", slug }, 404);
 			}
@@ -380,56 +689,66 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 		.post("/pages", zValidator("json", writePageSchema), async (c) => {
 			await ensureSourceRuntime();
 			const payload = c.req.valid("json");
-			const existing = await readPage(deps.contentRoot, payload.slug);
-			if (existing) {
-				return c.json(
-					{ message: "Page already exists", slug: payload.slug },
-					409,
-				);
+			if (
+				!canAccessPage(c, {
+					path: `${payload.slug}.md`,
+					meta: payload.meta ?? {},
+				})
+			) {
+				return c.json(forbiddenPageResponse(payload.slug), 403);
 			}
-			const { path, hash, content } = await writePage(
-				deps.contentRoot,
-				payload.slug,
-				payload.title,
-				payload.body,
-				payload.meta ?? {},
-			);
-			const commit = await commitFileChange(
-				deps.contentRoot,
-				path,
-				`docs(page): create ${payload.slug || "home"}`,
-			);
-			const savedPage = await readPage(deps.contentRoot, payload.slug);
-			if (!savedPage) {
-				return c.json({ message: "Page save verification failed" }, 500);
-			}
-			const category = categoryFromPageRelativePath(savedPage.path);
-			if (!category) {
-				return c.json(
-					{
-						message:
-							"Top-level documents are not allowed. Use pages/<category>/...",
-						slug: savedPage.slug,
-					},
-					400,
+			// 存在確認から書き込みまでを直列化し、同じ slug の同時作成で後の方が上書きしないようにする
+			return withPageWriteLock(deps.contentRoot, [payload.slug], async () => {
+				const existing = await readPage(deps.contentRoot, payload.slug);
+				if (existing) {
+					return c.json(
+						{ message: "Page already exists", slug: payload.slug },
+						409,
+					);
+				}
+				const { path, hash, content, revision } = await writePage(
+					deps.contentRoot,
+					payload.slug,
+					payload.title,
+					payload.body,
+					payload.meta ?? {},
 				);
-			}
-			const sourceMetadata = {
-				...savedPage.meta,
-				relativePath: `pages/${savedPage.path}`,
-				wikiSlug: savedPage.slug,
-			};
-			await deps.sourceRepository.upsertSourceDocument({
-				sourceKind: "wiki",
-				category,
-				uri: `${deps.contentRoot}/pages/${savedPage.path}`,
-				title: savedPage.title,
-				body: content,
-				contentHash: hash,
-				metadata: sourceMetadata,
+				const commit = await commitFileChange(
+					deps.contentRoot,
+					path,
+					`docs(page): create ${payload.slug || "home"}`,
+					commitOptions(c, payload.editSummary),
+				);
+				const savedPage = await readPage(deps.contentRoot, payload.slug);
+				if (!savedPage) {
+					return c.json({ message: "Page save verification failed" }, 500);
+				}
+				const category = await upsertWikiSource(savedPage, content, hash);
+				if (!category) {
+					return c.json(topLevelPageResponse(savedPage.slug), 400);
+				}
+				await publishWikiContent();
+				await deps.audit.recordRequest(c, {
+					action: "page.create",
+					targetType: "page",
+					targetId: savedPage.slug,
+					summary: {
+						title: savedPage.title,
+						category,
+						...(payload.editSummary
+							? { editSummary: payload.editSummary }
+							: {}),
+						commit,
+					},
+				});
+				return c.json({
+					ok: true,
+					slug: savedPage.slug,
+					hash,
+					revision,
+					commit,
+				});
 			});
-			await publishWikiContent();
-			return c.json({ ok: true, slug: savedPage.slug, hash, commit });
 		})
 		.put("/pages/*", zValidator("json", updatePageSchema), async (c) => {
 			await ensureSourceRuntime();
@@ -437,84 +756,245 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 			if (isInvalidSlug(slug)) {
 				return c.json(invalidSlugResponse(slug), 400);
 			}
-			const existing = await readPage(deps.contentRoot, slug);
-			if (!existing) {
-				return c.json({ message: "Page not found", slug }, 404);
-			}
 			const payload = c.req.valid("json");
 			const targetSlug = payload.slug ?? slug;
-			if (targetSlug !== slug) {
-				const targetExisting = await readPage(deps.contentRoot, targetSlug);
-				if (targetExisting) {
-					return c.json(
-						{ message: "Page already exists", slug: targetSlug },
-						409,
-					);
-				}
-			}
-			const title = payload.title ?? existing.title;
-			const meta = payload.meta ?? existing.meta;
-			const { path, hash, content } = await writePage(
+			// revision の確認から書き込みまでを直列化し、同じ revision からの同時保存を片方だけ通す
+			return withPageWriteLock(
 				deps.contentRoot,
-				targetSlug,
-				title,
-				payload.body,
-				meta,
-				targetSlug === slug ? { relativePath: existing.path } : undefined,
+				[slug, targetSlug],
+				async () => {
+					const existing = await readAccessiblePage(c, slug);
+					if (!existing) {
+						return c.json({ message: "Page not found", slug }, 404);
+					}
+					if (payload.revision !== existing.revision) {
+						const conflict = await resolvePageConflict(deps.contentRoot, {
+							baseRevision: payload.revision,
+							mine: payload.body,
+							current: existing,
+						});
+						return c.json(
+							{
+								message:
+									"This page was changed by someone else. Merge and save again.",
+								slug,
+								conflict,
+							},
+							409,
+						);
+					}
+					if (
+						!canAccessPage(c, {
+							path: `${targetSlug}.md`,
+							meta: payload.meta ?? existing.meta,
+						})
+					) {
+						return c.json(forbiddenPageResponse(targetSlug), 403);
+					}
+					if (targetSlug !== slug) {
+						const targetExisting = await readPage(deps.contentRoot, targetSlug);
+						if (targetExisting) {
+							return c.json(
+								{ message: "Page already exists", slug: targetSlug },
+								409,
+							);
+						}
+					}
+					const title = payload.title ?? existing.title;
+					const meta = payload.meta ?? existing.meta;
+					// 移動に失敗したときに未コミットの変更を残さないよう、元の内容を控えておく
+					const original =
+						targetSlug === slug
+							? null
+							: await readPageContent(deps.contentRoot, existing.path);
+					// 本文は元の場所に書いてから移動し、他のページのリンクもまとめて書き換える
+					const written = await writePage(
+						deps.contentRoot,
+						slug,
+						title,
+						payload.body,
+						meta,
+						{ relativePath: existing.path },
+					);
+					if (targetSlug === slug) {
+						const commit = await commitFileChange(
+							deps.contentRoot,
+							written.path,
+							payload.commitMessage ?? `docs(page): update ${slug || "home"}`,
+							commitOptions(c, payload.editSummary),
+						);
+						const savedPage = await readPage(deps.contentRoot, slug);
+						if (!savedPage) {
+							return c.json(
+								{ message: "Page save verification failed", slug },
+								500,
+							);
+						}
+						const category = await upsertWikiSource(
+							savedPage,
+							written.content,
+							written.hash,
+						);
+						if (!category) {
+							return c.json(topLevelPageResponse(savedPage.slug), 400);
+						}
+						await publishWikiContent();
+						await deps.audit.recordRequest(c, {
+							action: "page.update",
+							targetType: "page",
+							targetId: savedPage.slug,
+							summary: {
+								title: savedPage.title,
+								titleChanged: savedPage.title !== existing.title,
+								bodyChanged: payload.body !== existing.body,
+								...(payload.editSummary
+									? { editSummary: payload.editSummary }
+									: {}),
+								commit,
+							},
+						});
+						return c.json({
+							ok: true,
+							slug: savedPage.slug,
+							hash: written.hash,
+							revision: written.revision,
+							commit,
+						});
+					}
+
+					const moved = await movePage(deps.contentRoot, {
+						from: slug,
+						to: targetSlug,
+						redirect: payload.redirect,
+					}).catch((error: unknown) => error as Error);
+					if (moved instanceof Error) {
+						if (original) {
+							await writePageContent(
+								deps.contentRoot,
+								existing.path,
+								original.content,
+							);
+						}
+						return c.json(
+							{ message: moved.message, slug: targetSlug },
+							pageMoveErrorStatus(moved),
+						);
+					}
+					const commit = await commitPathsChange(
+						deps.contentRoot,
+						pageMovePaths(moved),
+						payload.commitMessage ??
+							`docs(page): rename ${slug || "home"} to ${targetSlug || "home"}`,
+						commitOptions(c, payload.editSummary),
+					);
+					const savedPage = await reindexMovedPages(moved);
+					if (!savedPage) {
+						return c.json(
+							{ message: "Page save verification failed", slug: targetSlug },
+							500,
+						);
+					}
+					await publishWikiContent();
+					await deps.audit.recordRequest(c, {
+						action: "page.move",
+						targetType: "page",
+						targetId: savedPage.slug,
+						summary: {
+							from: slug,
+							title: savedPage.title,
+							titleChanged: savedPage.title !== existing.title,
+							bodyChanged: payload.body !== existing.body,
+							rewrittenPages: moved.rewrittenPages.length,
+							redirect: moved.redirectStubPath !== null,
+							...(payload.editSummary
+								? { editSummary: payload.editSummary }
+								: {}),
+							commit,
+						},
+					});
+					return c.json({
+						ok: true,
+						slug: savedPage.slug,
+						hash: savedPage.hash,
+						revision: savedPage.revision,
+						rewrittenPages: rewrittenSlugsFor(c, moved),
+						commit,
+					});
+				},
 			);
-			let commit: string | null;
-			if (targetSlug === slug) {
-				commit = await commitFileChange(
-					deps.contentRoot,
-					path,
-					payload.commitMessage ?? `docs(page): update ${slug || "home"}`,
-				);
-			} else {
-				const deletedPath = await deletePage(deps.contentRoot, slug);
-				commit = await commitPathsChange(
-					deps.contentRoot,
-					[path, deletedPath],
-					payload.commitMessage ??
-						`docs(page): rename ${slug || "home"} to ${targetSlug || "home"}`,
-				);
-				await deps.sourceRepository.deleteSourceByUri(
-					`${deps.contentRoot}/pages/${existing.path}`,
-				);
-			}
-			const savedPage = await readPage(deps.contentRoot, targetSlug);
-			if (!savedPage) {
-				return c.json(
-					{ message: "Page save verification failed", slug: targetSlug },
-					500,
-				);
+		})
+		.post("/move/*", zValidator("json", movePageSchema), async (c) => {
+			await ensureSourceRuntime();
+			const slug = slugFromRequestPath(c.req.url, "/api/sources/move/");
+			if (isInvalidSlug(slug)) {
+				return c.json(invalidSlugResponse(slug), 400);
 			}
-			const category = categoryFromPageRelativePath(savedPage.path);
-			if (!category) {
-				return c.json(
-					{
-						message:
-							"Top-level documents are not allowed. Use pages/<category>/...",
+			const payload = c.req.valid("json");
+			return withPageWriteLock(
+				deps.contentRoot,
+				[slug, payload.to],
+				async () => {
+					const existing = await readAccessiblePage(c, slug);
+					if (!existing) {
+						return c.json({ message: "Page not found", slug }, 404);
+					}
+					if (
+						!canAccessPage(c, { path: `${payload.to}.md`, meta: existing.meta })
+					) {
+						return c.json(forbiddenPageResponse(payload.to), 403);
+					}
+					const moved = await movePage(deps.contentRoot, {
+						from: slug,
+						to: payload.to,
+						redirect: payload.redirect,
+					}).catch((error: unknown) => error as Error);
+					if (moved instanceof Error) {
+						return c.json(
+							{ message: moved.message, slug: payload.to },
+							pageMoveErrorStatus(moved),
+						);
+					}
+					const commit = await commitPathsChange(
+						deps.contentRoot,
+						pageMovePaths(moved),
+						payload.commitMessage ??
+							`docs(page): move ${slug || "home"} to ${moved.toSlug || "home"}`,
+						commitOptions(c, payload.editSummary),
+					);
+					const savedPage = await reindexMovedPages(moved);
+					if (!savedPage) {
+						return c.json(
+							{ message: "Page move verification failed", slug: moved.toSlug },
+							500,
+						);
+					}
+					await publishWikiContent();
+					await deps.audit.recordRequest(c, {
+						action: "page.move",
+						targetType: "page",
+						targetId: savedPage.slug,
+						summary: {
+							from: slug,
+							title: savedPage.title,
+							rewrittenPages: moved.rewrittenPages.length,
+							redirect: moved.redirectStubPath !== null,
+							...(payload.editSummary
+								? { editSummary: payload.editSummary }
+								: {}),
+							commit,
+						},
+					});
+					return c.json({
+						ok: true,
+						from: slug,
 						slug: savedPage.slug,
-					},
-					400,
-				);
-			}
-			const sourceMetadata = {
-				...savedPage.meta,
-				relativePath: `pages/${savedPage.path}`,
-				wikiSlug: savedPage.slug,
-			};
-			await deps.sourceRepository.upsertSourceDocument({
-				sourceKind: "wiki",
-				category,
-				uri: `${deps.contentRoot}/pages/${savedPage.path}`,
-				title: savedPage.title,
-				body: content,
-				contentHash: hash,
-				metadata: sourceMetadata,
-			});
-			await publishWikiContent();
-			return c.json({ ok: true, slug: savedPage.slug, hash, commit });
+						revision: savedPage.revision,
+						rewrittenPages: rewrittenSlugsFor(c, moved),
+						redirect: moved.redirectStubPath !== null,
+						commit,
+					});
+				},
+			);
 		})
 		.delete("/pages/*", async (c) => {
 			await ensureSourceRuntime();
@@ -522,25 +1002,131 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 			if (isInvalidSlug(slug)) {
 				return c.json(invalidSlugResponse(slug), 400);
 			}
-			const existing = await readPage(deps.contentRoot, slug);
-			if (!existing) {
+			return withPageWriteLock(deps.contentRoot, [slug], async () => {
+				const existing = await readAccessiblePage(c, slug);
+				if (!existing) {
+					return c.json({ message: "Page not found", slug }, 404);
+				}
+				try {
+					const deletedPath = await deletePage(deps.contentRoot, slug);
+					const commit = await commitDeleteChange(
+						deps.contentRoot,
+						deletedPath,
+						`docs(page): delete ${slug || "home"}`,
+						commitOptions(c),
+					);
+					await deps.sourceRepository.deleteSourceByUri(
+						`${deps.contentRoot}/pages/${existing.path}`,
+					);
+					await publishWikiContent();
+					await deps.audit.recordRequest(c, {
+						action: "page.delete",
+						targetType: "page",
+						targetId: slug,
+						summary: { title: existing.title, commit },
+					});
+					return c.json({ ok: true, slug, commit });
+				} catch {
+					return c.json({ message: "Page not found", slug }, 404);
+				}
+			});
+		})
+		.post("/restore/*", zValidator("json", restorePageSchema), async (c) => {
+			await ensureSourceRuntime();
+			const slug = slugFromRequestPath(c.req.url, "/api/sources/restore/");
+			if (isInvalidSlug(slug)) {
+				return c.json(invalidSlugResponse(slug), 400);
+			}
+			if (!(await canAccessPageHistory(c, slug))) {
 				return c.json({ message: "Page not found", slug }, 404);
 			}
-			try {
-				const deletedPath = await deletePage(deps.contentRoot, slug);
-				const commit = await commitDeleteChange(
+			const payload = c.req.valid("json");
+			return withPageWriteLock(deps.contentRoot, [slug], async () => {
+				const snapshot = await readPageAtCommit(
 					deps.contentRoot,
-					deletedPath,
-					`docs(page): delete ${slug || "home"}`,
+					slug,
+					payload.commit,
 				);
-				await deps.sourceRepository.deleteSourceByUri(
-					`${deps.contentRoot}/pages/${existing.path}`,
+				if (!snapshot) {
+					return c.json(
+						{
+							message: "Page does not exist at this commit",
+							slug,
+							commit: payload.commit,
+						},
+						404,
+					);
+				}
+				if (!canAccessPage(c, snapshot)) {
+					return c.json(forbiddenPageResponse(slug), 403);
+				}
+				// 現在のページがあればその場所に、削除済みなら当時の場所に戻す
+				const existing = await readPage(deps.contentRoot, slug);
+				const { path, hash, content, revision } = await writePageContent(
+					deps.contentRoot,
+					existing?.path ?? snapshot.path,
+					snapshot.raw,
 				);
+				const commit = await commitFileChange(
+					deps.contentRoot,
+					path,
+					`docs(page): restore ${slug} to ${payload.commit.slice(0, 7)}`,
+					commitOptions(c, payload.editSummary),
+				);
+				const savedPage = await readPage(deps.contentRoot, slug);
+				if (!savedPage) {
+					return c.json(
+						{ message: "Page restore verification failed", slug },
+						500,
+					);
+				}
+				const category = await upsertWikiSource(savedPage, content, hash);
+				if (!category) {
+					return c.json(topLevelPageResponse(savedPage.slug), 400);
+				}
 				await publishWikiContent();
-				return c.json({ ok: true, slug, commit });
-			} catch {
-				return c.json({ message: "Page not found", slug }, 404);
+				await deps.audit.recordRequest(c, {
+					action: "page.restore",
+					targetType: "page",
+					targetId: savedPage.slug,
+					summary: {
+						title: savedPage.title,
+						restoredFrom: payload.commit,
+						recreated: existing === null,
+						...(payload.editSummary
+							? { editSummary: payload.editSummary }
+							: {}),
+						commit,
+					},
+				});
+				return c.json({
+					ok: true,
+					slug: savedPage.slug,
+					hash,
+					revision,
+					restoredFrom: payload.commit,
+					commit,
+				});
+			});
+		})
+		.get("/links/broken", async (c) => {
+			await ensureSourceRuntime();
+			const links = await deps.sourceRepository.listBrokenPageLinks(
+				getAccessScope(c),
+			);
+			// リダイレクト用ページなど、インデックスには無いがファイルがあるリンク先は除く
+			const existing = new Map<string, boolean>();
+			const items = [];
+			for (const link of links) {
+				if (!existing.has(link.targetSlug)) {
+					existing.set(
+						link.targetSlug,
+						(await readPage(deps.contentRoot, link.targetSlug)) !== null,
+					);
+				}
+				if (!existing.get(link.targetSlug)) items.push(link);
 			}
+			return c.json({ items });
 		})
 		.get("/history/*", async (c) => {
 			await ensureSourceRuntime();
@@ -548,6 +1134,9 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 			if (isInvalidSlug(slug)) {
 				return c.json(invalidSlugResponse(slug), 400);
 			}
+			if (!(await canAccessPageHistory(c, slug))) {
+				return c.json({ message: "Page not found", slug }, 404);
+			}
 			const items = await getPageHistory(deps.contentRoot, slug);
 			return c.json({ slug, items });
 		})
@@ -557,6 +1146,9 @@ export function createSourcesRoute(deps: SourcesRouteDeps) {
 			if (isInvalidSlug(slug)) {
 				return c.json(invalidSlugResponse(slug), 400);
 			}
+			if (!(await canAccessPageHistory(c, slug))) {
+				return c.json({ message: "Page not found", slug }, 404);
+			}
 			const { from, to } = c.req.valid("query");
 			if (!from || !to) {
 				return c.json({ message: "from and to query are required" }, 400);
@@ -1,4 +1,5 @@
 import "hono";
+import type { AccessScope } from "../modules/access/access-scope";
 
 declare module "hono" {
 	interface ContextVariableMap {
@@ -6,6 +7,8 @@ declare module "hono" {
 			userId: string;
 			email: string;
 			role: "admin" | "member";
+			displayName?: string;
 		};
+		accessScope?: AccessScope;
 	}
 }
@@ -19,6 +19,12 @@ export const RagRequestSchema = ChatRequestSchema.extend({
 	context: z.record(z.string(), z.string()).optional(),
 });
 
+export const AzureUsageSchema = z.object({
+	prompt_tokens: z.number(),
+	completion_tokens: z.number(),
+	total_tokens: z.number(),
+});
+
 export const AzureChatResponseSchema = z.object({
 	id: z.string(),
 	choices: z.array(
@@ -28,13 +34,25 @@ export const AzureChatResponseSchema = z.object({
 			finish_reason: z.string().optional(),
 		}),
 	),
-	usage: z
-		.object({
-			prompt_tokens: z.number(),
-			completion_tokens: z.number(),
-			total_tokens: z.number(),
-		})
-		.optional(),
+	usage: AzureUsageSchema.optional(),
+});
+
+export const AzureChatStreamChunkSchema = z.object({
+	id: z.string(),
+	choices: z.array(
+		z.object({
+			index: z.number().optional(),
+			delta: z
+				.object({
+					role: ChatRoleSchema.optional(),
+					content: z.string().nullish(),
+				})
+				.optional(),
+			finish_reason: z.string().nullish(),
+		}),
+	),
+	/** stream_options.include_usage を指定したとき、choices が空の最後のチャンクにだけ付く */
+	usage: AzureUsageSchema.nullish(),
 });
 
 export const SearchPlanSchema = z.object({
@@ -63,7 +81,9 @@ export type ChatRole = z.infer<typeof ChatRoleSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 export type ChatRequest = z.infer<typeof ChatRequestSchema>;
 export type RagRequest = z.infer<typeof RagRequestSchema>;
+export type AzureUsage = z.infer<typeof AzureUsageSchema>;
 export type AzureChatResponse = z.infer<typeof AzureChatResponseSchema>;
+export type AzureChatStreamChunk = z.infer<typeof AzureChatStreamChunkSchema>;
 export type SearchPlan = z.infer<typeof SearchPlanSchema>;
 export type Action = z.infer<typeof ActionSchema>;
 
@@ -0,0 +1,10 @@
+import { describe, expect, it } from "vitest";
+import { estimateTokens } from "./tokens";
+
+describe("estimateTokens", () => {
+	it("estimates tokens for ascii and japanese text", () => {
+		expect(estimateTokens("abcdefgh")).toBe(2);
+		expect(estimateTokens("認証の流れ")).toBe(5);
+		expect(estimateTokens("")).toBe(0);
+	});
+});
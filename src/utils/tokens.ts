@@ -0,0 +1,15 @@
+/**
+ * 文字種から概算トークン数を求める (ASCII は 4 文字 ≒ 1 トークン、それ以外は 1 文字 ≒ 1 トークン)
+ */
+export function estimateTokens(text: string): number {
+	let asciiChars = 0;
+	let otherChars = 0;
+	for (const char of text) {
+		if ((char.codePointAt(0) ?? 0) < 128) {
+			asciiChars += 1;
+		} else {
+			otherChars += 1;
+		}
+	}
+	return Math.ceil(asciiChars / 4) + otherChars;
+}
@@ -25,6 +25,7 @@ import {
 	updateSystemContext,
 } from "./api";
 import { AdminUserManagementPanel } from "./admin-user-management";
+import { ApiTokenSettingsPanel } from "./api-token-settings";
 import { LoginDomainSection } from "./domains/auth/login-domain";
 import { ChatDomainSection } from "./domains/chat/chat-domain";
 import {
@@ -355,6 +356,11 @@ export function App() {
 									</div>
 								</div>
 							</section>
+							<ApiTokenSettingsPanel
+								busy={busy}
+								runWithBusy={withBusy}
+								setErrorText={setErrorText}
+							/>
 						</main>
 					) : null}
 					{authUser.role === "admin" && tab === "admin" ? (
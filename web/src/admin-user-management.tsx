@@ -494,6 +494,7 @@ const AdminUsersTable = () => {
 							<th>Role</th>
 							<th>Status</th>
 							<th>Last Login</th>
+							<th>API Tokens</th>
 							<th>Created</th>
 							<th>Actions</th>
 						</tr>
@@ -520,6 +521,11 @@ const AdminUsersTable = () => {
 									</span>
 								</td>
 								<td>{formatDateTime(user.lastLoginAt)}</td>
+								<td>
+									{user.activeApiTokens > 0
+										? `${user.activeApiTokens} active / ${formatDateTime(user.apiTokenLastUsedAt)}`
+										: "-"}
+								</td>
 								<td>{formatDateTime(user.createdAt)}</td>
 								<td>
 									<div className="admin-row-actions">
@@ -567,7 +573,7 @@ const AdminUsersTable = () => {
 						))}
 						{filteredAdminUsers.length === 0 ? (
 							<tr>
-								<td colSpan={7} className="admin-empty">
+								<td colSpan={8} className="admin-empty">
 									No users found for the selected filters.
 								</td>
 							</tr>
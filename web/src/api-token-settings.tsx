@@ -0,0 +1,206 @@
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import {
+	type ApiToken,
+	type ApiTokenScope,
+	createApiToken,
+	fetchApiTokens,
+	revokeApiToken,
+} from "./api";
+
+type ApiTokenSettingsPanelProps = {
+	busy: boolean;
+	runWithBusy: (task: () => Promise<void>) => Promise<boolean>;
+	setErrorText: (value: string | null) => void;
+};
+
+const SCOPE_OPTIONS: Array<{ value: ApiTokenScope; label: string }> = [
+	{ value: "search", label: "search (検索・Wiki 参照)" },
+	{ value: "chat", label: "chat" },
+	{ value: "wiki:write", label: "wiki:write (Wiki 編集)" },
+];
+
+const formatDateTime = (value: string | null | undefined): string => {
+	if (!value) return "-";
+	const date = new Date(value);
+	if (Number.isNaN(date.getTime())) return value;
+	return date.toLocaleString();
+};
+
+const tokenStatus = (token: ApiToken): string => {
+	if (token.revokedAt) return "revoked";
+	if (token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now()) {
+		return "expired";
+	}
+	return "active";
+};
+
+export function ApiTokenSettingsPanel({
+	busy,
+	runWithBusy,
+	setErrorText,
+}: ApiTokenSettingsPanelProps) {
+	const [tokens, setTokens] = useState<ApiToken[]>([]);
+	const [name, setName] = useState("");
+	const [scopes, setScopes] = useState<ApiTokenScope[]>(["search"]);
+	const [expiresInDays, setExpiresInDays] = useState("90");
+	const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+	const loadTokens = useCallback(async () => {
+		setTokens(await fetchApiTokens());
+	}, []);
+
+	useEffect(() => {
+		void loadTokens().catch((error: unknown) => {
+			setErrorText(
+				error instanceof Error ? error.message : "Failed to load API tokens.",
+			);
+		});
+	}, [loadTokens, setErrorText]);
+
+	const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+		setScopes((current) =>
+			checked
+				? [...new Set([...current, scope])]
+				: current.filter((item) => item !== scope),
+		);
+	};
+
+	const handleCreate = async () => {
+		const days = Number.parseInt(expiresInDays, 10);
+		await runWithBusy(async () => {
+			const created = await createApiToken({
+				name: name.trim(),
+				scopes,
+				expiresInDays: Number.isFinite(days) && days > 0 ? days : undefined,
+			});
+			setCreatedToken(created.token);
+			setName("");
+			await loadTokens();
+		});
+	};
+
+	const handleRevoke = async (token: ApiToken) => {
+		if (!window.confirm(`Revoke API token "${token.name}"?`)) return;
+		await runWithBusy(async () => {
+			await revokeApiToken(token.id);
+			await loadTokens();
+		});
+	};
+
+	return (
+		<section className="panel">
+			<div className="panel-header">
+				<h2>API Tokens</h2>
+			</div>
+			<div className="form-stack">
+				<label htmlFor="api-token-name-input">Token Name</label>
+				<input
+					id="api-token-name-input"
+					value={name}
+					onChange={(event) => setName(event.target.value)}
+					placeholder="ci-search"
+				/>
+				<span className="field-label">Scopes</span>
+				<div className="api-token-scopes">
+					{SCOPE_OPTIONS.map((option) => (
+						<label key={option.value}>
+							<input
+								type="checkbox"
+								checked={scopes.includes(option.value)}
+								onChange={(event) =>
+									toggleScope(option.value, event.target.checked)
+								}
+							/>
+							<span>{option.label}</span>
+						</label>
+					))}
+				</div>
+				<label htmlFor="api-token-expires-input">Expires In (days)</label>
+				<input
+					id="api-token-expires-input"
+					type="number"
+					min={1}
+					value={expiresInDays}
+					onChange={(event) => setExpiresInDays(event.target.value)}
+					placeholder="空欄で無期限"
+				/>
+				<div className="actions">
+					<button
+						type="button"
+						className="search-btn btn-primary"
+						onClick={() => void handleCreate()}
+						disabled={busy || !name.trim() || scopes.length === 0}
+					>
+						<Plus className="icon" />
+						<span>Create Token</span>
+					</button>
+				</div>
+				{createdToken ? (
+					<div className="api-token-created">
+						<KeyRound className="icon" />
+						<div>
+							<small>
+								このトークンは今だけ表示されます。安全な場所に保存してください。
+							</small>
+							<code>{createdToken}</code>
+						</div>
+					</div>
+				) : null}
+			</div>
+			<div className="admin-users-table-wrap">
+				<table className="admin-users-table api-token-table">
+					<thead>
+						<tr>
+							<th>Name</th>
+							<th>Token</th>
+							<th>Scopes</th>
+							<th>Status</th>
+							<th>Last Used</th>
+							<th>Expires</th>
+							<th>Actions</th>
+						</tr>
+					</thead>
+					<tbody>
+						{tokens.map((token) => {
+							const status = tokenStatus(token);
+							return (
+								<tr key={token.id}>
+									<td>{token.name}</td>
+									<td>
+										<code>{token.tokenPrefix}…</code>
+									</td>
+									<td>{token.scopes.join(", ")}</td>
+									<td>{status}</td>
+									<td>{formatDateTime(token.lastUsedAt)}</td>
+									<td>{formatDateTime(token.expiresAt)}</td>
+									<td>
+										{status === "active" ? (
+											<button
+												type="button"
+												className="admin-row-btn admin-row-btn-danger"
+												onClick={() => void handleRevoke(token)}
+												disabled={busy}
+												title="Revoke token"
+											>
+												<Trash2 className="icon" />
+												<span>Revoke</span>
+											</button>
+										) : null}
+									</td>
+								</tr>
+							);
+						})}
+						{tokens.length === 0 ? (
+							<tr>
+								<td colSpan={7} className="admin-empty">
+									No API tokens.
+								</td>
+							</tr>
+						) : null}
+					</tbody>
+				</table>
+			</div>
+		</section>
+	);
+}
@@ -24,6 +24,18 @@ export type SourcePage = {
 	body: string;
 	path: string;
 	meta: Record<string, unknown>;
+	/** 更新時に送り返す版。古ければ 409 になる */
+	revision: string;
+};
+
+export type SourcePageConflict = {
+	revision: string;
+	baseRevision: string;
+	base: string | null;
+	mine: string;
+	theirs: string;
+	merged: string | null;
+	hasConflicts: boolean;
 };
 
 export type SourceHealth = {
@@ -49,10 +61,25 @@ export type AuthUser = {
 export type AdminUser = AuthUser & {
 	isActive: boolean;
 	lastLoginAt: string | null;
+	activeApiTokens: number;
+	apiTokenLastUsedAt: string | null;
 	createdAt: string;
 	updatedAt: string;
 };
 
+export type ApiTokenScope = "search" | "chat" | "wiki:write";
+
+export type ApiToken = {
+	id: string;
+	name: string;
+	tokenPrefix: string;
+	scopes: ApiTokenScope[];
+	expiresAt: string | null;
+	lastUsedAt: string | null;
+	revokedAt: string | null;
+	createdAt: string;
+};
+
 export type SourceMutationResponse = {
 	ok: true;
 	slug?: string;
@@ -60,7 +87,10 @@ export type SourceMutationResponse = {
 	from?: string;
 	commit: string | null;
 	hash?: string;
+	revision?: string;
 	movedPages?: Array<{ from: string; to: string }>;
+	/** 移動したページへのリンクを書き換えたページ */
+	rewrittenPages?: string[];
 	deletedSlugs?: string[];
 	reindexed?: {
 		importedFiles: number;
@@ -85,6 +115,9 @@ export type Citation = {
 	heading?: string;
 	locator: string;
 	score: number;
+	updatedAt?: string;
+	/** 更新から一定期間が過ぎ、内容が古い可能性がある */
+	stale?: boolean;
 };
 
 export type RetrievedFragment = {
@@ -102,9 +135,30 @@ export type RetrievedFragment = {
 	textScore?: number;
 	trigramScore?: number;
 	sourceHitCount?: number;
+	rerankScore?: number;
+	matchedQueries?: number[];
+	/** 上位の検索結果からリンクをたどって追加した断片の起点 */
+	expandedFrom?: {
+		fragmentId: string;
+		wikiSlug: string;
+		relation: "outbound" | "inbound";
+	};
+	/** ページの更新日 (YYYY-MM-DD) */
+	contentDate?: string | null;
+	freshnessWeight?: number;
+	stale?: boolean;
 	combinedScore: number;
 };
 
+export type QueryPlan = {
+	original: string;
+	queries: Array<{
+		kind: "original" | "rewrite" | "translation" | "hyde";
+		text: string;
+	}>;
+	error?: string;
+};
+
 export type WebSearchResult = {
 	title: string;
 	url: string;
@@ -142,8 +196,35 @@ export type AgenticSearchResult = {
 		outputTokens: number;
 		totalTokens: number;
 	};
+	conversationId?: string;
+	messageId?: string;
 };
 
+export type AgenticSearchStreamEvent =
+	| { type: "run_start"; query: string; maxTurns: number }
+	| { type: "turn_start"; turn: number }
+	| {
+			type: "tool_call_start";
+			turn: number;
+			callId: string;
+			tool: string;
+			argsSummary: string;
+	  }
+	| {
+			type: "tool_call_complete";
+			turn: number;
+			callId: string;
+			tool: string;
+			argsSummary: string;
+			status: AgenticToolTrace["status"];
+			elapsedMs: number;
+			resultCount?: number;
+			message?: string;
+	  }
+	| { type: "citations"; citations: AgenticSearchCitation[] }
+	| { type: "answer_delta"; turn: number; delta: string }
+	| { type: "complete"; result: AgenticSearchResult };
+
 export type Artifact = {
 	id: string;
 	type: string;
@@ -168,6 +249,23 @@ export type ChatCompletionResult = {
 	};
 };
 
+export type ChatStreamEvent =
+	| { type: "message_start"; conversationId: string; messageId: string }
+	| {
+			type: "retrieval_result";
+			citations: Citation[];
+			retrieved: RetrievedFragment[];
+			webResults: WebSearchResult[];
+	  }
+	| { type: "text_delta"; messageId: string; delta: string }
+	| { type: "artifact_complete"; artifact: Artifact }
+	| {
+			type: "message_complete";
+			messageId: string;
+			conversationId: string;
+			usage?: ChatCompletionResult["usage"];
+	  };
+
 export type ConversationItem = {
 	id: string;
 	title: string | null;
@@ -198,10 +296,41 @@ export type RetrievalLog = {
 export type SourceHistoryItem = {
 	commit: string;
 	author: string;
+	authorEmail: string;
 	date: string;
 	message: string;
+	/** 編集者が入力した変更の要約 (未入力なら空文字) */
+	summary: string;
 };
 
+/** このページへリンクしているページ */
+export type SourceBacklink = {
+	slug: string;
+	title: string | null;
+	kind: "markdown" | "wiki";
+	linkText: string;
+};
+
+/** 存在しないページへのリンク */
+export type SourceBrokenLink = {
+	sourceSlug: string;
+	sourceTitle: string | null;
+	targetSlug: string;
+	kind: "markdown" | "wiki";
+	linkText: string;
+};
+
+export type SourceFacetField = "category" | "tags" | "owner" | "status";
+
+/** 項目の値ごとのページ数と断片数 */
+export type SourceFacetCount = {
+	value: string;
+	pages: number;
+	fragments: number;
+};
+
+export type SourceFacets = Record<SourceFacetField, SourceFacetCount[]>;
+
 type RequestInitJson = Omit<RequestInit, "body"> & {
 	body?: unknown;
 };
@@ -226,19 +355,50 @@ const canRetryWithRefresh = (path: string): boolean =>
 const shouldNotifyUnauthorized = (path: string): boolean =>
 	path !== "/api/auth/login";
 
-const parseErrorMessage = async (response: Response): Promise<string> => {
+/** JSON API のエラー。レスポンス本文を data に保持する */
+export class ApiError extends Error {
+	readonly status: number;
+	readonly data: unknown;
+
+	constructor(message: string, status: number, data: unknown) {
+		super(message);
+		this.name = "ApiError";
+		this.status = status;
+		this.data = data;
+	}
+}
+
+/** ページ更新が他の人の編集と競合したときのエラー */
+export class SourcePageConflictError extends Error {
+	readonly conflict: SourcePageConflict;
+
+	constructor(message: string, conflict: SourcePageConflict) {
+		super(message);
+		this.name = "SourcePageConflictError";
+		this.conflict = conflict;
+	}
+}
+
+const readErrorResponse = async (
+	response: Response,
+): Promise<{ message: string; data: unknown }> => {
 	let message = `Request failed: ${response.status}`;
+	let data: unknown = null;
 	try {
-		const data = (await response.json()) as { message?: string };
-		if (data.message) {
-			message = data.message;
+		data = await response.json();
+		const parsed = data as { message?: string } | null;
+		if (parsed?.message) {
+			message = parsed.message;
 		}
 	} catch {
 		// ignore parse errors for non-JSON responses
 	}
-	return message;
+	return { message, data };
 };
 
+const parseErrorMessage = async (response: Response): Promise<string> =>
+	(await readErrorResponse(response)).message;
+
 async function requestJson<T>(
 	path: string,
 	init?: RequestInitJson,
@@ -273,8 +433,8 @@ async function requestJson<T>(
 		if (response.status === 401 && shouldNotifyUnauthorized(path)) {
 			notifyUnauthorized();
 		}
-		const message = await parseErrorMessage(response);
-		throw new Error(message);
+		const { message, data } = await readErrorResponse(response);
+		throw new ApiError(message, response.status, data);
 	}
 	return (await response.json()) as T;
 }
@@ -319,6 +479,99 @@ async function requestVoid(
 	}
 }
 
+type ServerSentEvent = {
+	event: string;
+	data: string;
+};
+
+async function* readServerSentEvents(
+	body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let event = "message";
+	let data: string[] = [];
+	try {
+		while (true) {
+			const { value, done } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+			let newlineIndex = buffer.indexOf("\n");
+			while (newlineIndex >= 0) {
+				const line = buffer.slice(0, newlineIndex).replace(/\r$/, "");
+				buffer = buffer.slice(newlineIndex + 1);
+				newlineIndex = buffer.indexOf("\n");
+				if (line === "") {
+					if (data.length > 0) {
+						yield { event, data: data.join("\n") };
+					}
+					event = "message";
+					data = [];
+				} else if (line.startsWith("event:")) {
+					event = line.slice(6).trim();
+				} else if (line.startsWith("data:")) {
+					data.push(line.slice(5).replace(/^ /, ""));
+				}
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+async function requestEventStream<T>(
+	path: string,
+	init: RequestInitJson & { onEvent: (event: T) => void },
+): Promise<void> {
+	const { onEvent, ...requestInit } = init;
+	const execute = async (): Promise<Response> => {
+		const headers = new Headers(requestInit.headers);
+		headers.set("Accept", "text/event-stream");
+		if (requestInit.body !== undefined && !headers.has("Content-Type")) {
+			headers.set("Content-Type", "application/json");
+		}
+
+		const { body, ...restInit } = requestInit;
+		return fetch(path, {
+			...restInit,
+			headers,
+			credentials: "include",
+			body: body !== undefined ? JSON.stringify(body) : undefined,
+		});
+	};
+
+	let response = await execute();
+	if (response.status === 401 && canRetryWithRefresh(path)) {
+		const refreshResponse = await fetch("/api/auth/refresh", {
+			method: "POST",
+			credentials: "include",
+		});
+		if (refreshResponse.ok) {
+			response = await execute();
+		}
+	}
+
+	if (!response.ok || !response.body) {
+		if (response.status === 401 && shouldNotifyUnauthorized(path)) {
+			notifyUnauthorized();
+		}
+		const message = await parseErrorMessage(response);
+		throw new Error(message);
+	}
+
+	for await (const message of readServerSentEvents(response.body)) {
+		const parsed = JSON.parse(message.data) as T & {
+			type?: string;
+			message?: string;
+		};
+		if (message.event === "error" || parsed.type === "error") {
+			throw new Error(parsed.message ?? "Stream failed");
+		}
+		onEvent(parsed);
+	}
+}
+
 const pageEndpoint = (slug: string): string =>
 	`/api/sources/pages/${encodeSlug(slug)}`;
 
@@ -378,18 +631,38 @@ export async function updateSourcePage(
 		body: string;
 		meta?: Record<string, unknown>;
 		commitMessage?: string;
+		editSummary?: string;
+		revision: string;
+		redirect?: boolean;
 	},
 ): Promise<SourceMutationResponse> {
-	return requestJson(pageEndpoint(slug), {
-		method: "PUT",
-		body: {
-			slug: params.slug,
-			title: params.title,
-			body: params.body,
-			meta: params.meta,
-			commitMessage: params.commitMessage,
-		},
-	});
+	try {
+		return await requestJson(pageEndpoint(slug), {
+			method: "PUT",
+			body: {
+				slug: params.slug,
+				title: params.title,
+				body: params.body,
+				meta: params.meta,
+				commitMessage: params.commitMessage,
+				editSummary: params.editSummary,
+				revision: params.revision,
+				redirect: params.redirect,
+			},
+		});
+	} catch (error) {
+		const conflict =
+			error instanceof ApiError && error.status === 409
+				? (error.data as { conflict?: SourcePageConflict } | null)?.conflict
+				: undefined;
+		if (conflict) {
+			throw new SourcePageConflictError(
+				error instanceof Error ? error.message : "Page update conflict.",
+				conflict,
+			);
+		}
+		throw error;
+	}
 }
 
 export async function createSourcePage(params: {
@@ -397,6 +670,7 @@ export async function createSourcePage(params: {
 	title: string;
 	body: string;
 	meta?: Record<string, unknown>;
+	editSummary?: string;
 }): Promise<SourceMutationResponse> {
 	return requestJson("/api/sources/pages", {
 		method: "POST",
@@ -441,6 +715,16 @@ export async function runSourceReindex(): Promise<SourceReindexResponse> {
 	return requestJson("/api/sources/reindex", { method: "POST" });
 }
 
+export async function restoreSourcePage(
+	slug: string,
+	params: { commit: string; editSummary?: string },
+): Promise<SourceMutationResponse & { restoredFrom: string }> {
+	return requestJson(`/api/sources/restore/${encodeSlug(slug)}`, {
+		method: "POST",
+		body: params,
+	});
+}
+
 export async function fetchSourceHistory(
 	slug: string,
 ): Promise<SourceHistoryItem[]> {
@@ -450,6 +734,22 @@ export async function fetchSourceHistory(
 	return data.items;
 }
 
+export async function fetchSourceBacklinks(
+	slug: string,
+): Promise<SourceBacklink[]> {
+	const data = await requestJson<{ items: SourceBacklink[] }>(
+		`/api/sources/pages/${encodeSlug(slug)}/backlinks`,
+	);
+	return data.items;
+}
+
+export async function fetchBrokenSourceLinks(): Promise<SourceBrokenLink[]> {
+	const data = await requestJson<{ items: SourceBrokenLink[] }>(
+		"/api/sources/links/broken",
+	);
+	return data.items;
+}
+
 export async function fetchSourceDiff(
 	slug: string,
 	from: string,
@@ -513,15 +813,72 @@ export async function sendChat(params: {
 	});
 }
 
+export async function streamChat(
+	params: {
+		conversationId?: string;
+		messages: Array<{
+			role: "system" | "user" | "assistant";
+			content: string;
+		}>;
+		topK?: number;
+		category?: string;
+	},
+	onEvent: (event: ChatStreamEvent) => void,
+	signal?: AbortSignal,
+): Promise<void> {
+	return requestEventStream("/api/chat/stream", {
+		method: "POST",
+		body: params,
+		signal,
+		onEvent,
+	});
+}
+
 export async function searchFragments(params: {
 	query: string;
 	topK?: number;
 	category?: string;
+	rerank?: boolean;
+	multiQuery?: boolean;
+	expandLinks?: boolean;
+	freshness?: boolean;
+	filter?: string;
+	rrfK?: number;
+	vectorWeight?: number;
+	textWeight?: number;
+	fetchMultiplier?: number;
 }): Promise<{
 	query: string;
 	topK: number;
 	category: string | null;
-	strategy: "merged" | "text_fallback" | "legacy_retrieve";
+	strategy: "merged" | "text_fallback" | "multi_query" | "legacy_retrieve";
+	queryPlan: QueryPlan | null;
+	hybrid: {
+		rrfK: number;
+		vectorWeight: number;
+		textWeight: number;
+		fetchMultiplier: number;
+	} | null;
+	rerank: {
+		applied: boolean;
+		reranker: string | null;
+		candidateCount: number;
+		error?: string;
+	} | null;
+	graphExpansion: {
+		seedCount: number;
+		linkedPages: number;
+		addedFragments: number;
+		usedChars: number;
+		charBudget: number;
+		error?: string;
+	} | null;
+	freshness: {
+		halfLifeDays: number;
+		minWeight: number;
+		staleAfterDays: number;
+	} | null;
+	facets: SourceFacets | null;
 	vectorResults: RetrievedFragment[];
 	textResults: RetrievedFragment[];
 	webResults: WebSearchResult[];
@@ -542,6 +899,8 @@ export async function searchFragments(params: {
 
 export async function agenticSearch(params: {
 	query: string;
+	conversationId?: string;
+	messages?: Array<{ role: "user" | "assistant"; content: string }>;
 	topK?: number;
 	category?: string;
 }): Promise<AgenticSearchResult> {
@@ -551,6 +910,26 @@ export async function agenticSearch(params: {
 	});
 }
 
+export async function streamAgenticSearch(
+	params: {
+		query: string;
+		conversationId?: string;
+		messages?: Array<{ role: "user" | "assistant"; content: string }>;
+		topK?: number;
+		category?: string;
+		filter?: string;
+	},
+	onEvent: (event: AgenticSearchStreamEvent) => void,
+	signal?: AbortSignal,
+): Promise<void> {
+	return requestEventStream("/api/agentic-search/stream", {
+		method: "POST",
+		body: params,
+		signal,
+		onEvent,
+	});
+}
+
 export async function login(params: {
 	email: string;
 	password: string;
@@ -567,6 +946,15 @@ export async function logout(): Promise<void> {
 	});
 }
 
+export type OidcSettings = {
+	enabled: boolean;
+	displayName: string | null;
+};
+
+export async function fetchOidcSettings(): Promise<OidcSettings> {
+	return requestJson<OidcSettings>("/api/auth/oidc");
+}
+
 export async function fetchMe(): Promise<AuthUser> {
 	const response = await requestJson<{ user: AuthUser }>("/api/auth/me");
 	return response.user;
@@ -635,3 +1023,30 @@ export async function resetAdminUserPassword(
 		body: { newPassword },
 	});
 }
+
+export async function fetchApiTokens(): Promise<ApiToken[]> {
+	const response = await requestJson<{ items: ApiToken[] }>(
+		"/api/settings/api-tokens",
+	);
+	return response.items;
+}
+
+export async function createApiToken(params: {
+	name: string;
+	scopes: ApiTokenScope[];
+	expiresInDays?: number;
+}): Promise<{ token: string; apiToken: ApiToken }> {
+	return requestJson<{ token: string; apiToken: ApiToken }>(
+		"/api/settings/api-tokens",
+		{
+			method: "POST",
+			body: params,
+		},
+	);
+}
+
+export async function revokeApiToken(tokenId: string): Promise<void> {
+	await requestVoid(`/api/settings/api-tokens/${tokenId}`, {
+		method: "DELETE",
+	});
+}
@@ -1,5 +1,13 @@
-import { ArrowRight, AtSign, Database, KeyRound, Shield } from "lucide-react";
-import { useState } from "react";
+import {
+	ArrowRight,
+	AtSign,
+	Building2,
+	Database,
+	KeyRound,
+	Shield,
+} from "lucide-react";
+import { useEffect, useState } from "react";
+import { type OidcSettings, fetchOidcSettings } from "../../api";
 
 type LoginDomainSectionProps = {
 	active: boolean;
@@ -14,6 +22,22 @@ export const LoginDomainSection = ({
 }: LoginDomainSectionProps) => {
 	const [email, setEmail] = useState("");
 	const [password, setPassword] = useState("");
+	const [oidc, setOidc] = useState<OidcSettings | null>(null);
+	const [ssoError, setSsoError] = useState<string | null>(null);
+
+	useEffect(() => {
+		void fetchOidcSettings()
+			.then(setOidc)
+			.catch(() => setOidc(null));
+		// SSO のコールバックが失敗した場合はクエリで理由が返る
+		const url = new URL(window.location.href);
+		const error = url.searchParams.get("ssoError");
+		if (error) {
+			setSsoError(error);
+			url.searchParams.delete("ssoError");
+			window.history.replaceState(null, "", url.toString());
+		}
+	}, []);
 
 	const handleSubmit = async () => {
 		const nextEmail = email.trim();
@@ -85,6 +109,13 @@ export const LoginDomainSection = ({
 						<span>ログイン</span>
 						<ArrowRight className="icon" />
 					</button>
+					{oidc?.enabled ? (
+						<a className="auth-submit auth-sso" href="/api/auth/oidc/login">
+							<Building2 className="icon" />
+							<span>{oidc.displayName ?? "SSO"} でログイン</span>
+						</a>
+					) : null}
+					{ssoError ? <div className="status error">{ssoError}</div> : null}
 				</div>
 			</section>
 		</main>
@@ -1,7 +1,7 @@
-import { Eye, EyeOff, RefreshCw, Send, Trash2 } from "lucide-react";
+import { Eye, EyeOff, RefreshCw, Send, Sparkles, Trash2 } from "lucide-react";
 import mermaid from "mermaid";
 import { MarkdownEditor } from "markdown-wysiwyg-editor";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
 	type Artifact,
 	type ChatCompletionResult,
@@ -10,7 +10,8 @@ import {
 	deleteConversation,
 	fetchConversationMessages,
 	fetchConversations,
-	sendChat,
+	streamAgenticSearch,
+	streamChat,
 } from "../../api";
 import { normalizeAgenticAnswerMarkdown } from "../../agentic-markdown";
 
@@ -22,6 +23,9 @@ type ChatDomainSectionProps = {
 	setErrorText: (value: string | null) => void;
 };
 
+const isAgenticConversation = (conversation?: ConversationItem): boolean =>
+	conversation?.metadata.mode === "agentic";
+
 const toChatMessages = (
 	messages: ConversationMessage[],
 	nextUserMessage: string,
@@ -377,6 +381,7 @@ export const ChatDomainSection = ({
 	const [artifactPanelVisible, setArtifactPanelVisible] = useState(false);
 	const [composerText, setComposerText] = useState("");
 	const [chatCategory, setChatCategory] = useState("tech");
+	const streamAbortRef = useRef<AbortController | null>(null);
 
 	const conversationArtifacts = useMemo(
 		() => chatMessages.flatMap((message) => message.artifacts ?? []),
@@ -420,23 +425,187 @@ export const ChatDomainSection = ({
 		});
 	}, [loadConversations, setErrorText]);
 
+	useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+	const handleAgenticFollowUp = async (
+		conversationId: string,
+		text: string,
+	) => {
+		await runWithBusy(async () => {
+			const controller = new AbortController();
+			streamAbortRef.current = controller;
+			const createdAt = new Date().toISOString();
+			const baseMessages: ConversationMessage[] = [
+				...chatMessages,
+				{
+					id: `pending-user-${createdAt}`,
+					role: "user",
+					content: text,
+					metadata: {},
+					createdAt,
+					artifacts: [],
+				},
+			];
+			const pendingAnswer: ConversationMessage = {
+				id: `pending-assistant-${createdAt}`,
+				role: "assistant",
+				content: "",
+				metadata: {},
+				createdAt,
+				artifacts: [],
+			};
+			let answerTurn = 0;
+
+			setLatestChatResult(null);
+			setChatMessages(baseMessages);
+			setComposerText("");
+			try {
+				await streamAgenticSearch(
+					{
+						query: text,
+						conversationId,
+						topK: 8,
+						category: chatCategory === "all" ? undefined : chatCategory,
+					},
+					(event) => {
+						if (event.type !== "answer_delta") return;
+						if (event.turn !== answerTurn) {
+							answerTurn = event.turn;
+							pendingAnswer.content = "";
+						}
+						pendingAnswer.content += event.delta;
+						setChatMessages([...baseMessages, { ...pendingAnswer }]);
+					},
+					controller.signal,
+				);
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				setComposerText(text);
+				setChatMessages(chatMessages);
+				throw error;
+			} finally {
+				if (streamAbortRef.current === controller) {
+					streamAbortRef.current = null;
+				}
+			}
+
+			await Promise.all([
+				loadConversations(),
+				loadConversationDetails(conversationId),
+			]);
+		});
+	};
+
 	const handleSendMessage = async () => {
 		const text = composerText.trim();
 		if (!text) return;
+		const activeConversation = conversations.find(
+			(conversation) => conversation.id === activeConversationId,
+		);
+		if (activeConversationId && isAgenticConversation(activeConversation)) {
+			await handleAgenticFollowUp(activeConversationId, text);
+			return;
+		}
 
 		await runWithBusy(async () => {
-			const result = await sendChat({
-				conversationId: activeConversationId ?? undefined,
-				messages: toChatMessages(chatMessages, text),
-				topK: 8,
-				category: chatCategory === "all" ? undefined : chatCategory,
-			});
-			setLatestChatResult(result);
+			const controller = new AbortController();
+			streamAbortRef.current = controller;
+			const createdAt = new Date().toISOString();
+			const pendingUserMessage: ConversationMessage = {
+				id: `pending-user-${createdAt}`,
+				role: "user",
+				content: text,
+				metadata: {},
+				createdAt,
+				artifacts: [],
+			};
+			const baseMessages = [...chatMessages, pendingUserMessage];
+			let assistantMessage: ConversationMessage | null = null;
+			let conversationId = activeConversationId;
+			const result: ChatCompletionResult = {
+				id: "",
+				conversationId: conversationId ?? "",
+				text: "",
+				citations: [],
+				artifacts: [],
+				retrieved: [],
+			};
+			const renderAssistant = (next: ConversationMessage) => {
+				assistantMessage = next;
+				setChatMessages([...baseMessages, next]);
+			};
+
+			setChatMessages(baseMessages);
 			setComposerText("");
-			setActiveConversationId(result.conversationId);
+			try {
+				await streamChat(
+					{
+						conversationId: activeConversationId ?? undefined,
+						messages: toChatMessages(chatMessages, text),
+						topK: 8,
+						category: chatCategory === "all" ? undefined : chatCategory,
+					},
+					(event) => {
+						switch (event.type) {
+							case "message_start":
+								conversationId = event.conversationId;
+								result.id = event.messageId;
+								result.conversationId = event.conversationId;
+								renderAssistant({
+									id: event.messageId,
+									role: "assistant",
+									content: "",
+									metadata: {},
+									createdAt: new Date().toISOString(),
+									artifacts: [],
+								});
+								break;
+							case "retrieval_result":
+								result.citations = event.citations;
+								result.retrieved = event.retrieved;
+								result.webResults = event.webResults;
+								setLatestChatResult({ ...result });
+								break;
+							case "text_delta":
+								if (!assistantMessage) break;
+								result.text += event.delta;
+								renderAssistant({
+									...assistantMessage,
+									content: assistantMessage.content + event.delta,
+								});
+								break;
+							case "artifact_complete":
+								if (!assistantMessage) break;
+								result.artifacts = [...result.artifacts, event.artifact];
+								renderAssistant({
+									...assistantMessage,
+									artifacts: [...assistantMessage.artifacts, event.artifact],
+								});
+								break;
+							case "message_complete":
+								result.usage = event.usage;
+								setLatestChatResult({ ...result });
+								break;
+						}
+					},
+					controller.signal,
+				);
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				setComposerText(text);
+				setChatMessages(chatMessages);
+				throw error;
+			} finally {
+				if (streamAbortRef.current === controller) {
+					streamAbortRef.current = null;
+				}
+			}
+
+			if (!conversationId) return;
+			setActiveConversationId(conversationId);
 			await Promise.all([
 				loadConversations(),
-				loadConversationDetails(result.conversationId),
+				loadConversationDetails(conversationId),
 			]);
 		});
 	};
@@ -502,6 +671,9 @@ export const ChatDomainSection = ({
 								onClick={() => void handleSelectConversation(conversation.id)}
 							>
 								<div className="conversation-title">
+									{isAgenticConversation(conversation) ? (
+										<Sparkles className="icon" aria-label="Agentic Search" />
+									) : null}
 									{conversation.title ?? "Conversation"}
 								</div>
 								<small className="conversation-date">
@@ -637,6 +809,14 @@ export const ChatDomainSection = ({
 										{latestChatResult.citations.map((citation) => (
 											<li key={citation.fragmentId}>
 												{citation.title} ({citation.locator})
+												{citation.stale ? (
+													<span
+														className="citation-stale"
+														title={`Last updated ${citation.updatedAt ?? "unknown"}`}
+													>
+														stale
+													</span>
+												) : null}
 											</li>
 										))}
 									</ul>
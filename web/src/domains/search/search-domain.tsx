@@ -1,14 +1,18 @@
 import { Search, Sparkles } from "lucide-react";
 import mermaid from "mermaid";
 import { MarkdownEditor } from "markdown-wysiwyg-editor";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
-	agenticSearch,
 	type AgenticSearchResult,
+	type AgenticToolTrace,
+	type QueryPlan,
 	type RetrievedFragment,
+	type SourceFacetField,
+	type SourceFacets,
 	type WebSearchResult,
 	fetchSourcePage,
 	searchFragments,
+	streamAgenticSearch,
 } from "../../api";
 import {
 	dedupeAgenticSourceCitations,
@@ -19,7 +23,7 @@ import {
 import { useKnowledgeNavigation } from "../knowledge/knowledge-domain";
 
 type SearchResultsState = {
-	strategy: "merged" | "text_fallback" | "legacy_retrieve";
+	strategy: "merged" | "text_fallback" | "multi_query" | "legacy_retrieve";
 	selectedResults: RetrievedFragment[];
 	vectorResults: RetrievedFragment[];
 	textResults: RetrievedFragment[];
@@ -31,6 +35,13 @@ type SearchResultsState = {
 		unavailableMessage: string | null;
 	};
 	mergedResults: RetrievedFragment[];
+	queryPlan: QueryPlan | null;
+	rerank: {
+		applied: boolean;
+		reranker: string | null;
+		error?: string;
+	} | null;
+	facets: SourceFacets | null;
 };
 
 type SearchDomainSectionProps = {
@@ -40,6 +51,27 @@ type SearchDomainSectionProps = {
 	availableCategories: string[];
 };
 
+const FACET_FIELDS: SourceFacetField[] = [
+	"category",
+	"tags",
+	"owner",
+	"status",
+];
+
+/** 絞り込み条件に `field:value` を 1 つ追加する。同じ条件があればそのまま返す */
+const appendFacetFilter = (
+	filter: string,
+	field: SourceFacetField,
+	value: string,
+): string => {
+	const condition = /[\s",]/.test(value)
+		? `${field}:"${value.replaceAll('"', "")}"`
+		: `${field}:${value}`;
+	const current = filter.trim();
+	if (current.split(/\s+/).includes(condition)) return current;
+	return current ? `${current} ${condition}` : condition;
+};
+
 const formatScore = (value: number | undefined): string =>
 	typeof value === "number" ? value.toFixed(4) : "-";
 
@@ -54,6 +86,29 @@ const toWebSearchLabel = (provider: string | null | undefined): string => {
 	return "Web Search";
 };
 
+type AgenticProgressStep = {
+	callId: string;
+	tool: string;
+	argsSummary: string;
+	status: AgenticToolTrace["status"] | "running";
+	elapsedMs?: number;
+	resultCount?: number;
+};
+
+const AGENTIC_TOOL_LABELS: Record<string, string> = {
+	search_evidence: "Searching wiki and web",
+	full_text_search: "Searching wiki",
+	vector_search: "Searching wiki (vector)",
+	web_search: "Searching web",
+	wiki_read: "Reading page",
+	fetch: "Fetching URL",
+};
+
+const toAgenticStepLabel = (step: AgenticProgressStep): string => {
+	const label = AGENTIC_TOOL_LABELS[step.tool] ?? step.tool;
+	return step.argsSummary ? `${label}: ${step.argsSummary}` : label;
+};
+
 export const SearchDomainSection = ({
 	active,
 	busy,
@@ -63,14 +118,25 @@ export const SearchDomainSection = ({
 	const { openKnowledge } = useKnowledgeNavigation();
 	const [searchCategory, setSearchCategory] = useState("tech");
 	const [searchQuery, setSearchQuery] = useState("");
+	const [searchFilter, setSearchFilter] = useState("");
+	const [rerankEnabled, setRerankEnabled] = useState(false);
+	const [multiQueryEnabled, setMultiQueryEnabled] = useState(false);
+	const [expandLinksEnabled, setExpandLinksEnabled] = useState(false);
+	const [freshnessEnabled, setFreshnessEnabled] = useState(false);
 	const [searchResults, setSearchResults] = useState<SearchResultsState | null>(
 		null,
 	);
 	const [agenticResult, setAgenticResult] =
 		useState<AgenticSearchResult | null>(null);
+	const [agenticSteps, setAgenticSteps] = useState<AgenticProgressStep[]>([]);
+	const [agenticRunning, setAgenticRunning] = useState(false);
 	const [citationTitleBySlug, setCitationTitleBySlug] = useState<
 		Record<string, string>
 	>({});
+	const agenticAbortRef = useRef<AbortController | null>(null);
+	const agenticCitations = agenticResult?.citations;
+	const linkedResults =
+		searchResults?.selectedResults.filter((item) => item.expandedFrom) ?? [];
 
 	const agenticSourceCitations = useMemo(
 		() =>
@@ -94,15 +160,17 @@ export const SearchDomainSection = ({
 		setSearchCategory(availableCategories[0] ?? "tech");
 	}, [availableCategories, searchCategory]);
 
+	useEffect(() => () => agenticAbortRef.current?.abort(), []);
+
 	useEffect(() => {
-		if (!agenticResult) {
+		if (!agenticCitations) {
 			setCitationTitleBySlug({});
 			return;
 		}
 
 		const wikiSlugs = Array.from(
 			new Set(
-				agenticResult.citations
+				agenticCitations
 					.map((citation) => citation.wikiSlug)
 					.filter((slug): slug is string => Boolean(slug)),
 			),
@@ -136,11 +204,19 @@ export const SearchDomainSection = ({
 		return () => {
 			cancelled = true;
 		};
-	}, [agenticResult]);
+	}, [agenticCitations]);
 
-	const handleSearchFragments = async () => {
-		const query = searchQuery.trim();
+	const resetAgenticSearch = () => {
+		agenticAbortRef.current?.abort();
+		agenticAbortRef.current = null;
+		setAgenticRunning(false);
 		setAgenticResult(null);
+		setAgenticSteps([]);
+	};
+
+	const handleSearchFragments = async (filter = searchFilter) => {
+		const query = searchQuery.trim();
+		resetAgenticSearch();
 		if (!query) {
 			setSearchResults(null);
 			return;
@@ -150,6 +226,11 @@ export const SearchDomainSection = ({
 				query,
 				topK: 12,
 				category: searchCategory === "all" ? undefined : searchCategory,
+				rerank: rerankEnabled,
+				multiQuery: multiQueryEnabled,
+				expandLinks: expandLinksEnabled,
+				freshness: freshnessEnabled,
+				filter: filter.trim() || undefined,
 			});
 			setSearchResults({
 				strategy: response.strategy,
@@ -159,37 +240,127 @@ export const SearchDomainSection = ({
 				webResults: response.webResults,
 				webSearch: response.webSearch,
 				mergedResults: response.mergedResults,
+				rerank: response.rerank,
+				queryPlan: response.queryPlan,
+				facets: response.facets,
 			});
 		});
 	};
 
+	const handleFacetSelect = (field: SourceFacetField, value: string) => {
+		const filter = appendFacetFilter(searchFilter, field, value);
+		setSearchFilter(filter);
+		void handleSearchFragments(filter);
+	};
+
 	const handleAgenticSearch = async () => {
 		const query = searchQuery.trim();
 		setSearchResults(null);
-		if (!query) {
-			setAgenticResult(null);
-			return;
-		}
+		resetAgenticSearch();
+		if (!query) return;
+
+		const controller = new AbortController();
+		agenticAbortRef.current = controller;
+		const partial: AgenticSearchResult = {
+			query,
+			answer: "",
+			citations: [],
+			toolTrace: [],
+		};
+		let answerTurn = 0;
+		setAgenticRunning(true);
 		await runWithBusy(async () => {
-			const response = await agenticSearch({
-				query,
-				topK: 8,
-				category: searchCategory === "all" ? undefined : searchCategory,
-			});
-			setAgenticResult(response);
+			try {
+				await streamAgenticSearch(
+					{
+						query,
+						topK: 8,
+						category: searchCategory === "all" ? undefined : searchCategory,
+						filter: searchFilter.trim() || undefined,
+					},
+					(event) => {
+						switch (event.type) {
+							case "tool_call_start":
+								setAgenticSteps((steps) => [
+									...steps,
+									{
+										callId: event.callId,
+										tool: event.tool,
+										argsSummary: event.argsSummary,
+										status: "running",
+									},
+								]);
+								break;
+							case "tool_call_complete":
+								partial.toolTrace = [
+									...partial.toolTrace,
+									{
+										tool: event.tool,
+										status: event.status,
+										elapsedMs: event.elapsedMs,
+										resultCount: event.resultCount,
+										message: event.message,
+									},
+								];
+								setAgenticSteps((steps) => {
+									const step: AgenticProgressStep = {
+										callId: event.callId,
+										tool: event.tool,
+										argsSummary: event.argsSummary,
+										status: event.status,
+										elapsedMs: event.elapsedMs,
+										resultCount: event.resultCount,
+									};
+									return steps.some((item) => item.callId === event.callId)
+										? steps.map((item) =>
+												item.callId === event.callId ? step : item,
+											)
+										: [...steps, step];
+								});
+								setAgenticResult({ ...partial });
+								break;
+							case "citations":
+								partial.citations = event.citations;
+								setAgenticResult({ ...partial });
+								break;
+							case "answer_delta":
+								// ツール呼び出し前の前置きテキストは最終ターンの回答で置き換える
+								if (event.turn !== answerTurn) {
+									answerTurn = event.turn;
+									partial.answer = "";
+								}
+								partial.answer += event.delta;
+								setAgenticResult({ ...partial });
+								break;
+							case "complete":
+								setAgenticResult(event.result);
+								break;
+						}
+					},
+					controller.signal,
+				);
+			} catch (error) {
+				if (controller.signal.aborted) return;
+				throw error;
+			} finally {
+				if (agenticAbortRef.current === controller) {
+					agenticAbortRef.current = null;
+					setAgenticRunning(false);
+				}
+			}
 		});
 	};
 
 	const handleSearchCategoryChange = (value: string) => {
 		setSearchCategory(value);
 		setSearchResults(null);
-		setAgenticResult(null);
+		resetAgenticSearch();
 	};
 
 	const handleSearchQueryChange = (value: string) => {
 		setSearchQuery(value);
 		setSearchResults(null);
-		setAgenticResult(null);
+		resetAgenticSearch();
 	};
 
 	const renderSearchResult = (
@@ -236,6 +407,10 @@ export const SearchDomainSection = ({
 					{item.sourceHitCount && item.sourceHitCount > 1 ? (
 						<span>chunks={item.sourceHitCount}</span>
 					) : null}
+					{item.contentDate ? <span>updated={item.contentDate}</span> : null}
+					{item.stale ? (
+						<span className="google-result-stale">stale</span>
+					) : null}
 				</div>
 				<div className="google-result-links">
 					{item.wikiSlug ? (
@@ -333,6 +508,45 @@ export const SearchDomainSection = ({
 							className="search-input"
 						/>
 					</div>
+					<input
+						value={searchFilter}
+						onChange={(event) => setSearchFilter(event.target.value)}
+						placeholder="tags:auth status:!deprecated"
+						title="Filter by frontmatter (e.g. tags:auth status:!deprecated updated>2026-01-01)"
+						className="search-input search-filter-input"
+					/>
+					<label className="search-option">
+						<input
+							type="checkbox"
+							checked={rerankEnabled}
+							onChange={(event) => setRerankEnabled(event.target.checked)}
+						/>
+						<span>Rerank</span>
+					</label>
+					<label className="search-option">
+						<input
+							type="checkbox"
+							checked={multiQueryEnabled}
+							onChange={(event) => setMultiQueryEnabled(event.target.checked)}
+						/>
+						<span>Multi-query</span>
+					</label>
+					<label className="search-option">
+						<input
+							type="checkbox"
+							checked={expandLinksEnabled}
+							onChange={(event) => setExpandLinksEnabled(event.target.checked)}
+						/>
+						<span>Linked pages</span>
+					</label>
+					<label className="search-option">
+						<input
+							type="checkbox"
+							checked={freshnessEnabled}
+							onChange={(event) => setFreshnessEnabled(event.target.checked)}
+						/>
+						<span>Prefer recent</span>
+					</label>
 					<button
 						type="button"
 						className="search-btn btn-primary"
@@ -353,6 +567,24 @@ export const SearchDomainSection = ({
 					</button>
 				</div>
 				<div className="list search-list">
+					{agenticRunning && agenticSteps.length > 0 ? (
+						<div className="list compact">
+							{agenticSteps.map((step) => (
+								<div key={step.callId} className="list-item">
+									<div>
+										{toAgenticStepLabel(step)}
+										{step.status === "running" ? "…" : ` (${step.status})`}
+									</div>
+									{step.status !== "running" ? (
+										<small>
+											elapsed={step.elapsedMs ?? 0}ms results=
+											{step.resultCount ?? "-"}
+										</small>
+									) : null}
+								</div>
+							))}
+						</div>
+					) : null}
 					{agenticResult ? (
 						<section className="artifact-row">
 							<header>
@@ -441,7 +673,85 @@ export const SearchDomainSection = ({
 								<span>selected={searchResults.selectedResults.length}</span>
 								<span>merged={searchResults.mergedResults.length}</span>
 								<span>web={searchResults.webResults.length}</span>
+								{linkedResults.length > 0 ? (
+									<span>linked={linkedResults.length}</span>
+								) : null}
+								{searchResults.rerank ? (
+									<span title={searchResults.rerank.error}>
+										rerank=
+										{searchResults.rerank.applied
+											? (searchResults.rerank.reranker ?? "on")
+											: "failed"}
+									</span>
+								) : null}
 							</div>
+							{searchResults.facets ? (
+								<div className="search-facets">
+									{FACET_FIELDS.map((field) => {
+										const counts = searchResults.facets?.[field] ?? [];
+										if (counts.length === 0) return null;
+										return (
+											<div key={field} className="search-facet-group">
+												<small>{field}</small>
+												{counts.map((count) => (
+													<button
+														key={`${field}-${count.value}`}
+														type="button"
+														className="search-facet"
+														title={`${count.pages} pages / ${count.fragments} fragments`}
+														onClick={() =>
+															handleFacetSelect(field, count.value)
+														}
+														disabled={busy}
+													>
+														{count.value} <span>{count.fragments}</span>
+													</button>
+												))}
+											</div>
+										);
+									})}
+								</div>
+							) : null}
+							{linkedResults.length > 0 ? (
+								<div className="list compact">
+									{linkedResults.map((item) => (
+										<button
+											key={`linked-${item.id}`}
+											type="button"
+											className="list-item"
+											onClick={() => {
+												if (item.wikiSlug) openKnowledge(item.wikiSlug);
+											}}
+										>
+											<small>
+												{item.expandedFrom?.relation === "inbound"
+													? "links to"
+													: "linked from"}{" "}
+												{item.expandedFrom?.wikiSlug}
+											</small>
+											<div>{toResultTitle(item)}</div>
+										</button>
+									))}
+								</div>
+							) : null}
+							{searchResults.queryPlan ? (
+								<div className="list compact">
+									{searchResults.queryPlan.queries.map((planned, index) => (
+										<div
+											key={`${planned.kind}-${planned.text}`}
+											className="list-item"
+										>
+											<small>
+												#{index} {planned.kind}
+											</small>
+											<div>{planned.text}</div>
+										</div>
+									))}
+									{searchResults.queryPlan.error ? (
+										<small>{searchResults.queryPlan.error}</small>
+									) : null}
+								</div>
+							) : null}
 							<section className="search-results-column">
 								<header className="search-results-column-header">
 									<h3>Full-text Search</h3>
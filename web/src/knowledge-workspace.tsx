@@ -11,8 +11,11 @@ import {
 	FolderPlus,
 	GitBranch,
 	Home,
+	Link2,
+	Link2Off,
 	Pencil,
 	RefreshCw,
+	RotateCcw,
 	Save,
 	Search,
 	Trash2,
@@ -26,19 +29,27 @@ import {
 	createSourcePage,
 	deleteSourceFolder,
 	deleteSourcePage,
+	fetchBrokenSourceLinks,
+	fetchSourceBacklinks,
 	fetchSourceDiff,
 	fetchSourceHealth,
 	fetchSourceHistory,
 	fetchSourcePage,
 	fetchSourceTree,
 	renameSourceFolder,
+	restoreSourcePage,
 	runSourceReindex,
 	searchSourcePages,
+	type SourceBacklink,
+	type SourceBrokenLink,
 	type SourceHealth,
 	type SourceHistoryItem,
+	type SourcePageConflict,
+	SourcePageConflictError,
 	type SourceTreeResponse,
 	updateSourcePage,
 } from "./api";
+import { PageConflictView } from "./page-conflict-view";
 
 mermaid.initialize({ startOnLoad: false });
 
@@ -278,10 +289,19 @@ export function KnowledgeWorkspace({
 	const [draftSlug, setDraftSlug] = useState("");
 	const [draftTitle, setDraftTitle] = useState("");
 	const [draftTags, setDraftTags] = useState("");
+	const [draftEditSummary, setDraftEditSummary] = useState("");
+	const [draftRevision, setDraftRevision] = useState("");
+	const [pageConflict, setPageConflict] = useState<SourcePageConflict | null>(
+		null,
+	);
 	const [draftBody, setDraftBody] = useState(initialBody);
 	const [draftMeta, setDraftMeta] = useState<Record<string, unknown>>({});
 
 	const [sourceHistory, setSourceHistory] = useState<SourceHistoryItem[]>([]);
+	const [sourceBacklinks, setSourceBacklinks] = useState<SourceBacklink[]>([]);
+	const [brokenLinks, setBrokenLinks] = useState<SourceBrokenLink[] | null>(
+		null,
+	);
 	const [diffFrom, setDiffFrom] = useState("");
 	const [diffTo, setDiffTo] = useState("");
 	const [sourceDiff, setSourceDiff] = useState("");
@@ -300,11 +320,16 @@ export function KnowledgeWorkspace({
 	);
 
 	const busy = mutating;
+	const redirectTarget =
+		typeof draftMeta.redirectTo === "string" ? draftMeta.redirectTo : null;
 
 	const clearDraft = () => {
 		setDraftSlug("");
 		setDraftTitle("");
 		setDraftTags("");
+		setDraftEditSummary("");
+		setDraftRevision("");
+		setPageConflict(null);
 		setDraftBody(initialBody);
 		setDraftMeta({});
 	};
@@ -425,6 +450,9 @@ export function KnowledgeWorkspace({
 				setDraftSlug(page.slug);
 				setDraftTitle(page.title);
 				setDraftTags(tagsInputFromMeta(page.meta));
+				setDraftEditSummary("");
+				setDraftRevision(page.revision);
+				setPageConflict(null);
 				setDraftBody(page.body);
 				setDraftMeta(page.meta);
 				setSelectedPagePath(page.path);
@@ -441,6 +469,26 @@ export function KnowledgeWorkspace({
 		};
 	}, [isCreating, selectedSlug]);
 
+	useEffect(() => {
+		if (isCreating || selectedSlug === null) {
+			setSourceBacklinks([]);
+			return;
+		}
+		let cancelled = false;
+		void (async () => {
+			try {
+				const backlinks = await fetchSourceBacklinks(selectedSlug);
+				if (!cancelled) setSourceBacklinks(backlinks);
+			} catch {
+				// リンク情報は検索インデックスから引くため、取得できなくてもページ表示は続ける
+				if (!cancelled) setSourceBacklinks([]);
+			}
+		})();
+		return () => {
+			cancelled = true;
+		};
+	}, [isCreating, selectedSlug]);
+
 	useEffect(() => {
 		if (sourceHistory.length < 2) return;
 		const latest = sourceHistory[0];
@@ -495,6 +543,9 @@ export function KnowledgeWorkspace({
 		setDraftSlug(nextSlug);
 		setDraftTitle("Untitled");
 		setDraftTags("");
+		setDraftEditSummary("");
+		setDraftRevision("");
+		setPageConflict(null);
 		setDraftBody(initialBody);
 		setDraftMeta({});
 		setDiffFrom("");
@@ -525,6 +576,7 @@ export function KnowledgeWorkspace({
 				title: draftTitle.trim() || baseNameOf(slug, "Home"),
 				body: draftBody,
 				meta: draftMeta,
+				revision: draftRevision,
 			};
 		}
 		const page = await fetchSourcePage(slug);
@@ -532,6 +584,7 @@ export function KnowledgeWorkspace({
 			title: page.title,
 			body: page.body,
 			meta: page.meta,
+			revision: page.revision,
 		};
 	};
 
@@ -539,6 +592,7 @@ export function KnowledgeWorkspace({
 		slug: string,
 		targetSlug: string,
 		message: string,
+		options: { redirect?: boolean } = {},
 	) => {
 		const normalizedTarget = trimSlug(targetSlug);
 		if (normalizedTarget === slug) {
@@ -553,6 +607,8 @@ export function KnowledgeWorkspace({
 				body: payload.body,
 				meta: payload.meta,
 				commitMessage: message,
+				revision: payload.revision,
+				redirect: options.redirect,
 			});
 			const tree = await refreshTree();
 			setIsCreating(false);
@@ -561,7 +617,10 @@ export function KnowledgeWorkspace({
 			if (!tree.items.find((item) => item.slug === nextSlug)) {
 				setSelectedSlug(tree.items[0]?.slug ?? null);
 			}
-			setStatusText(`Page renamed: ${slug || "home"} -> ${nextSlug || "home"}`);
+			const rewritten = result.rewrittenPages?.length ?? 0;
+			setStatusText(
+				`Page renamed: ${slug || "home"} -> ${nextSlug || "home"}${rewritten > 0 ? ` (updated links in ${rewritten} pages)` : ""}`,
+			);
 		});
 	};
 
@@ -627,9 +686,11 @@ export function KnowledgeWorkspace({
 					title: draftTitle.trim(),
 					body: draftBody,
 					meta: draftMeta,
+					editSummary: draftEditSummary.trim() || undefined,
 				});
 				await refreshTree();
 				const nextSlug = result.slug ?? normalizedSlug;
+				setDraftEditSummary("");
 				setIsCreating(false);
 				setSelectedFolderPath(null);
 				setSelectedSlug(nextSlug);
@@ -644,19 +705,100 @@ export function KnowledgeWorkspace({
 		}
 
 		await withMutating(async () => {
-			const result = await updateSourcePage(selectedSlug, {
-				slug: normalizedSlug,
-				title: draftTitle.trim(),
-				body: draftBody,
-				meta: draftMeta,
-			});
+			let result: Awaited<ReturnType<typeof updateSourcePage>>;
+			try {
+				result = await updateSourcePage(selectedSlug, {
+					slug: normalizedSlug,
+					title: draftTitle.trim(),
+					body: draftBody,
+					meta: draftMeta,
+					editSummary: draftEditSummary.trim() || undefined,
+					revision: draftRevision,
+				});
+			} catch (error) {
+				if (error instanceof SourcePageConflictError) {
+					setPageConflict(error.conflict);
+				}
+				throw error;
+			}
 			await refreshTree();
 			const nextSlug = result.slug ?? normalizedSlug;
+			setDraftEditSummary("");
+			setDraftRevision(result.revision ?? "");
+			setPageConflict(null);
 			setSelectedSlug(nextSlug);
 			setStatusText(`Saved: ${nextSlug || "home"}`);
 		});
 	};
 
+	const resolveConflictWith = (body: string, label: string) => {
+		if (!pageConflict) return;
+		setDraftBody(body);
+		setDraftRevision(pageConflict.revision);
+		setPageConflict(null);
+		setErrorText(null);
+		setMode("edit");
+		setStatusText(`${label}. Review the page and save again.`);
+	};
+
+	const discardDraftForLatest = async () => {
+		if (selectedSlug === null) return;
+		await withMutating(async () => {
+			const page = await fetchSourcePage(selectedSlug);
+			setDraftTitle(page.title);
+			setDraftTags(tagsInputFromMeta(page.meta));
+			setDraftBody(page.body);
+			setDraftMeta(page.meta);
+			setDraftRevision(page.revision);
+			setPageConflict(null);
+			setStatusText("Loaded the latest version.");
+		});
+	};
+
+	const restoreSelectedVersion = async () => {
+		if (selectedSlug === null || !diffTo) return;
+		const confirmed = window.confirm(
+			`Restore ${selectedSlug || "home"} to ${shortCommit(diffTo)}?\nThe current content stays in the history and unsaved edits are discarded.`,
+		);
+		if (!confirmed) return;
+		await withMutating(async () => {
+			const result = await restoreSourcePage(selectedSlug, { commit: diffTo });
+			const [page, history] = await Promise.all([
+				fetchSourcePage(selectedSlug),
+				fetchSourceHistory(selectedSlug),
+				refreshTree(),
+			]);
+			setDraftTitle(page.title);
+			setDraftTags(tagsInputFromMeta(page.meta));
+			setDraftEditSummary("");
+			setDraftBody(page.body);
+			setDraftMeta(page.meta);
+			setDraftRevision(page.revision);
+			setPageConflict(null);
+			setSourceHistory(history);
+			setDiffFrom("");
+			setDiffTo("");
+			setStatusText(
+				`Restored: ${selectedSlug || "home"} to ${shortCommit(result.restoredFrom)}`,
+			);
+		});
+	};
+
+	const toggleBrokenLinks = async () => {
+		if (brokenLinks !== null) {
+			setBrokenLinks(null);
+			return;
+		}
+		try {
+			setErrorText(null);
+			setBrokenLinks(await fetchBrokenSourceLinks());
+		} catch (error) {
+			setErrorText(
+				error instanceof Error ? error.message : "Failed to load broken links.",
+			);
+		}
+	};
+
 	const deletePageBySlug = async (slug: string) => {
 		const confirmed = window.confirm(`Delete page: ${slug || "home"}?`);
 		if (!confirmed) return;
@@ -749,10 +891,18 @@ export function KnowledgeWorkspace({
 		const input = window.prompt("New page name or slug", slug || "index");
 		if (input === null) return;
 		const targetSlug = resolveSiblingPath(slug, input === "index" ? "" : input);
+		if (trimSlug(targetSlug) === slug) {
+			setStatusText("Page slug is unchanged.");
+			return;
+		}
+		const redirect = window.confirm(
+			"Leave a redirect page at the old location?\nLinks in other wiki pages are updated either way.",
+		);
 		await renamePageToSlug(
 			slug,
 			targetSlug,
 			`docs(page): rename ${slug || "home"}`,
+			{ redirect },
 		);
 	};
 
@@ -1104,12 +1254,47 @@ export function KnowledgeWorkspace({
 							placeholder="hono, rag, postgres"
 						/>
 					</label>
+					{mode === "edit" ? (
+						<label className="span-2">
+							Edit summary (optional)
+							<input
+								value={draftEditSummary}
+								maxLength={500}
+								onChange={(event) => setDraftEditSummary(event.target.value)}
+								placeholder="What did you change?"
+							/>
+						</label>
+					) : null}
 				</div>
 
 				{errorText ? (
 					<div className="section-status error">{errorText}</div>
 				) : null}
 				{statusText ? <div className="section-status">{statusText}</div> : null}
+				{redirectTarget && !isCreating ? (
+					<div className="section-status redirect-notice">
+						This page has moved to{" "}
+						<button
+							type="button"
+							onClick={() => selectExistingPage(redirectTarget)}
+						>
+							{redirectTarget || "home"}
+						</button>
+					</div>
+				) : null}
+				{pageConflict ? (
+					<PageConflictView
+						conflict={pageConflict}
+						busy={busy}
+						onUseMerged={(merged) =>
+							resolveConflictWith(merged, "Merged with the latest version")
+						}
+						onKeepMine={() =>
+							resolveConflictWith(pageConflict.mine, "Kept your version")
+						}
+						onUseTheirs={() => void discardDraftForLatest()}
+					/>
+				) : null}
 
 				<div className="knowledge-editor">
 					<MarkdownEditor
@@ -1143,8 +1328,88 @@ export function KnowledgeWorkspace({
 						<span>{selectedPagePath || "-"}</span>
 					</div>
 				</div>
+				<div className="panel-header sub">
+					<h3>Backlinks</h3>
+					<div className="actions">
+						<button
+							type="button"
+							title="List links to pages that do not exist"
+							className={brokenLinks !== null ? "active" : ""}
+							onClick={() => void toggleBrokenLinks()}
+						>
+							<Link2Off className="icon" />
+							Broken links
+						</button>
+					</div>
+				</div>
+				<div className="list compact backlinks">
+					{brokenLinks !== null ? (
+						<>
+							{brokenLinks.map((link) => (
+								<button
+									key={`broken-${link.sourceSlug}-${link.targetSlug}`}
+									type="button"
+									className="list-item"
+									onClick={() => selectExistingPage(link.sourceSlug)}
+								>
+									<div>
+										<Link2Off className="icon" />
+										{link.sourceTitle ?? (link.sourceSlug || "home")}
+									</div>
+									<small>
+										{link.linkText} → {link.targetSlug}
+									</small>
+								</button>
+							))}
+							{brokenLinks.length === 0 ? (
+								<div className="tree-info">No broken links.</div>
+							) : null}
+						</>
+					) : (
+						<>
+							{sourceBacklinks.map((link) => (
+								<button
+									key={`backlink-${link.slug}`}
+									type="button"
+									className="list-item"
+									onClick={() => selectExistingPage(link.slug)}
+								>
+									<div>
+										<Link2 className="icon" />
+										{link.title ?? (link.slug || "home")}
+									</div>
+									<small>
+										{link.slug || "home"} ·{" "}
+										{link.kind === "wiki"
+											? `[[${link.linkText}]]`
+											: link.linkText}
+									</small>
+								</button>
+							))}
+							{sourceBacklinks.length === 0 ? (
+								<div className="tree-info">No pages link here.</div>
+							) : null}
+						</>
+					)}
+				</div>
 				<div className="panel-header sub">
 					<h3>History</h3>
+					<div className="actions">
+						<button
+							type="button"
+							title="Restore the page to the commit selected in To"
+							onClick={() => void restoreSelectedVersion()}
+							disabled={
+								busy ||
+								isCreating ||
+								!diffTo ||
+								diffTo === sourceHistory[0]?.commit
+							}
+						>
+							<RotateCcw className="icon" />
+							Restore this version
+						</button>
+					</div>
 				</div>
 				<div className="list compact">
 					{sourceHistory.map((item) => (
@@ -1155,7 +1420,10 @@ export function KnowledgeWorkspace({
 							onClick={() => setDiffTo(item.commit)}
 						>
 							<div>{item.message}</div>
-							<small>
+							{item.summary ? (
+								<div className="history-summary">{item.summary}</div>
+							) : null}
+							<small title={item.authorEmail}>
 								{shortCommit(item.commit)} {item.author}{" "}
 								{formatDateTime(item.date)}
 							</small>
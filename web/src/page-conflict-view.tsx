@@ -0,0 +1,78 @@
+import { GitMerge } from "lucide-react";
+import { useEffect, useState } from "react";
+import type { SourcePageConflict } from "./api";
+
+type PageConflictViewProps = {
+	conflict: SourcePageConflict;
+	busy: boolean;
+	onUseMerged: (merged: string) => void;
+	onKeepMine: () => void;
+	onUseTheirs: () => void;
+};
+
+/** 保存時に他の人の編集と競合したページの 3-way マージ画面 */
+export function PageConflictView({
+	conflict,
+	busy,
+	onUseMerged,
+	onKeepMine,
+	onUseTheirs,
+}: PageConflictViewProps) {
+	const [merged, setMerged] = useState(conflict.merged ?? conflict.mine);
+
+	useEffect(() => {
+		setMerged(conflict.merged ?? conflict.mine);
+	}, [conflict]);
+
+	const hint =
+		conflict.merged === null
+			? "The version you started from is not in the history, so no automatic merge was possible."
+			: conflict.hasConflicts
+				? "Some lines were changed on both sides. Resolve the <<<<<<< / >>>>>>> markers in the merged text."
+				: "The changes merged cleanly. Check the merged text before saving.";
+
+	return (
+		<div className="page-conflict">
+			<div className="page-conflict-header">
+				<GitMerge className="icon" />
+				<strong>
+					This page was changed by someone else while you edited it.
+				</strong>
+			</div>
+			<p className="page-conflict-hint">{hint}</p>
+			<div className="page-conflict-columns">
+				<label>
+					Latest version
+					<textarea value={conflict.theirs} readOnly rows={14} />
+				</label>
+				<label>
+					Your version
+					<textarea value={conflict.mine} readOnly rows={14} />
+				</label>
+				<label>
+					Merged
+					<textarea
+						value={merged}
+						onChange={(event) => setMerged(event.target.value)}
+						rows={14}
+					/>
+				</label>
+			</div>
+			<div className="page-conflict-actions">
+				<button
+					type="button"
+					onClick={() => onUseMerged(merged)}
+					disabled={busy}
+				>
+					Use merged text
+				</button>
+				<button type="button" onClick={onKeepMine} disabled={busy}>
+					Keep my version
+				</button>
+				<button type="button" onClick={onUseTheirs} disabled={busy}>
+					Discard my changes
+				</button>
+			</div>
+		</div>
+	);
+}